@@ -0,0 +1,172 @@
+/**
+ * @jest-environment node
+ */
+import {
+  ADMIN_SESSION_TTL_MS,
+  checkAdminPassword,
+  issueAdminSession,
+  leadFiltersToSearchParams,
+  leadsToCsv,
+  parseLeadFilters,
+  toLeadQuery,
+  verifyAdminSession,
+} from '../lib/admin';
+import { setConfig } from '../lib/config';
+import { createLeadRecord, LEAD_STATUS_TRANSITIONS, LEAD_STATUSES } from '../lib/leads';
+
+/**
+ * Feature: admin-leads
+ *
+ * Only holders of the admin password get a session, sessions cannot be forged
+ * or outlive their expiry, dashboard filters survive hand-edited URLs and the
+ * CSV export opens cleanly in spreadsheet apps.
+ */
+
+const NOW = Date.parse('2026-10-19T04:30:00.000Z');
+
+describe('Admin sessions', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env, ADMIN_PASSWORD: 'correct horse', ADMIN_SESSION_SECRET: 'test-secret' };
+    setConfig(null);
+  });
+
+  afterEach(() => {
+    process.env = env;
+    setConfig(null);
+  });
+
+  it('checks the password', () => {
+    expect(checkAdminPassword('correct horse')).toBe(true);
+    expect(checkAdminPassword('correct horse ')).toBe(false);
+    expect(checkAdminPassword('')).toBe(false);
+  });
+
+  it('accepts its own sessions until they expire', () => {
+    const token = issueAdminSession('Priya', NOW);
+
+    expect(verifyAdminSession(token, NOW + 1000)).toEqual({
+      name: 'Priya',
+      expiresAt: NOW + ADMIN_SESSION_TTL_MS,
+    });
+    expect(verifyAdminSession(token, NOW + ADMIN_SESSION_TTL_MS)).toBeNull();
+  });
+
+  it('rejects tampered, foreign and malformed tokens', () => {
+    const [encoded, signature] = issueAdminSession('Priya', NOW).split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ name: 'Priya', expiresAt: NOW + 10 * ADMIN_SESSION_TTL_MS })
+    ).toString('base64url');
+
+    expect(verifyAdminSession(`${forged}.${signature}`, NOW)).toBeNull();
+    expect(verifyAdminSession(encoded, NOW)).toBeNull();
+    expect(verifyAdminSession('not-a-token', NOW)).toBeNull();
+    expect(verifyAdminSession(undefined, NOW)).toBeNull();
+
+    process.env.ADMIN_SESSION_SECRET = 'rotated';
+    setConfig(null);
+    expect(verifyAdminSession(`${encoded}.${signature}`, NOW)).toBeNull();
+  });
+
+  it('keeps the admin area closed without a password', () => {
+    const token = issueAdminSession('Priya', NOW);
+    delete process.env.ADMIN_PASSWORD;
+    setConfig(null);
+
+    expect(checkAdminPassword('')).toBe(false);
+    expect(verifyAdminSession(token, NOW)).toBeNull();
+  });
+});
+
+describe('Lead filters', () => {
+  it('keeps valid filters and drops the rest', () => {
+    const filters = parseLeadFilters(
+      new URLSearchParams({
+        q: '  villa ',
+        status: 'site-visit',
+        projectType: 'Industrial Facility',
+        budget: 'Lots',
+        from: '2026-10-01',
+        to: '2026-13-45',
+        page: '-2',
+      })
+    );
+
+    expect(filters).toEqual({
+      q: 'villa',
+      status: 'site-visit',
+      projectType: 'Industrial Facility',
+      budget: undefined,
+      from: '2026-10-01',
+      to: undefined,
+      page: 1,
+    });
+    expect(parseLeadFilters({ status: ['won', 'lost'], page: '3' })).toMatchObject({
+      status: 'won',
+      page: 3,
+    });
+  });
+
+  it('covers whole days in the office time zone', () => {
+    const query = toLeadQuery(
+      parseLeadFilters({ from: '2026-10-01', to: '2026-10-19' }),
+      'Asia/Kolkata'
+    );
+
+    expect(query.since).toBe('2026-09-30T18:30:00.000Z');
+    expect(query.until).toBe('2026-10-19T18:30:00.000Z');
+  });
+
+  it('round-trips through the query string', () => {
+    const filters = parseLeadFilters({ q: 'a&b', budget: 'Not Sure', page: '2' });
+    const query = leadFiltersToSearchParams(filters);
+
+    expect(parseLeadFilters(new URLSearchParams(query))).toEqual(filters);
+    expect(leadFiltersToSearchParams(filters, { page: 1 })).not.toContain('page');
+  });
+});
+
+describe('Lead pipeline', () => {
+  it('only moves between known stages and closes won leads', () => {
+    for (const status of LEAD_STATUSES) {
+      expect(LEAD_STATUS_TRANSITIONS[status]).not.toContain(status);
+      for (const next of LEAD_STATUS_TRANSITIONS[status]) {
+        expect(LEAD_STATUSES).toContain(next);
+      }
+    }
+    expect(LEAD_STATUS_TRANSITIONS.won).toEqual([]);
+    expect(LEAD_STATUS_TRANSITIONS.new).not.toContain('won');
+  });
+});
+
+describe('CSV export', () => {
+  it('quotes cells that need it and starts with a byte order mark', () => {
+    const lead = {
+      ...createLeadRecord(
+        'SUB-1',
+        {
+          name: 'Rao, Asha',
+          email: 'asha@example.com',
+          phone: '',
+          projectType: 'Residential Construction',
+          budget: 'Not Sure',
+          message: 'Plot is "40x60".\nCorner site.',
+          projectDetails: { plotSize: 2400, floors: 3, bhk: 4 },
+        },
+        '203.0.113.7'
+      ),
+      createdAt: '2026-10-19T04:30:00.000Z',
+    };
+
+    const csv = leadsToCsv([lead]);
+    const [header, row] = csv.slice(1).split('\r\n');
+
+    expect(csv.charCodeAt(0)).toBe(0xfeff);
+    expect(csv.endsWith('\r\n')).toBe(true);
+    expect(header.split(',')[0]).toBe('Submission ID');
+    expect(row).toContain('SUB-1,2026-10-19T04:30:00.000Z,New,"Rao, Asha",asha@example.com,,');
+    expect(csv).toContain('"Plot is ""40x60"".\nCorner site."');
+    expect(row).toContain('Plot Size: 2400 sq ft; Number of Floors: 3; Bedrooms (BHK): 4');
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  parseAllowedOrigins,
+  withApiRoute,
+  type ApiRouteContext,
+  type JsonBody,
+} from '../lib/http';
+import { setConfig } from '../lib/config';
+import { createLogger, setLogger } from '../lib/logging';
+
+/**
+ * Feature: API route hardening
+ *
+ * Every API route goes through one wrapper that tags the request with an ID,
+ * refuses cross-site calls to state-changing routes, and only hands the
+ * handler bodies of an accepted type and size that parse.
+ */
+
+const SITE = 'https://sbinfraprojects.com';
+
+function post(body: BodyInit | null, headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest(`${SITE}/api/test`, {
+    method: 'POST',
+    headers: { host: 'sbinfraprojects.com', 'content-type': 'application/json', ...headers },
+    body,
+  });
+}
+
+const noParams = { params: Promise.resolve({}) };
+
+describe('withApiRoute', () => {
+  const handler = jest.fn(async (_request: NextRequest, { body }: ApiRouteContext<JsonBody>) =>
+    NextResponse.json({ success: true, received: body })
+  );
+  const route = withApiRoute(
+    { route: 'POST /api/test', contentTypes: ['application/json'], maxBodyBytes: 64 },
+    handler
+  );
+
+  beforeEach(() => {
+    handler.mockClear();
+    setLogger(createLogger({ level: 'silent' }));
+  });
+
+  afterEach(() => {
+    setLogger(null);
+    delete process.env.ALLOWED_ORIGINS;
+    setConfig(null);
+  });
+
+  test('hands the parsed JSON object to the handler and tags the response', async () => {
+    const response = await route(
+      post('{"name":"Asha"}', { 'x-request-id': 'req-12345678' }),
+      noParams
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ success: true, received: { name: 'Asha' } });
+    expect(response.headers.get('x-request-id')).toBe('req-12345678');
+  });
+
+  test('rejects other content types before reading the body', async () => {
+    const response = await route(post('name=Asha', { 'content-type': 'text/plain' }), noParams);
+
+    expect(response.status).toBe(415);
+    await expect(response.json()).resolves.toMatchObject({
+      code: 'unsupported_media_type',
+      error: 'Unsupported media type',
+    });
+    expect(response.headers.get('x-request-id')).toBeTruthy();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  test('rejects bodies over the limit, whether declared or streamed', async () => {
+    const declared = await route(post('{}', { 'content-length': '65' }), noParams);
+    expect(declared.status).toBe(413);
+
+    const chunks = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(`{"message":"${'x'.repeat(40)}`));
+        controller.enqueue(new TextEncoder().encode(`${'x'.repeat(40)}"}`));
+        controller.close();
+      },
+    });
+    const streamed = await route(
+      new NextRequest(
+        new Request(`${SITE}/api/test`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: chunks,
+          duplex: 'half',
+        } as RequestInit)
+      ),
+      noParams
+    );
+    expect(streamed.status).toBe(413);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  test('answers malformed JSON and non-object bodies with a typed 400', async () => {
+    const malformed = await route(post('{"name":'), noParams);
+    expect(malformed.status).toBe(400);
+    await expect(malformed.json()).resolves.toEqual({
+      success: false,
+      code: 'invalid_json',
+      error: 'Invalid JSON',
+      message: 'The request body is not valid JSON.',
+    });
+
+    for (const body of ['null', '[]', '"text"', '']) {
+      const response = await route(post(body), noParams);
+      expect(response.status).toBe(400);
+    }
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  test('accepts the site, allow-listed origins and clients that send no origin', async () => {
+    process.env.ALLOWED_ORIGINS = 'https://staging.sbinfraprojects.com/';
+    setConfig(null);
+
+    const allowed: Record<string, string>[] = [
+      { origin: SITE },
+      { origin: 'https://staging.sbinfraprojects.com' },
+      { referer: `${SITE}/contact` },
+      {},
+    ];
+    for (const headers of allowed) {
+      expect((await route(post('{}', headers), noParams)).status).toBe(200);
+    }
+
+    const rejected: Record<string, string>[] = [
+      { origin: 'https://evil.example' },
+      { origin: 'null' },
+      { referer: 'https://evil.example/sbinfraprojects.com' },
+    ];
+    for (const headers of rejected) {
+      const response = await route(post('{}', headers), noParams);
+      expect(response.status).toBe(403);
+    }
+    expect(handler).toHaveBeenCalledTimes(allowed.length);
+  });
+
+  test('reads multipart forms and leaves safe methods without a body alone', async () => {
+    const upload = withApiRoute(
+      { route: 'POST /api/upload', contentTypes: ['multipart/form-data'] },
+      async (_request, { body }) => NextResponse.json({ name: body.get('name') })
+    );
+    const form = new FormData();
+    form.set('name', 'Asha');
+    const multipart = await upload(
+      new NextRequest(`${SITE}/api/upload`, { method: 'POST', body: form }),
+      noParams
+    );
+    await expect(multipart.json()).resolves.toEqual({ name: 'Asha' });
+
+    const lookup = withApiRoute(
+      { route: 'GET /api/items/[itemId]' },
+      async (_request, { body, params }: ApiRouteContext<null, { itemId: string }>) =>
+        NextResponse.json({ body, itemId: params.itemId })
+    );
+    const response = await lookup(
+      new NextRequest(`${SITE}/api/items/42`, { headers: { origin: 'https://evil.example' } }),
+      { params: Promise.resolve({ itemId: '42' }) }
+    );
+    await expect(response.json()).resolves.toEqual({ body: null, itemId: '42' });
+  });
+
+  test('turns errors thrown by the handler into a 500', async () => {
+    const failing = withApiRoute({ route: 'GET /api/failing' }, async () => {
+      throw new Error('Database is locked');
+    });
+    const response = await failing(new NextRequest(`${SITE}/api/failing`), noParams);
+
+    expect(response.status).toBe(500);
+    await expect(response.json()).resolves.toMatchObject({
+      code: 'internal_error',
+      error: 'Internal server error',
+    });
+    expect(response.headers.get('x-request-id')).toBeTruthy();
+  });
+});
+
+describe('Allowed origins', () => {
+  test('are normalized and must be http(s) URLs', () => {
+    expect(parseAllowedOrigins(' https://a.example/path , http://localhost:3000 ')).toEqual([
+      'https://a.example',
+      'http://localhost:3000',
+    ]);
+    expect(parseAllowedOrigins(undefined)).toEqual([]);
+    expect(() => parseAllowedOrigins('ftp://files.example')).toThrow(/ALLOWED_ORIGINS/);
+  });
+});
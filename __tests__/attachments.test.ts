@@ -0,0 +1,167 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  ATTACHMENT_LIMITS,
+  LocalAttachmentStorage,
+  checkAttachmentList,
+  cleanFileName,
+  inspectAttachments,
+  sniffAttachmentKind,
+} from '../lib/attachments';
+import { SqliteLeadRepository, createLeadRecord, type ContactSubmission } from '../lib/leads';
+import { renderLeadNotification } from '../lib/mail';
+
+/**
+ * Feature: contact-attachments
+ *
+ * Uploaded site plans and photos are accepted only when their contents match
+ * their extension and they fit the size limits; stored files are linked to the lead.
+ */
+
+const SIGNATURES = {
+  pdf: [0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x37],
+  jpg: [0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46],
+  png: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  dwg: Array.from('AC1032', (char) => char.charCodeAt(0)),
+};
+
+function fileWith(name: string, header: number[], size = 64): File {
+  const bytes = new Uint8Array(size);
+  bytes.set(header);
+  return new File([bytes], name);
+}
+
+const submission: ContactSubmission = {
+  name: 'Asha Rao',
+  email: 'asha@example.com',
+  phone: '9845012345',
+  projectType: 'Residential Construction',
+  budget: 'Not Sure',
+  message: 'Survey and reference photos attached.',
+};
+
+describe('sniffAttachmentKind', () => {
+  it.each(Object.entries(SIGNATURES))('recognizes %s contents', (kind, header) => {
+    expect(sniffAttachmentKind(new Uint8Array(header))).toBe(kind);
+  });
+
+  it('rejects anything else', () => {
+    expect(sniffAttachmentKind(new Uint8Array([0x4d, 0x5a, 0x90, 0x00]))).toBeNull();
+    expect(sniffAttachmentKind(new TextEncoder().encode('<svg onload="x">'))).toBeNull();
+  });
+});
+
+describe('checkAttachmentList', () => {
+  it('enforces file types, per-file and total size limits', () => {
+    const limits = { maxFiles: 2, maxFileBytes: 100, maxTotalBytes: 150 };
+
+    expect(checkAttachmentList([{ name: 'plot.PDF', size: 100 }], limits)).toBeNull();
+    expect(checkAttachmentList([{ name: 'setup.exe', size: 10 }], limits)).toMatch(
+      /not a supported/
+    );
+    expect(checkAttachmentList([{ name: 'plot.pdf', size: 101 }], limits)).toMatch(/larger than/);
+    expect(
+      checkAttachmentList(
+        [
+          { name: 'a.png', size: 80 },
+          { name: 'b.png', size: 80 },
+        ],
+        limits
+      )
+    ).toMatch(/must total/);
+    expect(checkAttachmentList(Array(3).fill({ name: 'a.png', size: 1 }), limits)).toMatch(
+      /up to 2 files/
+    );
+  });
+});
+
+describe('inspectAttachments', () => {
+  it('accepts files whose contents match their extension', async () => {
+    const result = await inspectAttachments([
+      fileWith('survey.pdf', SIGNATURES.pdf),
+      fileWith('site.jpeg', SIGNATURES.jpg),
+      fileWith('layout.dwg', SIGNATURES.dwg),
+    ]);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.attachments.map(({ kind, mimeType }) => [kind, mimeType])).toEqual([
+        ['pdf', 'application/pdf'],
+        ['jpg', 'image/jpeg'],
+        ['dwg', 'image/vnd.dwg'],
+      ]);
+    }
+  });
+
+  it('rejects renamed files and oversized uploads', async () => {
+    await expect(
+      inspectAttachments([fileWith('photo.png', SIGNATURES.pdf)])
+    ).resolves.toMatchObject({ ok: false, status: 400, message: expect.stringMatching(/PNG/) });
+    await expect(
+      inspectAttachments([fileWith('plan.pdf', SIGNATURES.pdf, ATTACHMENT_LIMITS.maxFileBytes + 1)])
+    ).resolves.toMatchObject({ ok: false, status: 413 });
+  });
+
+  it('strips paths and control characters from file names', () => {
+    expect(cleanFileName('C:\\Users\\asha\\plot\u0007.pdf')).toBe('plot.pdf');
+    expect(cleanFileName('../../etc/passwd')).toBe('passwd');
+  });
+});
+
+describe('LocalAttachmentStorage', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'attachments-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores files and links them to the lead', async () => {
+    const storage = new LocalAttachmentStorage(join(dir, 'files'));
+    const data = new Uint8Array([...SIGNATURES.png, 1, 2, 3]);
+    const stored = await storage.save('SUB-1', {
+      fileName: '../plot.png',
+      kind: 'png',
+      mimeType: 'image/png',
+      data,
+    });
+
+    expect(stored.storageKey).toMatch(/^SUB-1\/[0-9a-f-]+\.png$/);
+    expect(stored.size).toBe(data.byteLength);
+    await expect(storage.read(stored)).resolves.toEqual(data);
+
+    const repository = new SqliteLeadRepository(join(dir, 'leads.db'));
+    await repository.create(createLeadRecord('SUB-1', submission, '203.0.113.7', [stored]));
+    const lead = await repository.findById('SUB-1');
+    repository.close();
+
+    expect(lead?.attachments).toEqual([stored]);
+    expect(renderLeadNotification(lead!).text).toContain(`- ../plot.png (PNG, 11 B)`);
+
+    await storage.remove(stored);
+    await expect(storage.read(stored)).rejects.toThrow();
+  });
+
+  it('refuses keys outside the storage directory', async () => {
+    const storage = new LocalAttachmentStorage(dir);
+    await expect(
+      storage.read({
+        attachmentId: 'x',
+        fileName: 'x.pdf',
+        kind: 'pdf',
+        mimeType: 'application/pdf',
+        size: 1,
+        sha256: '',
+        storageKey: '../outside.pdf',
+        storedAt: '',
+      })
+    ).rejects.toThrow(/outside/);
+  });
+});
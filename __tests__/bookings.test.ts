@@ -0,0 +1,229 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  FileBookingRepository,
+  SqliteBookingRepository,
+  availableSlots,
+  bookingRequestSchema,
+  findBookableSlot,
+  listSlots,
+  parseWorkingHours,
+  renderBookingIcs,
+  zonedTimeToInstant,
+  type AvailabilityConfig,
+  type Booking,
+  type BookingRepository,
+} from '../lib/bookings';
+import { CONSENT_VERSION } from '../lib/privacy/consent';
+
+/**
+ * Feature: bookings
+ *
+ * Slots follow the configured working hours, holidays and slot length in the
+ * office time zone; a slot can only be reserved once, however many requests
+ * race for it; confirmed bookings render as valid calendar invites.
+ */
+
+const CONFIG: AvailabilityConfig = {
+  timeZone: 'Asia/Kolkata',
+  workingHours: parseWorkingHours('mon-fri 09:00-12:00, sat 10:00-11:00'),
+  holidays: ['2026-10-22'],
+  slotMinutes: 60,
+  minNoticeHours: 24,
+  horizonDays: 7,
+};
+
+// Monday 19 Oct 2026, 10:00 in Kolkata
+const NOW = new Date('2026-10-19T04:30:00.000Z');
+
+function makeBooking(start: string, overrides: Partial<Booking> = {}): Booking {
+  const end = new Date(Date.parse(start) + 60 * 60 * 1000).toISOString();
+  return {
+    bookingId: `BK-${start}`,
+    submissionId: `SUB-${start}`,
+    kind: 'site-visit',
+    status: 'confirmed',
+    start,
+    end,
+    timeZone: 'Asia/Kolkata',
+    name: 'Asha Rao',
+    email: 'asha@example.com',
+    location: 'Plot 12, Sector 4, Pune',
+    createdAt: NOW.toISOString(),
+    updatedAt: NOW.toISOString(),
+    ...overrides,
+  };
+}
+
+describe('Availability', () => {
+  it('parses working hours and rejects malformed specs', () => {
+    expect(parseWorkingHours('fri-mon 09:30-17:00')).toEqual({
+      5: { open: 570, close: 1020 },
+      6: { open: 570, close: 1020 },
+      0: { open: 570, close: 1020 },
+      1: { open: 570, close: 1020 },
+    });
+    expect(() => parseWorkingHours('weekdays 9-5')).toThrow(/Invalid working hours/);
+    expect(() => parseWorkingHours('mon 18:00-09:00')).toThrow(/close before they open/);
+  });
+
+  it('converts office wall-clock times to UTC, including across DST changes', () => {
+    expect(new Date(zonedTimeToInstant('2026-10-19', 9 * 60, 'Asia/Kolkata')).toISOString()).toBe(
+      '2026-10-19T03:30:00.000Z'
+    );
+    // London moves from BST to GMT on 25 Oct 2026
+    expect(new Date(zonedTimeToInstant('2026-10-24', 9 * 60, 'Europe/London')).toISOString()).toBe(
+      '2026-10-24T08:00:00.000Z'
+    );
+    expect(new Date(zonedTimeToInstant('2026-10-26', 9 * 60, 'Europe/London')).toISOString()).toBe(
+      '2026-10-26T09:00:00.000Z'
+    );
+  });
+
+  it('offers slots in working hours, skipping closed days and holidays', () => {
+    const slots = listSlots(CONFIG, '2026-10-19', 7);
+    const starts = slots.map((slot) => slot.start);
+
+    // Mon, Tue, Wed and Fri have 3 slots; Thu is a holiday, Sat has 1, Sun is closed
+    expect(slots).toHaveLength(13);
+    expect(starts).toContain('2026-10-24T04:30:00.000Z');
+    expect(starts.some((start) => start.startsWith('2026-10-22'))).toBe(false);
+    expect(starts.some((start) => start.startsWith('2026-10-25'))).toBe(false);
+  });
+
+  it('hides slots inside the notice period and those already booked', () => {
+    const booked = makeBooking('2026-10-20T04:30:00.000Z');
+    const starts = availableSlots(CONFIG, [booked], NOW).map((slot) => slot.start);
+
+    expect(starts[0]).toBe('2026-10-20T05:30:00.000Z');
+    expect(starts).not.toContain(booked.start);
+    expect(starts.every((start) => start >= '2026-10-20T04:30:00.000Z')).toBe(true);
+  });
+
+  it('only accepts slot starts that would have been offered', () => {
+    expect(findBookableSlot(CONFIG, '2026-10-21T03:30:00.000Z', NOW)).toEqual({
+      start: '2026-10-21T03:30:00.000Z',
+      end: '2026-10-21T04:30:00.000Z',
+    });
+    // Misaligned, outside hours, on a holiday, too soon and beyond the horizon
+    for (const start of [
+      '2026-10-21T03:45:00.000Z',
+      '2026-10-21T10:30:00.000Z',
+      '2026-10-22T03:30:00.000Z',
+      '2026-10-19T05:30:00.000Z',
+      '2026-10-27T03:30:00.000Z',
+    ]) {
+      expect(findBookableSlot(CONFIG, start, NOW)).toBeNull();
+    }
+  });
+
+  it('requires a site address for site visits only', () => {
+    const request = {
+      name: 'Asha Rao',
+      email: 'asha@example.com',
+      projectType: 'Construction Consulting',
+      slotStart: '2026-10-21T03:30:00.000Z',
+      consentVersion: CONSENT_VERSION,
+    };
+
+    const visit = bookingRequestSchema.safeParse({ ...request, kind: 'site-visit' });
+    expect(visit.success).toBe(false);
+    expect(visit.error?.issues[0].path).toEqual(['siteAddress']);
+    expect(bookingRequestSchema.safeParse({ ...request, kind: 'consultation' }).success).toBe(true);
+  });
+});
+
+describe.each([
+  [
+    'FileBookingRepository',
+    (dir: string) => new FileBookingRepository(join(dir, 'bookings.ndjson')),
+  ],
+  ['SqliteBookingRepository', (dir: string) => new SqliteBookingRepository(join(dir, 'leads.db'))],
+])('%s', (_, createRepository) => {
+  let dir: string;
+  let repository: BookingRepository;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bookings-'));
+    repository = createRepository(dir);
+  });
+
+  afterEach(() => {
+    if (repository instanceof SqliteBookingRepository) repository.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lets exactly one of several racing requests reserve a slot', async () => {
+    const start = '2026-10-21T03:30:00.000Z';
+    const results = await Promise.all(
+      ['a', 'b', 'c', 'd'].map((suffix) =>
+        repository.reserve(makeBooking(start, { bookingId: `BK-${suffix}` }))
+      )
+    );
+
+    const winners = results.flatMap((result) => (result.ok ? [result.booking.bookingId] : []));
+    const conflicts = results.flatMap((result) => (result.ok ? [] : [result.conflict.bookingId]));
+    expect(winners).toHaveLength(1);
+    expect(conflicts).toEqual([winners[0], winners[0], winners[0]]);
+  });
+
+  it('rejects overlapping slots but frees a slot once cancelled', async () => {
+    const first = makeBooking('2026-10-21T03:30:00.000Z');
+    expect((await repository.reserve(first)).ok).toBe(true);
+
+    const overlapping = makeBooking('2026-10-21T03:00:00.000Z');
+    expect((await repository.reserve(overlapping)).ok).toBe(false);
+    expect((await repository.reserve(makeBooking('2026-10-21T04:30:00.000Z'))).ok).toBe(true);
+
+    expect((await repository.cancel(first.bookingId))?.status).toBe('cancelled');
+    expect((await repository.reserve(overlapping)).ok).toBe(true);
+
+    const confirmed = await repository.listConfirmed(
+      '2026-10-21T00:00:00.000Z',
+      '2026-10-22T00:00:00.000Z'
+    );
+    expect(confirmed.map((booking) => booking.start)).toEqual([
+      '2026-10-21T03:00:00.000Z',
+      '2026-10-21T04:30:00.000Z',
+    ]);
+    expect((await repository.findById(first.bookingId))?.status).toBe('cancelled');
+  });
+});
+
+describe('Calendar invite', () => {
+  const organizer = { name: 'SB Infra Projects', email: 'info@sbinfraprojects.com' };
+
+  it('renders a confirmed event in UTC with escaped text', () => {
+    const ics = renderBookingIcs(
+      makeBooking('2026-10-21T03:30:00.000Z', { name: 'Rao, Asha', location: 'Plot 12; Pune' }),
+      organizer
+    );
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('DTSTART:20261021T033000Z\r\n');
+    expect(ics).toContain('DTEND:20261021T043000Z\r\n');
+    expect(ics).toContain('SUMMARY:Site Visit with SB Infra Projects\r\n');
+    expect(ics).toContain('LOCATION:Plot 12\\; Pune\r\n');
+    expect(ics).toContain('ATTENDEE;CN="Rao, Asha";ROLE=REQ-PARTICIPANT:mailto:asha@example.com');
+    expect(ics).toContain('STATUS:CONFIRMED\r\n');
+  });
+
+  it('folds long lines to 75 octets without splitting characters', () => {
+    const ics = renderBookingIcs(
+      makeBooking('2026-10-21T03:30:00.000Z', { location: 'निर्माण स्थल '.repeat(12) }),
+      organizer
+    );
+
+    const encoder = new TextEncoder();
+    for (const line of ics.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    const unfolded = ics.replace(/\r\n /g, '');
+    expect(unfolded).toContain(`LOCATION:${'निर्माण स्थल '.repeat(12)}`);
+  });
+});
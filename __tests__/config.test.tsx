@@ -0,0 +1,235 @@
+/**
+ * @jest-environment node
+ */
+import { renderToStaticMarkup } from 'react-dom/server';
+import Footer from '../components/Footer';
+import PublicConfigProvider from '../components/PublicConfigProvider';
+import {
+  DEFAULT_PUBLIC_CONFIG,
+  getConfig,
+  getPublicConfig,
+  parseConfig,
+  phoneHref,
+  setConfig,
+  type AppConfig,
+} from '../lib/config';
+
+/**
+ * Feature: configuration
+ *
+ * Settings come from one validated place: defaults when unset, every invalid
+ * variable reported at once, and only the public subset sent to the browser.
+ */
+
+function configFrom(env: Record<string, string | undefined>): AppConfig {
+  const result = parseConfig(env);
+  if (!result.ok) throw new Error(result.problems.join('\n'));
+  return result.config;
+}
+
+describe('parseConfig', () => {
+  test('falls back to the defaults for unset and empty variables', () => {
+    const config = configFrom({ RATE_LIMIT_CONTACT: '', FEATURE_BOOKINGS: '' });
+
+    expect(config.rateLimits.contact).toEqual({ limit: 3, windowMs: 60 * 60 * 1000 });
+    expect(config.rateLimits.inquiryLookup).toEqual({ limit: 10, windowMs: 15 * 60 * 1000 });
+    expect(config.features).toEqual({ bookings: true, attachments: true });
+    expect(config.company).toEqual(DEFAULT_PUBLIC_CONFIG.company);
+    expect(config.mail.transport.kind).toBe('outbox');
+    expect(config.admin.password).toBeUndefined();
+  });
+
+  test('reads rate limits as requests per window', () => {
+    const config = configFrom({
+      RATE_LIMIT_CONTACT: '5/30m',
+      RATE_LIMIT_BOOKINGS: '100 / 1d',
+      RATE_LIMIT_ADMIN_LOGIN: '2/45s',
+    });
+
+    expect(config.rateLimits.contact).toEqual({ limit: 5, windowMs: 30 * 60 * 1000 });
+    expect(config.rateLimits.bookings).toEqual({ limit: 100, windowMs: 24 * 60 * 60 * 1000 });
+    expect(config.rateLimits.adminLogin).toEqual({ limit: 2, windowMs: 45 * 1000 });
+  });
+
+  test('builds the SMTP transport and feature toggles', () => {
+    const config = configFrom({
+      MAIL_TRANSPORT: 'smtp',
+      SMTP_HOST: 'smtp.example.com',
+      SMTP_PORT: '465',
+      SMTP_SECURE: 'true',
+      FEATURE_ATTACHMENTS: '0',
+    });
+
+    expect(config.mail.transport).toEqual({
+      kind: 'smtp',
+      host: 'smtp.example.com',
+      port: 465,
+      secure: true,
+      user: undefined,
+      pass: undefined,
+    });
+    expect(config.features.attachments).toBe(false);
+  });
+
+  test('reports every invalid variable by name, without its value', () => {
+    const result = parseConfig({
+      RATE_LIMIT_CONTACT: '3 per hour',
+      MAIL_TRANSPORT: 'smtp',
+      SMTP_PORT: 'seven',
+      COMPANY_EMAIL: 'sales-at-sbinfra',
+      FEATURE_BOOKINGS: 'maybe',
+      ADMIN_PASSWORD: 'hunter2',
+    });
+
+    expect(result.ok).toBe(false);
+    const problems = result.ok ? [] : result.problems;
+    expect(problems.map((problem) => problem.split(':')[0]).sort()).toEqual([
+      'COMPANY_EMAIL',
+      'FEATURE_BOOKINGS',
+      'RATE_LIMIT_CONTACT',
+      'SMTP_HOST',
+      'SMTP_PORT',
+    ]);
+    expect(problems.join('\n')).not.toMatch(/3 per hour|seven|sales-at-sbinfra|hunter2/);
+  });
+
+  test('reads store, proxy, webhook and booking settings', () => {
+    const config = configFrom({
+      LEAD_STORE: 'sqlite',
+      RATE_LIMIT_PATH: '/var/lib/sbinfra/rate-limit.db',
+      TRUSTED_PROXY_HOPS: '2',
+      ALLOWED_ORIGINS: 'https://staging.sbinfraprojects.com/',
+      WEBHOOK_ENDPOINTS: JSON.stringify([
+        { id: 'crm', url: 'https://crm.example.com/hooks', secret: 'a-long-enough-secret' },
+      ]),
+      BOOKING_HOLIDAYS: '2026-01-26, 2026-08-15',
+    });
+
+    expect(config.leads.store).toEqual({ kind: 'sqlite', path: undefined });
+    expect(config.stores.rateLimits).toEqual({
+      kind: 'sqlite',
+      path: '/var/lib/sbinfra/rate-limit.db',
+    });
+    expect(configFrom({}).stores.rateLimits.kind).toBe('sqlite');
+    expect(config.stores.idempotency.kind).toBe('sqlite');
+    expect(config.stores.nonces.kind).toBe('sqlite');
+    expect(config.http).toEqual({
+      allowedOrigins: ['https://staging.sbinfraprojects.com'],
+      trustedProxyHops: 2,
+    });
+    expect(config.webhooks.endpoints.map((endpoint) => endpoint.id)).toEqual(['crm']);
+    expect(config.bookings.availability.holidays).toEqual(['2026-01-26', '2026-08-15']);
+    expect(config.bookings.officeLocation).toBe(DEFAULT_PUBLIC_CONFIG.company.address);
+  });
+
+  test('rejects settings that used to fall back silently', () => {
+    const result = parseConfig({
+      TRUSTED_PROXY_HOPS: 'abc',
+      LEAD_STORE: 'postgres',
+      WEBHOOK_ENDPOINTS: '{',
+      BOOKING_TIME_ZONE: 'India/Bengaluru',
+      BOOKING_HOURS: 'weekdays',
+      LOG_LEVEL: 'verbose',
+    });
+
+    expect(result.ok).toBe(false);
+    expect((result.ok ? [] : result.problems).map((problem) => problem.split(':')[0])).toEqual([
+      'TRUSTED_PROXY_HOPS',
+      'LEAD_STORE',
+      'LOG_LEVEL',
+      'WEBHOOK_ENDPOINTS',
+      'BOOKING_TIME_ZONE',
+      'BOOKING_HOURS',
+    ]);
+  });
+
+  test('requires every secret in production', () => {
+    const secrets = {
+      CONTACT_FORM_SECRET: 'form-secret',
+      LEAD_ID_SECRET: 'id-secret',
+      LEAD_IP_SALT: 'ip-salt',
+      LOG_HASH_SALT: 'log-salt',
+      PRIVACY_CODE_SECRET: 'privacy-secret',
+    };
+
+    expect(parseConfig({ ...secrets }).ok).toBe(true);
+    expect(parseConfig({ NODE_ENV: 'production', ...secrets }).ok).toBe(true);
+
+    const missing = parseConfig({ NODE_ENV: 'production', ADMIN_PASSWORD: 'hunter2' });
+    expect(missing.ok ? [] : missing.problems).toEqual([
+      'CONTACT_FORM_SECRET: Required in production',
+      'LEAD_ID_SECRET: Required in production',
+      'LEAD_IP_SALT: Required in production',
+      'LOG_HASH_SALT: Required in production',
+      'PRIVACY_CODE_SECRET: Required in production',
+      'ADMIN_SESSION_SECRET: Required in production when ADMIN_PASSWORD is set',
+    ]);
+
+    // Building the site runs in production mode without the runtime secrets
+    expect(parseConfig({ NODE_ENV: 'production', NEXT_PHASE: 'phase-production-build' }).ok).toBe(
+      true
+    );
+  });
+});
+
+describe('getConfig', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+    setConfig(null);
+  });
+
+  test('fails fast with a list of the problems', () => {
+    process.env = { ...env, RATE_LIMIT_BOOKINGS: '0/1h', CONTACT_MIN_FILL_MS: 'soon' };
+    setConfig(null);
+
+    expect(() => getConfig()).toThrow(
+      /Invalid environment configuration:\n {2}- RATE_LIMIT_BOOKINGS: .+\n {2}- CONTACT_MIN_FILL_MS: /
+    );
+  });
+
+  test('validates once and keeps the result until reset', () => {
+    process.env = { ...env, COMPANY_PHONE: '+91 80 4000 1234' };
+    setConfig(null);
+    const config = getConfig();
+
+    process.env.COMPANY_PHONE = '+91 80 4000 9999';
+    expect(getConfig()).toBe(config);
+
+    setConfig(null);
+    expect(getConfig().company.phone).toBe('+91 80 4000 9999');
+  });
+
+  test('only exposes company details and feature toggles publicly', () => {
+    setConfig(configFrom({ ADMIN_PASSWORD: 'hunter2', SMTP_PASS: 'secret' }));
+
+    expect(Object.keys(getPublicConfig()).sort()).toEqual(['company', 'features']);
+    expect(JSON.stringify(getPublicConfig())).not.toMatch(/hunter2|secret/);
+  });
+});
+
+describe('Public config in components', () => {
+  test('the footer shows the configured contact details', () => {
+    const company = {
+      name: 'SB Infra Projects',
+      email: 'hello@sbinfraprojects.com',
+      phone: '+91 80 4000 1234',
+      address: '12 MG Road, Bengaluru',
+    };
+    const html = renderToStaticMarkup(
+      <PublicConfigProvider config={{ ...DEFAULT_PUBLIC_CONFIG, company }}>
+        <Footer />
+      </PublicConfigProvider>
+    );
+
+    expect(html).toContain('href="mailto:hello@sbinfraprojects.com"');
+    expect(html).toContain(`href="${phoneHref(company.phone)}"`);
+    expect(html).toContain('12 MG Road, Bengaluru');
+  });
+
+  test('phone links keep only digits and the leading plus', () => {
+    expect(phoneHref('+91 80 4000 1234')).toBe('tel:+918040001234');
+    expect(phoneHref('+1 (555) 123-4567')).toBe('tel:+15551234567');
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+import * as fc from 'fast-check';
+import { BUILDING_PHASES } from '../lib/constants';
+import { contactSchema } from '../lib/contact';
+import { CONSENT_VERSION } from '../lib/privacy/consent';
+import {
+  ESTIMATE_CATEGORIES,
+  ESTIMATE_CITIES,
+  FINISH_TIERS,
+  RATE_TABLES,
+  RATE_TABLE_2025_1,
+  estimateCost,
+  estimateInputSchema,
+  mergePrefillMessage,
+  toBudgetRange,
+  toInquiryPrefill,
+  type EstimateCategory,
+  type EstimateCity,
+  type EstimateInput,
+  type FinishTier,
+} from '../lib/estimator';
+
+/**
+ * Feature: cost-estimator
+ *
+ * Estimates come from a versioned rate table, split across the building
+ * phases, and can be handed to the contact form as valid field values.
+ */
+
+const BASE_INPUT: EstimateInput = {
+  category: 'residential',
+  builtUpArea: 2400,
+  floors: 2,
+  finishTier: 'standard',
+  city: 'bengaluru',
+};
+
+const inputArbitrary = fc.record({
+  category: fc.constantFrom(...(Object.keys(ESTIMATE_CATEGORIES) as EstimateCategory[])),
+  builtUpArea: fc.integer({ min: 100, max: 1_000_000 }),
+  floors: fc.integer({ min: 1, max: 50 }),
+  finishTier: fc.constantFrom(...(Object.keys(FINISH_TIERS) as FinishTier[])),
+  city: fc.constantFrom(...(Object.keys(ESTIMATE_CITIES) as EstimateCity[])),
+});
+
+describe('Rate tables', () => {
+  it.each(RATE_TABLES.map((table) => [table.version, table]))(
+    '%s has a share for every building phase summing to 1',
+    (_, table) => {
+      const shares = BUILDING_PHASES.map((phase) => table.phaseShares[phase.id]);
+      expect(shares.every((share) => typeof share === 'number' && share > 0)).toBe(true);
+      expect(shares.reduce((sum, share) => sum + share, 0)).toBeCloseTo(1, 10);
+    }
+  );
+
+  it('refuses a table that misses a phase', () => {
+    const phaseShares = { ...RATE_TABLE_2025_1.phaseShares };
+    delete phaseShares.execution;
+    expect(() => estimateCost(BASE_INPUT, { ...RATE_TABLE_2025_1, phaseShares })).toThrow(
+      /no cost share for phase "execution"/
+    );
+  });
+});
+
+describe('estimateCost', () => {
+  it('returns an ordered range whose phase breakdown adds up to the totals', () => {
+    fc.assert(
+      fc.property(inputArbitrary, (input) => {
+        const estimate = estimateCost(input);
+
+        expect(estimate.low).toBeLessThan(estimate.likely);
+        expect(estimate.likely).toBeLessThan(estimate.high);
+        expect(estimate.breakdown.map((phase) => phase.phaseId)).toEqual(
+          BUILDING_PHASES.map((phase) => phase.id)
+        );
+        for (const key of ['low', 'likely', 'high'] as const) {
+          const sum = estimate.breakdown.reduce((total, phase) => total + phase[key], 0);
+          expect(sum).toBe(estimate[key]);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('applies the finish, city and floor multipliers from the table', () => {
+    const hyderabad: EstimateInput = { ...BASE_INPUT, city: 'hyderabad' };
+    const base = estimateCost(hyderabad);
+    expect(base.ratePerSqFt).toBe(Math.round(1900 * 1.03));
+    expect(base.rateTableVersion).toBe('2025.1');
+    expect(base.currency).toBe('INR');
+
+    expect(estimateCost({ ...hyderabad, finishTier: 'luxury' }).ratePerSqFt).toBe(
+      Math.round(1900 * 1.03 * RATE_TABLE_2025_1.finishMultipliers.luxury)
+    );
+    expect(estimateCost({ ...hyderabad, city: 'mumbai' }).ratePerSqFt).toBe(
+      Math.round(1900 * 1.03 * RATE_TABLE_2025_1.cityFactors.mumbai)
+    );
+    expect(estimateCost({ ...hyderabad, floors: 1 }).ratePerSqFt).toBe(1900);
+  });
+
+  it('validates raw form input', () => {
+    expect(
+      estimateInputSchema.safeParse({ ...BASE_INPUT, builtUpArea: '2400', floors: '2' }).success
+    ).toBe(true);
+
+    const result = estimateInputSchema.safeParse({ ...BASE_INPUT, floors: '0', city: 'paris' });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.path[0]).sort()).toEqual(['city', 'floors']);
+  });
+});
+
+describe('Inquiry prefill', () => {
+  it('maps the likely cost onto a contact form budget range', () => {
+    const estimate = estimateCost(BASE_INPUT);
+    expect(toBudgetRange({ ...estimate, likely: 30_00_000 })).toBe('Under $50,000');
+    expect(toBudgetRange({ ...estimate, likely: 1_50_00_000 })).toBe('$100,000 - $250,000');
+    expect(toBudgetRange({ ...estimate, likely: 100_00_00_000 })).toBe('Over $1,000,000');
+  });
+
+  it('produces values the contact contract accepts', () => {
+    fc.assert(
+      fc.property(inputArbitrary, (input) => {
+        const prefill = toInquiryPrefill(input, estimateCost(input));
+        const result = contactSchema.safeParse({
+          name: 'Asha Rao',
+          email: 'asha@example.com',
+          projectType: prefill.projectType,
+          budget: prefill.budget,
+          message: prefill.message,
+          consentVersion: CONSENT_VERSION,
+        });
+        expect(result.success).toBe(true);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('describes the estimate and carries matching wizard details', () => {
+    const prefill = toInquiryPrefill(BASE_INPUT, estimateCost(BASE_INPUT));
+    expect(prefill.projectType).toBe('Residential Construction');
+    expect(prefill.message).toMatch(/^Website estimate \(rates 2025\.1\): ₹/);
+    expect(prefill.message).toContain('2,400 sq ft over 2 floors');
+    expect(prefill.details).toEqual({ floors: '2' });
+  });
+
+  it('keeps what the visitor already wrote', () => {
+    expect(mergePrefillMessage('', 'Estimate')).toBe('Estimate');
+    expect(mergePrefillMessage('Need a basement.  ', 'Estimate')).toBe(
+      'Need a basement.\n\nEstimate'
+    );
+    expect(mergePrefillMessage('Need a basement.\n\nEstimate', 'Estimate')).toBe(
+      'Need a basement.\n\nEstimate'
+    );
+  });
+});
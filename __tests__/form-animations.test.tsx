@@ -2,6 +2,7 @@ import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import ContactForm from '../components/ContactForm';
+import { agreeToContact } from './utils/contact-form';
 
 // Mock fetch
 global.fetch = jest.fn();
@@ -68,6 +69,7 @@ describe('ContactForm Animations', () => {
       fireEvent.change(screen.getByLabelText(/email address/i), { target: { value: 'john@example.com' } });
       fireEvent.change(screen.getByLabelText(/project type/i), { target: { value: 'Residential Construction' } });
       fireEvent.change(screen.getByLabelText(/project details/i), { target: { value: 'This is a test message with enough characters' } });
+      agreeToContact();
       
       // Submit the form
       const submitButton = screen.getByRole('button', { name: /send message/i });
@@ -97,6 +99,7 @@ describe('ContactForm Animations', () => {
       fireEvent.change(screen.getByLabelText(/email address/i), { target: { value: 'john@example.com' } });
       fireEvent.change(screen.getByLabelText(/project type/i), { target: { value: 'Residential Construction' } });
       fireEvent.change(screen.getByLabelText(/project details/i), { target: { value: 'This is a test message with enough characters' } });
+      agreeToContact();
       
       // Submit the form
       fireEvent.click(screen.getByRole('button', { name: /send message/i }));
@@ -123,6 +126,7 @@ describe('ContactForm Animations', () => {
       fireEvent.change(screen.getByLabelText(/email address/i), { target: { value: 'john@example.com' } });
       fireEvent.change(screen.getByLabelText(/project type/i), { target: { value: 'Residential Construction' } });
       fireEvent.change(screen.getByLabelText(/project details/i), { target: { value: 'This is a test message with enough characters' } });
+      agreeToContact();
       
       // Submit the form
       fireEvent.click(screen.getByRole('button', { name: /send message/i }));
@@ -150,6 +154,7 @@ describe('ContactForm Animations', () => {
       fireEvent.change(screen.getByLabelText(/email address/i), { target: { value: 'john@example.com' } });
       fireEvent.change(screen.getByLabelText(/project type/i), { target: { value: 'Residential Construction' } });
       fireEvent.change(screen.getByLabelText(/project details/i), { target: { value: 'This is a test message with enough characters' } });
+      agreeToContact();
       
       // Submit the form
       fireEvent.click(screen.getByRole('button', { name: /send message/i }));
@@ -196,6 +201,7 @@ describe('ContactForm Animations', () => {
       fireEvent.change(screen.getByLabelText(/email address/i), { target: { value: 'john@example.com' } });
       fireEvent.change(screen.getByLabelText(/project type/i), { target: { value: 'Residential Construction' } });
       fireEvent.change(screen.getByLabelText(/project details/i), { target: { value: 'This is a test message with enough characters' } });
+      agreeToContact();
       
       // Submit the form
       fireEvent.click(screen.getByRole('button', { name: /send message/i }));
@@ -225,6 +231,7 @@ describe('ContactForm Animations', () => {
       fireEvent.change(screen.getByLabelText(/email address/i), { target: { value: 'john@example.com' } });
       fireEvent.change(screen.getByLabelText(/project type/i), { target: { value: 'Residential Construction' } });
       fireEvent.change(screen.getByLabelText(/project details/i), { target: { value: 'This is a test message with enough characters' } });
+      agreeToContact();
       
       // Submit the form
       fireEvent.click(screen.getByRole('button', { name: /send message/i }));
@@ -0,0 +1,118 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ContactForm from '../components/ContactForm';
+import { contactSchema, issuesToFieldErrors } from '../lib/contact';
+import { CONSENT_VERSION } from '../lib/privacy/consent';
+
+// Tick the required consent checkbox, unless it already is
+const agreeToContact = () => {
+  const consent = screen.getByLabelText(/i agree/i) as HTMLInputElement;
+  if (!consent.checked) fireEvent.click(consent);
+};
+
+// Mock fetch
+global.fetch = jest.fn();
+
+/**
+ * Feature: shared-contact-contract
+ *
+ * Client and server validate against the same schema, and validation issues returned
+ * by the server in `details` are shown under the matching form fields.
+ */
+describe('Shared contact contract', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const fillValidForm = () => {
+    fireEvent.change(screen.getByLabelText(/full name/i), { target: { value: 'Asha Rao' } });
+    fireEvent.change(screen.getByLabelText(/email address/i), {
+      target: { value: 'asha@example.com' },
+    });
+    fireEvent.change(screen.getByLabelText(/project type/i), {
+      target: { value: 'Residential Construction' },
+    });
+    fireEvent.change(screen.getByLabelText(/project details/i), {
+      target: { value: 'Planning a G+2 villa on a 40x60 plot.' },
+    });
+    agreeToContact();
+  };
+
+  it('maps server validation details to per-field errors', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      json: async () => ({
+        success: false,
+        error: 'Validation failed',
+        message: 'Please check your input and try again.',
+        details: [
+          { path: ['email'], message: 'This email domain does not accept mail' },
+          { path: ['budget'], message: 'Please select a budget range' },
+        ],
+      }),
+    });
+
+    render(<ContactForm />);
+    fillValidForm();
+    fireEvent.click(screen.getByRole('button', { name: /send message/i }));
+
+    expect(await screen.findByText('This email domain does not accept mail')).toBeInTheDocument();
+    expect(screen.getByText('Please select a budget range', { selector: 'p' })).toBeInTheDocument();
+    expect(screen.getByLabelText(/email address/i)).toHaveClass('border-red-500');
+    expect(screen.getByText('Please check your input and try again.')).toBeInTheDocument();
+  });
+
+  it('clears a server field error once the user edits that field', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      json: async () => ({
+        success: false,
+        error: 'Validation failed',
+        message: 'Please check your input and try again.',
+        details: [{ path: ['name'], message: 'Name is too long' }],
+      }),
+    });
+
+    render(<ContactForm />);
+    fillValidForm();
+    fireEvent.click(screen.getByRole('button', { name: /send message/i }));
+
+    await screen.findByText('Name is too long');
+    fireEvent.change(screen.getByLabelText(/full name/i), { target: { value: 'Asha' } });
+
+    await waitFor(() => {
+      expect(screen.queryByText('Name is too long')).not.toBeInTheDocument();
+    });
+  });
+
+  it('rejects project types and budgets outside the shared option lists', () => {
+    const base = {
+      name: 'Asha Rao',
+      email: 'asha@example.com',
+      projectType: 'Residential Construction',
+      message: 'Planning a G+2 villa on a 40x60 plot.',
+      consentVersion: CONSENT_VERSION,
+    };
+
+    expect(contactSchema.safeParse(base).success).toBe(true);
+    expect(contactSchema.safeParse({ ...base, projectType: 'Spaceport' }).success).toBe(false);
+    expect(contactSchema.safeParse({ ...base, budget: 'A lot' }).success).toBe(false);
+  });
+
+  it('keeps only the first issue per known field', () => {
+    expect(
+      issuesToFieldErrors([
+        { path: ['email'], message: 'first' },
+        { path: ['email'], message: 'second' },
+        { path: ['unknown'], message: 'ignored' },
+        { path: [], message: 'ignored' },
+      ])
+    ).toEqual({ email: 'first' });
+  });
+});
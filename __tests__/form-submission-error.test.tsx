@@ -1,7 +1,9 @@
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import ContactForm from '../components/ContactForm';
+import { agreeToContact } from './utils/contact-form';
 import fc from 'fast-check';
+import { formatPhoneInput } from '../lib/phone';
 
 // Mock fetch
 global.fetch = jest.fn();
@@ -129,6 +131,7 @@ describe('Property 20: Form Submission Error Handling', () => {
         fireEvent.change(screen.getByLabelText(/project details/i), {
           target: { value: formData.message },
         });
+        agreeToContact();
 
         // Submit the form
         const submitButton = screen.getByRole('button', { name: /send message/i });
@@ -216,6 +219,7 @@ describe('Property 20: Form Submission Error Handling', () => {
         fireEvent.change(screen.getByLabelText(/project details/i), {
           target: { value: formData.message },
         });
+        agreeToContact();
 
         fireEvent.click(screen.getByRole('button', { name: /send message/i }));
 
@@ -291,6 +295,7 @@ describe('Property 20: Form Submission Error Handling', () => {
         fireEvent.change(screen.getByLabelText(/project details/i), {
           target: { value: formData.message },
         });
+        agreeToContact();
 
         fireEvent.click(screen.getByRole('button', { name: /send message/i }));
 
@@ -369,6 +374,7 @@ describe('Property 20: Form Submission Error Handling', () => {
         fireEvent.change(screen.getByLabelText(/project details/i), {
           target: { value: formData.message },
         });
+        agreeToContact();
 
         fireEvent.click(screen.getByRole('button', { name: /send message/i }));
 
@@ -438,6 +444,7 @@ describe('Property 20: Form Submission Error Handling', () => {
         fireEvent.change(screen.getByLabelText(/project details/i), {
           target: { value: formData.message },
         });
+        agreeToContact();
 
         fireEvent.click(screen.getByRole('button', { name: /send message/i }));
 
@@ -543,6 +550,7 @@ describe('Property 20: Form Submission Error Handling', () => {
         fireEvent.change(screen.getByLabelText(/project details/i), {
           target: { value: formData.message },
         });
+        agreeToContact();
 
         fireEvent.click(screen.getByRole('button', { name: /send message/i }));
 
@@ -565,7 +573,8 @@ describe('Property 20: Form Submission Error Handling', () => {
 
         expect(nameInput.value).toBe(formData.name);
         expect(emailInput.value).toBe(formData.email);
-        expect(phoneInput.value).toBe(formData.phone);
+        // Kept as typed, grouped for reading
+        expect(phoneInput.value).toBe(formatPhoneInput(formData.phone));
         expect(projectTypeInput.value).toBe(formData.projectType);
         expect(budgetInput.value).toBe(formData.budget);
         expect(messageInput.value).toBe(formData.message);
@@ -650,6 +659,7 @@ describe('Property 20: Form Submission Error Handling', () => {
         fireEvent.change(screen.getByLabelText(/project details/i), {
           target: { value: formData.message },
         });
+        agreeToContact();
 
         fireEvent.click(screen.getByRole('button', { name: /send message/i }));
 
@@ -2,6 +2,7 @@ import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import ContactForm from '../components/ContactForm';
+import { agreeToContact } from './utils/contact-form';
 import fc from 'fast-check';
 
 // Mock fetch
@@ -127,6 +128,7 @@ describe('Property 16: Valid Form Submission Success', () => {
         fireEvent.change(screen.getByLabelText(/project details/i), {
           target: { value: formData.message },
         });
+        agreeToContact();
 
         // Submit the form
         const submitButton = screen.getByRole('button', { name: /send message/i });
@@ -151,6 +153,7 @@ describe('Property 16: Valid Form Submission Success', () => {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
+              'Idempotency-Key': expect.stringMatching(/^[0-9a-f]{32}$/),
             },
             body: expect.any(String),
           })
@@ -217,6 +220,7 @@ describe('Property 16: Valid Form Submission Success', () => {
         fireEvent.change(screen.getByLabelText(/project details/i), {
           target: { value: formData.message },
         });
+        agreeToContact();
 
         // Submit the form
         fireEvent.click(screen.getByRole('button', { name: /send message/i }));
@@ -281,6 +285,7 @@ describe('Property 16: Valid Form Submission Success', () => {
         fireEvent.change(emailInput, { target: { value: formData.email } });
         fireEvent.change(projectTypeInput, { target: { value: formData.projectType } });
         fireEvent.change(messageInput, { target: { value: formData.message } });
+        agreeToContact();
 
         // Submit the form
         fireEvent.click(screen.getByRole('button', { name: /send message/i }));
@@ -0,0 +1,225 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiRoute } from '../lib/http';
+import {
+  IDEMPOTENCY_TTL_MS,
+  MemoryIdempotencyStore,
+  SqliteIdempotencyStore,
+  setIdempotencyStore,
+  type IdempotencyStore,
+} from '../lib/idempotency';
+import { createLogger, setLogger } from '../lib/logging';
+import * as offline from '../lib/offline/constants';
+
+/**
+ * Feature: Idempotent submissions
+ *
+ * A request sent again with the same Idempotency-Key, e.g. a contact form
+ * replayed from the offline queue after its first response was lost, is
+ * handled once: retries get the first response back instead of a second lead.
+ */
+
+describe.each([
+  ['MemoryIdempotencyStore', () => new MemoryIdempotencyStore()],
+  ['SqliteIdempotencyStore', () => new SqliteIdempotencyStore(':memory:')],
+])('%s', (_name, createStore) => {
+  let store: IdempotencyStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  test('lets one request claim a key and replays its response after', async () => {
+    expect(await store.claim('k', 'hash-1', 1000, 2000)).toBeNull();
+    expect(await store.claim('k', 'hash-2', 1500, 2500)).toEqual({
+      state: 'pending',
+      expiresAt: 2000,
+      fingerprint: 'hash-1',
+    });
+
+    const response = {
+      status: 200,
+      headers: { 'x-ratelimit-remaining': '4' },
+      body: { id: 'SUB-1' },
+    };
+    await store.complete('k', 'hash-1', response, 9000);
+    expect(await store.claim('k', 'hash-1', 1600, 2600)).toEqual({
+      state: 'completed',
+      expiresAt: 9000,
+      fingerprint: 'hash-1',
+      response,
+    });
+  });
+
+  test('frees keys that were released or have expired', async () => {
+    await store.claim('released', 'hash', 1000, 2000);
+    await store.release('released');
+    expect(await store.claim('released', 'hash', 1000, 2000)).toBeNull();
+
+    // A claim left behind by a crashed request
+    await store.claim('abandoned', 'hash', 1000, 2000);
+    expect(await store.claim('abandoned', 'hash', 2000, 3000)).toBeNull();
+
+    await store.claim('old', 'hash', 1000, 2000);
+    await store.complete('old', 'hash', { status: 200, headers: {}, body: {} }, 5000);
+    await store.prune(5000);
+    expect(await store.claim('old', 'hash', 4000, 6000)).toBeNull();
+  });
+});
+
+const SITE = 'https://sbinfraprojects.com';
+
+function post(
+  headers: Record<string, string> = {},
+  body: Record<string, unknown> = { name: 'Asha' }
+): NextRequest {
+  return new NextRequest(`${SITE}/api/test`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+const noParams = { params: Promise.resolve({}) };
+
+describe('withApiRoute with idempotent: true', () => {
+  let created = 0;
+  let respondWith = 200;
+  let release: (() => void) | null = null;
+
+  const handler = jest.fn(async () => {
+    if (release === null) {
+      // Hold the request open until the test releases it
+      await new Promise<void>((resolve) => (release = resolve));
+    }
+    if (respondWith !== 200) {
+      return NextResponse.json({ success: false }, { status: respondWith });
+    }
+    created += 1;
+    return NextResponse.json(
+      { success: true, submissionId: `SUB-${created}` },
+      { headers: { 'X-RateLimit-Remaining': String(5 - created) } }
+    );
+  });
+  const route = withApiRoute(
+    {
+      route: 'POST /api/test',
+      contentTypes: ['application/json'],
+      idempotent: true,
+      idempotencyIgnoredFields: ['formToken'],
+    },
+    handler
+  );
+
+  beforeEach(() => {
+    created = 0;
+    respondWith = 200;
+    release = () => undefined;
+    handler.mockClear();
+    setIdempotencyStore(new MemoryIdempotencyStore());
+    setLogger(createLogger({ level: 'silent' }));
+  });
+
+  afterEach(() => {
+    setIdempotencyStore(null);
+    setLogger(null);
+  });
+
+  test('answers a retry with the first response without running the handler again', async () => {
+    const key = { 'idempotency-key': 'a3f1c2d4e5b6a7980123456789abcdef' };
+
+    const first = await route(post(key), noParams);
+    const retry = await route(post(key), noParams);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    await expect(first.json()).resolves.toEqual({ success: true, submissionId: 'SUB-1' });
+    await expect(retry.json()).resolves.toEqual({ success: true, submissionId: 'SUB-1' });
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get('idempotent-replayed')).toBe('true');
+    expect(retry.headers.get('x-request-id')).toBeTruthy();
+    // Headers of the first response, such as its rate-limit state, come back too
+    expect(retry.headers.get('x-ratelimit-remaining')).toBe('4');
+
+    // Another key, or none, is a new request
+    await route(post({ 'idempotency-key': 'b3f1c2d4e5b6a7980123456789abcdef' }), noParams);
+    await route(post(), noParams);
+    expect(created).toBe(3);
+  });
+
+  test('turns away a retry while the first attempt is still running', async () => {
+    const key = { 'idempotency-key': 'c3f1c2d4e5b6a7980123456789abcdef' };
+    release = null;
+
+    const first = route(post(key), noParams);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const concurrent = await route(post(key), noParams);
+
+    expect(concurrent.status).toBe(409);
+    expect(concurrent.headers.get('retry-after')).toBe('5');
+
+    release!();
+    expect((await first).status).toBe(200);
+    expect(created).toBe(1);
+  });
+
+  test('lets a failed attempt be retried with the same key', async () => {
+    const key = { 'idempotency-key': 'd3f1c2d4e5b6a7980123456789abcdef' };
+
+    respondWith = 429;
+    expect((await route(post(key), noParams)).status).toBe(429);
+
+    respondWith = 200;
+    const retry = await route(post(key), noParams);
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get('idempotent-replayed')).toBeNull();
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  test('refuses a key reused for a different request', async () => {
+    const key = { 'idempotency-key': 'e3f1c2d4e5b6a7980123456789abcdef' };
+
+    await route(post(key, { name: 'Asha', formToken: 'first' }), noParams);
+    const replay = await route(post(key, { formToken: 'second', name: 'Asha' }), noParams);
+    expect(replay.headers.get('idempotent-replayed')).toBe('true');
+
+    const reused = await route(post(key, { name: 'Ravi' }), noParams);
+    expect(reused.status).toBe(422);
+    await expect(reused.json()).resolves.toMatchObject({ code: 'idempotency_key_reused' });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  test('rejects malformed keys', async () => {
+    for (const key of ['short', 'has spaces in it, 1234567890', 'x'.repeat(65)]) {
+      const response = await route(post({ 'idempotency-key': key }), noParams);
+      expect(response.status).toBe(400);
+    }
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('Service worker', () => {
+  const source = readFileSync(join(__dirname, '..', 'public', 'sw.js'), 'utf8');
+
+  test('uses the same queue settings as the page', () => {
+    const expected: Record<string, string> = {
+      OFFLINE_DB_NAME: `'${offline.OFFLINE_DB_NAME}'`,
+      OFFLINE_DB_VERSION: String(offline.OFFLINE_DB_VERSION),
+      CONTACT_QUEUE_STORE: `'${offline.CONTACT_QUEUE_STORE}'`,
+      CONTACT_SYNC_TAG: `'${offline.CONTACT_SYNC_TAG}'`,
+      CONTACT_QUEUE_MAX_AGE_MS: '7 * 24 * 60 * 60 * 1000',
+    };
+
+    for (const [name, value] of Object.entries(expected)) {
+      expect(source).toContain(`const ${name} = ${value};`);
+    }
+    expect(offline.CONTACT_QUEUE_MAX_AGE_MS).toBe(7 * 24 * 60 * 60 * 1000);
+  });
+
+  test('never replays a submission after the server has forgotten its key', () => {
+    expect(offline.CONTACT_QUEUE_MAX_AGE_MS).toBeLessThanOrEqual(IDEMPOTENCY_TTL_MS);
+  });
+});
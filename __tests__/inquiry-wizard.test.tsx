@@ -0,0 +1,141 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import InquiryWizard from '../components/InquiryWizard';
+import { STORAGE_KEYS } from '../lib/constants';
+import { contactSchema } from '../lib/contact';
+import { CONSENT_VERSION } from '../lib/privacy/consent';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+/**
+ * Feature: inquiry-wizard
+ *
+ * The inquiry is collected over contact, project type, type-specific and review
+ * steps. Each step blocks until its own fields are valid, drafts survive a reload,
+ * and the submitted payload satisfies the server contract.
+ */
+describe('Inquiry wizard', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  const next = () => fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+  const change = (label: RegExp, value: string) =>
+    fireEvent.change(screen.getByLabelText(label), { target: { value } });
+
+  const completeContactStep = () => {
+    change(/full name/i, 'Asha Rao');
+    change(/email address/i, 'asha@example.com');
+    next();
+  };
+
+  it('does not advance until the current step is valid', () => {
+    render(<InquiryWizard />);
+
+    change(/full name/i, 'A');
+    next();
+
+    expect(screen.getByText('Name must be at least 2 characters')).toBeInTheDocument();
+    expect(screen.getByLabelText(/email address/i)).toBeInTheDocument();
+    expect(screen.queryByLabelText(/project type/i)).not.toBeInTheDocument();
+  });
+
+  it.each([
+    ['Residential Construction', [/plot size/i, /number of floors/i, /bedrooms/i]],
+    ['Industrial Facility', [/built-up area/i, /clear height/i, /loading docks/i]],
+  ])('asks %s specific questions', (projectType, labels) => {
+    render(<InquiryWizard />);
+    completeContactStep();
+    change(/project type/i, projectType);
+    next();
+
+    for (const label of labels) {
+      expect(screen.getByLabelText(label)).toBeInTheDocument();
+    }
+  });
+
+  it('restores a saved draft after a reload', () => {
+    const { unmount } = render(<InquiryWizard />);
+    completeContactStep();
+    change(/project type/i, 'Industrial Facility');
+    unmount();
+
+    expect(JSON.parse(window.localStorage.getItem(STORAGE_KEYS.inquiryDraft)!)).toMatchObject({
+      step: 'project',
+      draft: { fields: { name: 'Asha Rao', projectType: 'Industrial Facility' } },
+    });
+
+    render(<InquiryWizard />);
+    expect(screen.getByText('We restored your saved draft.')).toBeInTheDocument();
+    expect(screen.getByLabelText(/project type/i)).toHaveValue('Industrial Facility');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Start over' }));
+    expect(screen.getByLabelText(/full name/i)).toHaveValue('');
+    expect(window.localStorage.getItem(STORAGE_KEYS.inquiryDraft)).toBeNull();
+  });
+
+  it('submits a payload that passes the server schema', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({ success: true, message: 'Thanks', submissionId: 'SUB-1' }),
+    });
+
+    render(<InquiryWizard />);
+    completeContactStep();
+    change(/project type/i, 'Residential Construction');
+    next();
+
+    change(/plot size/i, '2400');
+    change(/number of floors/i, '0');
+    change(/project details/i, 'G+2 villa with a basement car park.');
+    next();
+    expect(screen.getByText('Floors must be at least 1')).toBeInTheDocument();
+
+    change(/number of floors/i, '3');
+    change(/bedrooms/i, '4');
+    next();
+    expect(screen.getByText('2400 sq ft')).toBeInTheDocument();
+
+    // Nothing is sent until the visitor agrees to be contacted
+    fireEvent.click(screen.getByRole('button', { name: /send inquiry/i }));
+    expect(screen.getByText(/please agree/i)).toBeInTheDocument();
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByLabelText(/i agree/i));
+    fireEvent.click(screen.getByRole('button', { name: /send inquiry/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText(/inquiry sent successfully/i)).toBeInTheDocument();
+    });
+
+    const [, options] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(options.headers['Idempotency-Key']).toMatch(/^[0-9a-f]{32}$/);
+    const body = JSON.parse(options.body);
+    expect(body.projectDetails).toEqual({ plotSize: 2400, floors: 3, bhk: 4 });
+    expect(body.consentVersion).toBe(CONSENT_VERSION);
+    expect(contactSchema.safeParse(body).success).toBe(true);
+    expect(window.localStorage.getItem(STORAGE_KEYS.inquiryDraft)).toBeNull();
+  });
+
+  it('rejects details that do not belong to the project type', () => {
+    const result = contactSchema.safeParse({
+      name: 'Asha Rao',
+      email: 'asha@example.com',
+      projectType: 'Residential Construction',
+      message: 'Warehouse with six docks.',
+      projectDetails: { builtUpArea: 50000, clearHeight: 12, loadingDocks: 6 },
+      consentVersion: CONSENT_VERSION,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['projectDetails']);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createLeadRecord } from '../lib/leads';
+import {
+  OutboxTransport,
+  renderLeadAcknowledgement,
+  renderLeadNotification,
+  sendLeadNotifications,
+  setMailTransport,
+  type MailMessage,
+} from '../lib/mail';
+
+/**
+ * Feature: lead-notifications
+ *
+ * A stored lead produces a sales notification and a submitter acknowledgement,
+ * both rendering every submitted field in HTML and plain text.
+ */
+
+const lead = createLeadRecord(
+  'SUB-1700000000000-abc123def',
+  {
+    name: 'Asha Rao',
+    email: 'asha@example.com',
+    phone: '+919845012345',
+    projectType: 'Industrial Facility',
+    budget: '$250,000 - $500,000',
+    message: 'Warehouse with 4 loading docks & 12m clear height.',
+  },
+  '203.0.113.7'
+);
+
+describe('Lead email templates', () => {
+  it.each([
+    ['notification', renderLeadNotification],
+    ['acknowledgement', renderLeadAcknowledgement],
+  ])('%s renders every submission field in both bodies', (_name, render) => {
+    const mail = render(lead);
+
+    for (const value of [
+      'Asha Rao',
+      'asha@example.com',
+      '+91 98450 12345',
+      'Industrial Facility',
+    ]) {
+      expect(mail.html).toContain(value);
+      expect(mail.text).toContain(value);
+    }
+    expect(mail.html).toContain('$250,000 - $500,000');
+    expect(mail.text).toContain('Budget: $250,000 - $500,000');
+    expect(mail.html).toContain('4 loading docks &amp; 12m clear height.');
+    expect(mail.text).toContain('4 loading docks & 12m clear height.');
+    expect(mail.text).toContain(lead.submissionId);
+  });
+
+  it('marks optional fields that were left empty', () => {
+    const mail = renderLeadNotification({
+      ...lead,
+      submission: { ...lead.submission, phone: '', budget: '' },
+    });
+
+    expect(mail.text).toContain('Phone: Not provided');
+    expect(mail.text).toContain('Budget: Not provided');
+  });
+
+  it('escapes markup in submitted values', () => {
+    const mail = renderLeadNotification({
+      ...lead,
+      submission: { ...lead.submission, name: '<img src=x>' },
+    });
+
+    expect(mail.html).not.toContain('<img src=x>');
+    expect(mail.html).toContain('&lt;img src=x&gt;');
+  });
+
+  it('links the acknowledgement to the tracking page', () => {
+    const mail = renderLeadAcknowledgement(lead, 'https://staging.sbinfraprojects.com/');
+    const trackUrl = `https://staging.sbinfraprojects.com/track?id=${lead.submissionId}`;
+
+    expect(mail.text).toContain(trackUrl);
+    expect(mail.html).toContain(`href="${trackUrl}"`);
+  });
+});
+
+describe('sendLeadNotifications', () => {
+  afterEach(() => setMailTransport(null));
+
+  it('sends the notification to sales and the acknowledgement to the submitter', async () => {
+    const sent: MailMessage[] = [];
+    setMailTransport({ send: async (message) => void sent.push(message) });
+
+    await expect(sendLeadNotifications(lead)).resolves.toEqual({
+      notified: true,
+      acknowledged: true,
+    });
+
+    const notification = sent.find((message) => message.replyTo === 'asha@example.com');
+    const acknowledgement = sent.find((message) => message.to === 'asha@example.com');
+    expect(notification?.to).toBe('info@sbinfraprojects.com');
+    expect(notification?.subject).toContain('Industrial Facility');
+    expect(acknowledgement?.subject).toContain('We received your inquiry');
+  });
+
+  it('reports transport failures without throwing', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    setMailTransport({
+      send: async () => {
+        throw new Error('SMTP down');
+      },
+    });
+
+    await expect(sendLeadNotifications(lead)).resolves.toEqual({
+      notified: false,
+      acknowledged: false,
+    });
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe('OutboxTransport', () => {
+  it('writes each message as JSON plus an HTML preview', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'outbox-'));
+    try {
+      const transport = new OutboxTransport(dir);
+      await transport.send({
+        ...renderLeadNotification(lead),
+        from: 'no-reply@sbinfraprojects.com',
+        to: 'info@sbinfraprojects.com',
+      });
+
+      const files = readdirSync(dir).sort();
+      expect(files).toHaveLength(2);
+      const json = JSON.parse(readFileSync(join(dir, files.find((f) => f.endsWith('.json'))!), 'utf8'));
+      expect(json.to).toBe('info@sbinfraprojects.com');
+      expect(readFileSync(join(dir, files.find((f) => f.endsWith('.html'))!), 'utf8')).toContain(
+        'Asha Rao'
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
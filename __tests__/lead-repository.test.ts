@@ -0,0 +1,244 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  FileLeadRepository,
+  SqliteLeadRepository,
+  createLeadRecord,
+  createSubmissionId,
+  hashIp,
+  isValidSubmissionId,
+  ulid,
+  type ContactSubmission,
+  type LeadRepository,
+} from '../lib/leads';
+import type { ProjectType } from '../lib/contact';
+
+/**
+ * Feature: lead-storage
+ *
+ * Every validated contact submission is stored under its submission ID and can be
+ * read back, filtered and moved through the status pipeline, regardless of backend.
+ */
+
+const submission: ContactSubmission = {
+  name: 'Asha Rao',
+  email: 'asha@example.com',
+  phone: '9845012345',
+  projectType: 'Residential Construction',
+  budget: 'Not Sure',
+  message: 'Planning a G+2 villa on a 40x60 plot.',
+};
+
+function leadAt(id: string, createdAt: string, projectType: ProjectType = submission.projectType) {
+  return {
+    ...createLeadRecord(id, { ...submission, projectType }, '203.0.113.7'),
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+describe.each([
+  ['FileLeadRepository', (dir: string) => new FileLeadRepository(join(dir, 'leads.ndjson'))],
+  ['SqliteLeadRepository', (dir: string) => new SqliteLeadRepository(join(dir, 'leads.db'))],
+])('%s', (_name, createRepository) => {
+  let dir: string;
+  let repository: LeadRepository;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'leads-'));
+    repository = createRepository(dir);
+  });
+
+  afterEach(() => {
+    if (repository instanceof SqliteLeadRepository) repository.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores a lead under its submission ID', async () => {
+    const lead = createLeadRecord('SUB-1', submission, '203.0.113.7');
+    await repository.create(lead);
+
+    await expect(repository.findById('SUB-1')).resolves.toEqual(lead);
+    await expect(repository.findById('SUB-missing')).resolves.toBeNull();
+  });
+
+  it('never stores the raw client IP', async () => {
+    const lead = await repository.create(createLeadRecord('SUB-1', submission, '203.0.113.7'));
+
+    expect(lead.ipHash).toBe(hashIp('203.0.113.7'));
+    expect(JSON.stringify(await repository.findById('SUB-1'))).not.toContain('203.0.113.7');
+  });
+
+  it('rejects duplicate submission IDs', async () => {
+    await repository.create(createLeadRecord('SUB-1', submission, '203.0.113.7'));
+    await expect(
+      repository.create(createLeadRecord('SUB-1', submission, '203.0.113.7'))
+    ).rejects.toThrow();
+  });
+
+  it('stores only one of two concurrent creates with the same ID', async () => {
+    const results = await Promise.allSettled([
+      repository.create(createLeadRecord('SUB-1', submission, '203.0.113.7')),
+      repository.create(createLeadRecord('SUB-1', submission, '198.51.100.4')),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    await expect(repository.list()).resolves.toHaveLength(1);
+  });
+
+  it('lists leads newest first with filters and paging', async () => {
+    await repository.create(leadAt('SUB-1', '2024-01-01T00:00:00.000Z'));
+    await repository.create(leadAt('SUB-2', '2024-02-01T00:00:00.000Z', 'Industrial Facility'));
+    await repository.create(leadAt('SUB-3', '2024-03-01T00:00:00.000Z'));
+
+    const all = await repository.list();
+    expect(all.map((lead) => lead.submissionId)).toEqual(['SUB-3', 'SUB-2', 'SUB-1']);
+
+    const residential = await repository.list({ projectType: 'Residential Construction' });
+    expect(residential.map((lead) => lead.submissionId)).toEqual(['SUB-3', 'SUB-1']);
+
+    const ranged = await repository.list({
+      since: '2024-01-15T00:00:00.000Z',
+      until: '2024-03-01T00:00:00.000Z',
+    });
+    expect(ranged.map((lead) => lead.submissionId)).toEqual(['SUB-2']);
+
+    const page = await repository.list({ limit: 1, offset: 1 });
+    expect(page.map((lead) => lead.submissionId)).toEqual(['SUB-2']);
+  });
+
+  it('updates status and keeps it across reopening the store', async () => {
+    await repository.create(createLeadRecord('SUB-1', submission, '203.0.113.7'));
+    const updated = await repository.updateStatus('SUB-1', 'contacted');
+
+    expect(updated?.status).toBe('contacted');
+    await expect(repository.updateStatus('SUB-missing', 'contacted')).resolves.toBeNull();
+
+    if (repository instanceof SqliteLeadRepository) repository.close();
+    repository = createRepository(dir);
+
+    const reloaded = await repository.findById('SUB-1');
+    expect(reloaded?.status).toBe('contacted');
+    await expect(repository.list({ status: 'new' })).resolves.toHaveLength(0);
+  });
+
+  it('searches submitted fields and filters by budget', async () => {
+    await repository.create(leadAt('SUB-1', '2024-01-01T00:00:00.000Z'));
+    await repository.create({
+      ...createLeadRecord(
+        'SUB-2',
+        { ...submission, name: 'Vikram 100%_Sharma', budget: '$50,000 - $100,000' },
+        '203.0.113.7'
+      ),
+      createdAt: '2024-02-01T00:00:00.000Z',
+    });
+
+    const ids = async (query: Parameters<LeadRepository['list']>[0]) =>
+      (await repository.list(query)).map((lead) => lead.submissionId);
+
+    expect(await ids({ search: 'VILLA' })).toEqual(['SUB-2', 'SUB-1']);
+    expect(await ids({ search: 'vikram' })).toEqual(['SUB-2']);
+    expect(await ids({ search: '100%_' })).toEqual(['SUB-2']);
+    expect(await ids({ search: '%' })).toEqual(['SUB-2']);
+    expect(await ids({ search: 'sub-1' })).toEqual(['SUB-1']);
+    expect(await ids({ search: 'nothing like this' })).toEqual([]);
+    expect(await ids({ budget: 'Not Sure' })).toEqual(['SUB-1']);
+  });
+
+  it('appends notes and keeps them across reopening the store', async () => {
+    await repository.create(createLeadRecord('SUB-1', submission, '203.0.113.7'));
+    const note = (noteId: string, body: string) => ({
+      noteId,
+      author: 'Priya',
+      body,
+      createdAt: new Date().toISOString(),
+    });
+
+    await repository.addNote('SUB-1', note('N-1', 'Called, wants a site visit next week.'));
+    const updated = await repository.addNote('SUB-1', note('N-2', 'Sent the brochure.'));
+    expect(updated?.notes.map((entry) => entry.noteId)).toEqual(['N-1', 'N-2']);
+    await expect(repository.addNote('SUB-missing', note('N-3', 'Lost'))).resolves.toBeNull();
+
+    if (repository instanceof SqliteLeadRepository) repository.close();
+    repository = createRepository(dir);
+
+    const reloaded = await repository.findById('SUB-1');
+    expect(reloaded?.notes.map((entry) => entry.body)).toEqual([
+      'Called, wants a site visit next week.',
+      'Sent the brochure.',
+    ]);
+    expect(reloaded?.status).toBe('new');
+  });
+
+  it('finds leads by email, ignoring case, and by last update', async () => {
+    await repository.create(leadAt('SUB-1', '2024-01-01T00:00:00.000Z'));
+    await repository.create({
+      ...createLeadRecord('SUB-2', { ...submission, email: 'vikram@example.com' }, '203.0.113.7'),
+      createdAt: '2024-02-01T00:00:00.000Z',
+      updatedAt: '2024-02-01T00:00:00.000Z',
+    });
+
+    const ids = async (query: Parameters<LeadRepository['list']>[0]) =>
+      (await repository.list(query)).map((lead) => lead.submissionId);
+
+    expect(await ids({ email: 'ASHA@example.com' })).toEqual(['SUB-1']);
+    expect(await ids({ email: 'asha@example' })).toEqual([]);
+    expect(await ids({ updatedBefore: '2024-02-01T00:00:00.000Z' })).toEqual(['SUB-1']);
+  });
+
+  it('keeps the consent given and removes leads with their history', async () => {
+    await repository.create(createLeadRecord('SUB-1', submission, '203.0.113.7', [], '2026-10'));
+    await repository.create(createLeadRecord('SUB-2', submission, '203.0.113.7'));
+    await repository.updateStatus('SUB-1', 'contacted');
+
+    const consented = await repository.findById('SUB-1');
+    expect(consented?.consent).toEqual({ version: '2026-10', givenAt: consented?.createdAt });
+    expect((await repository.findById('SUB-2'))?.consent).toBeUndefined();
+
+    await expect(repository.remove(['SUB-1', 'SUB-missing'])).resolves.toBe(1);
+    await expect(repository.remove(['SUB-1'])).resolves.toBe(0);
+
+    if (repository instanceof SqliteLeadRepository) repository.close();
+    repository = createRepository(dir);
+
+    await expect(repository.findById('SUB-1')).resolves.toBeNull();
+    expect((await repository.list()).map((lead) => lead.submissionId)).toEqual(['SUB-2']);
+  });
+});
+
+describe('Submission IDs', () => {
+  it('encodes the creation time so IDs sort chronologically', () => {
+    expect(ulid(0, new Uint8Array(10))).toBe('0'.repeat(26));
+    expect(ulid(1_700_000_000_000, new Uint8Array(10).fill(255))).toBe(
+      '01HF7YAT00ZZZZZZZZZZZZZZZZ'
+    );
+
+    const earlier = createSubmissionId(Date.parse('2026-01-01T00:00:00.000Z'));
+    const later = createSubmissionId(Date.parse('2026-01-01T00:00:00.001Z'));
+    expect(earlier < later).toBe(true);
+  });
+
+  it('issues unique IDs that verify, and rejects forged or altered ones', () => {
+    const ids = Array.from({ length: 200 }, () => createSubmissionId());
+    expect(new Set(ids).size).toBe(ids.length);
+
+    for (const id of ids.slice(0, 10)) {
+      expect(id).toMatch(/^SUB-[0-9A-HJKMNP-TV-Z]{26}-[0-9A-HJKMNP-TV-Z]{10}$/);
+      expect(isValidSubmissionId(id)).toBe(true);
+    }
+
+    const [id] = ids;
+    const altered = `${id.slice(0, 10)}${id[10] === '0' ? '1' : '0'}${id.slice(11)}`;
+    expect(isValidSubmissionId(altered)).toBe(false);
+    expect(isValidSubmissionId(`SUB-${ulid()}-0000000000`)).toBe(false);
+    expect(isValidSubmissionId('SUB-1')).toBe(false);
+  });
+
+  it('rejects IDs in the unsigned timestamp format', () => {
+    expect(isValidSubmissionId('SUB-1760000000000-k3j9x2a1q')).toBe(false);
+  });
+});
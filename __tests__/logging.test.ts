@@ -0,0 +1,308 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import {
+  FileAuditLog,
+  SqliteAuditLog,
+  recordAudit,
+  setAuditLog,
+  type AuditEntry,
+  type AuditLog,
+} from '../lib/audit';
+import {
+  REDACTED,
+  createLogger,
+  getRequestId,
+  hashPii,
+  redactPii,
+  scrubText,
+  setLogger,
+  type LogRecord,
+} from '../lib/logging';
+
+/**
+ * Feature: logging
+ *
+ * Log records are structured JSON with levels and request IDs, and never
+ * carry a submitter's name, message, email, phone or IP in the clear. Admin
+ * access to leads is kept in an append-only audit trail.
+ */
+
+describe('PII redaction', () => {
+  test('hashes identifiers consistently and drops free text', () => {
+    const redacted = redactPii(
+      {
+        submissionId: 'SUB-1760000000000-abc123',
+        name: 'Asha Rao',
+        email: 'Asha@Example.com ',
+        phone: '+91 98765 43210',
+        ip: '203.0.113.7',
+        message: 'Please call me about the villa',
+        attachments: 2,
+      },
+      hashPii
+    );
+
+    expect(redacted).toEqual({
+      submissionId: 'SUB-1760000000000-abc123',
+      name: REDACTED,
+      email: `hash:${hashPii('asha@example.com')}`,
+      phone: `hash:${hashPii('+91 98765 43210')}`,
+      ip: `hash:${hashPii('203.0.113.7')}`,
+      message: REDACTED,
+      attachments: 2,
+    });
+  });
+
+  test('redacts identifiers outright without a hasher', () => {
+    expect(redactPii({ email: 'asha@example.com', clientIP: '203.0.113.7' })).toEqual({
+      email: REDACTED,
+      clientIP: REDACTED,
+    });
+  });
+
+  test('redacts nested objects and arrays', () => {
+    const redacted = redactPii({
+      lead: { submission: { name: 'Asha Rao', budget: '50L-1Cr' } },
+      recipients: [{ email: 'asha@example.com' }],
+    });
+
+    expect(redacted).toEqual({
+      lead: { submission: { name: REDACTED, budget: '50L-1Cr' } },
+      recipients: [{ email: REDACTED }],
+    });
+  });
+
+  test('masks emails and phone numbers inside other text', () => {
+    expect(scrubText('550 mailbox unavailable: asha@example.com')).toBe(
+      '550 mailbox unavailable: [email]'
+    );
+    expect(scrubText('Call +91 98765 43210 or 9876543210')).toBe('Call [phone] or [phone]');
+    // IDs and timestamps keep their digits
+    expect(scrubText('SUB-1760000000000-k3j9x2a1q at 2026-10-18T05:00:00.000Z')).toBe(
+      'SUB-1760000000000-k3j9x2a1q at 2026-10-18T05:00:00.000Z'
+    );
+  });
+
+  test('serializes errors without the addresses in their message', () => {
+    const error = Object.assign(new Error('Recipient asha@example.com rejected'), {
+      code: 'EENVELOPE',
+    });
+    const { error: serialized } = redactPii({ error }) as { error: Record<string, unknown> };
+
+    expect(serialized).toMatchObject({
+      type: 'Error',
+      message: 'Recipient [email] rejected',
+      code: 'EENVELOPE',
+    });
+    expect(serialized.stack).not.toContain('asha@example.com');
+  });
+
+  test('survives circular references', () => {
+    const loop: Record<string, unknown> = { id: 1 };
+    loop.self = loop;
+
+    expect(redactPii({ loop })).toEqual({ loop: { id: 1, self: '[circular]' } });
+  });
+});
+
+describe('Logger', () => {
+  let records: LogRecord[];
+
+  beforeEach(() => {
+    records = [];
+  });
+
+  test('writes structured records at or above the configured level', () => {
+    const logger = createLogger({ level: 'info', write: (record) => records.push(record) });
+
+    logger.debug('Cache miss');
+    logger.info('Contact form submission stored', { submissionId: 'SUB-1' });
+    logger.error('Contact form submission failed', { error: new Error('disk full') });
+
+    expect(records.map((record) => [record.level, record.msg])).toEqual([
+      ['info', 'Contact form submission stored'],
+      ['error', 'Contact form submission failed'],
+    ]);
+    expect(records[0]).toMatchObject({ submissionId: 'SUB-1' });
+    expect(Date.parse(records[0].time)).not.toBeNaN();
+    expect(records[1].error).toMatchObject({ type: 'Error', message: 'disk full' });
+  });
+
+  test('child loggers add their bindings, which cannot replace the base fields', () => {
+    const logger = createLogger({ write: (record) => records.push(record) }).child({
+      requestId: 'req-12345678',
+      route: 'POST /api/contact',
+    });
+
+    logger.warn('Contact form submission rejected', { reason: 'spam_honeypot', level: 'debug' });
+
+    expect(records).toEqual([
+      expect.objectContaining({
+        level: 'warn',
+        msg: 'Contact form submission rejected',
+        requestId: 'req-12345678',
+        route: 'POST /api/contact',
+        reason: 'spam_honeypot',
+      }),
+    ]);
+    expect(Object.keys(records[0]).slice(0, 3)).toEqual(['level', 'time', 'msg']);
+  });
+
+  test('never writes PII in the clear', () => {
+    const lines: string[] = [];
+    const logger = createLogger({
+      hash: hashPii,
+      write: (record) => lines.push(JSON.stringify(record)),
+    });
+
+    logger.info('Contact form submission stored', {
+      name: 'Asha Rao',
+      email: 'asha@example.com',
+      phone: '9876543210',
+      ip: '203.0.113.7',
+      message: 'Villa on a 40x60 plot',
+    });
+
+    for (const secret of ['Asha', 'asha@example.com', '9876543210', '203.0.113.7', 'Villa']) {
+      expect(lines[0]).not.toContain(secret);
+    }
+  });
+
+  test('silent loggers write nothing', () => {
+    const logger = createLogger({ level: 'silent', write: (record) => records.push(record) });
+    logger.error('Contact form submission failed');
+
+    expect(records).toEqual([]);
+  });
+
+  test('keeps a forwarded request ID and replaces a malformed one', () => {
+    expect(getRequestId(new Headers({ 'x-request-id': 'edge-4f1c9a20' }))).toBe('edge-4f1c9a20');
+    expect(getRequestId(new Headers({ 'x-request-id': '<script>' }))).toMatch(/^[0-9a-f-]{36}$/);
+    expect(getRequestId(new Headers())).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
+
+function auditEntry(overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    entryId: `entry-${Math.random().toString(36).slice(2)}`,
+    at: new Date().toISOString(),
+    actor: 'Priya',
+    action: 'lead.viewed',
+    submissionIds: ['SUB-1'],
+    ...overrides,
+  };
+}
+
+describe.each([
+  ['file', (dir: string): AuditLog => new FileAuditLog(join(dir, 'audit-log.ndjson'))],
+  ['sqlite', (dir: string): AuditLog => new SqliteAuditLog(join(dir, 'audit.db'))],
+])('%s audit log', (_kind, createLog) => {
+  let dir: string;
+  let log: AuditLog;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'audit-'));
+    log = createLog(dir);
+  });
+
+  afterEach(() => {
+    (log as { close?: () => void }).close?.();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('lists entries newest first and filters by lead and action', async () => {
+    await log.append(auditEntry({ entryId: 'a', action: 'lead.viewed' }));
+    await log.append(
+      auditEntry({ entryId: 'b', action: 'lead.exported', submissionIds: ['SUB-1', 'SUB-2'] })
+    );
+    await log.append(
+      auditEntry({
+        entryId: 'c',
+        action: 'lead.status_changed',
+        submissionIds: ['SUB-2'],
+        details: { from: 'new', to: 'contacted' },
+      })
+    );
+
+    expect((await log.list()).map((entry) => entry.entryId)).toEqual(['c', 'b', 'a']);
+    expect((await log.list({ submissionId: 'SUB-2' })).map((entry) => entry.entryId)).toEqual([
+      'c',
+      'b',
+    ]);
+    expect((await log.list({ action: 'lead.viewed' })).map((entry) => entry.entryId)).toEqual([
+      'a',
+    ]);
+    expect(await log.list({ limit: 1 })).toEqual([
+      expect.objectContaining({ entryId: 'c', details: { from: 'new', to: 'contacted' } }),
+    ]);
+  });
+});
+
+describe('SQLite audit log', () => {
+  test('rejects changes to recorded entries', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'audit-'));
+    const path = join(dir, 'audit.db');
+    const log = new SqliteAuditLog(path);
+    await log.append(auditEntry({ entryId: 'a' }));
+
+    const db = new Database(path);
+    try {
+      expect(() => db.prepare("UPDATE audit_log SET action = 'lead.exported'").run()).toThrow(
+        /append-only/
+      );
+      expect(() => db.prepare('DELETE FROM audit_log').run()).toThrow(/append-only/);
+    } finally {
+      db.close();
+      log.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('recordAudit', () => {
+  afterEach(() => {
+    setAuditLog(null);
+    setLogger(null);
+  });
+
+  test('fills in the entry ID and time', async () => {
+    const entries: AuditEntry[] = [];
+    setAuditLog({ append: async (entry) => void entries.push(entry), list: async () => entries });
+
+    await recordAudit({ actor: 'Priya', action: 'webhook.replayed', target: 'whd_1' });
+
+    expect(entries).toEqual([
+      expect.objectContaining({
+        actor: 'Priya',
+        action: 'webhook.replayed',
+        target: 'whd_1',
+        submissionIds: [],
+        entryId: expect.any(String),
+        at: expect.any(String),
+      }),
+    ]);
+  });
+
+  test('logs a failed write instead of throwing', async () => {
+    const records: LogRecord[] = [];
+    setLogger(createLogger({ write: (record) => records.push(record) }));
+    setAuditLog({
+      append: async () => {
+        throw new Error('disk full');
+      },
+      list: async () => [],
+    });
+
+    await expect(
+      recordAudit({ actor: 'Priya', action: 'lead.viewed', submissionIds: ['SUB-1'] })
+    ).resolves.toBeUndefined();
+    expect(records).toEqual([
+      expect.objectContaining({ level: 'error', msg: 'Writing the audit log failed' }),
+    ]);
+  });
+});
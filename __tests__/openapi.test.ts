@@ -0,0 +1,189 @@
+/**
+ * @jest-environment node
+ */
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { GET } from '../app/api/openapi.json/route';
+import { PROJECT_TYPES } from '../lib/contact';
+import { API_ERRORS, API_ERROR_CODES, apiError, type ApiErrorCode } from '../lib/http';
+import { buildOpenApiDocument } from '../lib/openapi';
+import { CONSENT_VERSIONS } from '../lib/privacy/consent';
+
+/**
+ * Feature: API contract
+ *
+ * Every API error has one envelope with a stable code, and the lead intake
+ * API is described by an OpenAPI 3.1 document generated from the zod schemas
+ * the routes validate with.
+ */
+
+describe('apiError', () => {
+  test('answers with the status and title of the code', async () => {
+    const response = apiError('rate_limited', 'Too many submissions.', {
+      headers: { 'Retry-After': '60' },
+    });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('60');
+    await expect(response.json()).resolves.toEqual({
+      success: false,
+      code: 'rate_limited',
+      error: 'Rate limit exceeded',
+      message: 'Too many submissions.',
+    });
+  });
+
+  test('keeps only the path and message of each issue', async () => {
+    const parsed = z.object({ email: z.email('Please enter a valid email address') }).safeParse({
+      email: 'asha',
+    });
+    const response = apiError('validation_failed', 'Please check your input.', {
+      details: parsed.error?.issues,
+    });
+
+    const body = await response.json();
+    expect(body.details).toEqual([
+      { path: ['email'], message: 'Please enter a valid email address' },
+    ]);
+  });
+
+  test('gives every code an error status and a snake_case name', () => {
+    for (const code of API_ERROR_CODES) {
+      expect(API_ERRORS[code].status).toBeGreaterThanOrEqual(400);
+      expect(code).toMatch(/^[a-z]+(_[a-z]+)*$/);
+    }
+  });
+});
+
+/**
+ * Follow a path of keys into the document
+ */
+function at(value: unknown, ...keys: string[]): unknown {
+  return keys.reduce<unknown>(
+    (node, key) =>
+      node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined,
+    value
+  );
+}
+
+function entries(value: unknown): [string, unknown][] {
+  return Object.entries(value as Record<string, unknown>);
+}
+
+describe('OpenAPI document', () => {
+  const document = buildOpenApiDocument({ serverUrl: 'https://sbinfraprojects.com' });
+  const operations = entries(document.paths).flatMap(([path, methods]) =>
+    entries(methods).map(([method, operation]) => ({ path, method, operation }))
+  );
+
+  test('is OpenAPI 3.1 with the configured server', () => {
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.servers).toEqual([{ url: 'https://sbinfraprojects.com' }]);
+    expect(operations.length).toBeGreaterThan(0);
+  });
+
+  test('only describes routes that exist', () => {
+    for (const { path, method } of operations) {
+      const file = join(__dirname, '..', 'app', path.replace(/\{(\w+)\}/g, '[$1]'), 'route.ts');
+      expect(existsSync(file)).toBe(true);
+      expect(readFileSync(file, 'utf8')).toContain(`export const ${method.toUpperCase()} =`);
+    }
+  });
+
+  test('has no dangling references', () => {
+    const refs: string[] = [];
+    const collect = (value: unknown) => {
+      if (Array.isArray(value)) value.forEach(collect);
+      else if (value && typeof value === 'object') {
+        for (const [key, child] of Object.entries(value)) {
+          if (key === '$ref') refs.push(child as string);
+          else collect(child);
+        }
+      }
+    };
+    collect(document);
+
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      expect(at(document, ...ref.replace(/^#\//, '').split('/'))).toBeDefined();
+    }
+  });
+
+  test('describes request bodies from the schemas the routes validate with', () => {
+    const contact = at(document, 'components', 'schemas', 'ContactRequest');
+
+    expect(at(contact, 'properties', 'projectType', 'enum')).toEqual([...PROJECT_TYPES]);
+    expect(at(contact, 'properties', 'consentVersion', 'enum')).toEqual([...CONSENT_VERSIONS]);
+    expect(at(contact, 'required')).toEqual(
+      expect.arrayContaining(['name', 'email', 'projectType', 'message', 'formToken'])
+    );
+    expect(
+      at(document, 'components', 'schemas', 'ContactUpload', 'properties', 'attachments', 'items')
+    ).toMatchObject({ format: 'binary' });
+  });
+
+  test('lists each error code under the status it is sent with', () => {
+    expect(at(document, 'components', 'schemas', 'ApiError', 'properties', 'code', 'enum')).toEqual(
+      API_ERROR_CODES
+    );
+
+    for (const { operation } of operations) {
+      for (const [status, response] of entries(at(operation, 'responses'))) {
+        const codes = at(
+          response,
+          'content',
+          'application/json',
+          'schema',
+          'properties',
+          'code',
+          'enum'
+        );
+        for (const code of (codes ?? []) as ApiErrorCode[]) {
+          expect(API_ERRORS[code].status).toBe(Number(status));
+        }
+      }
+      expect(at(operation, 'responses', '500')).toBeDefined();
+    }
+  });
+
+  test('documents the wrapper errors and idempotency key of the contact route', () => {
+    const submit = at(document, 'paths', '/api/contact', 'post');
+
+    expect(at(submit, 'parameters')).toContainEqual({
+      $ref: '#/components/parameters/IdempotencyKey',
+    });
+    expect(
+      at(
+        submit,
+        'responses',
+        '409',
+        'content',
+        'application/json',
+        'schema',
+        'properties',
+        'code',
+        'enum'
+      )
+    ).toEqual(['request_in_progress']);
+    expect(at(submit, 'responses', '403')).toBeDefined();
+    expect(at(submit, 'responses', '415')).toBeDefined();
+    expect(
+      at(document, 'paths', '/api/contact/challenge', 'get', 'responses', '403')
+    ).toBeUndefined();
+  });
+
+  test('is served at /api/openapi.json', async () => {
+    const response = await GET(new NextRequest('https://sbinfraprojects.com/api/openapi.json'), {
+      params: Promise.resolve({}),
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    await expect(response.json()).resolves.toMatchObject({
+      openapi: '3.1.0',
+      info: { title: 'SB Infra Projects Lead Intake API' },
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @jest-environment node
+ */
+import fc from 'fast-check';
+import { contactSchema } from '../lib/contact';
+import { formatPhone, formatPhoneInput, parseIndianPhone } from '../lib/phone';
+import { CONSENT_VERSION } from '../lib/privacy/consent';
+
+/**
+ * Feature: Indian phone numbers
+ *
+ * Numbers are accepted the way customers write them, stored in one E.164 form
+ * and shown grouped as mobile or STD code and subscriber number.
+ */
+
+const nationalArb = fc
+  .tuple(fc.integer({ min: 1, max: 9 }), fc.stringMatching(/^\d{9}$/))
+  .map(([first, rest]) => `${first}${rest}`);
+
+describe('parseIndianPhone', () => {
+  test.each([
+    ['98450 12345', '+919845012345', 'mobile'],
+    ['+91-98450-12345', '+919845012345', 'mobile'],
+    ['0091 98450 12345', '+919845012345', 'mobile'],
+    ['919845012345', '+919845012345', 'mobile'],
+    ['080 2345 6789', '+918023456789', 'landline'],
+    ['(080) 2345-6789', '+918023456789', 'landline'],
+    ['+91 (0) 80 2345 6789', '+918023456789', 'landline'],
+    ['0824 244 1234', '+918242441234', 'landline'],
+    ['011-2334 5678', '+911123345678', 'landline'],
+  ])('reads %s as %s', (input, e164, kind) => {
+    expect(parseIndianPhone(input)).toMatchObject({ ok: true, e164, kind });
+  });
+
+  test('rejects numbers that are not ten national digits', () => {
+    expect(parseIndianPhone('98450 1234')).toEqual({ ok: false, reason: 'too_short' });
+    expect(parseIndianPhone('98450 123456')).toEqual({ ok: false, reason: 'invalid_number' });
+    expect(parseIndianPhone('0 98450 1234')).toEqual({ ok: false, reason: 'invalid_number' });
+    expect(parseIndianPhone('+1 (555) 123-4567')).toEqual({ ok: false, reason: 'not_indian' });
+    expect(parseIndianPhone('call 98450 12345')).toEqual({
+      ok: false,
+      reason: 'invalid_characters',
+    });
+  });
+
+  test('finds the same E.164 number however it is written', () => {
+    fc.assert(
+      fc.property(
+        nationalArb,
+        fc.constantFrom('', '0', '+91 ', '+91-', '91', '0091 '),
+        fc.constantFrom(' ', '-', ''),
+        (national, prefix, separator) => {
+          const typed = `${prefix}${national.slice(0, 5)}${separator}${national.slice(5)}`;
+          expect(parseIndianPhone(typed)).toMatchObject({ ok: true, e164: `+91${national}` });
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+});
+
+describe('formatPhone', () => {
+  test('groups mobiles 5-5 and landlines by STD code', () => {
+    expect(formatPhone('+919845012345')).toBe('+91 98450 12345');
+    expect(formatPhone('+918023456789')).toBe('+91 80 2345 6789');
+    expect(formatPhone('+918242441234')).toBe('+91 824 244 1234');
+    // Codes missing from the table are taken to be four digits long
+    expect(formatPhone('+912836234567')).toBe('+91 2836 234 567');
+    // A Bengaluru-looking mobile series
+    expect(formatPhone('+918050123456')).toBe('+91 80501 23456');
+  });
+
+  test('leaves values stored before validation as they are', () => {
+    expect(formatPhone('555-0100')).toBe('555-0100');
+    expect(formatPhone('')).toBe('');
+  });
+});
+
+describe('formatPhoneInput', () => {
+  function typeEach(keys: string): string {
+    return [...keys].reduce((value, key) => formatPhoneInput(value + key), '');
+  }
+
+  test('groups the number as each digit is typed, keeping the chosen prefix', () => {
+    expect(typeEach('9845012345')).toBe('98450 12345');
+    expect(typeEach('08023456789')).toBe('080 2345 6789');
+    expect(typeEach('+919845012345')).toBe('+91 98450 12345');
+    expect(formatPhoneInput('080 2345 6')).toBe('080 2345 6');
+    expect(formatPhoneInput('+91-98450-12345')).toBe('+91 98450 12345');
+  });
+
+  test('leaves input it cannot read for validation to report', () => {
+    expect(formatPhoneInput('+1 555 0100')).toBe('+1 555 0100');
+    expect(formatPhoneInput('call me')).toBe('call me');
+    expect(formatPhoneInput('  ')).toBe('  ');
+  });
+
+  test('never changes the number that gets stored', () => {
+    fc.assert(
+      fc.property(nationalArb, fc.constantFrom('', '0', '+91'), (national, prefix) => {
+        const typed = formatPhoneInput(`${prefix}${national}`);
+        expect(parseIndianPhone(typed)).toMatchObject({ ok: true, e164: `+91${national}` });
+      }),
+      { numRuns: 200 }
+    );
+  });
+});
+
+describe('Contact form phone field', () => {
+  const form = {
+    name: 'Asha Rao',
+    email: 'asha@example.com',
+    projectType: 'Residential Construction',
+    budget: '',
+    message: 'Two-storey house on a 30x40 plot.',
+    consentVersion: CONSENT_VERSION,
+  };
+
+  test('stores valid numbers in E.164 form and keeps the field optional', () => {
+    expect(contactSchema.parse({ ...form, phone: '98450 12345' }).phone).toBe('+919845012345');
+    expect(contactSchema.parse({ ...form, phone: '' }).phone).toBe('');
+    expect(contactSchema.parse(form).phone).toBeUndefined();
+  });
+
+  test('reports why a number was rejected', () => {
+    const result = contactSchema.safeParse({ ...form, phone: '+44 20 7946 0958' });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toEqual([
+      expect.objectContaining({ path: ['phone'], message: expect.stringMatching(/\+91/) }),
+    ]);
+  });
+});
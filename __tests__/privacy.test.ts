@@ -0,0 +1,301 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LocalAttachmentStorage } from '../lib/attachments';
+import { FileBookingRepository, type Booking } from '../lib/bookings';
+import { parseConfig } from '../lib/config';
+import { contactSchema } from '../lib/contact';
+import { FileLeadRepository, createLeadRecord, type ContactSubmission } from '../lib/leads';
+import { MemoryNonceStore, SqliteNonceStore, setNonceStore, type NonceStore } from '../lib/nonces';
+import {
+  CONSENT_NOTICES,
+  CONSENT_VERSION,
+  createDataRequestChallenge,
+  dataRequestTokenEmail,
+  eraseLeads,
+  exportSubjectData,
+  findSubjectLeads,
+  purgeStaleLeads,
+  verifyDataRequest,
+  type SubjectDataStores,
+} from '../lib/privacy';
+import { FileWebhookDeliveryStore, type WebhookDelivery } from '../lib/webhooks';
+
+/**
+ * Feature: privacy
+ *
+ * Submissions carry the consent notice version their sender agreed to. The
+ * owner of an email address can export or erase everything stored for it
+ * once they prove they read that mailbox, and leads left untouched past the
+ * retention period are purged.
+ */
+
+const NOW = new Date('2026-10-19T04:30:00.000Z');
+
+const submission: ContactSubmission = {
+  name: 'Asha Rao',
+  email: 'asha@example.com',
+  phone: '9845012345',
+  projectType: 'Residential Construction',
+  budget: 'Not Sure',
+  message: 'Planning a G+2 villa on a 40x60 plot.',
+};
+
+describe('Consent', () => {
+  const form = { ...submission, projectDetails: undefined };
+
+  test('is required with a known notice version', () => {
+    const missing = contactSchema.safeParse(form);
+    expect(missing.success).toBe(false);
+    expect(missing.error?.issues.map((issue) => issue.path)).toEqual([['consentVersion']]);
+
+    expect(contactSchema.safeParse({ ...form, consentVersion: '1999-01' }).success).toBe(false);
+    expect(contactSchema.safeParse({ ...form, consentVersion: CONSENT_VERSION }).success).toBe(
+      true
+    );
+  });
+
+  test('is stored with the version and the time it was given', () => {
+    const lead = createLeadRecord('SUB-1', submission, '203.0.113.7', [], CONSENT_VERSION);
+
+    expect(lead.consent).toEqual({ version: CONSENT_VERSION, givenAt: lead.createdAt });
+    expect(CONSENT_NOTICES[CONSENT_VERSION]).toMatch(/deleted/);
+  });
+});
+
+describe.each([
+  ['MemoryNonceStore', () => new MemoryNonceStore()],
+  ['SqliteNonceStore', () => new SqliteNonceStore(':memory:')],
+] as const)('%s', (_name, createStore) => {
+  let store: NonceStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  test('spends a nonce once until it expires', async () => {
+    await expect(store.spend('a', 1000, 2000)).resolves.toBe(true);
+    await expect(store.spend('a', 1500, 2000)).resolves.toBe(false);
+    await expect(store.spend('b', 1500, 2000)).resolves.toBe(true);
+
+    await expect(store.spend('a', 2000, 3000)).resolves.toBe(true);
+    await store.prune(3000);
+    await expect(store.spend('a', 3000, 4000)).resolves.toBe(true);
+  });
+});
+
+describe('Data request verification', () => {
+  const now = NOW.getTime();
+
+  beforeEach(() => {
+    setNonceStore(new MemoryNonceStore());
+  });
+
+  afterEach(() => {
+    setNonceStore(null);
+  });
+
+  test('accepts the emailed code with its token', async () => {
+    const { token, code, expiresAt } = createDataRequestChallenge(
+      ' Asha@Example.com',
+      'export',
+      now
+    );
+
+    expect(code).toMatch(/^\d{6}$/);
+    expect(expiresAt).toBe('2026-10-19T04:45:00.000Z');
+    await expect(verifyDataRequest(token, code, 'export', now)).resolves.toEqual({
+      ok: true,
+      email: 'asha@example.com',
+    });
+    expect(dataRequestTokenEmail(token)).toBe('asha@example.com');
+  });
+
+  test('accepts a code only once', async () => {
+    const { token, code } = createDataRequestChallenge('asha@example.com', 'erasure', now);
+
+    await expect(verifyDataRequest(token, code, 'erasure', now)).resolves.toMatchObject({
+      ok: true,
+    });
+    await expect(verifyDataRequest(token, code, 'erasure', now + 1000)).resolves.toEqual({
+      ok: false,
+      reason: 'used',
+    });
+  });
+
+  test('rejects a wrong code, another purpose, an altered token and an expired one', async () => {
+    const { token, code } = createDataRequestChallenge('asha@example.com', 'export', now);
+    const wrongCode = code === '000000' ? '000001' : '000000';
+    const [claims, signature] = token.split('.');
+    const otherEmail = Buffer.from(
+      Buffer.from(claims, 'base64url').toString().replace('asha', 'vikram')
+    ).toString('base64url');
+
+    await expect(verifyDataRequest(token, wrongCode, 'export', now)).resolves.toEqual({
+      ok: false,
+      reason: 'invalid',
+    });
+    await expect(verifyDataRequest(token, code, 'erasure', now)).resolves.toMatchObject({
+      ok: false,
+    });
+    await expect(
+      verifyDataRequest(`${otherEmail}.${signature}`, code, 'export', now)
+    ).resolves.toMatchObject({ ok: false });
+    await expect(verifyDataRequest('not-a-token', code, 'export', now)).resolves.toMatchObject({
+      ok: false,
+    });
+    await expect(verifyDataRequest(token, code, 'export', now + 15 * 60 * 1000)).resolves.toEqual({
+      ok: false,
+      reason: 'expired',
+    });
+  });
+});
+
+describe('Subject data', () => {
+  let dir: string;
+  let stores: SubjectDataStores;
+
+  function booking(submissionId: string, start: string): Booking {
+    return {
+      bookingId: `BK-${submissionId}`,
+      submissionId,
+      kind: 'site-visit',
+      status: 'confirmed',
+      start,
+      end: new Date(Date.parse(start) + 60 * 60 * 1000).toISOString(),
+      timeZone: 'Asia/Kolkata',
+      name: submission.name,
+      email: submission.email,
+      location: 'Plot 12, Sector 4, Pune',
+      createdAt: NOW.toISOString(),
+      updatedAt: NOW.toISOString(),
+    };
+  }
+
+  function delivery(deliveryId: string, data: Record<string, unknown>): WebhookDelivery {
+    return {
+      deliveryId,
+      endpointId: 'crm',
+      url: 'https://crm.example.com/hooks',
+      event: {
+        eventId: `evt_${deliveryId}`,
+        type: 'lead.created',
+        createdAt: NOW.toISOString(),
+        data,
+      },
+      status: 'delivered',
+      attempts: [],
+      createdAt: NOW.toISOString(),
+      updatedAt: NOW.toISOString(),
+    };
+  }
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'privacy-'));
+    stores = {
+      leads: new FileLeadRepository(join(dir, 'leads.ndjson')),
+      bookings: new FileBookingRepository(join(dir, 'bookings.ndjson')),
+      attachments: new LocalAttachmentStorage(join(dir, 'attachments')),
+      webhooks: new FileWebhookDeliveryStore(join(dir, 'webhook-deliveries.ndjson')),
+    };
+
+    const attachment = await stores.attachments.save('SUB-1', {
+      fileName: 'site-plan.pdf',
+      kind: 'pdf',
+      mimeType: 'application/pdf',
+      data: new TextEncoder().encode('%PDF-1.7'),
+    });
+    // SUB-1 was last touched over a year ago, SUB-2 is current
+    await stores.leads.create({
+      ...createLeadRecord('SUB-1', submission, '203.0.113.7', [attachment], CONSENT_VERSION),
+      createdAt: '2025-09-01T06:00:00.000Z',
+      updatedAt: '2025-09-12T06:00:00.000Z',
+      notes: [
+        { noteId: 'N-1', author: 'Priya', body: 'Prefers calls', createdAt: NOW.toISOString() },
+      ],
+    });
+    await stores.leads.create({
+      ...createLeadRecord('SUB-2', { ...submission, email: 'vikram@example.com' }, '203.0.113.7'),
+      createdAt: NOW.toISOString(),
+      updatedAt: NOW.toISOString(),
+    });
+    await stores.bookings.reserve(booking('SUB-1', '2026-10-21T03:30:00.000Z'));
+    await stores.bookings.reserve(booking('SUB-2', '2026-10-21T05:30:00.000Z'));
+    await stores.webhooks.save(delivery('whd_1', { submissionId: 'SUB-1' }));
+    await stores.webhooks.save(
+      delivery('whd_2', { previousStatus: 'new', lead: { submissionId: 'SUB-1' } })
+    );
+    await stores.webhooks.save(delivery('whd_3', { submissionId: 'SUB-2' }));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('exports what was submitted without internal notes or the IP hash', async () => {
+    const data = await exportSubjectData('ASHA@example.com', stores, NOW);
+
+    expect(data).toMatchObject({
+      email: 'asha@example.com',
+      exportedAt: NOW.toISOString(),
+      leads: [
+        {
+          submissionId: 'SUB-1',
+          submission,
+          consent: { version: CONSENT_VERSION, notice: CONSENT_NOTICES[CONSENT_VERSION] },
+          attachments: [{ fileName: 'site-plan.pdf', kind: 'pdf', size: 8 }],
+        },
+      ],
+      bookings: [{ bookingId: 'BK-SUB-1', start: '2026-10-21T03:30:00.000Z' }],
+    });
+    const serialized = JSON.stringify(data);
+    expect(serialized).not.toContain('Prefers calls');
+    expect(serialized).not.toContain('ipHash');
+    expect(serialized).not.toContain('storageKey');
+  });
+
+  test('erases the leads with their files, bookings and webhook deliveries', async () => {
+    const [lead] = await findSubjectLeads('asha@example.com', stores);
+    const erased = await eraseLeads([lead], stores);
+
+    expect(erased).toEqual({ leads: 1, bookings: 1, attachments: 1, webhookDeliveries: 2 });
+    await expect(stores.leads.findById('SUB-1')).resolves.toBeNull();
+    await expect(stores.attachments.read(lead.attachments[0])).rejects.toThrow();
+    await expect(stores.bookings.listForLeads(['SUB-1'])).resolves.toEqual([]);
+    expect((await stores.webhooks.list()).map((entry) => entry.deliveryId)).toEqual(['whd_3']);
+
+    // Nothing about the subject is left in the files, not even earlier snapshots
+    for (const file of ['leads.ndjson', 'bookings.ndjson', 'webhook-deliveries.ndjson']) {
+      expect(readFileSync(join(dir, file), 'utf8')).not.toContain('SUB-1');
+    }
+    await expect(stores.leads.findById('SUB-2')).resolves.not.toBeNull();
+  });
+
+  test('purges leads not updated within the retention period', async () => {
+    const dryRun = await purgeStaleLeads(stores, { retentionDays: 365, now: NOW, dryRun: true });
+    expect(dryRun.cutoff).toBe('2025-10-19T04:30:00.000Z');
+    expect(dryRun.leads.map((lead) => lead.submissionId)).toEqual(['SUB-1']);
+    expect(dryRun.erased).toBeNull();
+    await expect(stores.leads.list()).resolves.toHaveLength(2);
+
+    const purged = await purgeStaleLeads(stores, { retentionDays: 365, now: NOW });
+    expect(purged.erased).toMatchObject({ leads: 1, bookings: 1, attachments: 1 });
+    expect((await stores.leads.list()).map((lead) => lead.submissionId)).toEqual(['SUB-2']);
+  });
+
+  test('reads the retention period from the environment', () => {
+    const retentionDays = (env: Record<string, string>) => {
+      const result = parseConfig(env);
+      return result.ok ? result.config.privacy.retentionDays : result.problems;
+    };
+
+    expect(retentionDays({})).toBe(365);
+    expect(retentionDays({ LEAD_RETENTION_DAYS: '90' })).toBe(90);
+    expect(retentionDays({ LEAD_RETENTION_DAYS: '0' })).toEqual([
+      expect.stringMatching(/^LEAD_RETENTION_DAYS: /),
+    ]);
+  });
+});
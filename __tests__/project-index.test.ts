@@ -0,0 +1,135 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { GET } from '../app/api/projects/route';
+import {
+  EMPTY_PROJECT_FILTERS,
+  getProject,
+  searchProjects,
+  setProjects,
+  sortProjects,
+  type ProjectPageResponse,
+  type ProjectSort,
+} from '../lib/projects';
+import { Project } from '../types';
+
+/**
+ * Feature: project index
+ *
+ * The grid fetches the portfolio a page at a time, in the order the visitor
+ * picked, from GET /api/projects instead of bundling all of it.
+ */
+
+const base = getProject('retail-mall')!;
+
+function project(id: string, title: string, completionDate: string, area?: string): Project {
+  return { ...base, id, title, completionDate, area };
+}
+
+const projects = [
+  project('mall', 'City Mall', '2023-12-15', '250,000 sq ft'),
+  project('villa', 'Whitefield Villa', '2024-03-15', '4,500 sq ft'),
+  project('bridge', 'Ring Road Bridge', '2022-10-30', '2.5 km length'),
+  project('factory', 'Auto Factory', '2024-04-20', '80,000 sq ft'),
+  project('annex', 'Auto Factory', '2024-04-20', '80,000 sq ft'),
+];
+
+const order = (sort: ProjectSort) => sortProjects(projects, sort).map((p) => p.id);
+
+describe('sortProjects', () => {
+  test('orders by completion date, size or name, breaking ties the same way every time', () => {
+    expect(order('newest')).toEqual(['annex', 'factory', 'villa', 'mall', 'bridge']);
+    expect(order('oldest')).toEqual(['bridge', 'mall', 'villa', 'annex', 'factory']);
+    expect(order('name')).toEqual(['annex', 'factory', 'mall', 'bridge', 'villa']);
+  });
+
+  test('puts projects not measured in square feet last', () => {
+    expect(order('largest')).toEqual(['mall', 'annex', 'factory', 'villa', 'bridge']);
+    expect(order('smallest')).toEqual(['villa', 'annex', 'factory', 'mall', 'bridge']);
+  });
+});
+
+describe('searchProjects', () => {
+  const filters = { ...EMPTY_PROJECT_FILTERS, sort: 'name' as const };
+
+  test('pages through every result once using the cursor', () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = searchProjects(projects, filters, { cursor, limit: 2 });
+      if (!result.ok) throw new Error(result.problem);
+      expect(result.page.total).toBe(5);
+      seen.push(...result.page.projects.map((p) => p.id));
+      cursor = result.page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual(order('name'));
+  });
+
+  test('sends what a card needs and not the gallery', () => {
+    const result = searchProjects(projects, filters, { limit: 1 });
+
+    expect(result.ok && Object.keys(result.page.projects[0]).sort()).toEqual([
+      'area',
+      'category',
+      'completionDate',
+      'description',
+      'id',
+      'location',
+      'thumbnail',
+      'title',
+    ]);
+  });
+
+  test('rejects a cursor that is not in the results', () => {
+    const result = searchProjects(
+      projects,
+      { ...filters, query: 'auto' },
+      { cursor: 'villa', limit: 2 }
+    );
+
+    expect(result).toEqual({ ok: false, problem: 'unknown_cursor' });
+  });
+});
+
+describe('GET /api/projects', () => {
+  const get = (query: string) =>
+    GET(new NextRequest(`https://sbinfraprojects.com/api/projects?${query}`), {
+      params: Promise.resolve({}),
+    });
+
+  beforeEach(() => setProjects(projects));
+  afterEach(() => setProjects(null));
+
+  test('answers a page for the filters and sort in the query string', async () => {
+    const response = await get('q=auto&sort=name&limit=1');
+    const body = (await response.json()) as ProjectPageResponse;
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toBe('public, max-age=300');
+    expect(body).toMatchObject({ total: 2, nextCursor: 'annex' });
+    expect(body.projects.map((p) => p.id)).toEqual(['annex']);
+    expect(body.facets.categories).toContainEqual({ value: 'commercial', count: 2 });
+
+    const next = (await (
+      await get('q=auto&sort=name&limit=1&cursor=annex')
+    ).json()) as ProjectPageResponse;
+    expect(next).toMatchObject({ projects: [{ id: 'factory' }], nextCursor: null });
+  });
+
+  test('rejects bad paging parameters', async () => {
+    const tooMany = await get('limit=500');
+    const unknownCursor = await get('cursor=castle');
+
+    expect(tooMany.status).toBe(400);
+    await expect(tooMany.json()).resolves.toMatchObject({
+      code: 'validation_failed',
+      details: [{ path: ['limit'] }],
+    });
+    await expect(unknownCursor.json()).resolves.toMatchObject({
+      code: 'validation_failed',
+      details: [{ path: ['cursor'] }],
+    });
+  });
+});
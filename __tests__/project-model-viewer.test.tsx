@@ -0,0 +1,99 @@
+/**
+ * Feature: 3D model viewer
+ *
+ * Projects with a model get a "3D view" tab beside the photos, in the modal
+ * and on their page. The model loads with progress and the camera can be
+ * reset; without WebGL, or when the model fails, the gallery is shown.
+ */
+
+import Image from 'next/image';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import ProjectMediaTabs from '@/components/ProjectMediaTabs';
+import type { ProjectModelSceneProps } from '@/components/ProjectModelScene';
+import { detectWebGLSupport } from '@/lib/webgl-detector';
+
+jest.mock('@/lib/webgl-detector', () => ({
+  detectWebGLSupport: jest.fn(),
+}));
+
+// The canvas needs a real WebGL context, so the scene is replaced by its props
+let sceneProps: ProjectModelSceneProps | undefined;
+let sceneError: Error | undefined;
+jest.mock('@/components/ProjectModelScene', () => ({
+  __esModule: true,
+  default: function MockScene(props: ProjectModelSceneProps) {
+    if (sceneError) throw sceneError;
+    sceneProps = props;
+    return <div data-testid="model-scene" />;
+  },
+}));
+
+const gallery = (
+  <Image src="/images/villa.jpg" alt="Villa front elevation" width={1600} height={1200} />
+);
+
+function renderTabs(modelUrl?: string) {
+  return render(<ProjectMediaTabs title="Luxury Villa" modelUrl={modelUrl} gallery={gallery} />);
+}
+
+beforeEach(() => {
+  sceneProps = undefined;
+  sceneError = undefined;
+  (detectWebGLSupport as jest.Mock).mockReturnValue(true);
+});
+
+describe('ProjectMediaTabs', () => {
+  test('shows only the gallery without a model or without WebGL', () => {
+    const { unmount } = renderTabs();
+    expect(screen.queryByRole('tab')).not.toBeInTheDocument();
+    expect(screen.getByAltText('Villa front elevation')).toBeInTheDocument();
+    unmount();
+
+    (detectWebGLSupport as jest.Mock).mockReturnValue(false);
+    renderTabs('/models/villa.glb');
+    expect(screen.queryByRole('tab', { name: '3D view' })).not.toBeInTheDocument();
+    expect(screen.getByAltText('Villa front elevation')).toBeInTheDocument();
+  });
+
+  test('loads the model with progress in the 3D view tab', async () => {
+    renderTabs('/models/villa.glb');
+    expect(screen.getByRole('tab', { name: 'Photos' })).toHaveAttribute('aria-selected', 'true');
+
+    fireEvent.click(screen.getByRole('tab', { name: '3D view' }));
+
+    expect(await screen.findByTestId('model-scene')).toBeInTheDocument();
+    expect(sceneProps?.modelUrl).toBe('/models/villa.glb');
+    expect(screen.queryByAltText('Villa front elevation')).not.toBeInTheDocument();
+
+    act(() => sceneProps!.onProgress(256, 1024));
+    expect(screen.getByText('25%')).toBeInTheDocument();
+    expect(screen.getByText('Loading 3D model...')).toBeInTheDocument();
+
+    act(() => sceneProps!.onLoad());
+    expect(screen.queryByText('Loading 3D model...')).not.toBeInTheDocument();
+  });
+
+  test('resets the camera on request', async () => {
+    renderTabs('/models/villa.glb');
+    fireEvent.click(screen.getByRole('tab', { name: '3D view' }));
+    await screen.findByTestId('model-scene');
+    act(() => sceneProps!.onLoad());
+
+    expect(sceneProps!.resetCount).toBe(0);
+    fireEvent.click(screen.getByRole('button', { name: 'Reset view' }));
+
+    expect(sceneProps!.resetCount).toBe(1);
+  });
+
+  test('falls back to the gallery when the model cannot be loaded', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    sceneError = new Error('Could not load /models/villa.glb: 404');
+
+    renderTabs('/models/villa.glb');
+    fireEvent.click(screen.getByRole('tab', { name: '3D view' }));
+
+    expect(await screen.findByText(/could not be loaded/)).toBeInTheDocument();
+    expect(screen.getByAltText('Villa front elevation')).toBeInTheDocument();
+    consoleError.mockRestore();
+  });
+});
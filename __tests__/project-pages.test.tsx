@@ -0,0 +1,61 @@
+/**
+ * @jest-environment node
+ */
+import { renderToStaticMarkup } from 'react-dom/server';
+import ProjectPage, {
+  dynamicParams,
+  generateMetadata,
+  generateStaticParams,
+} from '../app/(site)/projects/[id]/page';
+import { getPublicConfig, phoneHref } from '../lib/config';
+import { formatCompletionDate, getProject, getProjects } from '../lib/projects';
+
+/**
+ * Feature: project pages
+ *
+ * Every project has a page at /projects/<id>, built ahead of time, with the
+ * whole gallery, its specs and tags, and a way to get in touch.
+ */
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+describe('/projects/[id]', () => {
+  test('a page is generated for every project and no others', () => {
+    expect(generateStaticParams()).toEqual(getProjects().map((project) => ({ id: project.id })));
+    expect(dynamicParams).toBe(false);
+  });
+
+  test('shows the full gallery, specs, tags and a call to action', async () => {
+    const project = getProject('retail-mall')!;
+
+    const html = renderToStaticMarkup(await ProjectPage(params('retail-mall')));
+
+    expect(html).toContain(project.title);
+    for (const image of project.images) expect(html).toContain(`alt="${image.alt}"`);
+    for (const value of [project.location, project.area, project.duration, project.client]) {
+      expect(html).toContain(value);
+    }
+    expect(html).toContain(formatCompletionDate(project.completionDate));
+    for (const tag of project.tags) expect(html).toContain(tag);
+    expect(html).toContain('href="/#contact"');
+    expect(html).toContain(`href="${phoneHref(getPublicConfig().company.phone)}"`);
+  });
+
+  test('unknown ids are not found', async () => {
+    await expect(ProjectPage(params('missing'))).rejects.toMatchObject({
+      digest: expect.stringContaining('404'),
+    });
+  });
+
+  test('metadata describes the project', async () => {
+    const project = getProject('retail-mall')!;
+
+    const metadata = await generateMetadata(params('retail-mall'));
+
+    expect(metadata).toMatchObject({
+      title: `${project.title} | SB Infra Projects`,
+      description: project.description,
+      openGraph: { images: [{ url: project.thumbnail.url, alt: project.thumbnail.alt }] },
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * @jest-environment node
+ */
+import { getProject } from '../lib/projects';
+import {
+  EMPTY_PROJECT_FILTERS,
+  filterProjects,
+  getProjectFacets,
+  parseProjectFilters,
+  projectAreaSqFt,
+  projectFiltersToQuery,
+  type ProjectFilters,
+} from '../lib/projects/search';
+import { Project } from '../types';
+
+/**
+ * Feature: project search
+ *
+ * Free text and facets narrow the portfolio, each facet shows how many
+ * results it would give, and the whole search round-trips through the URL.
+ */
+
+const base = getProject('retail-mall')!;
+
+function project(id: string, overrides: Partial<Project>): Project {
+  return { ...base, id, title: id, description: '', client: undefined, ...overrides };
+}
+
+const projects = [
+  project('mall', {
+    category: 'commercial',
+    location: 'MG Road, Bangalore',
+    client: 'City Center Retail',
+    area: '250,000 sq ft',
+    completionDate: '2023-12-15',
+    tags: ['retail', 'mall'],
+  }),
+  project('villa', {
+    category: 'residential',
+    location: 'Whitefield, Bangalore',
+    description: 'A smart home with solar roofs',
+    area: '4,500 sq ft',
+    completionDate: '2024-03-15',
+    tags: ['luxury', 'sustainable'],
+  }),
+  project('factory', {
+    category: 'industrial',
+    location: 'Peenya Industrial Area, Bangalore',
+    area: '80,000 sq ft',
+    completionDate: '2024-04-20',
+    tags: ['manufacturing', 'sustainable'],
+  }),
+  project('bridge', {
+    category: 'infrastructure',
+    location: 'Outer Ring Road, Bangalore',
+    area: '2.5 km length',
+    completionDate: '2022-10-30',
+    tags: ['bridge'],
+  }),
+];
+
+const search = (filters: Partial<ProjectFilters>) =>
+  filterProjects(projects, { ...EMPTY_PROJECT_FILTERS, ...filters }).map((p) => p.id);
+
+describe('filterProjects', () => {
+  test('matches every word of the query across title, description, location and client', () => {
+    expect(search({ query: 'city retail' })).toEqual(['mall']);
+    expect(search({ query: 'SOLAR whitefield' })).toEqual(['villa']);
+    expect(search({ query: '  ' })).toEqual(['mall', 'villa', 'factory', 'bridge']);
+    expect(search({ query: 'solar peenya' })).toEqual([]);
+  });
+
+  test('treats values within a facet as alternatives and facets as all required', () => {
+    expect(search({ tags: ['retail', 'sustainable'] })).toEqual(['mall', 'villa', 'factory']);
+    expect(search({ tags: ['sustainable'], localities: ['Peenya Industrial Area'] })).toEqual([
+      'factory',
+    ]);
+    expect(search({ yearFrom: 2023, yearTo: 2023 })).toEqual(['mall']);
+    expect(search({ yearFrom: 2024 })).toEqual(['villa', 'factory']);
+  });
+
+  test('groups areas in square feet into bands and leaves other measures out', () => {
+    expect(projectAreaSqFt(projects[0])).toBe(250_000);
+    expect(projectAreaSqFt(projects[3])).toBeUndefined();
+    expect(search({ areas: ['small', 'medium'] })).toEqual(['villa', 'factory']);
+  });
+});
+
+describe('getProjectFacets', () => {
+  test('counts each facet against the other filters only', () => {
+    const facets = getProjectFacets(projects, {
+      ...EMPTY_PROJECT_FILTERS,
+      tags: ['sustainable'],
+      yearFrom: 2024,
+    });
+
+    expect(facets.tags).toEqual([
+      { value: 'bridge', count: 0 },
+      { value: 'luxury', count: 1 },
+      { value: 'mall', count: 0 },
+      { value: 'manufacturing', count: 1 },
+      { value: 'retail', count: 0 },
+      { value: 'sustainable', count: 2 },
+    ]);
+    expect(facets.years).toEqual([
+      { value: 2022, count: 0 },
+      { value: 2023, count: 0 },
+      { value: 2024, count: 2 },
+    ]);
+    expect(facets.categories).toContainEqual({ value: 'industrial', count: 1 });
+    expect(facets.areas).toEqual([
+      { value: 'small', count: 1 },
+      { value: 'medium', count: 1 },
+      { value: 'large', count: 0 },
+    ]);
+  });
+});
+
+describe('URL query string', () => {
+  test('round-trips every filter', () => {
+    const filters: ProjectFilters = {
+      query: 'office park',
+      category: 'commercial',
+      tags: ['retail', 'tech'],
+      localities: ['MG Road'],
+      areas: ['large'],
+      yearFrom: 2023,
+      yearTo: 2024,
+      sort: 'name',
+    };
+
+    const query = projectFiltersToQuery(filters);
+
+    expect(query).toBe(
+      'q=office+park&category=commercial&tag=retail&tag=tech&locality=MG+Road&from=2023&to=2024&area=large&sort=name'
+    );
+    expect(parseProjectFilters(new URLSearchParams(query))).toEqual(filters);
+    expect(projectFiltersToQuery(EMPTY_PROJECT_FILTERS)).toBe('');
+  });
+
+  test('drops values that cannot be filters', () => {
+    const filters = parseProjectFilters(
+      new URLSearchParams(
+        'category=castles&from=last-year&area=huge&area=small&tag=a&tag=a&tag=&sort=price'
+      )
+    );
+
+    expect(filters).toEqual({
+      ...EMPTY_PROJECT_FILTERS,
+      areas: ['small'],
+      tags: ['a'],
+      yearFrom: undefined,
+      yearTo: undefined,
+    });
+  });
+});
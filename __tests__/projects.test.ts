@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, relative } from 'node:path';
+import { getProject, getProjects, loadProjects, PROJECTS_DIR } from '../lib/projects';
+
+/**
+ * Feature: project content
+ *
+ * Each project is a JSON file in content/projects, validated against the
+ * Project type, and problems name the file and the field at fault.
+ */
+
+const validProject = JSON.parse(
+  readFileSync(join(PROJECTS_DIR, 'retail-mall.json'), 'utf8')
+) as Record<string, unknown>;
+
+describe('content/projects', () => {
+  test('every file is valid', () => {
+    const result = loadProjects();
+
+    expect(result).toMatchObject({ ok: true });
+    expect(getProjects().length).toBeGreaterThan(0);
+  });
+
+  test('projects are listed newest first and found by file name', () => {
+    const dates = getProjects().map((project) => project.completionDate);
+
+    expect(dates).toEqual([...dates].sort().reverse());
+    expect(getProject('retail-mall')).toMatchObject({ id: 'retail-mall', category: 'commercial' });
+    expect(getProject('missing')).toBeUndefined();
+  });
+});
+
+describe('loadProjects', () => {
+  let dir: string;
+
+  const write = (name: string, content: unknown) =>
+    writeFileSync(
+      join(dir, name),
+      typeof content === 'string' ? content : JSON.stringify(content, null, 2)
+    );
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'projects-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('takes the id from the file name', () => {
+    write('office-tower.json', validProject);
+    write('notes.txt', 'not a project');
+
+    const result = loadProjects(dir);
+
+    expect(result.ok && result.projects.map((project) => project.id)).toEqual(['office-tower']);
+  });
+
+  test('names the file and field of every problem', () => {
+    const images = validProject.images as Record<string, unknown>[];
+    write('office-tower.json', {
+      ...validProject,
+      completionDate: '15/03/2024',
+      images: [images[0], { ...images[1], alt: ' ' }],
+    });
+    write('villa.json', { ...validProject, has3DModel: true, modelUrl: undefined });
+    write('broken.json', '{ "title": ');
+    write('Big Mall.json', validProject);
+
+    const result = loadProjects(dir);
+    const file = (name: string) => relative(process.cwd(), join(dir, name));
+
+    expect(result.ok).toBe(false);
+    expect(result.ok ? [] : result.problems).toEqual([
+      `${file('Big Mall.json')}: file name must be lowercase words joined by hyphens`,
+      expect.stringMatching(new RegExp(`^${file('broken.json')}: not valid JSON`)),
+      `${file('office-tower.json')}: images[1].alt: Alt text is required`,
+      `${file('office-tower.json')}: completionDate: Expected a date as YYYY-MM-DD`,
+      `${file('villa.json')}: modelUrl: Required when has3DModel is true`,
+    ]);
+  });
+
+  test('rejects dates that do not exist', () => {
+    write('office-tower.json', { ...validProject, completionDate: '2023-02-29' });
+
+    const result = loadProjects(dir);
+
+    expect(result.ok ? [] : result.problems).toEqual([
+      expect.stringContaining('completionDate: Expected a date as YYYY-MM-DD'),
+    ]);
+  });
+});
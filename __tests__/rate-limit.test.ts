@@ -0,0 +1,178 @@
+/**
+ * @jest-environment node
+ */
+import { parseConfig, setConfig } from '../lib/config';
+import {
+  MemoryRateLimitStore,
+  SlidingWindowRateLimiter,
+  SqliteRateLimitStore,
+  getClientIP,
+  identityKeys,
+  normalizeEmail,
+  rateLimitHeaders,
+  type RateLimitStore,
+} from '../lib/rate-limit';
+
+/**
+ * Feature: rate-limiting
+ *
+ * Submissions are limited per identifier over a sliding window, rejected requests
+ * do not extend the block, and any identifier over the limit blocks the request.
+ */
+
+const HOUR = 60 * 60 * 1000;
+
+describe.each([
+  ['MemoryRateLimitStore', () => new MemoryRateLimitStore()],
+  ['SqliteRateLimitStore', () => new SqliteRateLimitStore(':memory:')],
+])('SlidingWindowRateLimiter with %s', (_name, createStore) => {
+  let store: RateLimitStore;
+  let now: number;
+  let limiter: SlidingWindowRateLimiter;
+
+  beforeEach(() => {
+    store = createStore();
+    now = Date.UTC(2024, 0, 1);
+    limiter = new SlidingWindowRateLimiter({
+      store,
+      name: 'contact',
+      limit: 3,
+      windowMs: HOUR,
+      now: () => now,
+    });
+  });
+
+  afterEach(() => {
+    if (store instanceof SqliteRateLimitStore) store.close();
+  });
+
+  it('allows up to the limit and then blocks with a retry delay', async () => {
+    for (let remaining = 2; remaining >= 0; remaining--) {
+      const decision = await limiter.consume(['ip:a']);
+      expect(decision).toMatchObject({ allowed: true, remaining });
+      now += 10 * 60 * 1000;
+    }
+
+    const blocked = await limiter.consume(['ip:a']);
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.blockedKey).toBe('contact:ip:a');
+    // First hit was 30 minutes ago, so it expires in 30 minutes
+    expect(blocked.retryAfterSeconds).toBe(30 * 60);
+  });
+
+  it('lets only the limit through when requests arrive together', async () => {
+    const decisions = await Promise.all(Array.from({ length: 6 }, () => limiter.consume(['ip:a'])));
+
+    expect(decisions.filter((decision) => decision.allowed)).toHaveLength(3);
+  });
+
+  it('slides the window instead of resetting it', async () => {
+    await limiter.consume(['ip:a']);
+    now += 40 * 60 * 1000;
+    await limiter.consume(['ip:a']);
+    await limiter.consume(['ip:a']);
+
+    now += 21 * 60 * 1000;
+    // Only the first hit has left the window
+    await expect(limiter.consume(['ip:a'])).resolves.toMatchObject({ allowed: true });
+    await expect(limiter.consume(['ip:a'])).resolves.toMatchObject({ allowed: false });
+  });
+
+  it('does not record rejected attempts', async () => {
+    for (let i = 0; i < 3; i++) await limiter.consume(['ip:a']);
+    for (let i = 0; i < 5; i++) await limiter.consume(['ip:a']);
+
+    now += HOUR;
+    await expect(limiter.consume(['ip:a'])).resolves.toMatchObject({
+      allowed: true,
+      remaining: 2,
+    });
+  });
+
+  it('blocks when any one of several keys is exhausted', async () => {
+    for (let i = 0; i < 3; i++) {
+      await limiter.consume([`ip:${i}`, 'email:same']);
+    }
+
+    const decision = await limiter.consume(['ip:fresh', 'email:same']);
+    expect(decision.allowed).toBe(false);
+    expect(decision.blockedKey).toBe('contact:email:same');
+  });
+
+  it('keeps separately named limiters independent', async () => {
+    const other = new SlidingWindowRateLimiter({
+      store,
+      name: 'bookings',
+      limit: 1,
+      windowMs: HOUR,
+      now: () => now,
+    });
+
+    await other.consume(['ip:a']);
+    await expect(other.consume(['ip:a'])).resolves.toMatchObject({ allowed: false });
+    await expect(limiter.consume(['ip:a'])).resolves.toMatchObject({ allowed: true });
+  });
+});
+
+describe('rate limit keys', () => {
+  it('only trusts the proxy-appended X-Forwarded-For entry', () => {
+    const headers = new Headers({ 'x-forwarded-for': '1.1.1.1, 198.51.100.4' });
+    expect(getClientIP(headers)).toBe('198.51.100.4');
+    expect(getClientIP(new Headers({ 'x-real-ip': '198.51.100.9' }))).toBe('198.51.100.9');
+    expect(getClientIP(new Headers())).toBeUndefined();
+  });
+
+  it('ignores forwarding headers when no proxy is trusted', () => {
+    const result = parseConfig({ TRUSTED_PROXY_HOPS: '0' });
+    if (!result.ok) throw new Error(result.problems.join('\n'));
+    setConfig(result.config);
+    try {
+      const headers = new Headers({
+        'x-forwarded-for': '198.51.100.4',
+        'x-real-ip': '198.51.100.9',
+      });
+      expect(getClientIP(headers)).toBeUndefined();
+    } finally {
+      setConfig(null);
+    }
+  });
+
+  it('normalizes email variants to one mailbox', () => {
+    expect(normalizeEmail(' John.Doe+site@GMail.com ')).toBe('johndoe@gmail.com');
+    expect(normalizeEmail('john.doe+x@example.com')).toBe('john.doe@example.com');
+  });
+
+  it('derives hashed keys for every identifier present', () => {
+    const withPhone = identityKeys({
+      ip: '203.0.113.7',
+      email: 'a@b.com',
+      phone: '+91 98450 12345',
+    });
+    const sameNumber = identityKeys({ ip: '203.0.113.8', email: 'c@d.com', phone: '9845012345' });
+
+    expect(withPhone.map((key) => key.split(':')[0])).toEqual(['ip', 'email', 'phone']);
+    expect(withPhone[2]).toBe(sameNumber[2]);
+    expect(withPhone.join()).not.toContain('a@b.com');
+    expect(identityKeys({ ip: '203.0.113.7', phone: '' })).toHaveLength(1);
+    // Without an IP there is no shared bucket for every such client
+    expect(identityKeys({ email: 'a@b.com' }).map((key) => key.split(':')[0])).toEqual(['email']);
+  });
+
+  it('adds Retry-After only to blocked decisions', () => {
+    const allowed = rateLimitHeaders({ allowed: true, limit: 3, remaining: 2, resetAt: 3_600_000 });
+    expect(allowed).toEqual({
+      'X-RateLimit-Limit': '3',
+      'X-RateLimit-Remaining': '2',
+      'X-RateLimit-Reset': '3600',
+    });
+
+    const blocked = rateLimitHeaders({
+      allowed: false,
+      limit: 3,
+      remaining: 0,
+      resetAt: 3_600_000,
+      retryAfterSeconds: 120,
+    });
+    expect(blocked['Retry-After']).toBe('120');
+  });
+});
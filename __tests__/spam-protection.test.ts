@@ -0,0 +1,153 @@
+/**
+ * @jest-environment node
+ */
+import { MemoryNonceStore, setNonceStore } from '../lib/nonces';
+import {
+  classifySubmission,
+  countLeadingZeroBits,
+  issueFormToken,
+  solveProofOfWork,
+  verifyFormToken,
+  verifyProofOfWork,
+  withFormToken,
+} from '../lib/spam';
+
+/**
+ * Feature: spam-protection
+ *
+ * Submissions with a filled honeypot, a forged, reused or too recent form token,
+ * or an unsolved proof of work are classified as bots; obvious bots are dropped
+ * silently.
+ */
+
+const policy = { minFillMs: 3000, tokenTtlMs: 60 * 60 * 1000 };
+const issuedAt = Date.UTC(2024, 0, 1);
+
+beforeEach(() => {
+  setNonceStore(new MemoryNonceStore());
+});
+
+describe('classifySubmission', () => {
+  it('accepts a human submission', async () => {
+    const formToken = issueFormToken(0, issuedAt);
+    await expect(classifySubmission({ formToken }, policy, issuedAt + 30_000)).resolves.toEqual({
+      ok: true,
+      token: expect.objectContaining({ issuedAt, difficulty: 0 }),
+    });
+  });
+
+  it('silently drops a token that was already used', async () => {
+    const formToken = issueFormToken(0, issuedAt);
+    await classifySubmission({ formToken }, policy, issuedAt + 30_000);
+
+    await expect(classifySubmission({ formToken }, policy, issuedAt + 60_000)).resolves.toEqual({
+      ok: false,
+      reason: 'token_invalid',
+      silent: true,
+    });
+  });
+
+  it('does not spend the token of a rejected submission', async () => {
+    const formToken = issueFormToken(0, issuedAt);
+    await classifySubmission({ formToken }, policy, issuedAt + 500);
+
+    await expect(
+      classifySubmission({ formToken }, policy, issuedAt + 30_000)
+    ).resolves.toMatchObject({ ok: true });
+  });
+
+  it.each([
+    ['spam_honeypot', { honeypot: 'http://spam.example' }, 30_000, true],
+    ['too_fast', {}, 500, true],
+    ['token_expired', {}, 2 * 60 * 60 * 1000, false],
+  ])('classifies %s', async (reason, signals, elapsed, silent) => {
+    const formToken = issueFormToken(0, issuedAt);
+    await expect(
+      classifySubmission({ formToken, ...signals }, policy, issuedAt + elapsed)
+    ).resolves.toEqual({ ok: false, reason, silent });
+  });
+
+  it('reports a missing token so real visitors can reload', async () => {
+    await expect(classifySubmission({}, policy)).resolves.toEqual({
+      ok: false,
+      reason: 'token_missing',
+      silent: false,
+    });
+  });
+
+  it('silently drops forged tokens', async () => {
+    const [payload, signature] = issueFormToken(0, issuedAt).split('.');
+    const backdated = Buffer.from(
+      JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), issuedAt: 0 })
+    ).toString('base64url');
+
+    await expect(
+      classifySubmission({ formToken: `${backdated}.${signature}` }, policy, issuedAt + 30_000)
+    ).resolves.toEqual({ ok: false, reason: 'token_invalid', silent: true });
+    expect(verifyFormToken('not-a-token', policy.tokenTtlMs)).toEqual({
+      valid: false,
+      reason: 'token_invalid',
+    });
+  });
+
+  it('requires the proof of work the token was issued with', async () => {
+    const formToken = issueFormToken(8, issuedAt);
+    const powSolution = await solveProofOfWork(formToken, 8);
+
+    await expect(
+      classifySubmission({ formToken, powSolution }, policy, issuedAt + 30_000)
+    ).resolves.toMatchObject({ ok: true });
+    await expect(
+      classifySubmission({ formToken }, policy, issuedAt + 30_000)
+    ).resolves.toMatchObject({ ok: false, reason: 'pow_invalid', silent: true });
+  });
+});
+
+describe('withFormToken', () => {
+  async function screen(formToken: string, now = issuedAt + 30_000) {
+    const verdict = await classifySubmission({ formToken }, policy, now);
+    if (!verdict.ok) throw new Error(verdict.reason);
+    return verdict.token;
+  }
+
+  it('keeps the token spent when the submission is accepted', async () => {
+    const formToken = issueFormToken(0, issuedAt);
+    await withFormToken(await screen(formToken), async () => Response.json({ success: true }));
+
+    await expect(
+      classifySubmission({ formToken }, policy, issuedAt + 60_000)
+    ).resolves.toMatchObject({ ok: false, reason: 'token_invalid' });
+  });
+
+  it('gives the token back when the submission is turned away or fails', async () => {
+    const formToken = issueFormToken(0, issuedAt);
+    const turnedAway = await withFormToken(await screen(formToken), async () =>
+      Response.json({ success: false }, { status: 429 })
+    );
+    expect(turnedAway.status).toBe(429);
+
+    await expect(
+      withFormToken(await screen(formToken), async () => {
+        throw new Error('disk full');
+      })
+    ).rejects.toThrow('disk full');
+
+    await expect(screen(formToken)).resolves.toMatchObject({ issuedAt });
+  });
+});
+
+describe('proof of work', () => {
+  it('counts leading zero bits across bytes', () => {
+    expect(countLeadingZeroBits(new Uint8Array([0, 0b00010000]))).toBe(11);
+    expect(countLeadingZeroBits(new Uint8Array([0xff]))).toBe(0);
+    expect(countLeadingZeroBits(new Uint8Array([0, 0]))).toBe(16);
+  });
+
+  it('verifies solutions and rejects malformed ones', async () => {
+    const solution = await solveProofOfWork('challenge', 10);
+
+    await expect(verifyProofOfWork('challenge', solution, 10)).resolves.toBe(true);
+    await expect(verifyProofOfWork('challenge', 'abc', 10)).resolves.toBe(false);
+    await expect(verifyProofOfWork('challenge', '', 0)).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,7 @@
+import { fireEvent, screen } from '@testing-library/react';
+
+// Tick the required consent checkbox, unless it already is
+export const agreeToContact = () => {
+  const consent = screen.getByLabelText(/i agree/i) as HTMLInputElement;
+  if (!consent.checked) fireEvent.click(consent);
+};
@@ -0,0 +1,332 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createLeadRecord } from '../lib/leads';
+import {
+  FileWebhookDeliveryStore,
+  SqliteWebhookDeliveryStore,
+  WebhookDispatcher,
+  leadWebhookData,
+  parseWebhookEndpoints,
+  retryDelayMs,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  type WebhookDelivery,
+  type WebhookDeliveryStore,
+  type WebhookEndpoint,
+} from '../lib/webhooks';
+
+/**
+ * Feature: webhooks
+ *
+ * Lead events reach every subscribed endpoint with a verifiable signature;
+ * failed deliveries are retried with growing delays, end up in the
+ * dead-letter queue after the last attempt and can be replayed from there.
+ */
+
+const SECRET = 'crm-shared-secret-0123456789';
+const NOW = Date.parse('2026-10-19T04:30:00.000Z');
+
+const ENDPOINTS: WebhookEndpoint[] = [
+  { id: 'crm', url: 'https://crm.example.com/hooks', secret: SECRET, events: ['lead.created'] },
+  {
+    id: 'sheet',
+    url: 'https://sheet.example.com/hooks',
+    secret: SECRET,
+    events: ['lead.status_changed'],
+  },
+];
+
+const OPTIONS = { maxAttempts: 3, retryBaseMs: 60_000, retryMaxMs: 3_600_000, timeoutMs: 1000 };
+
+describe('Signatures', () => {
+  const body = JSON.stringify({ id: 'evt_1', type: 'lead.created' });
+
+  it('verifies its own signatures', () => {
+    const header = signWebhookPayload(body, SECRET, NOW);
+
+    expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(body, header, SECRET, NOW + 1000)).toEqual({
+      valid: true,
+      timestamp: NOW / 1000,
+    });
+  });
+
+  it('rejects modified bodies, other secrets, stale timestamps and junk', () => {
+    const header = signWebhookPayload(body, SECRET, NOW);
+
+    expect(verifyWebhookSignature(`${body} `, header, SECRET, NOW)).toMatchObject({
+      reason: 'signature_invalid',
+    });
+    expect(verifyWebhookSignature(body, header, 'another-secret', NOW)).toMatchObject({
+      reason: 'signature_invalid',
+    });
+    expect(verifyWebhookSignature(body, header, SECRET, NOW + 10 * 60 * 1000)).toMatchObject({
+      reason: 'signature_expired',
+    });
+    expect(verifyWebhookSignature(body, 'v1=abc', SECRET, NOW)).toMatchObject({
+      reason: 'signature_invalid',
+    });
+    expect(verifyWebhookSignature(body, undefined, SECRET, NOW)).toMatchObject({
+      reason: 'signature_missing',
+    });
+  });
+});
+
+describe('Endpoint configuration', () => {
+  it('parses endpoints and defaults to every event', () => {
+    expect(
+      parseWebhookEndpoints(
+        JSON.stringify([{ id: 'crm', url: 'https://crm.example.com', secret: SECRET }])
+      )
+    ).toEqual([
+      {
+        id: 'crm',
+        url: 'https://crm.example.com',
+        secret: SECRET,
+        events: ['lead.created', 'lead.status_changed', 'lead.erased'],
+      },
+    ]);
+    expect(parseWebhookEndpoints(undefined)).toEqual([]);
+    expect(parseWebhookEndpoints('  ')).toEqual([]);
+  });
+
+  it('names the offending setting', () => {
+    expect(() => parseWebhookEndpoints('{')).toThrow(/JSON array/);
+    expect(() =>
+      parseWebhookEndpoints(JSON.stringify([{ id: 'crm', url: 'ftp://crm', secret: SECRET }]))
+    ).toThrow(/at 0\.url/);
+    expect(() =>
+      parseWebhookEndpoints(JSON.stringify([{ id: 'crm', url: 'https://crm', secret: 'short' }]))
+    ).toThrow(/at 0\.secret/);
+  });
+});
+
+describe('Retry delays', () => {
+  it('doubles per failure up to the maximum, with downward jitter', () => {
+    const options = { retryBaseMs: 30_000, retryMaxMs: 3_600_000 };
+
+    expect([1, 2, 3, 4].map((failures) => retryDelayMs(failures, options, () => 0))).toEqual([
+      30_000, 60_000, 120_000, 240_000,
+    ]);
+    expect(retryDelayMs(20, options, () => 0)).toBe(3_600_000);
+    expect(retryDelayMs(1, options, () => 1)).toBe(24_000);
+  });
+});
+
+describe('WebhookDispatcher', () => {
+  let dir: string;
+  let store: FileWebhookDeliveryStore;
+  let dispatcher: WebhookDispatcher;
+  let responses: (number | Error)[];
+  let requests: { url: string; headers: Record<string, string>; body: string }[];
+
+  const fakeFetch = (async (url: string, init: RequestInit) => {
+    requests.push({
+      url,
+      headers: init.headers as Record<string, string>,
+      body: init.body as string,
+    });
+    const next = responses.shift() ?? 204;
+    if (next instanceof Error) throw next;
+    return new Response(null, { status: next });
+  }) as typeof fetch;
+
+  const lead = createLeadRecord(
+    'SUB-1',
+    {
+      name: 'Asha Rao',
+      email: 'asha@example.com',
+      phone: '9845012345',
+      projectType: 'Residential Construction',
+      budget: 'Not Sure',
+      message: 'Planning a G+2 villa on a 40x60 plot.',
+    },
+    '203.0.113.7'
+  );
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'webhooks-'));
+    store = new FileWebhookDeliveryStore(join(dir, 'deliveries.ndjson'));
+    dispatcher = new WebhookDispatcher(store, ENDPOINTS, OPTIONS, fakeFetch);
+    responses = [];
+    requests = [];
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    dispatcher.close();
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('sends signed events to subscribed endpoints only', async () => {
+    const [delivery, ...others] = await dispatcher.publish('lead.created', leadWebhookData(lead));
+    await dispatcher.idle();
+
+    expect(others).toHaveLength(0);
+    expect(requests).toHaveLength(1);
+    const [request] = requests;
+    expect(request.url).toBe('https://crm.example.com/hooks');
+    expect(request.headers['X-SB-Event']).toBe('lead.created');
+    expect(request.headers['X-SB-Delivery-Id']).toBe(delivery.deliveryId);
+    expect(
+      verifyWebhookSignature(request.body, request.headers['X-SB-Signature'], SECRET).valid
+    ).toBe(true);
+
+    const payload = JSON.parse(request.body);
+    expect(payload).toMatchObject({ id: delivery.event.eventId, type: 'lead.created' });
+    expect(payload.data.submission.email).toBe('asha@example.com');
+    expect(request.body).not.toContain(lead.ipHash);
+
+    const stored = await store.findById(delivery.deliveryId);
+    expect(stored?.status).toBe('delivered');
+    expect(stored?.attempts).toEqual([expect.objectContaining({ statusCode: 204 })]);
+  });
+
+  it('retries with backoff and dead-letters after the last attempt', async () => {
+    responses = [503, new Error('connect ECONNREFUSED'), 500];
+    const [delivery] = await dispatcher.publish('lead.created', leadWebhookData(lead));
+    await dispatcher.idle();
+
+    const afterFirst = await store.findById(delivery.deliveryId);
+    expect(afterFirst?.status).toBe('pending');
+    const delay = Date.parse(afterFirst!.nextAttemptAt!) - Date.now();
+    expect(delay).toBeGreaterThan(40_000);
+    expect(delay).toBeLessThanOrEqual(60_000);
+
+    // Nothing is due yet
+    await expect(dispatcher.retryDue()).resolves.toBe(0);
+
+    for (const hours of [1, 2]) {
+      await expect(dispatcher.retryDue(Date.now() + hours * 3_600_000)).resolves.toBe(1);
+      await dispatcher.idle();
+    }
+
+    const dead = await store.findById(delivery.deliveryId);
+    expect(dead?.status).toBe('dead');
+    expect(dead?.nextAttemptAt).toBeUndefined();
+    expect(dead?.attempts.map((attempt) => attempt.error)).toEqual([
+      'HTTP 503',
+      'connect ECONNREFUSED',
+      'HTTP 500',
+    ]);
+    await expect(store.list({ status: 'dead' })).resolves.toHaveLength(1);
+  });
+
+  it('replays dead deliveries once, keeping the event ID', async () => {
+    responses = [500, 500, 500];
+    const [delivery] = await dispatcher.publish('lead.created', leadWebhookData(lead));
+    await dispatcher.idle();
+    for (const hours of [1, 2]) {
+      await dispatcher.retryDue(Date.now() + hours * 3_600_000);
+      await dispatcher.idle();
+    }
+
+    const replay = await dispatcher.replay(delivery.deliveryId);
+    await dispatcher.idle();
+    expect(replay.ok).toBe(true);
+    if (!replay.ok) return;
+
+    const replayed = await store.findById(replay.delivery.deliveryId);
+    expect(replayed).toMatchObject({ status: 'delivered', replayOf: delivery.deliveryId });
+    expect(replayed?.event.eventId).toBe(delivery.event.eventId);
+    expect((await store.findById(delivery.deliveryId))?.status).toBe('replayed');
+
+    await expect(dispatcher.replay(delivery.deliveryId)).resolves.toEqual({
+      ok: false,
+      reason: 'not_dead',
+    });
+    await expect(dispatcher.replay('whd_missing')).resolves.toEqual({
+      ok: false,
+      reason: 'not_found',
+    });
+  });
+
+  it('dead-letters deliveries whose endpoint was removed', async () => {
+    const [delivery] = await dispatcher.publish('lead.created', leadWebhookData(lead));
+    await dispatcher.idle();
+    await store.save({
+      ...delivery,
+      deliveryId: 'whd_orphan',
+      endpointId: 'retired',
+    } satisfies WebhookDelivery);
+
+    await expect(dispatcher.retryDue()).resolves.toBe(1);
+    await dispatcher.idle();
+
+    expect(requests).toHaveLength(1);
+    expect(await store.findById('whd_orphan')).toMatchObject({
+      status: 'dead',
+      attempts: [expect.objectContaining({ error: 'Endpoint is no longer configured' })],
+    });
+  });
+});
+
+describe.each([
+  [
+    'FileWebhookDeliveryStore',
+    (dir: string) => new FileWebhookDeliveryStore(join(dir, 'deliveries.ndjson')),
+  ],
+  [
+    'SqliteWebhookDeliveryStore',
+    (dir: string) => new SqliteWebhookDeliveryStore(join(dir, 'leads.db')),
+  ],
+])('%s', (_, createStore) => {
+  let dir: string;
+  let store: WebhookDeliveryStore;
+
+  const delivery = (id: string, createdAt: string, overrides: Partial<WebhookDelivery> = {}) => ({
+    deliveryId: id,
+    endpointId: 'crm',
+    url: 'https://crm.example.com/hooks',
+    event: { eventId: `evt_${id}`, type: 'lead.created' as const, createdAt, data: {} },
+    status: 'pending' as const,
+    attempts: [],
+    nextAttemptAt: createdAt,
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'webhook-store-'));
+    store = createStore(dir);
+  });
+
+  afterEach(() => {
+    if (store instanceof SqliteWebhookDeliveryStore) store.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the latest version of each delivery', async () => {
+    await store.save(delivery('a', '2026-10-19T04:00:00.000Z'));
+    await store.save(
+      delivery('a', '2026-10-19T04:00:00.000Z', { status: 'delivered', nextAttemptAt: undefined })
+    );
+    await store.save(delivery('b', '2026-10-19T05:00:00.000Z'));
+
+    expect((await store.findById('a'))?.status).toBe('delivered');
+    expect((await store.list()).map((entry) => entry.deliveryId)).toEqual(['b', 'a']);
+    expect((await store.list({ status: 'pending' })).map((entry) => entry.deliveryId)).toEqual([
+      'b',
+    ]);
+    await expect(store.list({ limit: 1 })).resolves.toHaveLength(1);
+    await expect(store.findById('missing')).resolves.toBeNull();
+  });
+
+  it('lists pending deliveries that are due, oldest first', async () => {
+    await store.save(delivery('a', '2026-10-19T04:00:00.000Z'));
+    await store.save(
+      delivery('b', '2026-10-19T03:00:00.000Z', { nextAttemptAt: '2026-10-19T06:00:00.000Z' })
+    );
+    await store.save(delivery('c', '2026-10-19T02:00:00.000Z', { status: 'dead' }));
+    await store.save(delivery('d', '2026-10-19T01:00:00.000Z'));
+
+    const due = await store.listDue('2026-10-19T05:00:00.000Z');
+    expect(due.map((entry) => entry.deliveryId)).toEqual(['d', 'a']);
+  });
+});
@@ -0,0 +1,22 @@
+import { notFound } from 'next/navigation';
+import ProjectModalRoute from '@/components/ProjectModalRoute';
+import { getProject, getProjects } from '@/lib/projects';
+
+/**
+ * Opening a card on the home page lands here instead of /projects/[id], so
+ * the project shows in the modal over the page while the URL is its deep
+ * link. A refresh or a shared link renders the full page.
+ */
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getProjects().map((project) => ({ id: project.id }));
+}
+
+export default async function ProjectModalPage({ params }: { params: Promise<{ id: string }> }) {
+  const project = getProject((await params).id);
+  if (!project) notFound();
+
+  return <ProjectModalRoute project={project} />;
+}
@@ -0,0 +1,4 @@
+// Closes the modal on client navigation to any page without one
+export default function CatchAll() {
+  return null;
+}
@@ -0,0 +1,4 @@
+// Nothing in the modal slot unless a project was opened from the page
+export default function Default() {
+  return null;
+}
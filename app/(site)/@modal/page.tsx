@@ -0,0 +1,4 @@
+// Closes the modal on client navigation back to the home page
+export default function ModalHome() {
+  return null;
+}
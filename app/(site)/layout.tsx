@@ -1,10 +1,12 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
-import "./globals.css";
+import "../globals.css";
 import Navigation from "@/components/Navigation";
 import MobileBottomNav from "@/components/MobileBottomNav";
 import Footer from "@/components/Footer";
 import ClientLayout from "@/components/ClientLayout";
+import PublicConfigProvider from "@/components/PublicConfigProvider";
+import { getPublicConfig } from "@/lib/config";
 import { NavigationSection } from "@/types";
 
 const geistSans = Geist({
@@ -21,6 +23,7 @@ const navigationSections: NavigationSection[] = [
   { id: 'hero', label: 'Home', href: '#hero' },
   { id: 'services', label: 'Services', href: '#services' },
   { id: 'process', label: 'Process', href: '#process' },
+  { id: 'estimator', label: 'Estimate', href: '#estimator' },
   { id: 'projects', label: 'Projects', href: '#projects' },
   { id: 'about', label: 'About', href: '#about' },
   { id: 'contact', label: 'Contact', href: '#contact' },
@@ -48,20 +51,26 @@ export const metadata: Metadata = {
 
 export default function RootLayout({
   children,
+  modal,
 }: Readonly<{
   children: React.ReactNode;
+  /** Project opened from a card, see @modal/(.)projects */
+  modal: React.ReactNode;
 }>) {
   return (
     <html lang="en">
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <ClientLayout>
-          <Navigation sections={navigationSections} />
-          <MobileBottomNav sections={navigationSections} />
-          <main>{children}</main>
-          <Footer />
-        </ClientLayout>
+        <PublicConfigProvider config={getPublicConfig()}>
+          <ClientLayout>
+            <Navigation sections={navigationSections} />
+            <MobileBottomNav sections={navigationSections} />
+            <main>{children}</main>
+            <Footer />
+            {modal}
+          </ClientLayout>
+        </PublicConfigProvider>
       </body>
     </html>
   );
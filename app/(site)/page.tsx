@@ -0,0 +1,15 @@
+import HomePage from '@/components/HomePage';
+import {
+  EMPTY_PROJECT_FILTERS,
+  getProjects,
+  PROJECT_PAGE_SIZE,
+  searchProjects,
+} from '@/lib/projects';
+
+export default function Home() {
+  // Only the first page ships with the page; the grid fetches the rest from /api/projects
+  const result = searchProjects(getProjects(), EMPTY_PROJECT_FILTERS, { limit: PROJECT_PAGE_SIZE });
+  if (!result.ok) throw new Error('The first page of projects has no cursor to be wrong');
+
+  return <HomePage initialProjects={result.page} />;
+}
@@ -0,0 +1,59 @@
+import type { Metadata } from 'next';
+import DataRequestForm from '@/components/DataRequestForm';
+import { getConfig } from '@/lib/config';
+import { CONSENT_NOTICES, CONSENT_VERSION } from '@/lib/privacy/consent';
+
+export const metadata: Metadata = {
+  title: 'Privacy | SB Infra Projects',
+  description: 'How SB Infra Projects uses the details you send us, and how to get or delete them.',
+};
+
+function retentionPeriod(): string {
+  const days = getConfig().privacy.retentionDays;
+  return days % 365 === 0
+    ? `${days / 365} year${days === 365 ? '' : 's'}`
+    : `${days} day${days === 1 ? '' : 's'}`;
+}
+
+export default function PrivacyPage() {
+  return (
+    <section className="min-h-screen bg-black px-4 pt-32 pb-24">
+      <div className="max-w-2xl mx-auto space-y-12">
+        <div>
+          <h1 className="text-4xl font-bold mb-3">
+            Your <span className="text-gold">Privacy</span>
+          </h1>
+          <p className="text-gray-400">
+            When you send an inquiry or book a visit, we keep the details you enter so our team can
+            get back to you. Before sending, you agree to this notice:
+          </p>
+          <blockquote className="mt-4 p-4 border-l-4 border-gold bg-gray-900 text-gray-300">
+            {CONSENT_NOTICES[CONSENT_VERSION]}
+          </blockquote>
+        </div>
+
+        <div className="space-y-4 text-gray-300">
+          <h2 className="text-2xl font-bold text-gold">What we keep</h2>
+          <ul className="list-disc pl-6 space-y-2">
+            <li>The details you entered, any files you uploaded and visits you booked.</li>
+            <li>Which version of this notice you agreed to, and when.</li>
+            <li>A scrambled form of your IP address, used only to stop spam.</li>
+          </ul>
+          <p>
+            We share inquiries with our customer management system and nobody else. Inquiries that
+            nobody has worked on for {retentionPeriod()} are deleted automatically.
+          </p>
+        </div>
+
+        <div>
+          <h2 className="text-2xl font-bold text-gold mb-3">Get or delete your data</h2>
+          <p className="text-gray-400 mb-6">
+            Enter the email address you contacted us with. We will email it a code to confirm the
+            request comes from you.
+          </p>
+          <DataRequestForm />
+        </div>
+      </div>
+    </section>
+  );
+}
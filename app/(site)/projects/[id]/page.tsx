@@ -0,0 +1,38 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import ProjectDetail from '@/components/ProjectDetail';
+import { getProject, getProjects } from '@/lib/projects';
+
+// One page per file in content/projects, built ahead of time; other ids 404
+export const dynamicParams = false;
+
+type ProjectPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export function generateStaticParams() {
+  return getProjects().map((project) => ({ id: project.id }));
+}
+
+export async function generateMetadata({ params }: ProjectPageProps): Promise<Metadata> {
+  const project = getProject((await params).id);
+  if (!project) notFound();
+
+  return {
+    title: `${project.title} | SB Infra Projects`,
+    description: project.description,
+    openGraph: {
+      title: project.title,
+      description: project.description,
+      type: 'article',
+      images: [{ url: project.thumbnail.url, alt: project.thumbnail.alt }],
+    },
+  };
+}
+
+export default async function ProjectPage({ params }: ProjectPageProps) {
+  const project = getProject((await params).id);
+  if (!project) notFound();
+
+  return <ProjectDetail project={project} />;
+}
@@ -0,0 +1,31 @@
+import type { Metadata } from 'next';
+import InquiryTracker from '@/components/InquiryTracker';
+
+export const metadata: Metadata = {
+  title: 'Track Your Inquiry | SB Infra Projects',
+  description: 'Check the status of your project inquiry with your reference number.',
+  robots: { index: false },
+};
+
+export default async function TrackInquiryPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const { id } = await searchParams;
+
+  return (
+    <section className="min-h-screen bg-black px-4 pt-32 pb-24">
+      <div className="max-w-xl mx-auto">
+        <h1 className="text-4xl font-bold mb-3">
+          Track Your <span className="text-gold">Inquiry</span>
+        </h1>
+        <p className="text-gray-400 mb-10">
+          Enter the reference number from your confirmation email and the email address you used to
+          contact us.
+        </p>
+        <InquiryTracker initialSubmissionId={typeof id === 'string' ? id : undefined} />
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,166 @@
+import { headers } from 'next/headers';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import AdminHeader from '@/components/AdminHeader';
+import AdminLeadNotes from '@/components/AdminLeadNotes';
+import AdminLeadStatus from '@/components/AdminLeadStatus';
+import { LEAD_STATUS_BADGES, formatLeadTime, requireAdminSession } from '@/lib/admin';
+import { formatBytes } from '@/lib/attachments';
+import { getAuditLog, recordAudit, type AuditAction } from '@/lib/audit';
+import { getAvailabilityConfig } from '@/lib/bookings';
+import { PROJECT_DETAIL_FIELDS, type ProjectDetailField } from '@/lib/contact';
+import { mailtoHref, telHref } from '@/lib/encoding';
+import { LEAD_STATUS_LABELS, getLeadRepository, type LeadStatus } from '@/lib/leads';
+import { getRequestId } from '@/lib/logging';
+import { formatPhone } from '@/lib/phone';
+
+export const dynamic = 'force-dynamic';
+
+const AUDIT_ACTION_LABELS: Partial<Record<AuditAction, string>> = {
+  'lead.viewed': 'viewed this lead',
+  'lead.exported': 'exported this lead',
+  'lead.status_changed': 'changed the status',
+  'lead.note_added': 'added a note',
+  'lead.attachment_downloaded': 'downloaded an attachment',
+  'privacy.exported': 'downloaded their data',
+};
+
+export default async function AdminLeadPage({
+  params,
+}: {
+  params: Promise<{ submissionId: string }>;
+}) {
+  const session = await requireAdminSession();
+  const { submissionId } = await params;
+  const lead = await getLeadRepository().findById(submissionId);
+  if (!lead) notFound();
+
+  await recordAudit({
+    actor: session.name,
+    action: 'lead.viewed',
+    submissionIds: [submissionId],
+    requestId: getRequestId(await headers()),
+  });
+  const activity = await getAuditLog().list({ submissionId, limit: 20 });
+
+  const { timeZone } = getAvailabilityConfig();
+  const { submission } = lead;
+  // Submitted values are rendered as text; links only ever get a fixed scheme
+  const fields: [string, string, string?][] = [
+    ['Email', submission.email, mailtoHref(submission.email)],
+    ['Phone', formatPhone(submission.phone) || '—', telHref(submission.phone)],
+    ['Project Type', submission.projectType],
+    ['Budget', submission.budget || '—'],
+    [
+      'Consent',
+      lead.consent
+        ? `Notice ${lead.consent.version}, ${formatLeadTime(lead.consent.givenAt, timeZone)}`
+        : 'Not recorded',
+    ],
+    ...Object.entries(submission.projectDetails ?? {}).map(([field, value]): [string, string] => {
+      const { label, unit } = PROJECT_DETAIL_FIELDS[field as ProjectDetailField];
+      return [label, unit ? `${value} ${unit}` : String(value)];
+    }),
+  ];
+
+  return (
+    <>
+      <AdminHeader name={session.name} />
+      <main className="max-w-5xl mx-auto px-4 py-8 space-y-8">
+        <Link href="/admin" className="text-sm text-gray-400 hover:text-gold">
+          ← All leads
+        </Link>
+
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">{submission.name}</h1>
+            <p className="text-sm text-gray-400">
+              {lead.submissionId} · received {formatLeadTime(lead.createdAt, timeZone)}
+            </p>
+          </div>
+          <span
+            className={`rounded-full px-3 py-1 text-sm font-semibold ${LEAD_STATUS_BADGES[lead.status]}`}
+          >
+            {LEAD_STATUS_LABELS[lead.status]}
+          </span>
+        </div>
+
+        <AdminLeadStatus submissionId={lead.submissionId} status={lead.status} />
+
+        <section className="grid md:grid-cols-2 gap-8">
+          <div className="space-y-6">
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-2 text-sm">
+              {fields.map(([label, value, href]) => (
+                <div key={label} className="contents">
+                  <dt className="text-gray-400">{label}</dt>
+                  <dd className="break-words">
+                    {href ? (
+                      <a href={href} className="text-gold hover:underline">
+                        {value}
+                      </a>
+                    ) : (
+                      value
+                    )}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+            <div>
+              <h2 className="text-sm text-gray-400 mb-2">Message</h2>
+              <p className="text-sm whitespace-pre-wrap break-words">{submission.message}</p>
+            </div>
+            {lead.attachments.length > 0 && (
+              <div>
+                <h2 className="text-sm text-gray-400 mb-2">Attachments</h2>
+                <ul className="space-y-1 text-sm">
+                  {lead.attachments.map((attachment) => (
+                    <li key={attachment.attachmentId}>
+                      <a
+                        href={`/api/admin/leads/${encodeURIComponent(lead.submissionId)}/attachments/${encodeURIComponent(attachment.attachmentId)}`}
+                        className="text-gold hover:underline"
+                      >
+                        {attachment.fileName}
+                      </a>{' '}
+                      <span className="text-gray-400">({formatBytes(attachment.size)})</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h2 className="text-lg font-semibold mb-4">Internal Notes</h2>
+            <ol className="space-y-4 mb-6">
+              {lead.notes.map((note) => (
+                <li key={note.noteId} className="border-l-2 border-gold/60 pl-3">
+                  <p className="text-xs text-gray-400">
+                    {note.author} · {formatLeadTime(note.createdAt, timeZone)}
+                  </p>
+                  <p className="text-sm whitespace-pre-wrap break-words">{note.body}</p>
+                </li>
+              ))}
+              {lead.notes.length === 0 && <li className="text-sm text-gray-400">No notes yet.</li>}
+            </ol>
+            <AdminLeadNotes submissionId={lead.submissionId} />
+          </div>
+        </section>
+
+        <section>
+          <h2 className="text-lg font-semibold mb-4">Activity</h2>
+          <ol className="space-y-1 text-sm text-gray-400">
+            {activity.map((entry) => (
+              <li key={entry.entryId}>
+                {formatLeadTime(entry.at, timeZone)} · {entry.actor}{' '}
+                {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                {entry.action === 'lead.status_changed' && entry.details
+                  ? ` from ${LEAD_STATUS_LABELS[entry.details.from as LeadStatus]} to ${LEAD_STATUS_LABELS[entry.details.to as LeadStatus]}`
+                  : ''}
+              </li>
+            ))}
+          </ol>
+        </section>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,26 @@
+import { redirect } from 'next/navigation';
+import AdminLoginForm from '@/components/AdminLoginForm';
+import { getAdminSession, isAdminConfigured } from '@/lib/admin';
+
+export default async function AdminLoginPage() {
+  if (await getAdminSession()) redirect('/admin');
+
+  return (
+    <main className="min-h-screen flex items-center justify-center px-4">
+      <div className="w-full max-w-sm">
+        <h1 className="text-2xl font-bold mb-1">
+          SB Infra <span className="text-gold">Admin</span>
+        </h1>
+        <p className="text-gray-400 text-sm mb-8">Sign in to manage leads.</p>
+        {isAdminConfigured() ? (
+          <AdminLoginForm />
+        ) : (
+          <p className="text-sm text-gray-300">
+            The admin area is disabled. Set <code className="text-gold">ADMIN_PASSWORD</code> to
+            enable it.
+          </p>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,258 @@
+import Link from 'next/link';
+import AdminHeader from '@/components/AdminHeader';
+import {
+  LEADS_PAGE_SIZE,
+  LEAD_STATUS_BADGES,
+  formatLeadTime,
+  leadFiltersToSearchParams,
+  parseLeadFilters,
+  requireAdminSession,
+  toLeadQuery,
+  type LeadFilters,
+} from '@/lib/admin';
+import { getAvailabilityConfig } from '@/lib/bookings';
+import { BUDGET_RANGES, PROJECT_TYPES } from '@/lib/contact';
+import { LEAD_STATUSES, LEAD_STATUS_LABELS, getLeadRepository } from '@/lib/leads';
+
+export const dynamic = 'force-dynamic';
+
+const fieldClassName =
+  'w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm focus:outline-none focus:border-gold';
+
+function filterHref(filters: LeadFilters, overrides: Partial<LeadFilters>): string {
+  const query = leadFiltersToSearchParams(filters, { page: 1, ...overrides });
+  return query ? `/admin?${query}` : '/admin';
+}
+
+export default async function AdminLeadsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const session = await requireAdminSession();
+  const filters = parseLeadFilters(await searchParams);
+  const { timeZone } = getAvailabilityConfig();
+
+  // Count every stage under the other filters, then narrow to the selected one
+  const matching = await getLeadRepository().list({
+    ...toLeadQuery(filters, timeZone),
+    status: undefined,
+  });
+  const counts = Object.fromEntries(
+    LEAD_STATUSES.map((status) => [
+      status,
+      matching.filter((lead) => lead.status === status).length,
+    ])
+  );
+  const leads = filters.status
+    ? matching.filter((lead) => lead.status === filters.status)
+    : matching;
+
+  const pageCount = Math.max(1, Math.ceil(leads.length / LEADS_PAGE_SIZE));
+  const page = Math.min(filters.page, pageCount);
+  const pageLeads = leads.slice((page - 1) * LEADS_PAGE_SIZE, page * LEADS_PAGE_SIZE);
+  const exportQuery = leadFiltersToSearchParams(filters, { page: 1 });
+
+  return (
+    <>
+      <AdminHeader name={session.name} />
+      <main className="max-w-7xl mx-auto px-4 py-8 space-y-8">
+        <nav aria-label="Pipeline" className="grid grid-cols-3 md:grid-cols-7 gap-2">
+          <Link
+            href={filterHref(filters, { status: undefined })}
+            className={`rounded-lg border px-3 py-2 ${
+              filters.status ? 'border-gray-800' : 'border-gold'
+            }`}
+          >
+            <span className="block text-xs text-gray-400">All</span>
+            <span className="text-xl font-bold">{matching.length}</span>
+          </Link>
+          {LEAD_STATUSES.map((status) => (
+            <Link
+              key={status}
+              href={filterHref(filters, { status })}
+              className={`rounded-lg border px-3 py-2 ${
+                filters.status === status ? 'border-gold' : 'border-gray-800'
+              }`}
+            >
+              <span className="block text-xs text-gray-400">{LEAD_STATUS_LABELS[status]}</span>
+              <span className="text-xl font-bold">{counts[status]}</span>
+            </Link>
+          ))}
+        </nav>
+
+        <form method="get" className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+          {filters.status && <input type="hidden" name="status" value={filters.status} />}
+          <div className="col-span-2">
+            <label htmlFor="q" className="block text-xs text-gray-400 mb-1">
+              Search
+            </label>
+            <input
+              id="q"
+              name="q"
+              type="search"
+              defaultValue={filters.q}
+              placeholder="Name, email, phone, message or ID"
+              className={fieldClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="projectType" className="block text-xs text-gray-400 mb-1">
+              Project Type
+            </label>
+            <select
+              id="projectType"
+              name="projectType"
+              defaultValue={filters.projectType ?? ''}
+              className={fieldClassName}
+            >
+              <option value="">All</option>
+              {PROJECT_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="budget" className="block text-xs text-gray-400 mb-1">
+              Budget
+            </label>
+            <select
+              id="budget"
+              name="budget"
+              defaultValue={filters.budget ?? ''}
+              className={fieldClassName}
+            >
+              <option value="">All</option>
+              {BUDGET_RANGES.map((range) => (
+                <option key={range} value={range}>
+                  {range}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="from" className="block text-xs text-gray-400 mb-1">
+              From
+            </label>
+            <input
+              id="from"
+              name="from"
+              type="date"
+              defaultValue={filters.from}
+              className={fieldClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="to" className="block text-xs text-gray-400 mb-1">
+              To
+            </label>
+            <input
+              id="to"
+              name="to"
+              type="date"
+              defaultValue={filters.to}
+              className={fieldClassName}
+            />
+          </div>
+          <div className="col-span-2 md:col-span-6 flex flex-wrap gap-3">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-gold text-black font-semibold rounded-lg text-sm hover:bg-gold-light transition-colors"
+            >
+              Apply Filters
+            </button>
+            <Link
+              href="/admin"
+              className="px-4 py-2 border border-gray-700 rounded-lg text-sm hover:border-gold transition-colors"
+            >
+              Clear
+            </Link>
+            <a
+              href={`/api/admin/leads/export${exportQuery ? `?${exportQuery}` : ''}`}
+              className="ml-auto px-4 py-2 border border-gold text-gold rounded-lg text-sm hover:bg-gold hover:text-black transition-colors"
+            >
+              Export CSV ({leads.length})
+            </a>
+          </div>
+        </form>
+
+        <div className="overflow-x-auto rounded-lg border border-gray-800">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-900 text-left text-gray-400">
+              <tr>
+                <th className="px-4 py-3 font-semibold">Received</th>
+                <th className="px-4 py-3 font-semibold">Name</th>
+                <th className="px-4 py-3 font-semibold">Project Type</th>
+                <th className="px-4 py-3 font-semibold">Budget</th>
+                <th className="px-4 py-3 font-semibold">Status</th>
+                <th className="px-4 py-3 font-semibold">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pageLeads.map((lead) => (
+                <tr
+                  key={lead.submissionId}
+                  className="border-t border-gray-800 hover:bg-gray-900/60"
+                >
+                  <td className="px-4 py-3 whitespace-nowrap text-gray-300">
+                    {formatLeadTime(lead.createdAt, timeZone)}
+                  </td>
+                  <td className="px-4 py-3">
+                    <Link
+                      href={`/admin/leads/${encodeURIComponent(lead.submissionId)}`}
+                      className="font-semibold hover:text-gold"
+                    >
+                      {lead.submission.name}
+                    </Link>
+                    <span className="block text-xs text-gray-400">{lead.submission.email}</span>
+                  </td>
+                  <td className="px-4 py-3 text-gray-300">{lead.submission.projectType}</td>
+                  <td className="px-4 py-3 text-gray-300">{lead.submission.budget || '—'}</td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`inline-block rounded-full px-2 py-0.5 text-xs font-semibold ${LEAD_STATUS_BADGES[lead.status]}`}
+                    >
+                      {LEAD_STATUS_LABELS[lead.status]}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-gray-300">{lead.notes.length || ''}</td>
+                </tr>
+              ))}
+              {pageLeads.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-4 py-12 text-center text-gray-400">
+                    No leads match these filters.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {pageCount > 1 && (
+          <nav aria-label="Pages" className="flex items-center justify-between text-sm">
+            {page > 1 ? (
+              <Link href={filterHref(filters, { page: page - 1 })} className="hover:text-gold">
+                ← Newer
+              </Link>
+            ) : (
+              <span />
+            )}
+            <span className="text-gray-400">
+              Page {page} of {pageCount}
+            </span>
+            {page < pageCount ? (
+              <Link href={filterHref(filters, { page: page + 1 })} className="hover:text-gold">
+                Older →
+              </Link>
+            ) : (
+              <span />
+            )}
+          </nav>
+        )}
+      </main>
+    </>
+  );
+}
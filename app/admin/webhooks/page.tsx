@@ -0,0 +1,142 @@
+import Link from 'next/link';
+import AdminHeader from '@/components/AdminHeader';
+import AdminWebhookReplay from '@/components/AdminWebhookReplay';
+import { formatLeadTime, requireAdminSession } from '@/lib/admin';
+import { getAvailabilityConfig } from '@/lib/bookings';
+import { getWebhookDeliveryStore, type WebhookDeliveryStatus } from '@/lib/webhooks';
+
+export const dynamic = 'force-dynamic';
+
+const DELIVERY_TABS: { status?: WebhookDeliveryStatus; label: string }[] = [
+  { label: 'All' },
+  { status: 'dead', label: 'Dead Letters' },
+  { status: 'pending', label: 'Retrying' },
+  { status: 'delivered', label: 'Delivered' },
+  { status: 'replayed', label: 'Replayed' },
+];
+
+const STATUS_BADGES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-orange-500/20 text-orange-300',
+  delivered: 'bg-green-500/20 text-green-300',
+  dead: 'bg-red-500/20 text-red-300',
+  replayed: 'bg-gray-700 text-gray-300',
+};
+
+export default async function AdminWebhooksPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const session = await requireAdminSession();
+  const { status: requested } = await searchParams;
+  const status = DELIVERY_TABS.find((tab) => tab.status && tab.status === requested)?.status;
+  const { timeZone } = getAvailabilityConfig();
+  const deliveries = await getWebhookDeliveryStore().list({ status, limit: 200 });
+
+  return (
+    <>
+      <AdminHeader name={session.name} />
+      <main className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Webhook Deliveries</h1>
+          <p className="text-sm text-gray-400">
+            Lead events pushed to the endpoints in <code>WEBHOOK_ENDPOINTS</code>. Deliveries that
+            failed every retry wait here until they are replayed.
+          </p>
+        </div>
+
+        <nav aria-label="Delivery status" className="flex flex-wrap gap-2">
+          {DELIVERY_TABS.map((tab) => (
+            <Link
+              key={tab.label}
+              href={tab.status ? `/admin/webhooks?status=${tab.status}` : '/admin/webhooks'}
+              className={`px-3 py-1.5 rounded-lg border text-sm ${
+                tab.status === status ? 'border-gold text-gold' : 'border-gray-800 text-gray-300'
+              }`}
+            >
+              {tab.label}
+            </Link>
+          ))}
+        </nav>
+
+        <div className="overflow-x-auto rounded-lg border border-gray-800">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-900 text-left text-gray-400">
+              <tr>
+                <th className="px-4 py-3 font-semibold">Created</th>
+                <th className="px-4 py-3 font-semibold">Event</th>
+                <th className="px-4 py-3 font-semibold">Endpoint</th>
+                <th className="px-4 py-3 font-semibold">Status</th>
+                <th className="px-4 py-3 font-semibold">Attempts</th>
+                <th className="px-4 py-3 font-semibold">Last Result</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map((delivery) => {
+                const last = delivery.attempts.at(-1);
+                const submissionId =
+                  delivery.event.data.submissionId ??
+                  (delivery.event.data.lead as { submissionId?: string } | undefined)?.submissionId;
+
+                return (
+                  <tr key={delivery.deliveryId} className="border-t border-gray-800 align-top">
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-300">
+                      {formatLeadTime(delivery.createdAt, timeZone)}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className="font-mono text-xs">{delivery.event.type}</span>
+                      {typeof submissionId === 'string' && (
+                        <Link
+                          href={`/admin/leads/${encodeURIComponent(submissionId)}`}
+                          className="block text-xs text-gray-400 hover:text-gold"
+                        >
+                          {submissionId}
+                        </Link>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {delivery.endpointId}
+                      <span className="block text-xs text-gray-400 break-all">{delivery.url}</span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`inline-block rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_BADGES[delivery.status]}`}
+                      >
+                        {delivery.status}
+                      </span>
+                      {delivery.status === 'pending' && delivery.nextAttemptAt && (
+                        <span className="block text-xs text-gray-400">
+                          next {formatLeadTime(delivery.nextAttemptAt, timeZone)}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-300">{delivery.attempts.length}</td>
+                    <td className="px-4 py-3 text-gray-300">
+                      {last ? (last.error ?? `HTTP ${last.statusCode}`) : '—'}
+                      {last && (
+                        <span className="block text-xs text-gray-400">{last.durationMs} ms</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {delivery.status === 'dead' && (
+                        <AdminWebhookReplay deliveryId={delivery.deliveryId} />
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+              {deliveries.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-4 py-12 text-center text-gray-400">
+                    No deliveries yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminSessionFromRequest } from '@/lib/admin';
+import { recordAudit } from '@/lib/audit';
+import { getAttachmentStorage } from '@/lib/attachments';
+import { apiError, withApiRoute, type ApiRouteContext } from '@/lib/http';
+import { getLeadRepository } from '@/lib/leads';
+
+/**
+ * Download a file uploaded with a lead. Files are always sent as attachments
+ * with their sniffed type, never rendered inline.
+ */
+async function downloadAttachment(
+  request: NextRequest,
+  { log, params }: ApiRouteContext<null, { submissionId: string; attachmentId: string }>
+) {
+  const session = adminSessionFromRequest(request);
+  if (!session) {
+    return apiError('unauthorized', 'Please sign in again.');
+  }
+
+  const { submissionId, attachmentId } = params;
+  const lead = await getLeadRepository().findById(submissionId);
+  const attachment = lead?.attachments.find((file) => file.attachmentId === attachmentId);
+  if (!attachment) {
+    return apiError('not_found', 'Attachment not found.');
+  }
+
+  const contents = await getAttachmentStorage().read(attachment);
+  await recordAudit({
+    actor: session.name,
+    action: 'lead.attachment_downloaded',
+    submissionIds: [submissionId],
+    target: attachmentId,
+    requestId: log.requestId,
+  });
+  return new NextResponse(Buffer.from(contents), {
+    headers: {
+      'Content-Type': attachment.mimeType,
+      'Content-Length': String(contents.byteLength),
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
+
+export const GET = withApiRoute(
+  { route: 'GET /api/admin/leads/[submissionId]/attachments/[attachmentId]' },
+  downloadAttachment
+);
@@ -0,0 +1,58 @@
+import { randomUUID } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminSessionFromRequest } from '@/lib/admin';
+import { recordAudit } from '@/lib/audit';
+import { apiError, withApiRoute, type ApiRouteContext, type JsonBody } from '@/lib/http';
+import { getLeadRepository } from '@/lib/leads';
+
+const noteSchema = z.object({
+  body: z.string().trim().min(1, 'Note cannot be empty').max(2000, 'Note is too long'),
+});
+
+/**
+ * Add an internal note to a lead, attributed to the signed-in admin
+ */
+async function addNote(
+  request: NextRequest,
+  { log, params, body }: ApiRouteContext<JsonBody, { submissionId: string }>
+) {
+  const session = adminSessionFromRequest(request);
+  if (!session) {
+    return apiError('unauthorized', 'Please sign in again.');
+  }
+
+  const validationResult = noteSchema.safeParse(body);
+  if (!validationResult.success) {
+    return apiError('validation_failed', validationResult.error.issues[0].message, {
+      details: validationResult.error.issues,
+    });
+  }
+
+  const { submissionId } = params;
+  const noteId = randomUUID();
+  const lead = await getLeadRepository().addNote(submissionId, {
+    noteId,
+    author: session.name,
+    body: validationResult.data.body,
+    createdAt: new Date().toISOString(),
+  });
+  if (!lead) {
+    return apiError('not_found', 'Lead not found.');
+  }
+
+  await recordAudit({
+    actor: session.name,
+    action: 'lead.note_added',
+    submissionIds: [submissionId],
+    target: noteId,
+    requestId: log.requestId,
+  });
+
+  return NextResponse.json({ success: true, lead }, { status: 201 });
+}
+
+export const POST = withApiRoute(
+  { route: 'POST /api/admin/leads/[submissionId]/notes', contentTypes: ['application/json'] },
+  addNote
+);
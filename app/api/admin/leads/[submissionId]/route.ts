@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminSessionFromRequest } from '@/lib/admin';
+import { recordAudit } from '@/lib/audit';
+import { apiError, withApiRoute, type ApiRouteContext, type JsonBody } from '@/lib/http';
+import {
+  LEAD_STATUSES,
+  LEAD_STATUS_LABELS,
+  LEAD_STATUS_TRANSITIONS,
+  getLeadRepository,
+} from '@/lib/leads';
+import { publishLeadStatusChanged } from '@/lib/webhooks';
+
+const statusUpdateSchema = z.object({
+  status: z.enum(LEAD_STATUSES, { message: 'Unknown status' }),
+});
+
+/**
+ * Move a lead to another stage of the pipeline
+ */
+async function updateLeadStatus(
+  request: NextRequest,
+  { log, params, body }: ApiRouteContext<JsonBody, { submissionId: string }>
+) {
+  const session = adminSessionFromRequest(request);
+  if (!session) {
+    return apiError('unauthorized', 'Please sign in again.');
+  }
+
+  const validationResult = statusUpdateSchema.safeParse(body);
+  if (!validationResult.success) {
+    return apiError('validation_failed', 'Please choose a valid status.', {
+      details: validationResult.error.issues,
+    });
+  }
+
+  const { submissionId } = params;
+  const repository = getLeadRepository();
+  const lead = await repository.findById(submissionId);
+  if (!lead) {
+    return apiError('not_found', 'Lead not found.');
+  }
+
+  const { status } = validationResult.data;
+  if (!LEAD_STATUS_TRANSITIONS[lead.status].includes(status)) {
+    return apiError(
+      'invalid_transition',
+      `A ${LEAD_STATUS_LABELS[lead.status].toLowerCase()} lead cannot be marked ${LEAD_STATUS_LABELS[status].toLowerCase()}.`
+    );
+  }
+
+  const updated = await repository.updateStatus(submissionId, status);
+  await recordAudit({
+    actor: session.name,
+    action: 'lead.status_changed',
+    submissionIds: [submissionId],
+    details: { from: lead.status, to: status },
+    requestId: log.requestId,
+  });
+  if (updated) await publishLeadStatusChanged(updated, lead.status, log);
+
+  return NextResponse.json({ success: true, lead: updated });
+}
+
+export const PATCH = withApiRoute(
+  { route: 'PATCH /api/admin/leads/[submissionId]', contentTypes: ['application/json'] },
+  updateLeadStatus
+);
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  adminSessionFromRequest,
+  leadFiltersToSearchParams,
+  leadsToCsv,
+  parseLeadFilters,
+  toLeadQuery,
+} from '@/lib/admin';
+import { recordAudit } from '@/lib/audit';
+import { getAvailabilityConfig } from '@/lib/bookings';
+import { apiError, withApiRoute, type ApiRouteContext } from '@/lib/http';
+import { getLeadRepository } from '@/lib/leads';
+
+/**
+ * Download every lead matching the dashboard filters as CSV
+ */
+async function exportLeads(request: NextRequest, { log }: ApiRouteContext) {
+  const session = adminSessionFromRequest(request);
+  if (!session) {
+    return apiError('unauthorized', 'Please sign in again.');
+  }
+
+  const filters = parseLeadFilters(request.nextUrl.searchParams);
+  const leads = await getLeadRepository().list(
+    toLeadQuery(filters, getAvailabilityConfig().timeZone)
+  );
+  await recordAudit({
+    actor: session.name,
+    action: 'lead.exported',
+    submissionIds: leads.map((lead) => lead.submissionId),
+    details: {
+      count: leads.length,
+      // The search text may be a name or email, so only note that there was one
+      filters: leadFiltersToSearchParams(filters, { q: undefined, page: 1 }),
+      searched: filters.q !== undefined,
+    },
+    requestId: log.requestId,
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+  return new NextResponse(leadsToCsv(leads), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="sb-infra-leads-${date}.csv"`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
+
+export const GET = withApiRoute({ route: 'GET /api/admin/leads/export' }, exportLeads);
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_TTL_MS,
+  checkAdminPassword,
+  isAdminConfigured,
+  issueAdminSession,
+} from '@/lib/admin';
+import { recordAudit } from '@/lib/audit';
+import { getConfig } from '@/lib/config';
+import { apiError, withApiRoute, type ApiRouteContext, type JsonBody } from '@/lib/http';
+import { createRateLimiter, getClientIP, identityKeys, rateLimitHeaders } from '@/lib/rate-limit';
+
+// Every attempt counts, so guessing the password is limited to a few tries per IP
+const loginRateLimiter = createRateLimiter({
+  name: 'admin-login',
+  ...getConfig().rateLimits.adminLogin,
+});
+
+const loginSchema = z.object({
+  name: z.string().trim().min(2, 'Please enter your name').max(60, 'Name is too long'),
+  password: z.string().min(1, 'Please enter the password').max(200),
+});
+
+/**
+ * Sign in to the admin area
+ */
+async function signIn(request: NextRequest, { log, body }: ApiRouteContext<JsonBody>) {
+  if (!isAdminConfigured()) {
+    return apiError('not_configured', 'The admin area is not enabled.');
+  }
+
+  // There is one password, so without a client IP all attempts share one limit
+  const ip = getClientIP(request.headers);
+  const rateLimit = await loginRateLimiter.consume(ip ? identityKeys({ ip }) : ['all']);
+  if (!rateLimit.allowed) {
+    return apiError('rate_limited', 'Too many sign-in attempts. Please try again later.', {
+      headers: rateLimitHeaders(rateLimit),
+    });
+  }
+
+  const validationResult = loginSchema.safeParse(body);
+  if (!validationResult.success) {
+    return apiError('validation_failed', 'Please enter your name and the password.', {
+      details: validationResult.error.issues,
+    });
+  }
+
+  const { name, password } = validationResult.data;
+  if (!checkAdminPassword(password)) {
+    log.warn('Admin sign-in failed', { actor: name, ip: getClientIP(request.headers) });
+    return apiError('invalid_credentials', 'That password is not correct.');
+  }
+
+  await recordAudit({ actor: name, action: 'admin.signed_in', requestId: log.requestId });
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(ADMIN_SESSION_COOKIE, issueAdminSession(name), {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: ADMIN_SESSION_TTL_MS / 1000,
+  });
+  return response;
+}
+
+/**
+ * Sign out of the admin area
+ */
+async function signOut() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(ADMIN_SESSION_COOKIE);
+  return response;
+}
+
+export const POST = withApiRoute(
+  { route: 'POST /api/admin/session', contentTypes: ['application/json'] },
+  signIn
+);
+export const DELETE = withApiRoute({ route: 'DELETE /api/admin/session' }, signOut);
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminSessionFromRequest } from '@/lib/admin';
+import { recordAudit } from '@/lib/audit';
+import { apiError, withApiRoute, type ApiRouteContext } from '@/lib/http';
+import { getWebhookDispatcher } from '@/lib/webhooks';
+
+/**
+ * Send a dead webhook delivery again
+ */
+async function replayDelivery(
+  request: NextRequest,
+  { log, params }: ApiRouteContext<null, { deliveryId: string }>
+) {
+  const session = adminSessionFromRequest(request);
+  if (!session) {
+    return apiError('unauthorized', 'Please sign in again.');
+  }
+
+  const { deliveryId } = params;
+  const result = await getWebhookDispatcher().replay(deliveryId);
+  if (!result.ok) {
+    return result.reason === 'not_found'
+      ? apiError('not_found', 'Delivery not found.')
+      : apiError('not_replayable', 'Only deliveries in the dead-letter queue can be replayed.');
+  }
+
+  await recordAudit({
+    actor: session.name,
+    action: 'webhook.replayed',
+    target: deliveryId,
+    details: { replayId: result.delivery.deliveryId },
+    requestId: log.requestId,
+  });
+  return NextResponse.json({ success: true, delivery: result.delivery });
+}
+
+export const POST = withApiRoute(
+  { route: 'POST /api/admin/webhooks/[deliveryId]/replay' },
+  replayDelivery
+);
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBookingOrganizer, getBookingRepository, renderBookingIcs } from '@/lib/bookings';
+import { apiError, withApiRoute, type ApiRouteContext } from '@/lib/http';
+
+/**
+ * Download the calendar invite for a booking. Booking IDs are random UUIDs,
+ * so the link itself is the only credential.
+ */
+async function downloadIcs(
+  _request: NextRequest,
+  { params }: ApiRouteContext<null, { bookingId: string }>
+) {
+  const { bookingId } = params;
+  const booking = await getBookingRepository().findById(bookingId);
+
+  if (!booking) {
+    return apiError('not_found', 'Booking not found.');
+  }
+
+  return new NextResponse(renderBookingIcs(booking, getBookingOrganizer()), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="sb-infra-${booking.kind}.ics"`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
+
+export const GET = withApiRoute({ route: 'GET /api/bookings/[bookingId]/ics' }, downloadIcs);
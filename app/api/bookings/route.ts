@@ -0,0 +1,227 @@
+import { randomUUID } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  BOOKING_KIND_LABELS,
+  bookingRequestSchema,
+  findBookableSlot,
+  formatSlot,
+  getAvailabilityConfig,
+  getBookingRepository,
+  getOfficeLocation,
+  type Booking,
+  type BookingKind,
+  type BookingResponse,
+} from '@/lib/bookings';
+import { getConfig } from '@/lib/config';
+import { apiError, withApiRoute, type ApiRouteContext, type JsonBody } from '@/lib/http';
+import { createLeadRecord, createSubmissionId, getLeadRepository } from '@/lib/leads';
+import type { RequestLogger } from '@/lib/logging';
+import { sendLeadNotifications } from '@/lib/mail';
+import { createRateLimiter, getClientIP, identityKeys, rateLimitHeaders } from '@/lib/rate-limit';
+import { classifySubmission, getSpamPolicy, withFormToken } from '@/lib/spam';
+import { publishLeadCreated } from '@/lib/webhooks';
+
+// Per IP, email and phone, like the contact form (RATE_LIMIT_BOOKINGS, 3 per hour by default)
+const bookingRateLimiter = createRateLimiter({
+  name: 'bookings',
+  ...getConfig().rateLimits.bookings,
+});
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+const slotUnavailable = () =>
+  apiError('slot_unavailable', 'That time is no longer available. Please pick another slot.', {
+    details: [{ path: ['slotStart'], message: 'This time is no longer available' }],
+  });
+
+function confirmationMessage(kind: BookingKind): string {
+  return `Your ${BOOKING_KIND_LABELS[kind].toLowerCase()} is booked. We look forward to meeting you.`;
+}
+
+function icsUrl(bookingId: string): string {
+  return `/api/bookings/${encodeURIComponent(bookingId)}/ics`;
+}
+
+/**
+ * Validate a screened booking and reserve it. Filtered bots get a confirmation
+ * that looks real, without a booking behind it.
+ */
+async function bookSlot(
+  clientIP: string | undefined,
+  body: JsonBody,
+  filtered: boolean,
+  log: RequestLogger
+): Promise<Response> {
+  const validationResult = bookingRequestSchema.safeParse(body);
+  if (!validationResult.success) {
+    return apiError('validation_failed', 'Please check your input and try again.', {
+      details: validationResult.error.issues,
+    });
+  }
+
+  const data = validationResult.data;
+  const config = getAvailabilityConfig();
+
+  if (filtered) {
+    // Look exactly like a success so bots cannot tell they were filtered
+    const bookingId = `BK-${randomUUID()}`;
+    return NextResponse.json<BookingResponse>({
+      success: true,
+      message: confirmationMessage(data.kind),
+      submissionId: createSubmissionId(),
+      booking: {
+        bookingId,
+        kind: data.kind,
+        start: data.slotStart,
+        end: new Date(Date.parse(data.slotStart) + config.slotMinutes * 60 * 1000).toISOString(),
+        timeZone: config.timeZone,
+        icsUrl: icsUrl(bookingId),
+      },
+    });
+  }
+
+  // Only slots we would have offered can be booked, and only while they are still open
+  const slot = findBookableSlot(config, data.slotStart);
+  if (!slot) {
+    return slotUnavailable();
+  }
+
+  const rateLimit = await bookingRateLimiter.consume(
+    identityKeys({ ip: clientIP, email: data.email, phone: data.phone })
+  );
+  if (!rateLimit.allowed) {
+    const minutesUntilReset = Math.ceil((rateLimit.resetAt - Date.now()) / (60 * 1000));
+
+    return apiError(
+      'rate_limited',
+      `Too many bookings. Please try again in ${minutesUntilReset} minutes.`,
+      { headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const submissionId = createSubmissionId();
+  const now = new Date().toISOString();
+  const booking: Booking = {
+    bookingId: `BK-${randomUUID()}`,
+    submissionId,
+    kind: data.kind,
+    status: 'confirmed',
+    ...slot,
+    timeZone: config.timeZone,
+    name: data.name,
+    email: data.email,
+    location: data.kind === 'site-visit' ? (data.siteAddress ?? '') : getOfficeLocation(),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const bookings = getBookingRepository();
+  const reservation = await bookings.reserve(booking);
+  if (!reservation.ok) {
+    return slotUnavailable();
+  }
+
+  // The lead carries the booking in its message so sales sees it like any inquiry
+  const summary = `${BOOKING_KIND_LABELS[data.kind]} booked for ${formatSlot(
+    booking.start,
+    booking.timeZone
+  )} at ${booking.location}.`;
+  const lead = await getLeadRepository()
+    .create(
+      createLeadRecord(
+        submissionId,
+        {
+          name: data.name,
+          email: data.email,
+          phone: data.phone ?? '',
+          projectType: data.projectType,
+          budget: '',
+          message: data.notes ? `${summary}\n\n${data.notes}` : summary,
+        },
+        clientIP,
+        [],
+        data.consentVersion
+      )
+    )
+    .catch(async (error) => {
+      // Free the slot again if the lead could not be stored
+      await bookings.cancel(booking.bookingId).catch(() => undefined);
+      throw error;
+    });
+
+  log.info('Booking stored', {
+    bookingId: booking.bookingId,
+    submissionId,
+    kind: booking.kind,
+    start: booking.start,
+  });
+
+  // Mail and webhook failures are logged, not surfaced
+  await sendLeadNotifications(lead, log);
+  await publishLeadCreated(lead, log);
+
+  return NextResponse.json<BookingResponse>(
+    {
+      success: true,
+      message: confirmationMessage(data.kind),
+      submissionId,
+      booking: {
+        bookingId: booking.bookingId,
+        kind: booking.kind,
+        start: booking.start,
+        end: booking.end,
+        timeZone: booking.timeZone,
+        icsUrl: icsUrl(booking.bookingId),
+      },
+    },
+    { status: 200, headers: rateLimitHeaders(rateLimit) }
+  );
+}
+
+/**
+ * Book a site visit or consultation. The booking is reserved first so two
+ * visitors can never hold the same slot, then stored as a lead.
+ */
+async function bookVisit(request: NextRequest, { log, body }: ApiRouteContext<JsonBody>) {
+  if (!getConfig().features.bookings) {
+    return apiError('not_configured', 'Online booking is not available. Please call or email us.');
+  }
+
+  try {
+    const clientIP = getClientIP(request.headers);
+
+    // Screen for bots before doing any work on the booking
+    const verdict = await classifySubmission(
+      {
+        honeypot: optionalString(body.website),
+        formToken: optionalString(body.formToken),
+        powSolution: optionalString(body.powSolution),
+      },
+      getSpamPolicy()
+    );
+    if (!verdict.ok) {
+      log.info('Booking rejected', { reason: verdict.reason });
+    }
+    if (!verdict.ok && !verdict.silent) {
+      return apiError(
+        'form_expired',
+        'This form has expired. Please reload the page and try again.'
+      );
+    }
+
+    // A passing token is spent now; a booking turned away below gets it back
+    const book = () => bookSlot(clientIP, body, !verdict.ok, log);
+    return await (verdict.ok ? withFormToken(verdict.token, book) : book());
+  } catch (error) {
+    log.error('Booking failed', { error });
+
+    return apiError('internal_error', 'Something went wrong on our end. Please try again later.');
+  }
+}
+
+export const POST = withApiRoute(
+  { route: 'POST /api/bookings', contentTypes: ['application/json'] },
+  bookVisit
+);
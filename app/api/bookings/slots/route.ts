@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  availableSlots,
+  bookingWindow,
+  getAvailabilityConfig,
+  getBookingRepository,
+  type BookingSlotsResponse,
+} from '@/lib/bookings';
+import { getConfig } from '@/lib/config';
+import { apiError, withApiRoute, type ApiRouteContext } from '@/lib/http';
+
+/**
+ * List the slots that can currently be booked.
+ * Requested by BookingPicker when it is shown and again after a conflict.
+ */
+async function listSlots(_request: NextRequest, { log }: ApiRouteContext) {
+  if (!getConfig().features.bookings) {
+    return apiError('not_configured', 'Online booking is not available. Please call or email us.');
+  }
+
+  try {
+    const config = getAvailabilityConfig();
+    const now = new Date();
+    const { earliestStart, until } = bookingWindow(config, now);
+    const bookings = await getBookingRepository().listConfirmed(earliestStart, until);
+
+    return NextResponse.json<BookingSlotsResponse>(
+      {
+        timeZone: config.timeZone,
+        slotMinutes: config.slotMinutes,
+        slots: availableSlots(config, bookings, now),
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    log.error('Listing booking slots failed', { error });
+
+    return apiError('internal_error', 'Could not load available times. Please try again later.');
+  }
+}
+
+export const GET = withApiRoute({ route: 'GET /api/bookings/slots' }, listSlots);
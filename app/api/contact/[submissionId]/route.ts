@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from '@/lib/config';
+import { inquiryLookupSchema, type InquiryStatusResponse } from '@/lib/contact';
+import { apiError, withApiRoute, type ApiRouteContext } from '@/lib/http';
+import { getLeadRepository, isValidSubmissionId } from '@/lib/leads';
+import { createRateLimiter, getClientIP, identityKeys, rateLimitHeaders } from '@/lib/rate-limit';
+
+// Generous for someone checking their own inquiry, far too slow to guess references
+const lookupRateLimiter = createRateLimiter({
+  name: 'contact-lookup',
+  ...getConfig().rateLimits.inquiryLookup,
+});
+
+/**
+ * Status of an inquiry for its submitter. The email it was sent from is
+ * required, and unknown references and wrong emails get the same 404 so the
+ * endpoint does not reveal which references exist.
+ */
+async function lookupInquiry(
+  request: NextRequest,
+  { params }: ApiRouteContext<null, { submissionId: string }>
+) {
+  const rateLimit = await lookupRateLimiter.consume(
+    identityKeys({
+      ip: getClientIP(request.headers),
+      email: request.nextUrl.searchParams.get('email') ?? undefined,
+    })
+  );
+  if (!rateLimit.allowed) {
+    return apiError('rate_limited', 'Too many lookups. Please try again later.', {
+      headers: rateLimitHeaders(rateLimit),
+    });
+  }
+
+  const validationResult = inquiryLookupSchema.safeParse({
+    submissionId: params.submissionId,
+    email: request.nextUrl.searchParams.get('email') ?? '',
+  });
+  if (!validationResult.success) {
+    return apiError('validation_failed', 'Please check your reference number and email.', {
+      details: validationResult.error.issues,
+    });
+  }
+
+  const { submissionId, email } = validationResult.data;
+  const lead = isValidSubmissionId(submissionId)
+    ? await getLeadRepository().findById(submissionId)
+    : null;
+
+  if (!lead || lead.submission.email.toLowerCase() !== email.toLowerCase()) {
+    return apiError(
+      'not_found',
+      'We could not find an inquiry with that reference number and email.',
+      { headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  return NextResponse.json<InquiryStatusResponse>(
+    {
+      success: true,
+      inquiry: {
+        submissionId: lead.submissionId,
+        status: lead.status,
+        projectType: lead.submission.projectType,
+        receivedAt: lead.createdAt,
+        updatedAt: lead.updatedAt,
+      },
+    },
+    { headers: { ...rateLimitHeaders(rateLimit), 'Cache-Control': 'private, no-store' } }
+  );
+}
+
+export const GET = withApiRoute({ route: 'GET /api/contact/[submissionId]' }, lookupInquiry);
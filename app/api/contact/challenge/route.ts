@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import type { ContactChallengeResponse } from '@/lib/contact';
+import { withApiRoute } from '@/lib/http';
+import { getProofOfWorkDifficulty, getSpamPolicy, issueFormToken } from '@/lib/spam';
+
+/**
+ * Issue a signed form token, and a proof-of-work challenge when enabled.
+ * Requested by ContactForm when the visitor first focuses a field, and by the
+ * service worker before it replays a queued submission.
+ */
+async function issueChallenge() {
+  const difficulty = getProofOfWorkDifficulty();
+
+  return NextResponse.json<ContactChallengeResponse>(
+    { token: issueFormToken(difficulty), difficulty, minFillMs: getSpamPolicy().minFillMs },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
+
+export const GET = withApiRoute({ route: 'GET /api/contact/challenge' }, issueChallenge);
@@ -1,181 +1,263 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
-
-// Validation schema matching the frontend
-const contactSchema = z.object({
-  name: z.string().min(2).max(100),
-  email: z.string().email(),
-  phone: z.string().optional(),
-  projectType: z.string().min(1),
-  budget: z.string().optional(),
-  message: z.string().min(10).max(1000),
-});
-
-// Rate limiting storage (in-memory for simplicity, use Redis in production)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
+import {
+  ATTACHMENT_LIMITS,
+  getAttachmentStorage,
+  inspectAttachments,
+  type StoredAttachment,
+} from '@/lib/attachments';
+import { getConfig } from '@/lib/config';
+import { ATTACHMENTS_FIELD, contactSchema, type ContactResponse } from '@/lib/contact';
+import { apiError, withApiRoute, type ApiRouteContext, type RequestBody } from '@/lib/http';
+import { createLeadRecord, createSubmissionId, getLeadRepository } from '@/lib/leads';
+import type { RequestLogger } from '@/lib/logging';
+import { sendLeadNotifications } from '@/lib/mail';
+import { createRateLimiter, getClientIP, identityKeys, rateLimitHeaders } from '@/lib/rate-limit';
+import { classifySubmission, getSpamPolicy, withFormToken } from '@/lib/spam';
+import { publishLeadCreated } from '@/lib/webhooks';
 
-// Clean up old entries every 5 minutes
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, value] of rateLimitStore.entries()) {
-    if (now > value.resetTime) {
-      rateLimitStore.delete(key);
-    }
-  }
-}, 5 * 60 * 1000);
+// Applied separately to the client IP, email and phone (RATE_LIMIT_CONTACT, 3 per hour by default)
+const contactRateLimiter = createRateLimiter({
+  name: 'contact',
+  ...getConfig().rateLimits.contact,
+});
 
 /**
- * Get client IP address from request
+ * Trim a text field; values that are not strings are left for the schema to reject
  */
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for');
-  const realIP = request.headers.get('x-real-ip');
-  
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
-  
-  if (realIP) {
-    return realIP;
-  }
-  
-  return 'unknown';
+function trimField(value: unknown): unknown {
+  return typeof value === 'string' ? value.trim() : value;
 }
 
 /**
- * Check rate limit: 3 submissions per hour per IP
+ * Trim surrounding whitespace and nothing else. Text is stored as typed, so
+ * "budget < 50L" stays intact, and is encoded wherever it is shown (lib/encoding).
  */
-function checkRateLimit(ip: string): { allowed: boolean; resetTime?: number } {
-  const now = Date.now();
-  const oneHour = 60 * 60 * 1000;
-  
-  const entry = rateLimitStore.get(ip);
-  
-  if (!entry || now > entry.resetTime) {
-    // First submission or expired window
-    rateLimitStore.set(ip, {
-      count: 1,
-      resetTime: now + oneHour,
-    });
-    return { allowed: true };
-  }
-  
-  if (entry.count >= 3) {
-    // Rate limit exceeded
-    return { allowed: false, resetTime: entry.resetTime };
-  }
-  
-  // Increment count
-  entry.count += 1;
-  rateLimitStore.set(ip, entry);
-  
-  return { allowed: true };
+function trimFormData(data: Record<string, unknown>): Record<string, unknown> {
+  return {
+    name: trimField(data.name),
+    email: trimField(data.email),
+    phone: data.phone ? trimField(data.phone) : '',
+    projectType: trimField(data.projectType),
+    budget: data.budget ? trimField(data.budget) : '',
+    message: trimField(data.message),
+    // Numeric answers and the consent version are checked by the schema
+    projectDetails: data.projectDetails,
+    consentVersion: data.consentVersion,
+  };
+}
+
+// Room for the text fields and multipart boundaries on top of the files themselves
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
 }
 
 /**
- * Sanitize string input to prevent XSS and injection attacks
+ * Split a JSON or multipart submission into its text fields and uploaded files
  */
-function sanitizeString(input: string): string {
-  return input
-    .replace(/[<>]/g, '') // Remove < and > to prevent HTML injection
-    .replace(/javascript:/gi, '') // Remove javascript: protocol
-    .replace(/on\w+=/gi, '') // Remove event handlers like onclick=
-    .trim();
+function readContactBody(
+  requestBody: RequestBody
+): { body: Record<string, unknown>; files: File[] } {
+  if (!(requestBody instanceof FormData)) {
+    return { body: requestBody, files: [] };
+  }
+
+  const body: Record<string, unknown> = {};
+  const files: File[] = [];
+  requestBody.forEach((value, key) => {
+    if (key === 'projectDetails' && typeof value === 'string') {
+      // Structured fields travel as JSON inside the multipart body
+      try {
+        body[key] = JSON.parse(value);
+      } catch {
+        body[key] = value;
+      }
+    } else if (typeof value === 'string') {
+      body[key] = value;
+    } else if (key === ATTACHMENTS_FIELD) {
+      files.push(value);
+    }
+  });
+  return { body, files };
 }
 
 /**
- * Sanitize form data
+ * Validate, store and announce a submission that passed bot screening
  */
-function sanitizeFormData(data: any): any {
-  return {
-    name: sanitizeString(data.name),
-    email: sanitizeString(data.email),
-    phone: data.phone ? sanitizeString(data.phone) : '',
-    projectType: sanitizeString(data.projectType),
-    budget: data.budget ? sanitizeString(data.budget) : '',
-    message: sanitizeString(data.message),
-  };
-}
+async function acceptContact(
+  clientIP: string | undefined,
+  body: Record<string, unknown>,
+  files: File[],
+  log: RequestLogger
+): Promise<Response> {
+  // Normalize input data
+  const trimmedData = trimFormData(body);
 
-export async function POST(request: NextRequest) {
-  try {
-    // Get client IP for rate limiting
-    const clientIP = getClientIP(request);
-    
-    // Check rate limit
-    const rateLimitResult = checkRateLimit(clientIP);
-    if (!rateLimitResult.allowed) {
-      const resetTime = rateLimitResult.resetTime || Date.now();
-      const minutesUntilReset = Math.ceil((resetTime - Date.now()) / (60 * 1000));
-      
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Rate limit exceeded',
-          message: `Too many submissions. Please try again in ${minutesUntilReset} minutes.`,
-        },
-        { status: 429 }
-      );
-    }
-    
-    // Parse request body
-    const body = await request.json();
-    
-    // Sanitize input data
-    const sanitizedData = sanitizeFormData(body);
-    
-    // Validate sanitized data
-    const validationResult = contactSchema.safeParse(sanitizedData);
-    
-    if (!validationResult.success) {
-      return NextResponse.json(
+  // Validate trimmed data
+  const validationResult = contactSchema.safeParse(trimmedData);
+
+  if (!validationResult.success) {
+    return apiError('validation_failed', 'Please check your input and try again.', {
+      details: validationResult.error.issues,
+    });
+  }
+
+  const validatedData = validationResult.data;
+
+  if (files.length > 0 && !getConfig().features.attachments) {
+    return apiError(
+      'not_configured',
+      'Attachments are not accepted. Please send your inquiry without files.'
+    );
+  }
+
+  // Check file types by content, not by the name or type the client declared
+  const inspection = await inspectAttachments(files);
+  if (!inspection.ok) {
+    return apiError(
+      inspection.status === 413 ? 'attachment_too_large' : 'invalid_attachment',
+      inspection.message,
+      { details: [{ path: [ATTACHMENTS_FIELD], message: inspection.message }] }
+    );
+  }
+
+  // Check rate limit on every identifier so rotating one of them does not bypass it
+  const rateLimit = await contactRateLimiter.consume(
+    identityKeys({ ip: clientIP, email: validatedData.email, phone: validatedData.phone })
+  );
+  if (!rateLimit.allowed) {
+    const minutesUntilReset = Math.ceil((rateLimit.resetAt - Date.now()) / (60 * 1000));
+
+    return apiError(
+      'rate_limited',
+      `Too many submissions. Please try again in ${minutesUntilReset} minutes.`,
+      { headers: rateLimitHeaders(rateLimit) }
+    );
+  }
+
+  const submissionId = createSubmissionId();
+
+  // Store uploads first so the lead can reference them
+  const attachmentStorage = getAttachmentStorage();
+  const attachments: StoredAttachment[] = [];
+  for (const attachment of inspection.attachments) {
+    attachments.push(await attachmentStorage.save(submissionId, attachment));
+  }
+
+  // Persist the lead before acknowledging so the submission ID is always resolvable
+  const { consentVersion, ...submission } = validatedData;
+  const lead = await getLeadRepository()
+    .create(
+      createLeadRecord(
+        submissionId,
         {
-          success: false,
-          error: 'Validation failed',
-          message: 'Please check your input and try again.',
-          details: validationResult.error.issues,
+          ...submission,
+          phone: submission.phone ?? '',
+          budget: submission.budget ?? '',
         },
-        { status: 400 }
-      );
-    }
-    
-    const validatedData = validationResult.data;
-    
-    // Here you would typically:
-    // 1. Save to database
-    // 2. Send email notification
-    // 3. Integrate with CRM
-    // For now, we'll just log and return success
-    
-    console.log('Contact form submission:', {
-      ...validatedData,
-      timestamp: new Date().toISOString(),
-      ip: clientIP,
+        clientIP,
+        attachments,
+        consentVersion
+      )
+    )
+    .catch(async (error) => {
+      // Do not leave files behind for a lead that was never stored
+      await Promise.allSettled(attachments.map((stored) => attachmentStorage.remove(stored)));
+      throw error;
     });
+
+  // Email, phone and IP are logged as keyed hashes, never in the clear
+  log.info('Contact form submission stored', {
+    submissionId,
+    email: validatedData.email,
+    phone: validatedData.phone,
+    ip: clientIP,
+    attachments: attachments.length,
+  });
+
+  // Notify sales and acknowledge the submitter; mail failures are logged, not surfaced
+  await sendLeadNotifications(lead, log);
+
+  // Push the lead to the configured CRM webhooks; deliveries retry in the background
+  await publishLeadCreated(lead, log);
+
+  // Return success response
+  return NextResponse.json<ContactResponse>(
+    {
+      success: true,
+      message: 'Thank you for your inquiry! We will get back to you within 24 hours.',
+      submissionId,
+    },
+    { status: 200, headers: rateLimitHeaders(rateLimit) }
+  );
+}
+
+async function handleContact(
+  request: NextRequest,
+  { log, body: requestBody }: ApiRouteContext<RequestBody>
+) {
+  try {
+    // Get client IP for rate limiting
+    const clientIP = getClientIP(request.headers);
     
-    // Simulate processing delay
-    await new Promise((resolve) => setTimeout(resolve, 500));
+    // Split the parsed body into fields and files
+    const { body, files } = readContactBody(requestBody);
     
-    // Return success response
-    return NextResponse.json(
+    // Screen for bots before doing any work on the submission
+    const verdict = await classifySubmission(
       {
-        success: true,
-        message: 'Thank you for your inquiry! We will get back to you within 24 hours.',
-        submissionId: `SUB-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        honeypot: optionalString(body.website),
+        formToken: optionalString(body.formToken),
+        powSolution: optionalString(body.powSolution),
       },
-      { status: 200 }
+      getSpamPolicy()
     );
+    if (!verdict.ok) {
+      log.info('Contact form submission rejected', { reason: verdict.reason });
+      
+      if (verdict.silent) {
+        // Look exactly like a success so bots cannot tell they were filtered
+        return NextResponse.json<ContactResponse>(
+          {
+            success: true,
+            message: 'Thank you for your inquiry! We will get back to you within 24 hours.',
+            submissionId: createSubmissionId(),
+          },
+          { status: 200 }
+        );
+      }
+      
+      return apiError(
+        'form_expired',
+        'This form has expired. Please reload the page and try again.'
+      );
+    }
     
+    // The token is spent now; a submission turned away below gets it back
+    return await withFormToken(verdict.token, () =>
+      acceptContact(clientIP, body, files, log)
+    );
   } catch (error) {
-    console.error('Contact form submission error:', error);
+    log.error('Contact form submission failed', { error });
     
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Internal server error',
-        message: 'Something went wrong on our end. Please try again later.',
-      },
-      { status: 500 }
-    );
+    return apiError('internal_error', 'Something went wrong on our end. Please try again later.');
   }
 }
+
+// Oversized uploads are refused while streaming, before they are buffered. Retries
+// from the offline queue carry the same Idempotency-Key and never create a second lead.
+export const POST = withApiRoute(
+  {
+    route: 'POST /api/contact',
+    idempotent: true,
+    // Every attempt, including offline queue replays, carries a fresh form token
+    idempotencyIgnoredFields: ['formToken', 'powSolution'],
+    contentTypes: ['application/json', 'multipart/form-data'],
+    maxBodyBytes: {
+      'multipart/form-data': ATTACHMENT_LIMITS.maxTotalBytes + MULTIPART_OVERHEAD_BYTES,
+    },
+    tooLargeMessage: 'Your submission is too large. Please send smaller or fewer files.',
+  },
+  handleContact
+);
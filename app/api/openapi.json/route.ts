@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getConfig } from '@/lib/config';
+import { withApiRoute } from '@/lib/http';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+let document: Record<string, unknown> | null = null;
+
+/**
+ * Serve the OpenAPI description of the lead intake API. It only changes with
+ * a deploy, so it is built once and may be fetched from any site, e.g. by API tools.
+ */
+async function serveOpenApiDocument() {
+  document ??= buildOpenApiDocument({ serverUrl: getConfig().siteUrl });
+
+  return NextResponse.json(document, {
+    headers: {
+      'Cache-Control': 'public, max-age=3600',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+export const GET = withApiRoute({ route: 'GET /api/openapi.json' }, serveOpenApiDocument);
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PRIVACY_ACTOR, recordAudit } from '@/lib/audit';
+import { getConfig } from '@/lib/config';
+import { apiError, withApiRoute, type ApiRouteContext, type JsonBody } from '@/lib/http';
+import {
+  dataRequestConfirmationSchema,
+  dataRequestTokenEmail,
+  eraseLeads,
+  findSubjectLeads,
+  getSubjectDataStores,
+  verifyDataRequest,
+  type DataErasureResponse,
+} from '@/lib/privacy';
+import { createRateLimiter, getClientIP, identityKeys, rateLimitHeaders } from '@/lib/rate-limit';
+import { publishLeadErased } from '@/lib/webhooks';
+
+// Shared with export: a handful of tries at a code, far too few to guess one
+const confirmationRateLimiter = createRateLimiter({
+  name: 'privacy-confirmations',
+  ...getConfig().rateLimits.dataConfirmations,
+});
+
+/**
+ * Erase every lead submitted with the verified email address, with its
+ * uploads, bookings and webhook deliveries. Connected systems are told with a
+ * lead.erased event so they can delete their copies too.
+ */
+async function eraseData(request: NextRequest, { log, body }: ApiRouteContext<JsonBody>) {
+  try {
+    const validationResult = dataRequestConfirmationSchema.safeParse(body);
+    if (!validationResult.success) {
+      return apiError('validation_failed', 'Please check your input and try again.', {
+        details: validationResult.error.issues,
+      });
+    }
+
+    const { token, code } = validationResult.data;
+    const rateLimit = await confirmationRateLimiter.consume(
+      identityKeys({ ip: getClientIP(request.headers), email: dataRequestTokenEmail(token) })
+    );
+    if (!rateLimit.allowed) {
+      return apiError('rate_limited', 'Too many attempts. Please request a new code later.', {
+        headers: rateLimitHeaders(rateLimit),
+      });
+    }
+
+    const verification = await verifyDataRequest(token, code, 'erasure');
+    if (!verification.ok) {
+      const headers = rateLimitHeaders(rateLimit);
+      if (verification.reason === 'expired') {
+        return apiError('code_expired', 'This code has expired. Please request a new one.', {
+          headers,
+        });
+      }
+      if (verification.reason === 'used') {
+        return apiError(
+          'code_expired',
+          'This code has already been used. Please request a new one.',
+          { headers }
+        );
+      }
+      return apiError(
+        'invalid_code',
+        'That code is not right. Please check the email and try again.',
+        { headers }
+      );
+    }
+
+    const stores = getSubjectDataStores();
+    const leads = await findSubjectLeads(verification.email, stores);
+    const erased = await eraseLeads(leads, stores);
+    const submissionIds = leads.map((lead) => lead.submissionId);
+
+    await recordAudit({
+      actor: PRIVACY_ACTOR,
+      action: 'privacy.erased',
+      submissionIds,
+      details: { ...erased },
+      requestId: log.requestId,
+    });
+    log.info('Subject data erased', { ...erased });
+
+    for (const submissionId of submissionIds) {
+      await publishLeadErased(submissionId, log);
+    }
+
+    return NextResponse.json<DataErasureResponse>(
+      {
+        success: true,
+        message:
+          erased.leads > 0
+            ? 'Your details have been deleted. We will not contact you again about these inquiries.'
+            : 'We do not hold any details for this address.',
+        erased,
+      },
+      { headers: { ...rateLimitHeaders(rateLimit), 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    log.error('Data erasure failed', { error });
+
+    return apiError('internal_error', 'Something went wrong on our end. Please try again later.');
+  }
+}
+
+export const POST = withApiRoute(
+  { route: 'POST /api/privacy/erasure', contentTypes: ['application/json'] },
+  eraseData
+);
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PRIVACY_ACTOR, recordAudit } from '@/lib/audit';
+import { getConfig } from '@/lib/config';
+import { apiError, withApiRoute, type ApiRouteContext, type JsonBody } from '@/lib/http';
+import {
+  dataRequestConfirmationSchema,
+  dataRequestTokenEmail,
+  exportSubjectData,
+  getSubjectDataStores,
+  verifyDataRequest,
+  type DataExportResponse,
+} from '@/lib/privacy';
+import { createRateLimiter, getClientIP, identityKeys, rateLimitHeaders } from '@/lib/rate-limit';
+
+// Shared with erasure: a handful of tries at a code, far too few to guess one
+const confirmationRateLimiter = createRateLimiter({
+  name: 'privacy-confirmations',
+  ...getConfig().rateLimits.dataConfirmations,
+});
+
+/**
+ * Hand over a copy of everything stored for the verified email address
+ */
+async function exportData(request: NextRequest, { log, body }: ApiRouteContext<JsonBody>) {
+  try {
+    const validationResult = dataRequestConfirmationSchema.safeParse(body);
+    if (!validationResult.success) {
+      return apiError('validation_failed', 'Please check your input and try again.', {
+        details: validationResult.error.issues,
+      });
+    }
+
+    const { token, code } = validationResult.data;
+    const rateLimit = await confirmationRateLimiter.consume(
+      identityKeys({ ip: getClientIP(request.headers), email: dataRequestTokenEmail(token) })
+    );
+    if (!rateLimit.allowed) {
+      return apiError('rate_limited', 'Too many attempts. Please request a new code later.', {
+        headers: rateLimitHeaders(rateLimit),
+      });
+    }
+
+    const verification = await verifyDataRequest(token, code, 'export');
+    if (!verification.ok) {
+      const headers = rateLimitHeaders(rateLimit);
+      if (verification.reason === 'expired') {
+        return apiError('code_expired', 'This code has expired. Please request a new one.', {
+          headers,
+        });
+      }
+      if (verification.reason === 'used') {
+        return apiError(
+          'code_expired',
+          'This code has already been used. Please request a new one.',
+          { headers }
+        );
+      }
+      return apiError(
+        'invalid_code',
+        'That code is not right. Please check the email and try again.',
+        { headers }
+      );
+    }
+
+    const data = await exportSubjectData(verification.email, getSubjectDataStores());
+    await recordAudit({
+      actor: PRIVACY_ACTOR,
+      action: 'privacy.exported',
+      submissionIds: data.leads.map((lead) => lead.submissionId),
+      details: { leads: data.leads.length, bookings: data.bookings.length },
+      requestId: log.requestId,
+    });
+    log.info('Subject data exported', { leads: data.leads.length });
+
+    return NextResponse.json<DataExportResponse>(
+      { success: true, data },
+      { headers: { ...rateLimitHeaders(rateLimit), 'Cache-Control': 'private, no-store' } }
+    );
+  } catch (error) {
+    log.error('Data export failed', { error });
+
+    return apiError('internal_error', 'Something went wrong on our end. Please try again later.');
+  }
+}
+
+export const POST = withApiRoute(
+  { route: 'POST /api/privacy/export', contentTypes: ['application/json'] },
+  exportData
+);
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from '@/lib/config';
+import { apiError, withApiRoute, type ApiRouteContext, type JsonBody } from '@/lib/http';
+import { sendDataRequestCode } from '@/lib/mail';
+import {
+  DATA_REQUEST_CODE_TTL_MINUTES,
+  createDataRequestChallenge,
+  dataRequestSchema,
+  findSubjectLeads,
+  getSubjectDataStores,
+  type DataRequestStartResponse,
+} from '@/lib/privacy';
+import { createRateLimiter, getClientIP, identityKeys, rateLimitHeaders } from '@/lib/rate-limit';
+
+// Each request sends an email, so keep it to a few per hour per IP and address
+const dataRequestRateLimiter = createRateLimiter({
+  name: 'privacy-requests',
+  ...getConfig().rateLimits.dataRequests,
+});
+
+/**
+ * Start an export or erasure request by emailing a one-time code. The
+ * response is the same whether or not we hold data for the address, so the
+ * endpoint cannot be used to find out who has been in touch.
+ */
+async function startDataRequest(request: NextRequest, { log, body }: ApiRouteContext<JsonBody>) {
+  try {
+    const validationResult = dataRequestSchema.safeParse(body);
+    if (!validationResult.success) {
+      return apiError('validation_failed', 'Please check your input and try again.', {
+        details: validationResult.error.issues,
+      });
+    }
+
+    const { email, purpose } = validationResult.data;
+    const rateLimit = await dataRequestRateLimiter.consume(
+      identityKeys({ ip: getClientIP(request.headers), email })
+    );
+    if (!rateLimit.allowed) {
+      return apiError('rate_limited', 'Too many requests. Please try again later.', {
+        headers: rateLimitHeaders(rateLimit),
+      });
+    }
+
+    const challenge = createDataRequestChallenge(email, purpose);
+    const leads = await findSubjectLeads(email, getSubjectDataStores());
+    if (leads.length > 0) {
+      try {
+        await sendDataRequestCode(email, challenge.code, purpose, DATA_REQUEST_CODE_TTL_MINUTES);
+        log.info('Data request code sent', { purpose, email, leads: leads.length });
+      } catch (error) {
+        // Answered like a success so a mail outage does not reveal the address is known
+        log.error('Data request code email failed', { purpose, email, error });
+      }
+    } else {
+      log.info('Data request for an unknown address', { purpose, email });
+    }
+
+    return NextResponse.json<DataRequestStartResponse>(
+      {
+        success: true,
+        message:
+          'If we hold any details for this address, we have emailed it a 6-digit code. Enter it below to continue.',
+        token: challenge.token,
+        expiresAt: challenge.expiresAt,
+      },
+      { status: 202, headers: { ...rateLimitHeaders(rateLimit), 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    log.error('Data request failed', { error });
+
+    return apiError('internal_error', 'Something went wrong on our end. Please try again later.');
+  }
+}
+
+export const POST = withApiRoute(
+  { route: 'POST /api/privacy/requests', contentTypes: ['application/json'] },
+  startDataRequest
+);
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, withApiRoute, type ApiRouteContext } from '@/lib/http';
+import {
+  getProjects,
+  parseProjectFilters,
+  projectPageQuerySchema,
+  searchProjects,
+  type ProjectPageResponse,
+} from '@/lib/projects';
+
+/**
+ * A page of the portfolio for the project grid, searched, filtered and
+ * sorted like the grid's URL, with the facet counts for the filters.
+ */
+async function listProjects(request: NextRequest, { log }: ApiRouteContext) {
+  const { searchParams } = request.nextUrl;
+  const validationResult = projectPageQuerySchema.safeParse({
+    cursor: searchParams.get('cursor') ?? undefined,
+    limit: searchParams.get('limit') ?? undefined,
+  });
+  if (!validationResult.success) {
+    return apiError('validation_failed', 'Please check the paging parameters.', {
+      details: validationResult.error.issues,
+    });
+  }
+
+  try {
+    const { cursor, limit } = validationResult.data;
+    const result = searchProjects(getProjects(), parseProjectFilters(searchParams), {
+      cursor,
+      limit,
+    });
+    if (!result.ok) {
+      return apiError('validation_failed', 'The page to continue from is not in these results.', {
+        details: [{ path: ['cursor'], message: 'Start again from the first page' }],
+      });
+    }
+
+    // The portfolio only changes with a deploy
+    return NextResponse.json<ProjectPageResponse>(result.page, {
+      headers: { 'Cache-Control': 'public, max-age=300' },
+    });
+  } catch (error) {
+    log.error('Listing projects failed', { error });
+
+    return apiError('internal_error', 'Could not load projects. Please try again later.');
+  }
+}
+
+export const GET = withApiRoute({ route: 'GET /api/projects' }, listProjects);
@@ -0,0 +1,28 @@
+import Link from 'next/link';
+import AdminLogoutButton from './AdminLogoutButton';
+
+interface AdminHeaderProps {
+  /** Name of the signed-in admin */
+  name: string;
+}
+
+export default function AdminHeader({ name }: AdminHeaderProps) {
+  return (
+    <header className="border-b border-gray-800">
+      <div className="max-w-7xl mx-auto px-4 py-4 flex items-center justify-between">
+        <nav className="flex items-center gap-6">
+          <Link href="/admin" className="text-lg font-bold">
+            SB Infra <span className="text-gold">Leads</span>
+          </Link>
+          <Link href="/admin/webhooks" className="text-sm text-gray-400 hover:text-gold">
+            Webhooks
+          </Link>
+        </nav>
+        <div className="flex items-center gap-4">
+          <span className="text-sm text-gray-400">Signed in as {name}</span>
+          <AdminLogoutButton />
+        </div>
+      </div>
+    </header>
+  );
+}
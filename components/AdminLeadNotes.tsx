@@ -0,0 +1,73 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface AdminLeadNotesProps {
+  submissionId: string;
+}
+
+/**
+ * Form for adding an internal note; the list itself is rendered by the page
+ */
+export default function AdminLeadNotes({ submissionId }: AdminLeadNotesProps) {
+  const router = useRouter();
+  const [body, setBody] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/leads/${encodeURIComponent(submissionId)}/notes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body }),
+      });
+      if (response.ok) {
+        setBody('');
+        router.refresh();
+      } else {
+        const result = await response.json().catch(() => ({}));
+        setError(result.message ?? 'Could not save the note.');
+      }
+    } catch {
+      setError('Could not reach the server.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <label htmlFor="lead-note" className="sr-only">
+        New note
+      </label>
+      <textarea
+        id="lead-note"
+        rows={3}
+        maxLength={2000}
+        required
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="Add an internal note"
+        className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm focus:outline-none focus:border-gold resize-y"
+      />
+      {error && (
+        <p role="alert" className="text-sm text-red-400">
+          {error}
+        </p>
+      )}
+      <button
+        type="submit"
+        disabled={isSaving || !body.trim()}
+        className="px-4 py-2 bg-gold text-black font-semibold rounded-lg text-sm hover:bg-gold-light transition-colors disabled:opacity-60"
+      >
+        {isSaving ? 'Saving…' : 'Add Note'}
+      </button>
+    </form>
+  );
+}
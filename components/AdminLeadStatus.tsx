@@ -0,0 +1,74 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { LEAD_STATUS_LABELS, LEAD_STATUS_TRANSITIONS, type LeadStatus } from '@/lib/leads/types';
+
+interface AdminLeadStatusProps {
+  submissionId: string;
+  status: LeadStatus;
+}
+
+/**
+ * Buttons for the pipeline stages the lead can move to next
+ */
+export default function AdminLeadStatus({ submissionId, status }: AdminLeadStatusProps) {
+  const router = useRouter();
+  const [pending, setPending] = useState<LeadStatus | null>(null);
+  const [error, setError] = useState('');
+  const nextStatuses = LEAD_STATUS_TRANSITIONS[status];
+
+  const moveTo = async (next: LeadStatus) => {
+    setPending(next);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/leads/${encodeURIComponent(submissionId)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: next }),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        setError(result.message ?? 'Could not update the status.');
+      }
+      router.refresh();
+    } catch {
+      setError('Could not reach the server.');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  if (nextStatuses.length === 0) {
+    return <p className="text-sm text-gray-400">This lead is closed.</p>;
+  }
+
+  return (
+    <div>
+      <p className="text-xs text-gray-400 mb-2">Move to</p>
+      <div className="flex flex-wrap gap-2">
+        {nextStatuses.map((next) => (
+          <button
+            key={next}
+            type="button"
+            onClick={() => moveTo(next)}
+            disabled={pending !== null}
+            className={`px-3 py-1.5 rounded-lg text-sm font-semibold border transition-colors disabled:opacity-60 ${
+              next === 'lost'
+                ? 'border-gray-700 text-gray-300 hover:border-red-400 hover:text-red-300'
+                : 'border-gold text-gold hover:bg-gold hover:text-black'
+            }`}
+          >
+            {pending === next ? 'Saving…' : LEAD_STATUS_LABELS[next]}
+          </button>
+        ))}
+      </div>
+      {error && (
+        <p role="alert" className="mt-2 text-sm text-red-400">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
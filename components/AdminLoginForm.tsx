@@ -0,0 +1,87 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+
+/**
+ * Sign-in form for the admin area. The name is shown on notes left while signed in.
+ */
+export default function AdminLoginForm() {
+  const router = useRouter();
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, password }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.message ?? 'Sign-in failed.');
+        setIsSubmitting(false);
+        return;
+      }
+
+      router.replace('/admin');
+      router.refresh();
+    } catch {
+      setError('Could not reach the server.');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="admin-name" className="block text-sm font-semibold mb-2">
+          Your Name
+        </label>
+        <input
+          id="admin-name"
+          type="text"
+          autoComplete="name"
+          required
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-gold"
+        />
+      </div>
+      <div>
+        <label htmlFor="admin-password" className="block text-sm font-semibold mb-2">
+          Password
+        </label>
+        <input
+          id="admin-password"
+          type="password"
+          autoComplete="current-password"
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg focus:outline-none focus:border-gold"
+        />
+      </div>
+      {error && (
+        <p role="alert" className="text-sm text-red-400">
+          {error}
+        </p>
+      )}
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full py-3 bg-gold text-black font-semibold rounded-lg hover:bg-gold-light transition-colors disabled:opacity-60"
+      >
+        {isSubmitting ? 'Signing in…' : 'Sign In'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,23 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+
+export default function AdminLogoutButton() {
+  const router = useRouter();
+
+  const handleLogout = async () => {
+    await fetch('/api/admin/session', { method: 'DELETE' }).catch(() => undefined);
+    router.replace('/admin/login');
+    router.refresh();
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleLogout}
+      className="text-sm text-gray-400 hover:text-gold transition-colors"
+    >
+      Sign out
+    </button>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface AdminWebhookReplayProps {
+  deliveryId: string;
+}
+
+export default function AdminWebhookReplay({ deliveryId }: AdminWebhookReplayProps) {
+  const router = useRouter();
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleReplay = async () => {
+    setIsReplaying(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/webhooks/${encodeURIComponent(deliveryId)}/replay`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        setError(result.message ?? 'Could not replay the delivery.');
+      }
+      router.refresh();
+    } catch {
+      setError('Could not reach the server.');
+    } finally {
+      setIsReplaying(false);
+    }
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={handleReplay}
+        disabled={isReplaying}
+        className="px-3 py-1 border border-gold text-gold rounded-lg text-xs font-semibold hover:bg-gold hover:text-black transition-colors disabled:opacity-60"
+      >
+        {isReplaying ? 'Replaying…' : 'Replay'}
+      </button>
+      {error && (
+        <p role="alert" className="mt-1 text-xs text-red-400">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useEffect, useState, DragEvent, ChangeEvent } from 'react';
+import {
+  ATTACHMENT_ACCEPT,
+  ATTACHMENT_KINDS,
+  ATTACHMENT_LIMITS,
+  checkAttachmentList,
+  formatBytes,
+  kindFromFileName,
+} from '@/lib/attachments/policy';
+
+interface AttachmentDropzoneProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  /** Error reported by the server for the submitted files */
+  error?: string;
+}
+
+function fileKey(file: File): string {
+  return `${file.name}-${file.size}-${file.lastModified}`;
+}
+
+/**
+ * Thumbnail for a selected file: images and PDFs render inline,
+ * drawings show a labelled tile since browsers cannot display DWG.
+ */
+function AttachmentPreview({ file }: { file: File }) {
+  const kind = kindFromFileName(file.name);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (kind === 'dwg') return;
+
+    // Data URLs need no cleanup, unlike object URLs that would have to be revoked
+    const reader = new FileReader();
+    reader.onload = () => setUrl(typeof reader.result === 'string' ? reader.result : null);
+    reader.readAsDataURL(file);
+    return () => reader.abort();
+  }, [file, kind]);
+
+  if (url && (kind === 'jpg' || kind === 'png')) {
+    // eslint-disable-next-line @next/next/no-img-element -- local data URL, nothing to optimize
+    return <img src={url} alt="" className="w-full h-full object-cover" />;
+  }
+
+  if (url && kind === 'pdf') {
+    return (
+      <object
+        data={`${url}#toolbar=0&navpanes=0&view=FitH`}
+        type="application/pdf"
+        aria-hidden="true"
+        className="w-full h-full pointer-events-none bg-white"
+      />
+    );
+  }
+
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center text-gold">
+      <svg
+        className="w-8 h-8"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+        aria-hidden="true"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={1.5}
+          d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2"
+        />
+      </svg>
+      <span className="mt-1 text-xs font-semibold">
+        {kind ? ATTACHMENT_KINDS[kind].label : 'FILE'}
+      </span>
+    </div>
+  );
+}
+
+export default function AttachmentDropzone({ files, onChange, error }: AttachmentDropzoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [selectionError, setSelectionError] = useState<string | null>(null);
+
+  const addFiles = (added: File[]) => {
+    // Ignore files that are already selected, e.g. dropped twice
+    const fresh = added.filter(
+      (file) => !files.some((existing) => fileKey(existing) === fileKey(file))
+    );
+    if (fresh.length === 0) return;
+
+    const next = [...files, ...fresh];
+    const problem = checkAttachmentList(next);
+    setSelectionError(problem);
+    if (!problem) {
+      onChange(next);
+    }
+  };
+
+  const removeFile = (index: number) => {
+    setSelectionError(null);
+    onChange(files.filter((_, i) => i !== index));
+  };
+
+  const handleDrop = (e: DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleInputChange = (e: ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  const message = selectionError ?? error;
+
+  return (
+    <div>
+      <span className="block text-sm font-medium text-gray-300 mb-2">Site Plans &amp; Photos</span>
+      <label
+        htmlFor="attachments"
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center px-4 py-6 border-2 border-dashed rounded-lg cursor-pointer transition-all duration-300 ${
+          message
+            ? 'border-red-500'
+            : isDragging
+              ? 'border-gold bg-gold/10 shadow-lg shadow-gold/20'
+              : 'border-gray-700 hover:border-gold'
+        }`}
+      >
+        <span className="text-sm text-gray-300">
+          Drag files here or <span className="text-gold underline">browse</span>
+        </span>
+        <span className="mt-1 text-xs text-gray-500">
+          PDF, JPG, PNG or DWG, up to {ATTACHMENT_LIMITS.maxFiles} files of{' '}
+          {formatBytes(ATTACHMENT_LIMITS.maxFileBytes)} each
+        </span>
+        <input
+          type="file"
+          id="attachments"
+          name="attachments"
+          multiple
+          accept={ATTACHMENT_ACCEPT}
+          onChange={handleInputChange}
+          className="sr-only"
+        />
+      </label>
+
+      {files.length > 0 && (
+        <ul className="mt-3 grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {files.map((file, index) => (
+            <li
+              key={fileKey(file)}
+              className="relative rounded-lg border border-gray-700 bg-gray-900 overflow-hidden"
+            >
+              <div className="h-24 overflow-hidden">
+                <AttachmentPreview file={file} />
+              </div>
+              <div className="px-2 py-1">
+                <p className="text-xs text-gray-300 truncate" title={file.name}>
+                  {file.name}
+                </p>
+                <p className="text-xs text-gray-500">{formatBytes(file.size)}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => removeFile(index)}
+                aria-label={`Remove ${file.name}`}
+                className="absolute top-1 right-1 w-6 h-6 rounded-full bg-black/70 text-gray-300 hover:text-gold"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {message && <p className="mt-2 text-sm text-red-500 animate-shake">{message}</p>}
+    </div>
+  );
+}
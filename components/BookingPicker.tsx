@@ -0,0 +1,508 @@
+'use client';
+
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  FormEvent,
+  ChangeEvent,
+  ReactNode,
+} from 'react';
+import ConsentCheckbox from './ConsentCheckbox';
+import Confetti from './Confetti';
+import { useFormChallenge } from '@/hooks/useFormChallenge';
+import { PROJECT_TYPES } from '@/lib/contact';
+import { formatSlot, zonedDate } from '@/lib/bookings/availability';
+import { fetchBookingSlots, submitBooking } from '@/lib/bookings/client';
+import { clientLogger } from '@/lib/logging/client';
+import { formatPhoneInput } from '@/lib/phone/format';
+import { CONSENT_VERSION } from '@/lib/privacy/consent';
+import {
+  BOOKING_KINDS,
+  BOOKING_KIND_LABELS,
+  bookingRequestSchema,
+  type BookingConfirmation,
+  type BookingField,
+  type BookingKind,
+  type BookingSlotsResponse,
+} from '@/lib/bookings/contract';
+
+type BookingFormState = {
+  kind: BookingKind;
+  name: string;
+  email: string;
+  phone: string;
+  projectType: string;
+  siteAddress: string;
+  notes: string;
+};
+
+type BookingErrors = Partial<Record<BookingField | 'submit', string>>;
+
+type SlotsState =
+  | { status: 'loading' }
+  | { status: 'error' }
+  | { status: 'ready'; data: BookingSlotsResponse };
+
+const INITIAL_FORM: BookingFormState = {
+  kind: 'site-visit',
+  name: '',
+  email: '',
+  phone: '',
+  projectType: 'Construction Consulting',
+  siteAddress: '',
+  notes: '',
+};
+
+function inputClassName(hasError: boolean): string {
+  return `w-full px-4 py-3 bg-gray-900 border rounded-lg focus:outline-none transition-all duration-300 ${
+    hasError
+      ? 'border-red-500 focus:border-red-500'
+      : 'border-gray-700 focus:border-gold focus:shadow-lg focus:shadow-gold/20'
+  }`;
+}
+
+function Field({
+  id,
+  label,
+  error,
+  children,
+}: {
+  id: string;
+  label: string;
+  error?: string;
+  children: ReactNode;
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-300 mb-2">
+        {label}
+      </label>
+      {children}
+      {error && <p className="mt-2 text-sm text-red-500 animate-shake">{error}</p>}
+    </div>
+  );
+}
+
+function formatDay(date: string, timeZone: string): string {
+  // Noon keeps the label on the right day whatever the zone offset
+  return new Intl.DateTimeFormat('en-IN', {
+    timeZone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+  }).format(new Date(`${date}T12:00:00Z`));
+}
+
+function formatTime(start: string, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-IN', {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(new Date(start));
+}
+
+/**
+ * Book a site visit or consultation: pick a day and an open slot, leave
+ * contact details, and download a calendar invite once it is confirmed.
+ * Slots are shown in the office time zone, which is named beside them.
+ */
+export default function BookingPicker() {
+  const [slots, setSlots] = useState<SlotsState>({ status: 'loading' });
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
+  const [form, setForm] = useState<BookingFormState>(INITIAL_FORM);
+  const [consented, setConsented] = useState(false);
+  const [errors, setErrors] = useState<BookingErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [confirmation, setConfirmation] = useState<BookingConfirmation | null>(null);
+  const [honeypot, setHoneypot] = useState('');
+  const challenge = useFormChallenge();
+
+  const loadSlots = useCallback(() => {
+    fetchBookingSlots()
+      .then((data) => setSlots({ status: 'ready', data }))
+      .catch((error) => {
+        clientLogger.error('Loading booking slots failed', { error });
+        setSlots({ status: 'error' });
+      });
+  }, []);
+
+  useEffect(() => {
+    loadSlots();
+  }, [loadSlots]);
+
+  // Slots grouped by their day in the office time zone
+  const days = useMemo(() => {
+    if (slots.status !== 'ready') return new Map<string, string[]>();
+
+    const grouped = new Map<string, string[]>();
+    for (const slot of slots.data.slots) {
+      const date = zonedDate(Date.parse(slot.start), slots.data.timeZone);
+      grouped.set(date, [...(grouped.get(date) ?? []), slot.start]);
+    }
+    return grouped;
+  }, [slots]);
+
+  const activeDate =
+    selectedDate && days.has(selectedDate) ? selectedDate : (days.keys().next().value ?? null);
+  const timeZone = slots.status === 'ready' ? slots.data.timeZone : 'UTC';
+
+  const clearError = (key: keyof BookingErrors) => {
+    if (errors[key]) {
+      setErrors((prev) => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+    }
+  };
+
+  const handleChange = (
+    e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => {
+    const name = e.target.name as keyof BookingFormState;
+    const value = name === 'phone' ? formatPhoneInput(e.target.value) : e.target.value;
+    setForm((prev) => ({ ...prev, [name]: value }));
+    clearError(name);
+  };
+
+  const handleSelectSlot = (start: string) => {
+    setSelectedSlot(start);
+    clearError('slotStart');
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const parsed = bookingRequestSchema.safeParse({
+      ...form,
+      slotStart: selectedSlot ?? '',
+      consentVersion: consented ? CONSENT_VERSION : undefined,
+    });
+    if (!parsed.success) {
+      const fieldErrors: BookingErrors = {};
+      for (const issue of parsed.error.issues) {
+        const field = issue.path[0] as BookingField;
+        if (!(field in fieldErrors)) fieldErrors[field] = issue.message;
+      }
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrors({});
+
+    try {
+      const proof = await challenge.getProof();
+      const result = await submitBooking(parsed.data, {
+        ...proof,
+        website: honeypot || undefined,
+      });
+
+      if (!result.ok) {
+        setErrors({ ...result.fieldErrors, submit: result.message });
+        if (result.status === 409) {
+          // Someone else took the slot; show what is still open
+          setSelectedSlot(null);
+          setSlots({ status: 'loading' });
+          loadSlots();
+        }
+        return;
+      }
+
+      challenge.reset();
+      setConfirmation(result.booking);
+    } catch (error) {
+      clientLogger.error('Booking submission failed', { error });
+      setErrors({ submit: 'Network error. Please check your connection and try again.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleBookAnother = () => {
+    setConfirmation(null);
+    setSelectedSlot(null);
+    setForm(INITIAL_FORM);
+    setConsented(false);
+    setSlots({ status: 'loading' });
+    loadSlots();
+  };
+
+  if (confirmation) {
+    return (
+      <div className="relative">
+        <Confetti />
+        <div className="p-6 bg-green-900/50 border border-green-500 rounded-lg text-green-300 animate-celebrate">
+          <div className="flex items-center gap-3">
+            <div className="text-3xl animate-pulse-success">📅</div>
+            <div>
+              <p className="font-semibold text-lg">
+                ✓ {BOOKING_KIND_LABELS[confirmation.kind]} booked!
+              </p>
+              <p className="text-sm mt-1">
+                {formatSlot(confirmation.start, confirmation.timeZone)}
+              </p>
+            </div>
+          </div>
+        </div>
+        <div className="mt-4 flex flex-wrap items-center gap-4">
+          <a
+            href={confirmation.icsUrl}
+            download
+            className="py-3 px-6 rounded-lg font-bold bg-gold text-black hover:bg-gold-light transition-all duration-300"
+          >
+            Add to calendar (.ics)
+          </a>
+          <button
+            type="button"
+            onClick={handleBookAnother}
+            className="text-sm text-gold hover:underline"
+          >
+            Book another visit
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onFocus={challenge.start}
+      className="relative space-y-6"
+      noValidate
+    >
+      {/* Visit type */}
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-300 mb-2">Visit Type *</legend>
+        <div className="grid grid-cols-2 gap-2">
+          {BOOKING_KINDS.map((kind) => (
+            <label
+              key={kind}
+              className={`cursor-pointer py-3 rounded-lg border text-center text-sm font-semibold transition-all duration-300 ${
+                form.kind === kind
+                  ? 'border-gold bg-gold/10 text-gold'
+                  : 'border-gray-700 text-gray-400 hover:border-gold'
+              }`}
+            >
+              <input
+                type="radio"
+                name="kind"
+                value={kind}
+                checked={form.kind === kind}
+                onChange={handleChange}
+                className="sr-only"
+              />
+              {BOOKING_KIND_LABELS[kind]}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      {/* Slot picker */}
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-300 mb-2">
+          Date &amp; Time *
+          {slots.status === 'ready' && (
+            <span className="ml-2 text-xs text-gray-500">Times in {timeZone}</span>
+          )}
+        </legend>
+
+        {slots.status === 'loading' && (
+          <div
+            className="h-32 rounded-lg bg-gray-800/50 animate-pulse"
+            aria-label="Loading times"
+          />
+        )}
+        {slots.status === 'error' && (
+          <p className="text-sm text-gray-400">
+            We could not load available times.{' '}
+            <button
+              type="button"
+              onClick={() => {
+                setSlots({ status: 'loading' });
+                loadSlots();
+              }}
+              className="text-gold hover:underline"
+            >
+              Retry
+            </button>
+          </p>
+        )}
+        {slots.status === 'ready' && days.size === 0 && (
+          <p className="text-sm text-gray-400">
+            No times are open right now. Please send us a message instead.
+          </p>
+        )}
+        {slots.status === 'ready' && activeDate && (
+          <>
+            <div className="flex gap-2 overflow-x-auto pb-2" role="group" aria-label="Day">
+              {Array.from(days.keys()).map((date) => (
+                <button
+                  key={date}
+                  type="button"
+                  aria-pressed={date === activeDate}
+                  onClick={() => setSelectedDate(date)}
+                  className={`shrink-0 py-2 px-3 rounded-lg border text-sm transition-all duration-300 ${
+                    date === activeDate
+                      ? 'border-gold bg-gold text-black font-semibold'
+                      : 'border-gray-700 text-gray-300 hover:border-gold'
+                  }`}
+                >
+                  {formatDay(date, timeZone)}
+                </button>
+              ))}
+            </div>
+            <div
+              className="mt-3 grid grid-cols-3 sm:grid-cols-4 gap-2"
+              role="group"
+              aria-label="Time"
+            >
+              {(days.get(activeDate) ?? []).map((start) => (
+                <button
+                  key={start}
+                  type="button"
+                  aria-pressed={start === selectedSlot}
+                  onClick={() => handleSelectSlot(start)}
+                  className={`py-2 rounded-lg border text-sm transition-all duration-300 ${
+                    start === selectedSlot
+                      ? 'border-gold bg-gold/10 text-gold font-semibold'
+                      : 'border-gray-700 text-gray-300 hover:border-gold'
+                  }`}
+                >
+                  {formatTime(start, timeZone)}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+        {errors.slotStart && (
+          <p className="mt-2 text-sm text-red-500 animate-shake">{errors.slotStart}</p>
+        )}
+      </fieldset>
+
+      <Field id="booking-name" label="Full Name *" error={errors.name}>
+        <input
+          type="text"
+          id="booking-name"
+          name="name"
+          autoComplete="name"
+          value={form.name}
+          onChange={handleChange}
+          className={inputClassName(!!errors.name)}
+          placeholder="John Doe"
+        />
+      </Field>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <Field id="booking-email" label="Email Address *" error={errors.email}>
+          <input
+            type="email"
+            id="booking-email"
+            name="email"
+            autoComplete="email"
+            value={form.email}
+            onChange={handleChange}
+            className={inputClassName(!!errors.email)}
+            placeholder="john@example.com"
+          />
+        </Field>
+        <Field id="booking-phone" label="Phone Number" error={errors.phone}>
+          <input
+            type="tel"
+            id="booking-phone"
+            name="phone"
+            autoComplete="tel"
+            value={form.phone}
+            onChange={handleChange}
+            className={inputClassName(!!errors.phone)}
+            placeholder="98450 12345"
+          />
+        </Field>
+      </div>
+      <Field id="booking-projectType" label="Project Type *" error={errors.projectType}>
+        <select
+          id="booking-projectType"
+          name="projectType"
+          value={form.projectType}
+          onChange={handleChange}
+          className={inputClassName(!!errors.projectType)}
+        >
+          {PROJECT_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+      </Field>
+      {form.kind === 'site-visit' && (
+        <Field id="booking-siteAddress" label="Site Address *" error={errors.siteAddress}>
+          <input
+            type="text"
+            id="booking-siteAddress"
+            name="siteAddress"
+            autoComplete="street-address"
+            value={form.siteAddress}
+            onChange={handleChange}
+            className={inputClassName(!!errors.siteAddress)}
+            placeholder="Plot 12, Sector 4, ..."
+          />
+        </Field>
+      )}
+      <Field id="booking-notes" label="Anything we should prepare?" error={errors.notes}>
+        <textarea
+          id="booking-notes"
+          name="notes"
+          rows={3}
+          value={form.notes}
+          onChange={handleChange}
+          className={`${inputClassName(!!errors.notes)} resize-none`}
+        />
+      </Field>
+      <ConsentCheckbox
+        id="booking-consent"
+        checked={consented}
+        onChange={(checked) => {
+          setConsented(checked);
+          clearError('consentVersion');
+        }}
+        error={errors.consentVersion}
+      />
+
+      {errors.submit && (
+        <div className="p-4 bg-red-900/50 border border-red-500 rounded-lg text-red-300 animate-shake">
+          <p className="font-semibold">✗ Your booking could not be made</p>
+          <p className="text-sm mt-1">{errors.submit}</p>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className={`w-full py-4 px-8 rounded-lg font-bold text-lg transition-all duration-300 ${
+          isSubmitting
+            ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+            : 'bg-gold text-black hover:bg-gold-light hover:shadow-2xl hover:shadow-gold/50'
+        }`}
+      >
+        {isSubmitting ? 'Booking...' : `Book ${BOOKING_KIND_LABELS[form.kind]}`}
+      </button>
+
+      {/* Honeypot: off-screen and out of the tab order, so only bots fill it in */}
+      <div className="absolute -left-[10000px] w-px h-px overflow-hidden" aria-hidden="true">
+        <label htmlFor="booking-website">Website</label>
+        <input
+          type="text"
+          id="booking-website"
+          name="website"
+          tabIndex={-1}
+          autoComplete="off"
+          value={honeypot}
+          onChange={(e) => setHoneypot(e.target.value)}
+        />
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,45 @@
+import Link from 'next/link';
+import { CONSENT_NOTICES, CONSENT_VERSION } from '@/lib/privacy/consent';
+
+interface ConsentCheckboxProps {
+  id: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  error?: string;
+}
+
+/**
+ * Required agreement to the current consent notice. Starts unticked: consent
+ * only counts when the visitor gives it themselves.
+ */
+export default function ConsentCheckbox({ id, checked, onChange, error }: ConsentCheckboxProps) {
+  return (
+    <div>
+      <div className="flex items-start gap-3">
+        <input
+          type="checkbox"
+          id={id}
+          name="consent"
+          checked={checked}
+          onChange={(e) => onChange(e.target.checked)}
+          aria-invalid={error ? true : undefined}
+          aria-describedby={error ? `${id}-error` : undefined}
+          className="mt-1 h-4 w-4 shrink-0 accent-gold"
+        />
+        <label htmlFor={id} className="text-sm text-gray-300">
+          {CONSENT_NOTICES[CONSENT_VERSION]} *
+        </label>
+      </div>
+      <p className="mt-1 ml-7 text-xs text-gray-500">
+        <Link href="/privacy" className="underline hover:text-gold">
+          How we use your data
+        </Link>
+      </p>
+      {error && (
+        <p id={`${id}-error`} className="mt-2 text-sm text-red-500 animate-shake">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
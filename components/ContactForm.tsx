@@ -1,36 +1,33 @@
 'use client';
 
-import { useState, FormEvent, ChangeEvent } from 'react';
-import { z } from 'zod';
+import { useCallback, useEffect, useState, FormEvent, ChangeEvent } from 'react';
 import Confetti from './Confetti';
+import AttachmentDropzone from './AttachmentDropzone';
+import ConsentCheckbox from './ConsentCheckbox';
+import { useContactSubmission } from '@/hooks/useContactSubmission';
+import { useInquiryPrefill } from '@/hooks/useInquiryPrefill';
+import { usePublicConfig } from '@/hooks/usePublicConfig';
+import {
+  BUDGET_RANGES,
+  PROJECT_TYPES,
+  contactSchema,
+  type ContactFormData,
+  type ContactTextField,
+} from '@/lib/contact';
+import { mergePrefillMessage, type InquiryPrefill } from '@/lib/estimator';
+import { formatPhoneInput } from '@/lib/phone/format';
+import { CONSENT_VERSION } from '@/lib/privacy/consent';
 
-// Stricter email validation regex
-// Requires: local-part @ domain . tld
-// - Local part: alphanumeric, dots, hyphens, underscores (must start/end with alphanumeric)
-// - Domain: alphanumeric and hyphens (must start/end with alphanumeric)
-// - TLD: at least 2 letters
-const EMAIL_REGEX = /^[a-zA-Z0-9]([a-zA-Z0-9._-]*[a-zA-Z0-9])?@[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?)*\.[a-zA-Z]{2,}$/;
-
-// Zod validation schema
-const contactSchema = z.object({
-  name: z.string().min(2, 'Name must be at least 2 characters').max(100, 'Name is too long'),
-  email: z.string()
-    .min(1, 'Email is required')
-    .regex(EMAIL_REGEX, 'Please enter a valid email address'),
-  phone: z.string().min(10, 'Phone number must be at least 10 digits').optional().or(z.literal('')),
-  projectType: z.string().min(1, 'Please select a project type'),
-  budget: z.string().optional(),
-  message: z.string().min(10, 'Message must be at least 10 characters').max(1000, 'Message is too long'),
-});
-
-type ContactFormData = z.infer<typeof contactSchema>;
+// Raw input values; selects start empty until the user picks an option
+type ContactFormState = Record<ContactTextField, string>;
 
 interface FormErrors {
   [key: string]: string;
 }
 
 export default function ContactForm() {
-  const [formData, setFormData] = useState<ContactFormData>({
+  const { features } = usePublicConfig();
+  const [formData, setFormData] = useState<ContactFormState>({
     name: '',
     email: '',
     phone: '',
@@ -39,14 +36,59 @@ export default function ContactForm() {
     message: '',
   });
 
-  const [errors, setErrors] = useState<FormErrors>({});
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [focusedField, setFocusedField] = useState<string | null>(null);
-  const [showConfetti, setShowConfetti] = useState(false);
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [consented, setConsented] = useState(false);
+
+  const clearForm = useCallback(() => {
+    setFormData({
+      name: '',
+      email: '',
+      phone: '',
+      projectType: '',
+      budget: '',
+      message: '',
+    });
+    setAttachments([]);
+    setConsented(false);
+  }, []);
+
+  const {
+    errors,
+    setErrors,
+    isSubmitting,
+    submitStatus,
+    setSubmitStatus,
+    submissionId,
+    honeypot,
+    setHoneypot,
+    startChallenge,
+    submit,
+  } = useContactSubmission(clearForm);
+
+  // Reset the success or error message, and the confetti, after 5 seconds
+  useEffect(() => {
+    if (submitStatus !== 'success' && submitStatus !== 'error') return;
+    const timer = setTimeout(() => setSubmitStatus('idle'), 5000);
+    return () => clearTimeout(timer);
+  }, [submitStatus, setSubmitStatus]);
+
+  // Take over project type, budget and a summary from the cost estimator
+  useInquiryPrefill(
+    useCallback((prefill: InquiryPrefill) => {
+      setFormData((prev) => ({
+        ...prev,
+        projectType: prefill.projectType,
+        budget: prefill.budget,
+        message: mergePrefillMessage(prev.message, prefill.message),
+      }));
+      setErrors({});
+    }, [setErrors])
+  );
 
   const handleChange = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
-    const { name, value } = e.target;
+    const { name } = e.target;
+    const value = name === 'phone' ? formatPhoneInput(e.target.value) : e.target.value;
     setFormData((prev) => ({ ...prev, [name]: value }));
     
     // Clear error for this field when user starts typing
@@ -59,114 +101,42 @@ export default function ContactForm() {
     }
   };
 
-  const validateForm = (): boolean => {
-    try {
-      contactSchema.parse(formData);
+  const validateForm = (): ContactFormData | null => {
+    const result = contactSchema.safeParse({
+      ...formData,
+      consentVersion: consented ? CONSENT_VERSION : undefined,
+    });
+    if (result.success) {
       setErrors({});
-      return true;
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        const newErrors: FormErrors = {};
-        error.issues.forEach((issue) => {
-          if (issue.path[0]) {
-            newErrors[issue.path[0] as string] = issue.message;
-          }
-        });
-        setErrors(newErrors);
-      }
-      return false;
+      return result.data;
     }
+
+    const newErrors: FormErrors = {};
+    result.error.issues.forEach((issue) => {
+      if (issue.path[0]) {
+        newErrors[issue.path[0] as string] = issue.message;
+      }
+    });
+    setErrors(newErrors);
+    return null;
   };
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     
-    if (!validateForm()) {
+    const validData = validateForm();
+    if (!validData) {
       return;
     }
 
-    setIsSubmitting(true);
-    setSubmitStatus('idle');
-
-    try {
-      const response = await fetch('/api/contact', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(formData),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        // Handle specific error cases
-        if (response.status === 429) {
-          // Rate limit exceeded
-          setErrors({ submit: data.message || 'Too many submissions. Please try again later.' });
-        } else if (response.status === 400) {
-          // Validation error
-          setErrors({ submit: data.message || 'Please check your input and try again.' });
-        } else {
-          // Server error
-          setErrors({ submit: data.message || 'Something went wrong. Please try again.' });
-        }
-        setSubmitStatus('error');
-        setTimeout(() => setSubmitStatus('idle'), 5000);
-        return;
-      }
-
-      // Success
-      setSubmitStatus('success');
-      setShowConfetti(true);
-      setFormData({
-        name: '',
-        email: '',
-        phone: '',
-        projectType: '',
-        budget: '',
-        message: '',
-      });
-      
-      // Reset success message and confetti after 5 seconds
-      setTimeout(() => {
-        setSubmitStatus('idle');
-        setShowConfetti(false);
-      }, 5000);
-    } catch (error) {
-      console.error('Form submission error:', error);
-      setErrors({ submit: 'Network error. Please check your connection and try again.' });
-      setSubmitStatus('error');
-      setTimeout(() => setSubmitStatus('idle'), 5000);
-    } finally {
-      setIsSubmitting(false);
-    }
+    await submit(validData, attachments);
   };
 
-  const projectTypes = [
-    'Residential Construction',
-    'Commercial Project',
-    'Industrial Facility',
-    'Renovation & Remodeling',
-    'Infrastructure Development',
-    'Construction Consulting',
-    'Other',
-  ];
-
-  const budgetRanges = [
-    'Under $50,000',
-    '$50,000 - $100,000',
-    '$100,000 - $250,000',
-    '$250,000 - $500,000',
-    '$500,000 - $1,000,000',
-    'Over $1,000,000',
-    'Not Sure',
-  ];
-
   return (
-    <form onSubmit={handleSubmit} className="space-y-6">
+    <form onSubmit={handleSubmit} onFocus={startChallenge} className="relative space-y-6">
       {/* Confetti Animation on Success */}
-      {showConfetti && <Confetti />}
+      {submitStatus === 'success' && <Confetti />}
+
       
       {/* Name Field */}
       <div>
@@ -238,7 +208,7 @@ export default function ContactForm() {
               ? 'border-gold focus:border-gold shadow-lg shadow-gold/20 animate-input-focus'
               : 'border-gray-700 focus:border-gold'
           }`}
-          placeholder="+1 (555) 123-4567"
+          placeholder="98450 12345"
         />
         {errors.phone && <p className="mt-2 text-sm text-red-500 animate-shake">{errors.phone}</p>}
       </div>
@@ -264,7 +234,7 @@ export default function ContactForm() {
           }`}
         >
           <option value="">Select a project type</option>
-          {projectTypes.map((type) => (
+          {PROJECT_TYPES.map((type) => (
             <option key={type} value={type}>
               {type}
             </option>
@@ -286,18 +256,21 @@ export default function ContactForm() {
           onFocus={() => setFocusedField('budget')}
           onBlur={() => setFocusedField(null)}
           className={`w-full px-4 py-3 bg-gray-900 border rounded-lg focus:outline-none transition-all duration-300 ${
-            focusedField === 'budget'
+            errors.budget
+              ? 'border-red-500 focus:border-red-500'
+              : focusedField === 'budget'
               ? 'border-gold focus:border-gold shadow-lg shadow-gold/20 animate-input-focus'
               : 'border-gray-700 focus:border-gold'
           }`}
         >
           <option value="">Select a budget range</option>
-          {budgetRanges.map((range) => (
+          {BUDGET_RANGES.map((range) => (
             <option key={range} value={range}>
               {range}
             </option>
           ))}
         </select>
+        {errors.budget && <p className="mt-2 text-sm text-red-500 animate-shake">{errors.budget}</p>}
       </div>
 
       {/* Message Field */}
@@ -325,6 +298,41 @@ export default function ContactForm() {
         {errors.message && <p className="mt-2 text-sm text-red-500 animate-shake">{errors.message}</p>}
       </div>
 
+      {/* Attachments */}
+      {features.attachments && (
+        <AttachmentDropzone
+          files={attachments}
+          onChange={(files) => {
+            setAttachments(files);
+            if (errors.attachments) {
+              setErrors((prev) => {
+                const newErrors = { ...prev };
+                delete newErrors.attachments;
+                return newErrors;
+              });
+            }
+          }}
+          error={errors.attachments}
+        />
+      )}
+
+      {/* Consent */}
+      <ConsentCheckbox
+        id="consent"
+        checked={consented}
+        onChange={(checked) => {
+          setConsented(checked);
+          if (errors.consentVersion) {
+            setErrors((prev) => {
+              const newErrors = { ...prev };
+              delete newErrors.consentVersion;
+              return newErrors;
+            });
+          }
+        }}
+        error={errors.consentVersion}
+      />
+
       {/* Submit Button */}
       <button
         type="submit"
@@ -368,17 +376,55 @@ export default function ContactForm() {
             <div>
               <p className="font-semibold text-lg">✓ Message sent successfully!</p>
               <p className="text-sm mt-1">We'll get back to you within 24 hours.</p>
+              {submissionId && (
+                <p className="text-sm mt-1">
+                  Reference:{' '}
+                  <a
+                    href={`/track?id=${encodeURIComponent(submissionId)}`}
+                    className="font-mono underline hover:text-gold"
+                  >
+                    {submissionId}
+                  </a>
+                </p>
+              )}
             </div>
           </div>
         </div>
       )}
 
+      {submitStatus === 'queued' && (
+        <div
+          role="status"
+          className="p-4 bg-gray-900 border border-gold rounded-lg text-gray-300 animate-fade-in"
+        >
+          <p className="font-semibold text-gold">Queued, will send when online</p>
+          <p className="text-sm mt-1">
+            You seem to be offline. Your message is saved on this device and will be sent
+            automatically once you are back online.
+          </p>
+        </div>
+      )}
+
       {submitStatus === 'error' && (
         <div className="p-4 bg-red-900/50 border border-red-500 rounded-lg text-red-300 animate-shake">
           <p className="font-semibold">✗ Something went wrong</p>
           <p className="text-sm mt-1">{errors.submit || 'Please try again or contact us directly.'}</p>
         </div>
       )}
+
+      {/* Honeypot: off-screen and out of the tab order, so only bots fill it in */}
+      <div className="absolute -left-[10000px] w-px h-px overflow-hidden" aria-hidden="true">
+        <label htmlFor="website">Website</label>
+        <input
+          type="text"
+          id="website"
+          name="website"
+          tabIndex={-1}
+          autoComplete="off"
+          value={honeypot}
+          onChange={(e) => setHoneypot(e.target.value)}
+        />
+      </div>
     </form>
   );
 }
@@ -1,13 +1,35 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
+import dynamic from 'next/dynamic';
 import ContactForm from './ContactForm';
+import BookingPicker from './BookingPicker';
 import GeometricPattern from './GeometricPattern';
+import { useServiceWorker } from '@/hooks/useOfflineQueue';
+import { usePublicConfig } from '@/hooks/usePublicConfig';
 import { getContainerPaddingClasses, getSectionSpacingClasses } from '@/lib/breakpoints';
+import { phoneHref } from '@/lib/config/public';
+
+// Client-only so the wizard can restore its saved draft from localStorage on first render
+const InquiryWizard = dynamic(() => import('./InquiryWizard'), {
+  ssr: false,
+  loading: () => <div className="h-96 rounded-lg bg-gray-800/50 animate-pulse" />,
+});
+
+const FORM_TABS = [
+  { id: 'inquiry', label: 'Project Inquiry' },
+  { id: 'message', label: 'Quick Message' },
+  { id: 'booking', label: 'Book a Visit' },
+] as const;
 
 export default function ContactSection() {
   const [isVisible, setIsVisible] = useState(false);
+  const [formTab, setFormTab] = useState<(typeof FORM_TABS)[number]['id']>('inquiry');
   const sectionRef = useRef<HTMLElement>(null);
+  const { company, features } = usePublicConfig();
+  const formTabs = FORM_TABS.filter((tab) => tab.id !== 'booking' || features.bookings);
+  // Registered here rather than in one form, so every tab can queue while offline
+  useServiceWorker();
 
   useEffect(() => {
     const observer = new IntersectionObserver(
@@ -32,19 +54,19 @@ export default function ContactSection() {
     {
       icon: '📧',
       title: 'Email',
-      value: 'info@sbinfraprojects.com',
-      link: 'mailto:info@sbinfraprojects.com',
+      value: company.email,
+      link: `mailto:${company.email}`,
     },
     {
       icon: '📞',
       title: 'Phone',
-      value: '+1 (555) 123-4567',
-      link: 'tel:+15551234567',
+      value: company.phone,
+      link: phoneHref(company.phone),
     },
     {
       icon: '📍',
       title: 'Address',
-      value: '123 Construction Ave, Building City, BC 12345',
+      value: company.address,
       link: null,
     },
   ];
@@ -154,7 +176,25 @@ export default function ContactSection() {
           >
             <div className="bg-gray-900 p-6 sm:p-8 rounded-2xl border border-gray-800 shadow-2xl">
               <h3 className="text-xl sm:text-2xl font-bold mb-4 md:mb-6">Send Us a Message</h3>
-              <ContactForm />
+              <div className="flex gap-2 mb-6 p-1 rounded-lg bg-black/40" role="tablist">
+                {formTabs.map((tab) => (
+                  <button
+                    key={tab.id}
+                    type="button"
+                    role="tab"
+                    aria-selected={formTab === tab.id}
+                    onClick={() => setFormTab(tab.id)}
+                    className={`flex-1 py-2 rounded-md text-sm font-semibold transition-all duration-300 ${
+                      formTab === tab.id ? 'bg-gold text-black' : 'text-gray-400 hover:text-gold'
+                    }`}
+                  >
+                    {tab.label}
+                  </button>
+                ))}
+              </div>
+              {formTab === 'inquiry' && <InquiryWizard />}
+              {formTab === 'message' && <ContactForm />}
+              {formTab === 'booking' && features.bookings && <BookingPicker />}
             </div>
           </div>
         </div>
@@ -167,8 +207,8 @@ export default function ContactSection() {
         >
           <p className="text-sm sm:text-base text-gray-400 mb-4">
             Prefer to talk? Give us a call at{' '}
-            <a href="tel:+15551234567" className="text-gold hover:underline font-semibold">
-              +1 (555) 123-4567
+            <a href={phoneHref(company.phone)} className="text-gold hover:underline font-semibold">
+              {company.phone}
             </a>
           </p>
           <p className="text-xs sm:text-sm text-gray-500">
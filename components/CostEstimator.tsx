@@ -0,0 +1,281 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState, ChangeEvent, ReactNode } from 'react';
+import GeometricPattern from './GeometricPattern';
+import { BUILDING_PHASES } from '@/lib/constants';
+import { getContainerPaddingClasses, getSectionSpacingClasses } from '@/lib/breakpoints';
+import { smoothScrollTo } from '@/lib/utils';
+import {
+  CURRENT_RATE_TABLE,
+  ESTIMATE_CATEGORIES,
+  ESTIMATE_CITIES,
+  FINISH_TIERS,
+  estimateCost,
+  estimateInputSchema,
+  formatCost,
+  sendInquiryPrefill,
+  toInquiryPrefill,
+  type EstimateInput,
+} from '@/lib/estimator';
+
+// Raw input values, validated with the estimator schema on every change
+type EstimatorFormState = Record<keyof EstimateInput, string>;
+
+const INITIAL_FORM: EstimatorFormState = {
+  category: 'residential',
+  builtUpArea: '2400',
+  floors: '2',
+  finishTier: 'standard',
+  city: 'bengaluru',
+};
+
+const inputClassName = (hasError: boolean) =>
+  `w-full px-4 py-3 bg-gray-900 border rounded-lg focus:outline-none transition-all duration-300 ${
+    hasError
+      ? 'border-red-500 focus:border-red-500'
+      : 'border-gray-700 focus:border-gold focus:shadow-lg focus:shadow-gold/20'
+  }`;
+
+function Field({
+  id,
+  label,
+  error,
+  children,
+}: {
+  id: string;
+  label: string;
+  error?: string;
+  children: ReactNode;
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-semibold mb-2 text-gray-300">
+        {label}
+      </label>
+      {children}
+      {error && (
+        <p className="mt-2 text-sm text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function CostEstimator() {
+  const [isVisible, setIsVisible] = useState(false);
+  const [form, setForm] = useState<EstimatorFormState>(INITIAL_FORM);
+  const sectionRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          if (entry.isIntersecting) {
+            setIsVisible(true);
+          }
+        });
+      },
+      { threshold: 0.1 }
+    );
+
+    if (sectionRef.current) {
+      observer.observe(sectionRef.current);
+    }
+
+    return () => observer.disconnect();
+  }, []);
+
+  const parsed = useMemo(() => estimateInputSchema.safeParse(form), [form]);
+  const estimate = useMemo(() => (parsed.success ? estimateCost(parsed.data) : null), [parsed]);
+
+  const errors: Partial<Record<keyof EstimateInput, string>> = {};
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      const field = issue.path[0] as keyof EstimateInput;
+      if (!errors[field]) errors[field] = issue.message;
+    }
+  }
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleUseEstimate = () => {
+    if (!parsed.success || !estimate) return;
+    sendInquiryPrefill(toInquiryPrefill(parsed.data, estimate));
+    smoothScrollTo('contact');
+  };
+
+  return (
+    <section
+      ref={sectionRef}
+      id="estimator"
+      className={`bg-gradient-to-b from-black via-gray-950 to-black text-white relative overflow-hidden ${getSectionSpacingClasses()}`}
+    >
+      {/* Geometric Pattern */}
+      <GeometricPattern variant="grid" opacity={0.06} color="#D4AF37" />
+
+      <div className={`container mx-auto relative z-10 ${getContainerPaddingClasses()}`}>
+        {/* Section Header */}
+        <div className="text-center mb-12 md:mb-16">
+          <h2
+            className={`text-3xl sm:text-4xl md:text-5xl lg:text-6xl font-bold mb-4 md:mb-6 transition-all duration-1000 ${
+              isVisible ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-10'
+            }`}
+          >
+            Cost <span className="text-gold">Estimator</span>
+          </h2>
+          <p
+            className={`text-lg sm:text-xl text-gray-300 max-w-3xl mx-auto px-4 transition-all duration-1000 delay-200 ${
+              isVisible ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-10'
+            }`}
+          >
+            Get a ballpark figure for your build in seconds, then send it to us for a detailed quote
+          </p>
+        </div>
+
+        <div
+          className={`grid grid-cols-1 lg:grid-cols-2 gap-8 md:gap-12 max-w-6xl mx-auto transition-all duration-1000 delay-400 ${
+            isVisible ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-10'
+          }`}
+        >
+          {/* Inputs */}
+          <div className="bg-gray-900 p-6 sm:p-8 rounded-2xl border border-gray-800 shadow-2xl space-y-5">
+            <Field id="estimator-category" label="Project Category" error={errors.category}>
+              <select
+                id="estimator-category"
+                name="category"
+                value={form.category}
+                onChange={handleChange}
+                className={inputClassName(!!errors.category)}
+              >
+                {Object.entries(ESTIMATE_CATEGORIES).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </Field>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+              <Field id="estimator-area" label="Built-up Area (sq ft)" error={errors.builtUpArea}>
+                <input
+                  type="number"
+                  id="estimator-area"
+                  name="builtUpArea"
+                  inputMode="numeric"
+                  min={100}
+                  value={form.builtUpArea}
+                  onChange={handleChange}
+                  className={inputClassName(!!errors.builtUpArea)}
+                />
+              </Field>
+              <Field id="estimator-floors" label="Number of Floors" error={errors.floors}>
+                <input
+                  type="number"
+                  id="estimator-floors"
+                  name="floors"
+                  inputMode="numeric"
+                  min={1}
+                  value={form.floors}
+                  onChange={handleChange}
+                  className={inputClassName(!!errors.floors)}
+                />
+              </Field>
+            </div>
+
+            <Field id="estimator-finish" label="Finish Tier" error={errors.finishTier}>
+              <select
+                id="estimator-finish"
+                name="finishTier"
+                value={form.finishTier}
+                onChange={handleChange}
+                className={inputClassName(!!errors.finishTier)}
+              >
+                {Object.entries(FINISH_TIERS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </Field>
+
+            <Field id="estimator-city" label="City" error={errors.city}>
+              <select
+                id="estimator-city"
+                name="city"
+                value={form.city}
+                onChange={handleChange}
+                className={inputClassName(!!errors.city)}
+              >
+                {Object.entries(ESTIMATE_CITIES).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </Field>
+          </div>
+
+          {/* Result */}
+          <div
+            className="bg-gradient-to-br from-gray-900 to-black p-6 sm:p-8 rounded-2xl border border-gray-800"
+            aria-live="polite"
+          >
+            {estimate ? (
+              <>
+                <p className="text-sm font-semibold text-gray-400 mb-2">Estimated cost</p>
+                <p className="text-3xl sm:text-4xl font-bold text-gold mb-2">
+                  {formatCost(estimate.low, estimate.currency, true)} –{' '}
+                  {formatCost(estimate.high, estimate.currency, true)}
+                </p>
+                <p className="text-gray-300 mb-6">
+                  Most likely {formatCost(estimate.likely, estimate.currency)} (about{' '}
+                  {formatCost(estimate.ratePerSqFt, estimate.currency)} per sq ft)
+                </p>
+
+                <h3 className="text-lg font-bold mb-3">Breakdown by phase</h3>
+                <ul className="space-y-3 mb-6">
+                  {estimate.breakdown.map((phase) => (
+                    <li
+                      key={phase.phaseId}
+                      className="flex items-center justify-between gap-4 text-sm sm:text-base"
+                    >
+                      <span className="text-gray-300">
+                        <span aria-hidden="true" className="mr-2">
+                          {BUILDING_PHASES.find(({ id }) => id === phase.phaseId)?.icon}
+                        </span>
+                        {phase.title}
+                      </span>
+                      <span className="font-semibold text-right">
+                        {formatCost(phase.low, estimate.currency, true)} –{' '}
+                        {formatCost(phase.high, estimate.currency, true)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+
+                <button
+                  type="button"
+                  onClick={handleUseEstimate}
+                  className="w-full py-4 px-6 rounded-lg font-bold text-lg bg-gold text-black hover:bg-gold-light hover:shadow-lg hover:shadow-gold/50 transition-all duration-300"
+                >
+                  Use this estimate in my inquiry
+                </button>
+                <p className="mt-4 text-xs text-gray-500">
+                  Indicative only, based on rate table {estimate.rateTableVersion} effective{' '}
+                  {CURRENT_RATE_TABLE.effectiveFrom}. Site conditions, design and material choices
+                  change the final quote.
+                </p>
+              </>
+            ) : (
+              <p className="text-gray-400">Fix the highlighted fields to see an estimate.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
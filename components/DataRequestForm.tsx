@@ -0,0 +1,274 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { clientLogger } from '@/lib/logging/client';
+import { confirmDataErasure, confirmDataExport, startDataRequest } from '@/lib/privacy/client';
+import {
+  DATA_REQUEST_LABELS,
+  DATA_REQUEST_PURPOSES,
+  dataRequestConfirmationSchema,
+  dataRequestSchema,
+  type DataRequestPurpose,
+  type SubjectDataExport,
+} from '@/lib/privacy/contract';
+
+type RequestErrors = Partial<Record<'email' | 'purpose' | 'code' | 'request', string>>;
+
+type Stage =
+  | { step: 'request' }
+  | { step: 'confirm'; token: string; message: string }
+  | { step: 'exported'; data: SubjectDataExport }
+  | { step: 'erased'; message: string };
+
+function inputClassName(hasError: boolean): string {
+  return `w-full px-4 py-3 bg-gray-900 border rounded-lg focus:outline-none transition-all duration-300 ${
+    hasError
+      ? 'border-red-500 focus:border-red-500'
+      : 'border-gray-700 focus:border-gold focus:shadow-lg focus:shadow-gold/20'
+  }`;
+}
+
+function downloadExport(data: SubjectDataExport) {
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+  );
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `sb-infra-data-${data.exportedAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Lets the person behind an inquiry download or delete what we hold about
+ * them. A code emailed to the address confirms the request before anything
+ * is shown or deleted.
+ */
+export default function DataRequestForm() {
+  const [email, setEmail] = useState('');
+  const [purpose, setPurpose] = useState<DataRequestPurpose>('export');
+  const [code, setCode] = useState('');
+  const [stage, setStage] = useState<Stage>({ step: 'request' });
+  const [errors, setErrors] = useState<RequestErrors>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleRequest = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const parsed = dataRequestSchema.safeParse({ email, purpose });
+    if (!parsed.success) {
+      const nextErrors: RequestErrors = {};
+      for (const issue of parsed.error.issues) {
+        const field = issue.path[0] as 'email' | 'purpose';
+        nextErrors[field] ??= issue.message;
+      }
+      setErrors(nextErrors);
+      return;
+    }
+
+    setErrors({});
+    setIsLoading(true);
+    try {
+      const result = await startDataRequest(parsed.data);
+      if (result.ok) {
+        setCode('');
+        setStage({ step: 'confirm', token: result.token, message: result.message });
+      } else {
+        setErrors({ request: result.message });
+      }
+    } catch (error) {
+      clientLogger.error('Starting a data request failed', { error });
+      setErrors({ request: 'Network error. Please check your connection.' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async (e: FormEvent) => {
+    e.preventDefault();
+    if (stage.step !== 'confirm') return;
+
+    const parsed = dataRequestConfirmationSchema.safeParse({ token: stage.token, code });
+    if (!parsed.success) {
+      setErrors({ code: parsed.error.issues[0].message });
+      return;
+    }
+
+    setErrors({});
+    setIsLoading(true);
+    try {
+      if (purpose === 'export') {
+        const result = await confirmDataExport(parsed.data);
+        if (result.ok) {
+          setStage({ step: 'exported', data: result.data });
+        } else {
+          setErrors({ code: result.message });
+        }
+      } else {
+        const result = await confirmDataErasure(parsed.data);
+        if (result.ok) {
+          setStage({ step: 'erased', message: result.message });
+        } else {
+          setErrors({ code: result.message });
+        }
+      }
+    } catch (error) {
+      clientLogger.error('Confirming a data request failed', { error });
+      setErrors({ code: 'Network error. Please check your connection.' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStartOver = () => {
+    setStage({ step: 'request' });
+    setCode('');
+    setErrors({});
+  };
+
+  if (stage.step === 'exported') {
+    const { data } = stage;
+    return (
+      <section aria-live="polite" className="p-6 bg-gray-900 border border-gray-800 rounded-lg">
+        <h3 className="text-xl font-bold text-gold">Your data is ready</h3>
+        <p className="mt-2 text-gray-300">
+          We hold {data.leads.length} inquir{data.leads.length === 1 ? 'y' : 'ies'} and{' '}
+          {data.bookings.length} booking{data.bookings.length === 1 ? '' : 's'} for {data.email}.
+        </p>
+        <div className="mt-6 flex flex-wrap gap-3">
+          <button
+            type="button"
+            onClick={() => downloadExport(data)}
+            className="py-3 px-6 bg-gold text-black font-semibold rounded-lg hover:bg-gold-light transition-colors"
+          >
+            Download as JSON
+          </button>
+          <button
+            type="button"
+            onClick={handleStartOver}
+            className="py-3 px-6 border border-gray-700 rounded-lg hover:border-gold transition-colors"
+          >
+            Start over
+          </button>
+        </div>
+      </section>
+    );
+  }
+
+  if (stage.step === 'erased') {
+    return (
+      <section
+        aria-live="polite"
+        className="p-6 bg-green-900/50 border border-green-500 rounded-lg text-green-300"
+      >
+        <p className="font-semibold">✓ Request complete</p>
+        <p className="text-sm mt-1">{stage.message}</p>
+      </section>
+    );
+  }
+
+  if (stage.step === 'confirm') {
+    return (
+      <form onSubmit={handleConfirm} noValidate className="space-y-4">
+        <p className="text-gray-300">{stage.message}</p>
+        <div>
+          <label htmlFor="data-request-code" className="block text-sm font-semibold mb-2">
+            Verification Code
+          </label>
+          <input
+            id="data-request-code"
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            aria-invalid={Boolean(errors.code)}
+            className={`${inputClassName(Boolean(errors.code))} font-mono tracking-[0.5em]`}
+          />
+          {errors.code && (
+            <p role="alert" className="mt-1 text-sm text-red-400">
+              {errors.code}
+            </p>
+          )}
+        </div>
+        {purpose === 'erasure' && (
+          <p className="text-sm text-red-300">
+            Deleting cannot be undone. Open inquiries and booked visits will be cancelled.
+          </p>
+        )}
+        <div className="flex flex-wrap gap-3">
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="py-3 px-6 bg-gold text-black font-semibold rounded-lg hover:bg-gold-light transition-colors disabled:opacity-60"
+          >
+            {isLoading ? 'Checking…' : DATA_REQUEST_LABELS[purpose]}
+          </button>
+          <button
+            type="button"
+            onClick={handleStartOver}
+            className="py-3 px-6 border border-gray-700 rounded-lg hover:border-gold transition-colors"
+          >
+            Use another address
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <form onSubmit={handleRequest} noValidate className="space-y-4">
+      <fieldset>
+        <legend className="block text-sm font-semibold mb-2">What would you like to do?</legend>
+        <div className="flex flex-wrap gap-3">
+          {DATA_REQUEST_PURPOSES.map((option) => (
+            <label
+              key={option}
+              className={`flex items-center gap-2 px-4 py-3 border rounded-lg cursor-pointer transition-colors ${
+                purpose === option ? 'border-gold text-gold' : 'border-gray-700 text-gray-300'
+              }`}
+            >
+              <input
+                type="radio"
+                name="purpose"
+                value={option}
+                checked={purpose === option}
+                onChange={() => setPurpose(option)}
+                className="accent-gold"
+              />
+              {DATA_REQUEST_LABELS[option]}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+      <div>
+        <label htmlFor="data-request-email" className="block text-sm font-semibold mb-2">
+          Email Address
+        </label>
+        <input
+          id="data-request-email"
+          type="email"
+          autoComplete="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          aria-invalid={Boolean(errors.email)}
+          className={inputClassName(Boolean(errors.email))}
+        />
+        {errors.email && <p className="mt-1 text-sm text-red-400">{errors.email}</p>}
+      </div>
+      {errors.request && (
+        <p role="alert" className="text-sm text-red-400">
+          {errors.request}
+        </p>
+      )}
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="w-full py-3 bg-gold text-black font-semibold rounded-lg hover:bg-gold-light transition-colors disabled:opacity-60"
+      >
+        {isLoading ? 'Sending…' : 'Email Me a Code'}
+      </button>
+    </form>
+  );
+}
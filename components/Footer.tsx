@@ -1,7 +1,12 @@
 'use client';
 
+import Link from 'next/link';
+import { usePublicConfig } from '@/hooks/usePublicConfig';
+import { phoneHref } from '@/lib/config/public';
+
 export default function Footer() {
   const currentYear = new Date().getFullYear();
+  const { company } = usePublicConfig();
 
   return (
     <footer className="bg-black text-white py-12">
@@ -46,15 +51,30 @@ export default function Footer() {
           <div>
             <h4 className="text-lg font-semibold text-gold mb-4">Contact Us</h4>
             <ul className="space-y-2 text-gray-400">
-              <li>Email: info@sbinfra.com</li>
-              <li>Phone: +1 (555) 123-4567</li>
-              <li>Address: 123 Construction Ave</li>
+              <li>
+                Email:{' '}
+                <a href={`mailto:${company.email}`} className="hover:text-gold transition-colors">
+                  {company.email}
+                </a>
+              </li>
+              <li>
+                Phone:{' '}
+                <a href={phoneHref(company.phone)} className="hover:text-gold transition-colors">
+                  {company.phone}
+                </a>
+              </li>
+              <li>Address: {company.address}</li>
             </ul>
           </div>
         </div>
 
         <div className="border-t border-gray-800 mt-8 pt-8 text-center text-gray-400">
-          <p>&copy; {currentYear} SB Infra Projects. All rights reserved.</p>
+          <p>&copy; {currentYear} {company.name}. All rights reserved.</p>
+          <p className="mt-2 text-sm">
+            <Link href="/privacy" className="hover:text-gold transition-colors">
+              Privacy &amp; your data
+            </Link>
+          </p>
         </div>
       </div>
     </footer>
@@ -3,12 +3,18 @@
 import HeroSection from '@/components/HeroSection';
 import ServicesSection from '@/components/ServicesSection';
 import BuildingProcess from '@/components/BuildingProcess';
+import CostEstimator from '@/components/CostEstimator';
 import ProjectsShowcase from '@/components/ProjectsShowcase';
 import AboutSection from '@/components/AboutSection';
 import ContactSection from '@/components/ContactSection';
 import PageLoadAnimator from '@/components/PageLoadAnimator';
+import type { ProjectPageResponse } from '@/lib/projects/contract';
 
-export default function Home() {
+interface HomePageProps {
+  initialProjects: ProjectPageResponse;
+}
+
+export default function HomePage({ initialProjects }: HomePageProps) {
   return (
     <div className="min-h-screen">
       {/* Page load animation sequence - animates sections top to bottom with natural easing */}
@@ -28,9 +34,14 @@ export default function Home() {
           <BuildingProcess />
         </PageLoadAnimator.Item>
 
+        {/* Cost Estimator Section */}
+        <PageLoadAnimator.Item>
+          <CostEstimator />
+        </PageLoadAnimator.Item>
+
         {/* Projects Section */}
         <PageLoadAnimator.Item>
-          <ProjectsShowcase />
+          <ProjectsShowcase initialPage={initialProjects} />
         </PageLoadAnimator.Item>
 
         {/* About Section */}
@@ -0,0 +1,179 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import {
+  INQUIRY_STATUS_COPY,
+  fetchInquiryStatus,
+  inquiryLookupSchema,
+  type InquiryLookup,
+  type InquiryStatus,
+} from '@/lib/contact';
+import type { LeadStatus } from '@/lib/leads/types';
+
+// Stages shown as a progress line; a closed inquiry is shown on its own
+const PROGRESS_STAGES: LeadStatus[] = ['new', 'contacted', 'site-visit', 'quoted', 'won'];
+
+type TrackerErrors = Partial<Record<keyof InquiryLookup | 'lookup', string>>;
+
+function formatDate(iso: string): string {
+  return new Intl.DateTimeFormat('en-IN', { dateStyle: 'medium', timeStyle: 'short' }).format(
+    new Date(iso)
+  );
+}
+
+function inputClassName(hasError: boolean): string {
+  return `w-full px-4 py-3 bg-gray-900 border rounded-lg focus:outline-none transition-all duration-300 ${
+    hasError
+      ? 'border-red-500 focus:border-red-500'
+      : 'border-gray-700 focus:border-gold focus:shadow-lg focus:shadow-gold/20'
+  }`;
+}
+
+interface InquiryTrackerProps {
+  /** Reference number from the link in the acknowledgement email */
+  initialSubmissionId?: string;
+}
+
+export default function InquiryTracker({ initialSubmissionId = '' }: InquiryTrackerProps) {
+  const [lookup, setLookup] = useState<InquiryLookup>({
+    submissionId: initialSubmissionId,
+    email: '',
+  });
+  const [errors, setErrors] = useState<TrackerErrors>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [inquiry, setInquiry] = useState<InquiryStatus | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const parsed = inquiryLookupSchema.safeParse(lookup);
+    if (!parsed.success) {
+      const nextErrors: TrackerErrors = {};
+      for (const issue of parsed.error.issues) {
+        const field = issue.path[0] as keyof InquiryLookup;
+        nextErrors[field] ??= issue.message;
+      }
+      setErrors(nextErrors);
+      return;
+    }
+
+    setErrors({});
+    setIsLoading(true);
+    try {
+      const result = await fetchInquiryStatus(parsed.data.submissionId, parsed.data.email);
+      if (result.ok) {
+        setInquiry(result.inquiry);
+      } else {
+        setInquiry(null);
+        setErrors({ lookup: result.message });
+      }
+    } catch {
+      setInquiry(null);
+      setErrors({ lookup: 'Network error. Please check your connection.' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const currentStage = inquiry ? PROGRESS_STAGES.indexOf(inquiry.status) : -1;
+
+  return (
+    <div className="space-y-8">
+      <form onSubmit={handleSubmit} noValidate className="space-y-4">
+        <div>
+          <label htmlFor="track-reference" className="block text-sm font-semibold mb-2">
+            Reference Number
+          </label>
+          <input
+            id="track-reference"
+            type="text"
+            autoComplete="off"
+            spellCheck={false}
+            placeholder="SUB-…"
+            value={lookup.submissionId}
+            onChange={(e) => setLookup((prev) => ({ ...prev, submissionId: e.target.value }))}
+            aria-invalid={Boolean(errors.submissionId)}
+            className={`${inputClassName(Boolean(errors.submissionId))} font-mono`}
+          />
+          {errors.submissionId && (
+            <p className="mt-1 text-sm text-red-400">{errors.submissionId}</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="track-email" className="block text-sm font-semibold mb-2">
+            Email Address
+          </label>
+          <input
+            id="track-email"
+            type="email"
+            autoComplete="email"
+            value={lookup.email}
+            onChange={(e) => setLookup((prev) => ({ ...prev, email: e.target.value }))}
+            aria-invalid={Boolean(errors.email)}
+            className={inputClassName(Boolean(errors.email))}
+          />
+          {errors.email && <p className="mt-1 text-sm text-red-400">{errors.email}</p>}
+        </div>
+        {errors.lookup && (
+          <p role="alert" className="text-sm text-red-400">
+            {errors.lookup}
+          </p>
+        )}
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="w-full py-3 bg-gold text-black font-semibold rounded-lg hover:bg-gold-light transition-colors disabled:opacity-60"
+        >
+          {isLoading ? 'Looking up…' : 'Check Status'}
+        </button>
+      </form>
+
+      {inquiry && (
+        <section
+          aria-live="polite"
+          className="p-6 bg-gray-900 border border-gray-800 rounded-lg space-y-6"
+        >
+          <div>
+            <p className="text-sm text-gray-400">{inquiry.projectType}</p>
+            <h2 className="text-2xl font-bold text-gold">
+              {INQUIRY_STATUS_COPY[inquiry.status].label}
+            </h2>
+            <p className="mt-2 text-gray-300">{INQUIRY_STATUS_COPY[inquiry.status].description}</p>
+          </div>
+
+          {currentStage >= 0 && (
+            <ol className="grid grid-cols-5 gap-2" aria-label="Progress">
+              {PROGRESS_STAGES.map((stage, index) => (
+                <li key={stage} aria-current={index === currentStage ? 'step' : undefined}>
+                  <span
+                    className={`block h-1.5 rounded-full ${
+                      index <= currentStage ? 'bg-gold' : 'bg-gray-700'
+                    }`}
+                  />
+                  <span
+                    className={`mt-2 block text-xs ${
+                      index <= currentStage ? 'text-white' : 'text-gray-500'
+                    }`}
+                  >
+                    {INQUIRY_STATUS_COPY[stage].label}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          <dl className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-400">Received</dt>
+              <dd>{formatDate(inquiry.receivedAt)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-400">Last update</dt>
+              <dd>{formatDate(inquiry.updatedAt)}</dd>
+            </div>
+          </dl>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,490 @@
+'use client';
+
+import { useCallback, useState, FormEvent, ChangeEvent, ReactNode } from 'react';
+import Confetti from './Confetti';
+import AttachmentDropzone from './AttachmentDropzone';
+import ConsentCheckbox from './ConsentCheckbox';
+import { useContactSubmission } from '@/hooks/useContactSubmission';
+import { useInquiryDraft } from '@/hooks/useInquiryDraft';
+import { useInquiryPrefill } from '@/hooks/useInquiryPrefill';
+import { usePublicConfig } from '@/hooks/usePublicConfig';
+import {
+  BUDGET_RANGES,
+  INQUIRY_STEPS,
+  INQUIRY_STEP_TITLES,
+  PROJECT_DETAIL_FIELDS,
+  PROJECT_TYPES,
+  detailFieldsFor,
+  parseInquiry,
+  stepForErrors,
+  validateInquiryStep,
+  type ContactTextField,
+  type InquiryStep,
+  type ProjectDetailField,
+} from '@/lib/contact';
+import { mergePrefillMessage, type InquiryPrefill } from '@/lib/estimator';
+import { formatPhoneInput } from '@/lib/phone/format';
+import { CONSENT_VERSION } from '@/lib/privacy/consent';
+
+function inputClassName(hasError: boolean): string {
+  return `w-full px-4 py-3 bg-gray-900 border rounded-lg focus:outline-none transition-all duration-300 ${
+    hasError
+      ? 'border-red-500 focus:border-red-500'
+      : 'border-gray-700 focus:border-gold focus:shadow-lg focus:shadow-gold/20'
+  }`;
+}
+
+function Field({
+  id,
+  label,
+  error,
+  children,
+}: {
+  id: string;
+  label: string;
+  error?: string;
+  children: ReactNode;
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-300 mb-2">
+        {label}
+      </label>
+      {children}
+      {error && <p className="mt-2 text-sm text-red-500 animate-shake">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Multi-step project inquiry: contact details, project type, questions
+ * specific to that type, then a review before sending. Built on the same
+ * contract and submission hook as ContactForm.
+ */
+export default function InquiryWizard() {
+  const { features } = usePublicConfig();
+  const { draft, step, restored, setDraft, setStep, clear } = useInquiryDraft();
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [consented, setConsented] = useState(false);
+  const [showRestored, setShowRestored] = useState(restored);
+
+  const resetInquiry = useCallback(() => {
+    clear();
+    setAttachments([]);
+    setConsented(false);
+    setShowRestored(false);
+  }, [clear]);
+
+  const {
+    errors,
+    setErrors,
+    isSubmitting,
+    submitStatus,
+    setSubmitStatus,
+    submissionId,
+    honeypot,
+    setHoneypot,
+    startChallenge,
+    submit,
+  } = useContactSubmission(resetInquiry);
+
+  // Take over project type, budget, matching details and a summary from the cost estimator
+  useInquiryPrefill(
+    useCallback(
+      (prefill: InquiryPrefill) => {
+        setDraft((prev) => ({
+          fields: {
+            ...prev.fields,
+            projectType: prefill.projectType,
+            budget: prefill.budget,
+            message: mergePrefillMessage(prev.fields.message, prefill.message),
+          },
+          details: { ...prev.details, ...prefill.details },
+        }));
+        setErrors({});
+      },
+      [setDraft, setErrors]
+    )
+  );
+
+  const stepIndex = INQUIRY_STEPS.indexOf(step);
+  const detailFields = detailFieldsFor(draft.fields.projectType);
+
+  const clearError = (key: string) => {
+    if (errors[key]) {
+      setErrors((prev) => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+    }
+  };
+
+  const handleFieldChange = (
+    e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => {
+    const name = e.target.name as ContactTextField;
+    const value = name === 'phone' ? formatPhoneInput(e.target.value) : e.target.value;
+    setDraft((prev) => ({ ...prev, fields: { ...prev.fields, [name]: value } }));
+    clearError(name);
+  };
+
+  const handleDetailChange = (field: ProjectDetailField, value: string) => {
+    setDraft((prev) => ({ ...prev, details: { ...prev.details, [field]: value } }));
+    clearError(`projectDetails.${field}`);
+  };
+
+  const goTo = (next: InquiryStep) => {
+    setSubmitStatus('idle');
+    setStep(next);
+  };
+
+  const handleNext = () => {
+    const stepErrors = validateInquiryStep(step, draft);
+    setErrors(stepErrors);
+    if (Object.keys(stepErrors).length === 0) {
+      goTo(INQUIRY_STEPS[stepIndex + 1]);
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    // Enter in a text input submits the form; treat it as "Next" before the review step
+    if (step !== 'review') {
+      handleNext();
+      return;
+    }
+
+    const parsed = parseInquiry(draft, consented ? CONSENT_VERSION : undefined);
+    if (!parsed.ok) {
+      setErrors(parsed.errors);
+      goTo(stepForErrors(parsed.errors) ?? 'contact');
+      return;
+    }
+
+    const rejected = await submit(parsed.data, attachments);
+    const rejectedStep = rejected && stepForErrors(rejected);
+    if (rejectedStep) setStep(rejectedStep);
+  };
+
+  const handleStartOver = () => {
+    clear();
+    setAttachments([]);
+    setErrors({});
+    setShowRestored(false);
+  };
+
+  if (submitStatus === 'queued') {
+    return (
+      <div>
+        <div
+          role="status"
+          className="p-6 bg-gray-900 border border-gold rounded-lg text-gray-300 animate-fade-in"
+        >
+          <p className="font-semibold text-lg text-gold">Queued, will send when online</p>
+          <p className="text-sm mt-1">
+            You seem to be offline. Your inquiry is saved on this device and will be sent
+            automatically once you are back online.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setSubmitStatus('idle')}
+          className="mt-4 text-sm text-gold hover:underline"
+        >
+          Send another inquiry
+        </button>
+      </div>
+    );
+  }
+
+  if (submitStatus === 'success') {
+    return (
+      <div className="relative">
+        <Confetti />
+        <div className="p-6 bg-green-900/50 border border-green-500 rounded-lg text-green-300 animate-celebrate">
+          <div className="flex items-center gap-3">
+            <div className="text-3xl animate-pulse-success">🎉</div>
+            <div>
+              <p className="font-semibold text-lg">✓ Inquiry sent successfully!</p>
+              <p className="text-sm mt-1">
+                Our team will review your project and reply within 24 hours.
+              </p>
+              <p className="text-sm mt-2">
+                Your reference is <span className="font-mono text-white">{submissionId}</span>.{' '}
+                <a
+                  href={`/track?id=${encodeURIComponent(submissionId)}`}
+                  className="text-gold hover:underline"
+                >
+                  Track your inquiry
+                </a>
+              </p>
+            </div>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => setSubmitStatus('idle')}
+          className="mt-4 text-sm text-gold hover:underline"
+        >
+          Send another inquiry
+        </button>
+      </div>
+    );
+  }
+
+  const reviewRows: [string, string][] = [
+    ['Full Name', draft.fields.name],
+    ['Email Address', draft.fields.email],
+    ['Phone Number', draft.fields.phone],
+    ['Project Type', draft.fields.projectType],
+    ['Estimated Budget', draft.fields.budget],
+    ...detailFields.map((field): [string, string] => {
+      const { label, unit } = PROJECT_DETAIL_FIELDS[field];
+      const value = draft.details[field] ?? '';
+      return [label, value && unit ? `${value} ${unit}` : value];
+    }),
+    ['Project Details', draft.fields.message],
+    ['Attachments', attachments.map((file) => file.name).join(', ')],
+  ];
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onFocus={startChallenge}
+      className="relative space-y-6"
+      noValidate
+    >
+      {/* Progress */}
+      <ol className="flex items-center gap-2" aria-label="Inquiry progress">
+        {INQUIRY_STEPS.map((id, index) => (
+          <li key={id} className="flex-1" aria-current={id === step ? 'step' : undefined}>
+            <div
+              className={`h-1 rounded-full transition-colors duration-300 ${
+                index <= stepIndex ? 'bg-gold' : 'bg-gray-700'
+              }`}
+            />
+            <span
+              className={`mt-2 block text-xs ${
+                id === step ? 'text-gold font-semibold' : 'text-gray-500'
+              }`}
+            >
+              {INQUIRY_STEP_TITLES[id]}
+            </span>
+          </li>
+        ))}
+      </ol>
+
+      {showRestored && (
+        <div className="flex items-center justify-between gap-4 p-3 rounded-lg border border-gold/40 bg-gold/10 text-sm text-gray-300">
+          <span>We restored your saved draft.</span>
+          <button type="button" onClick={handleStartOver} className="text-gold hover:underline">
+            Start over
+          </button>
+        </div>
+      )}
+
+      {step === 'contact' && (
+        <>
+          <Field id="inquiry-name" label="Full Name *" error={errors.name}>
+            <input
+              type="text"
+              id="inquiry-name"
+              name="name"
+              autoComplete="name"
+              value={draft.fields.name}
+              onChange={handleFieldChange}
+              className={inputClassName(!!errors.name)}
+              placeholder="John Doe"
+            />
+          </Field>
+          <Field id="inquiry-email" label="Email Address *" error={errors.email}>
+            <input
+              type="email"
+              id="inquiry-email"
+              name="email"
+              autoComplete="email"
+              value={draft.fields.email}
+              onChange={handleFieldChange}
+              className={inputClassName(!!errors.email)}
+              placeholder="john@example.com"
+            />
+          </Field>
+          <Field id="inquiry-phone" label="Phone Number" error={errors.phone}>
+            <input
+              type="tel"
+              id="inquiry-phone"
+              name="phone"
+              autoComplete="tel"
+              value={draft.fields.phone}
+              onChange={handleFieldChange}
+              className={inputClassName(!!errors.phone)}
+              placeholder="98450 12345"
+            />
+          </Field>
+        </>
+      )}
+
+      {step === 'project' && (
+        <>
+          <Field id="inquiry-projectType" label="Project Type *" error={errors.projectType}>
+            <select
+              id="inquiry-projectType"
+              name="projectType"
+              value={draft.fields.projectType}
+              onChange={handleFieldChange}
+              className={inputClassName(!!errors.projectType)}
+            >
+              <option value="">Select a project type</option>
+              {PROJECT_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field id="inquiry-budget" label="Estimated Budget" error={errors.budget}>
+            <select
+              id="inquiry-budget"
+              name="budget"
+              value={draft.fields.budget}
+              onChange={handleFieldChange}
+              className={inputClassName(!!errors.budget)}
+            >
+              <option value="">Select a budget range</option>
+              {BUDGET_RANGES.map((range) => (
+                <option key={range} value={range}>
+                  {range}
+                </option>
+              ))}
+            </select>
+          </Field>
+        </>
+      )}
+
+      {step === 'details' && (
+        <>
+          {detailFields.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {detailFields.map((field) => {
+                const { label, unit } = PROJECT_DETAIL_FIELDS[field];
+                const key = `projectDetails.${field}`;
+                return (
+                  <Field
+                    key={field}
+                    id={`inquiry-${field}`}
+                    label={`${label}${unit ? ` (${unit})` : ''} *`}
+                    error={errors[key]}
+                  >
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      min={0}
+                      id={`inquiry-${field}`}
+                      name={key}
+                      value={draft.details[field] ?? ''}
+                      onChange={(e) => handleDetailChange(field, e.target.value)}
+                      className={inputClassName(!!errors[key])}
+                    />
+                  </Field>
+                );
+              })}
+            </div>
+          )}
+          <Field id="inquiry-message" label="Project Details *" error={errors.message}>
+            <textarea
+              id="inquiry-message"
+              name="message"
+              rows={5}
+              value={draft.fields.message}
+              onChange={handleFieldChange}
+              className={`${inputClassName(!!errors.message)} resize-none`}
+              placeholder="Tell us about your project..."
+            />
+          </Field>
+          {features.attachments && (
+            <AttachmentDropzone
+              files={attachments}
+              onChange={(files) => {
+                setAttachments(files);
+                clearError('attachments');
+              }}
+              error={errors.attachments}
+            />
+          )}
+        </>
+      )}
+
+      {step === 'review' && (
+        <>
+          <dl className="divide-y divide-gray-800 rounded-lg border border-gray-800">
+            {reviewRows.map(([label, value]) => (
+              <div key={label} className="grid grid-cols-3 gap-4 px-4 py-3 text-sm">
+                <dt className="text-gray-400">{label}</dt>
+                <dd className="col-span-2 text-white whitespace-pre-wrap break-words">
+                  {value || <span className="text-gray-500">Not provided</span>}
+                </dd>
+              </div>
+            ))}
+          </dl>
+          <ConsentCheckbox
+            id="inquiry-consent"
+            checked={consented}
+            onChange={(checked) => {
+              setConsented(checked);
+              clearError('consentVersion');
+            }}
+            error={errors.consentVersion}
+          />
+        </>
+      )}
+
+      {submitStatus === 'error' && (
+        <div className="p-4 bg-red-900/50 border border-red-500 rounded-lg text-red-300 animate-shake">
+          <p className="font-semibold">✗ Your inquiry could not be sent</p>
+          <p className="text-sm mt-1">{errors.submit}</p>
+        </div>
+      )}
+
+      {/* Navigation */}
+      <div className="flex gap-4">
+        {stepIndex > 0 && (
+          <button
+            type="button"
+            onClick={() => goTo(INQUIRY_STEPS[stepIndex - 1])}
+            disabled={isSubmitting}
+            className="flex-1 py-4 px-8 rounded-lg font-bold text-lg border border-gray-700 text-gray-300 hover:border-gold hover:text-gold transition-all duration-300"
+          >
+            Back
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className={`flex-1 py-4 px-8 rounded-lg font-bold text-lg transition-all duration-300 ${
+            isSubmitting
+              ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+              : 'bg-gold text-black hover:bg-gold-light hover:shadow-2xl hover:shadow-gold/50'
+          }`}
+        >
+          {step !== 'review' ? 'Next' : isSubmitting ? 'Sending...' : 'Send Inquiry'}
+        </button>
+      </div>
+
+      {/* Honeypot: off-screen and out of the tab order, so only bots fill it in */}
+      <div className="absolute -left-[10000px] w-px h-px overflow-hidden" aria-hidden="true">
+        <label htmlFor="inquiry-website">Website</label>
+        <input
+          type="text"
+          id="inquiry-website"
+          name="website"
+          tabIndex={-1}
+          autoComplete="off"
+          value={honeypot}
+          onChange={(e) => setHoneypot(e.target.value)}
+        />
+      </div>
+    </form>
+  );
+}
@@ -1,11 +1,11 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Project } from '@/types';
 import { useReducedMotion } from '@/lib/animations';
+import type { ProjectSummary } from '@/lib/projects/contract';
 
 interface ProjectCardProps {
-  project: Project;
+  project: ProjectSummary;
   onClick: (projectId: string) => void;
 }
 
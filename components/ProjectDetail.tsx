@@ -0,0 +1,133 @@
+import Image from 'next/image';
+import Link from 'next/link';
+import ProjectMediaTabs from './ProjectMediaTabs';
+import { getPublicConfig, phoneHref } from '@/lib/config';
+import { formatCompletionDate } from '@/lib/projects/format';
+import { Project } from '@/types';
+
+interface ProjectDetailProps {
+  project: Project;
+}
+
+/**
+ * Full page for one project. Server only: it reads the company details from
+ * the config, and renders every image, spec and tag into the page's HTML.
+ */
+export default function ProjectDetail({ project }: ProjectDetailProps) {
+  const { company } = getPublicConfig();
+  const specs = [
+    { label: 'Location', value: project.location },
+    { label: 'Area', value: project.area },
+    { label: 'Duration', value: project.duration },
+    { label: 'Client', value: project.client },
+    { label: 'Completed', value: formatCompletionDate(project.completionDate) },
+  ].filter((spec): spec is { label: string; value: string } => Boolean(spec.value));
+
+  return (
+    <article className="min-h-screen bg-black text-white px-4 pt-32 pb-24">
+      <div className="max-w-6xl mx-auto">
+        <Link href="/#projects" className="text-sm text-gray-400 hover:text-gold transition-colors">
+          ← All projects
+        </Link>
+
+        <header className="mt-6 mb-10">
+          <span className="inline-block px-3 py-1 bg-gold text-black text-xs font-semibold rounded-full mb-4">
+            {project.category.toUpperCase()}
+          </span>
+          <h1 className="text-4xl md:text-5xl font-bold mb-4">{project.title}</h1>
+          <p className="text-lg text-gray-300 max-w-3xl leading-relaxed">{project.description}</p>
+        </header>
+
+        {/* Gallery, and the 3D view for projects with a model */}
+        <div className="mb-12">
+          <ProjectMediaTabs
+            title={project.title}
+            modelUrl={project.has3DModel ? project.modelUrl : undefined}
+            modelClassName="aspect-[4/3] md:aspect-video rounded-lg overflow-hidden"
+            gallery={
+              <section aria-label="Gallery" className="grid gap-4 md:grid-cols-2">
+                {project.images.map((image, index) => (
+                  <figure
+                    key={image.url}
+                    className={`overflow-hidden rounded-lg bg-gray-900 ${index === 0 ? 'md:col-span-2' : ''}`}
+                  >
+                    <Image
+                      src={image.url}
+                      alt={image.alt}
+                      width={image.width}
+                      height={image.height}
+                      loading={index === 0 ? 'eager' : 'lazy'}
+                      className="w-full h-auto object-cover"
+                    />
+                    {image.caption && (
+                      <figcaption className="px-4 py-3 text-sm text-gray-400">
+                        {image.caption}
+                      </figcaption>
+                    )}
+                  </figure>
+                ))}
+              </section>
+            }
+          />
+        </div>
+
+        <div className="grid gap-10 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-10">
+            {/* Specs */}
+            <section>
+              <h2 className="text-2xl font-bold mb-4">Project Details</h2>
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {specs.map((spec) => (
+                  <div
+                    key={spec.label}
+                    className="p-4 rounded-lg border border-gray-800 bg-gray-900"
+                  >
+                    <dt className="text-sm font-semibold text-gray-500 mb-1">{spec.label}</dt>
+                    <dd className="text-white">{spec.value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+
+            {project.tags.length > 0 && (
+              <section>
+                <h2 className="text-2xl font-bold mb-4">Tags</h2>
+                <ul className="flex flex-wrap gap-2">
+                  {project.tags.map((tag) => (
+                    <li
+                      key={tag}
+                      className="px-3 py-1 bg-gray-800 text-gray-300 text-sm rounded-full"
+                    >
+                      {tag}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+
+          {/* Call to action */}
+          <aside className="p-6 rounded-lg border border-gold bg-gold/10 h-fit">
+            <h2 className="text-xl font-bold mb-2">Planning something similar?</h2>
+            <p className="text-gray-300 mb-6">
+              Tell us about your project and we will get back to you within 24 hours with a free
+              consultation.
+            </p>
+            <Link
+              href="/#contact"
+              className="block text-center px-6 py-3 bg-gold text-black font-semibold rounded-lg hover:bg-gold/80 transition-colors"
+            >
+              Start your project
+            </Link>
+            <a
+              href={phoneHref(company.phone)}
+              className="block mt-3 text-center text-sm text-gray-300 hover:text-gold transition-colors"
+            >
+              Or call {company.phone}
+            </a>
+          </aside>
+        </div>
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { useId, useState, type ReactNode } from 'react';
+import ProjectModelViewer from './ProjectModelViewer';
+import { useWebGLSupport } from '@/hooks/useWebGLSupport';
+
+export type ProjectMediaView = 'photos' | 'model';
+
+const VIEW_LABELS: Record<ProjectMediaView, string> = {
+  photos: 'Photos',
+  model: '3D view',
+};
+
+interface ProjectMediaTabsProps {
+  title: string;
+  /** Set for projects with has3DModel */
+  modelUrl?: string;
+  gallery: ReactNode;
+  /** Pass with onViewChange to switch tabs from outside */
+  view?: ProjectMediaView;
+  onViewChange?: (view: ProjectMediaView) => void;
+  /** Size of the 3D view */
+  modelClassName?: string;
+}
+
+/**
+ * Photos and, when the project has a model and the browser has WebGL, a
+ * "3D view" tab. Without either there are no tabs, just the gallery.
+ */
+export default function ProjectMediaTabs({
+  title,
+  modelUrl,
+  gallery,
+  view,
+  onViewChange,
+  modelClassName,
+}: ProjectMediaTabsProps) {
+  const hasWebGL = useWebGLSupport();
+  const [ownView, setOwnView] = useState<ProjectMediaView>('photos');
+  const id = useId();
+  const current = view ?? ownView;
+  const setView = onViewChange ?? setOwnView;
+
+  if (!modelUrl || !hasWebGL) return <>{gallery}</>;
+
+  return (
+    <div>
+      <div role="tablist" aria-label="Project media" className="flex gap-2 p-2 bg-black">
+        {(Object.keys(VIEW_LABELS) as ProjectMediaView[]).map((value) => (
+          <button
+            key={value}
+            id={`${id}-${value}-tab`}
+            role="tab"
+            aria-selected={current === value}
+            aria-controls={`${id}-panel`}
+            onClick={() => setView(value)}
+            className={`px-4 py-2 rounded-full text-sm font-semibold transition-colors ${
+              current === value ? 'bg-gold text-black' : 'text-gray-300 hover:text-white'
+            }`}
+          >
+            {VIEW_LABELS[value]}
+          </button>
+        ))}
+      </div>
+      <div id={`${id}-panel`} role="tabpanel" aria-labelledby={`${id}-${current}-tab`}>
+        {current === 'photos' ? (
+          gallery
+        ) : (
+          <ProjectModelViewer
+            modelUrl={modelUrl}
+            title={title}
+            fallback={gallery}
+            className={modelClassName}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
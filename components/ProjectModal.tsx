@@ -2,7 +2,10 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { Project } from '@/types';
+import { formatCompletionDate } from '@/lib/projects/format';
 import { PinchDetector, SwipeDetector, isTouchDevice } from '@/lib/touch-gestures';
+import { useWebGLSupport } from '@/hooks/useWebGLSupport';
+import ProjectMediaTabs, { type ProjectMediaView } from './ProjectMediaTabs';
 
 interface ProjectModalProps {
   project: Project;
@@ -14,6 +17,8 @@ export default function ProjectModal({ project, onClose }: ProjectModalProps) {
   const [isZoomed, setIsZoomed] = useState(false);
   const [zoomPosition, setZoomPosition] = useState({ x: 50, y: 50 });
   const [zoomScale, setZoomScale] = useState(1);
+  const [mediaView, setMediaView] = useState<ProjectMediaView>('photos');
+  const hasWebGL = useWebGLSupport();
   const imageContainerRef = useRef<HTMLDivElement>(null);
   const pinchDetectorRef = useRef<PinchDetector | null>(null);
   const swipeDetectorRef = useRef<SwipeDetector | null>(null);
@@ -164,135 +169,145 @@ export default function ProjectModal({ project, onClose }: ProjectModalProps) {
 
         <div className="grid md:grid-cols-2 gap-0">
           {/* Image Gallery Section */}
-          <div className="relative bg-black">
-            {/* Main Image */}
-            <div
-              ref={imageContainerRef}
-              className="relative aspect-[4/3] overflow-hidden cursor-zoom-in"
-              onClick={handleImageClick}
-              onMouseMove={handleMouseMove}
-              onMouseLeave={() => {
-                if (!isTouch) {
-                  setIsZoomed(false);
-                }
-              }}
-              onTouchStart={handleTouchStart}
-              onTouchMove={handleTouchMove}
-              onTouchEnd={handleTouchEnd}
-              style={{
-                touchAction: 'none', // Prevent default touch behaviors
-              }}
-            >
-              <img
-                src={currentImage.url}
-                alt={currentImage.alt}
-                className="w-full h-full object-cover transition-transform duration-300"
-                style={
-                  isZoomed
-                    ? {
-                        transformOrigin: `${zoomPosition.x}% ${zoomPosition.y}%`,
-                        transform: `scale(${isTouch ? zoomScale : 2})`,
+          <div className="bg-black">
+            <ProjectMediaTabs
+              title={project.title}
+              modelUrl={project.has3DModel ? project.modelUrl : undefined}
+              view={mediaView}
+              onViewChange={setMediaView}
+              gallery={
+                <div className="relative">
+                  {/* Main Image */}
+                  <div
+                    ref={imageContainerRef}
+                    className="relative aspect-[4/3] overflow-hidden cursor-zoom-in"
+                    onClick={handleImageClick}
+                    onMouseMove={handleMouseMove}
+                    onMouseLeave={() => {
+                      if (!isTouch) {
+                        setIsZoomed(false);
                       }
-                    : {}
-                }
-              />
-              
-              {/* Zoom Indicator */}
-              {!isZoomed && (
-                <div className="absolute bottom-4 right-4 bg-black/50 text-white px-3 py-1 rounded-full text-sm">
-                  {isTouch ? 'Pinch to zoom' : 'Click to zoom'}
-                </div>
-              )}
-            </div>
-
-            {/* Navigation Arrows */}
-            {project.images.length > 1 && (
-              <>
-                <button
-                  onClick={handlePrevImage}
-                  className="absolute left-4 top-1/2 -translate-y-1/2 flex items-center justify-center bg-black/50 hover:bg-gold text-white rounded-full transition-colors"
-                  style={{
-                    minWidth: '44px',
-                    minHeight: '44px',
-                    width: '44px',
-                    height: '44px',
-                  }}
-                  aria-label="Previous image"
-                >
-                  <svg
-                    className="w-6 h-6"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
+                    }}
+                    onTouchStart={handleTouchStart}
+                    onTouchMove={handleTouchMove}
+                    onTouchEnd={handleTouchEnd}
+                    style={{
+                      touchAction: 'none', // Prevent default touch behaviors
+                    }}
                   >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M15 19l-7-7 7-7"
-                    />
-                  </svg>
-                </button>
-                <button
-                  onClick={handleNextImage}
-                  className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center justify-center bg-black/50 hover:bg-gold text-white rounded-full transition-colors"
-                  style={{
-                    minWidth: '44px',
-                    minHeight: '44px',
-                    width: '44px',
-                    height: '44px',
-                  }}
-                  aria-label="Next image"
-                >
-                  <svg
-                    className="w-6 h-6"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M9 5l7 7-7 7"
+                    <img
+                      src={currentImage.url}
+                      alt={currentImage.alt}
+                      className="w-full h-full object-cover transition-transform duration-300"
+                      style={
+                        isZoomed
+                          ? {
+                              transformOrigin: `${zoomPosition.x}% ${zoomPosition.y}%`,
+                              transform: `scale(${isTouch ? zoomScale : 2})`,
+                            }
+                          : {}
+                      }
                     />
-                  </svg>
-                </button>
-              </>
-            )}
 
-            {/* Image Counter */}
-            <div className="absolute bottom-4 left-4 bg-black/50 text-white px-3 py-1 rounded-full text-sm">
-              {currentImageIndex + 1} / {project.images.length}
-            </div>
+                    {/* Zoom Indicator */}
+                    {!isZoomed && (
+                      <div className="absolute bottom-4 right-4 bg-black/50 text-white px-3 py-1 rounded-full text-sm">
+                        {isTouch ? 'Pinch to zoom' : 'Click to zoom'}
+                      </div>
+                    )}
+                  </div>
 
-            {/* Thumbnail Strip */}
-            {project.images.length > 1 && (
-              <div className="absolute bottom-0 left-0 right-0 bg-black/70 p-2">
-                <div className="flex gap-2 overflow-x-auto">
-                  {project.images.map((image, index) => (
-                    <button
-                      key={index}
-                      onClick={() => {
-                        setCurrentImageIndex(index);
-                        setIsZoomed(false);
-                      }}
-                      className={`flex-shrink-0 w-16 h-16 rounded overflow-hidden border-2 transition-all ${
-                        index === currentImageIndex
-                          ? 'border-gold scale-110'
-                          : 'border-transparent opacity-60 hover:opacity-100'
-                      }`}
-                    >
-                      <img
-                        src={image.url}
-                        alt={`Thumbnail ${index + 1}`}
-                        className="w-full h-full object-cover"
-                      />
-                    </button>
-                  ))}
+                  {/* Navigation Arrows */}
+                  {project.images.length > 1 && (
+                    <>
+                      <button
+                        onClick={handlePrevImage}
+                        className="absolute left-4 top-1/2 -translate-y-1/2 flex items-center justify-center bg-black/50 hover:bg-gold text-white rounded-full transition-colors"
+                        style={{
+                          minWidth: '44px',
+                          minHeight: '44px',
+                          width: '44px',
+                          height: '44px',
+                        }}
+                        aria-label="Previous image"
+                      >
+                        <svg
+                          className="w-6 h-6"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M15 19l-7-7 7-7"
+                          />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={handleNextImage}
+                        className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center justify-center bg-black/50 hover:bg-gold text-white rounded-full transition-colors"
+                        style={{
+                          minWidth: '44px',
+                          minHeight: '44px',
+                          width: '44px',
+                          height: '44px',
+                        }}
+                        aria-label="Next image"
+                      >
+                        <svg
+                          className="w-6 h-6"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M9 5l7 7-7 7"
+                          />
+                        </svg>
+                      </button>
+                    </>
+                  )}
+
+                  {/* Image Counter */}
+                  <div className="absolute bottom-4 left-4 bg-black/50 text-white px-3 py-1 rounded-full text-sm">
+                    {currentImageIndex + 1} / {project.images.length}
+                  </div>
+
+                  {/* Thumbnail Strip */}
+                  {project.images.length > 1 && (
+                    <div className="absolute bottom-0 left-0 right-0 bg-black/70 p-2">
+                      <div className="flex gap-2 overflow-x-auto">
+                        {project.images.map((image, index) => (
+                          <button
+                            key={index}
+                            onClick={() => {
+                              setCurrentImageIndex(index);
+                              setIsZoomed(false);
+                            }}
+                            className={`flex-shrink-0 w-16 h-16 rounded overflow-hidden border-2 transition-all ${
+                              index === currentImageIndex
+                                ? 'border-gold scale-110'
+                                : 'border-transparent opacity-60 hover:opacity-100'
+                            }`}
+                          >
+                            <img
+                              src={image.url}
+                              alt={`Thumbnail ${index + 1}`}
+                              className="w-full h-full object-cover"
+                            />
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
-              </div>
-            )}
+              }
+            />
           </div>
 
           {/* Project Details Section */}
@@ -336,10 +351,7 @@ export default function ProjectModal({ project, onClose }: ProjectModalProps) {
               <div>
                 <h3 className="text-sm font-semibold text-gray-500 mb-1">Completed</h3>
                 <p className="text-gray-900">
-                  {new Date(project.completionDate).toLocaleDateString('en-US', {
-                    year: 'numeric',
-                    month: 'long',
-                  })}
+                  {formatCompletionDate(project.completionDate)}
                 </p>
               </div>
               {project.client && (
@@ -368,7 +380,7 @@ export default function ProjectModal({ project, onClose }: ProjectModalProps) {
             )}
 
             {/* 3D Model Link */}
-            {project.has3DModel && project.modelUrl && (
+            {project.has3DModel && project.modelUrl && hasWebGL && mediaView !== 'model' && (
               <div className="mt-6 p-4 bg-gold/10 rounded-lg border border-gold">
                 <div className="flex items-center gap-3">
                   <div className="text-2xl">🏗️</div>
@@ -378,7 +390,10 @@ export default function ProjectModal({ project, onClose }: ProjectModalProps) {
                       View this project in interactive 3D
                     </p>
                   </div>
-                  <button className="px-4 py-2 bg-gold text-black font-semibold rounded-lg hover:bg-gold/80 transition-colors">
+                  <button
+                    onClick={() => setMediaView('model')}
+                    className="px-4 py-2 bg-gold text-black font-semibold rounded-lg hover:bg-gold/80 transition-colors"
+                  >
                     View 3D
                   </button>
                 </div>
@@ -0,0 +1,22 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Project } from '@/types';
+import ProjectModal from './ProjectModal';
+
+interface ProjectModalRouteProps {
+  project: Project;
+}
+
+/**
+ * ProjectModal for the intercepted /projects/[id] route. Closing goes back to
+ * the page the card was opened from.
+ */
+export default function ProjectModalRoute({ project }: ProjectModalRouteProps) {
+  const router = useRouter();
+  // Stable, so the modal's effect does not re-run on every render
+  const onClose = useCallback(() => router.back(), [router]);
+
+  return <ProjectModal project={project} onClose={onClose} />;
+}
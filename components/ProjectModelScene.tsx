@@ -0,0 +1,115 @@
+'use client';
+
+import { Suspense, useEffect, useMemo, useRef } from 'react';
+import { Canvas, useLoader } from '@react-three/fiber';
+import { Bounds, OrbitControls, useBounds } from '@react-three/drei';
+import type { Mesh } from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { detectDeviceCapabilities, getLODSettings, type LODSettings } from '@/lib/device-detector';
+
+const SHADOW_MAP_SIZES: Record<Exclude<LODSettings['shadowQuality'], 'none'>, number> = {
+  low: 512,
+  medium: 1024,
+  high: 2048,
+};
+
+export interface ProjectModelSceneProps {
+  /** A .glb or .gltf file */
+  modelUrl: string;
+  onProgress: (loaded: number, total: number) => void;
+  onLoad: () => void;
+  /** Changing it moves the camera back to frame the whole model */
+  resetCount: number;
+}
+
+interface ModelProps extends Omit<ProjectModelSceneProps, 'resetCount'> {
+  shadows: boolean;
+}
+
+function Model({ modelUrl, shadows, onProgress, onLoad }: ModelProps) {
+  // Suspends until loaded; a failed request throws to the viewer's error boundary
+  const gltf = useLoader(GLTFLoader, modelUrl, undefined, (event) =>
+    onProgress(event.loaded, event.total)
+  );
+
+  useEffect(() => {
+    gltf.scene.traverse((object) => {
+      if ((object as Mesh).isMesh) {
+        object.castShadow = shadows;
+        object.receiveShadow = shadows;
+      }
+    });
+    onLoad();
+  }, [gltf, shadows, onLoad]);
+
+  return <primitive object={gltf.scene} />;
+}
+
+function CameraReset({ resetCount }: { resetCount: number }) {
+  const bounds = useBounds();
+  const handled = useRef(resetCount);
+
+  useEffect(() => {
+    if (handled.current === resetCount) return;
+    handled.current = resetCount;
+    bounds.refresh().clip().fit();
+  }, [bounds, resetCount]);
+
+  return null;
+}
+
+/**
+ * Canvas for one project model: framed to its bounds when it loads, with
+ * orbit and zoom. Pixel ratio, antialiasing and shadows follow the device's
+ * LOD settings.
+ */
+export default function ProjectModelScene({
+  modelUrl,
+  onProgress,
+  onLoad,
+  resetCount,
+}: ProjectModelSceneProps) {
+  const lodSettings = useMemo(() => {
+    const deviceCaps = detectDeviceCapabilities();
+    return getLODSettings(deviceCaps.recommendedQuality, deviceCaps.devicePixelRatio);
+  }, []);
+  const { shadowQuality } = lodSettings;
+  const shadowMapSize = shadowQuality === 'none' ? 0 : SHADOW_MAP_SIZES[shadowQuality];
+
+  return (
+    <Canvas
+      className="w-full h-full cursor-grab active:cursor-grabbing"
+      gl={{
+        antialias: lodSettings.antialias,
+        alpha: true,
+        failIfMajorPerformanceCaveat: false,
+      }}
+      dpr={[1, lodSettings.pixelRatio]}
+      shadows={shadowMapSize > 0}
+      camera={{ position: [10, 8, 10], fov: 45 }}
+    >
+      <ambientLight intensity={0.6} />
+      <hemisphereLight args={['#ffffff', '#444444', 0.4]} />
+      <directionalLight
+        position={[10, 20, 10]}
+        intensity={1.2}
+        castShadow={shadowMapSize > 0}
+        {...(shadowMapSize > 0 && { 'shadow-mapSize': [shadowMapSize, shadowMapSize] })}
+      />
+
+      <Suspense fallback={null}>
+        <Bounds fit clip observe margin={1.2}>
+          <Model
+            modelUrl={modelUrl}
+            shadows={shadowMapSize > 0}
+            onProgress={onProgress}
+            onLoad={onLoad}
+          />
+          <CameraReset resetCount={resetCount} />
+        </Bounds>
+      </Suspense>
+
+      <OrbitControls makeDefault enableDamping enablePan={false} />
+    </Canvas>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { useState, type ReactNode } from 'react';
+import dynamic from 'next/dynamic';
+import Scene3DErrorBoundary from './Scene3DErrorBoundary';
+import Scene3DLoader from './Scene3DLoader';
+import { use3DLoadingProgress } from '@/hooks/use3DLoadingProgress';
+
+// three.js is only downloaded once someone opens a 3D view
+const ProjectModelScene = dynamic(() => import('./ProjectModelScene'), {
+  ssr: false,
+  loading: () => <Scene3DLoader progress={0} label="Loading 3D viewer..." />,
+});
+
+interface ProjectModelViewerProps {
+  modelUrl: string;
+  title: string;
+  /** Shown instead when the model cannot be loaded or drawn, usually the gallery */
+  fallback: ReactNode;
+  className?: string;
+}
+
+/**
+ * Interactive view of a project's GLB model with download progress, orbit,
+ * zoom and a button to reset the camera
+ */
+export default function ProjectModelViewer({
+  modelUrl,
+  title,
+  fallback,
+  className = 'aspect-[4/3]',
+}: ProjectModelViewerProps) {
+  const { loadingState, onProgress, onLoad } = use3DLoadingProgress();
+  const [resetCount, setResetCount] = useState(0);
+
+  return (
+    <Scene3DErrorBoundary
+      fallback={
+        <div>
+          <p role="status" className="px-4 py-2 text-sm text-gray-300 bg-gray-900">
+            The 3D model could not be loaded, so here are the photos instead.
+          </p>
+          {fallback}
+        </div>
+      }
+    >
+      <div
+        aria-label={`3D model of ${title}`}
+        className={`relative w-full bg-gradient-to-b from-gray-900 to-black ${className}`}
+      >
+        <ProjectModelScene
+          modelUrl={modelUrl}
+          onProgress={onProgress}
+          onLoad={onLoad}
+          resetCount={resetCount}
+        />
+
+        {loadingState.isLoading ? (
+          <Scene3DLoader progress={loadingState.progress} label="Loading 3D model..." />
+        ) : (
+          <>
+            <p className="absolute top-4 left-1/2 -translate-x-1/2 text-gold text-xs sm:text-sm bg-black/50 px-4 py-2 rounded-full backdrop-blur-sm pointer-events-none">
+              Drag to orbit • Scroll or pinch to zoom
+            </p>
+            <button
+              onClick={() => setResetCount((count) => count + 1)}
+              className="absolute bottom-4 right-4 px-4 py-2 bg-black/60 hover:bg-gold hover:text-black text-white text-sm font-semibold rounded-full transition-colors"
+              style={{ minHeight: '44px' }}
+            >
+              Reset view
+            </button>
+          </>
+        )}
+      </div>
+    </Scene3DErrorBoundary>
+  );
+}
@@ -1,32 +1,108 @@
 'use client';
 
-import { useState } from 'react';
-import { PROJECTS } from '@/lib/constants';
+import { Suspense } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import { ProjectCategory } from '@/types';
 import ProjectCard from './ProjectCard';
-import ProjectModal from './ProjectModal';
+import { useProjectPages } from '@/hooks/useProjectPages';
 import { getContainerPaddingClasses, getSectionSpacingClasses } from '@/lib/breakpoints';
+import { PROJECT_PAGE_SIZE, type ProjectPageResponse } from '@/lib/projects/contract';
+import {
+  AREA_BANDS,
+  EMPTY_PROJECT_FILTERS,
+  PROJECT_SORTS,
+  PROJECT_SORT_LABELS,
+  hasProjectFilters,
+  parseProjectFilters,
+  projectFiltersToQuery,
+  type FacetCount,
+  type ProjectFilters,
+  type ProjectSort,
+} from '@/lib/projects/search';
 
-const categories: { label: string; value: ProjectCategory | 'all' }[] = [
-  { label: 'All Projects', value: 'all' },
-  { label: 'Residential', value: 'residential' },
-  { label: 'Commercial', value: 'commercial' },
-  { label: 'Industrial', value: 'industrial' },
-  { label: 'Infrastructure', value: 'infrastructure' },
-];
+const categoryLabels: Record<ProjectCategory | 'all', string> = {
+  all: 'All Projects',
+  residential: 'Residential',
+  commercial: 'Commercial',
+  industrial: 'Industrial',
+  infrastructure: 'Infrastructure',
+};
 
-export default function ProjectsShowcase() {
-  const [selectedCategory, setSelectedCategory] = useState<ProjectCategory | 'all'>('all');
-  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
+const areaLabels = Object.fromEntries(AREA_BANDS.map((band) => [band.value, band.label]));
 
-  const filteredProjects =
-    selectedCategory === 'all'
-      ? PROJECTS
-      : PROJECTS.filter((project) => project.category === selectedCategory);
+interface ProjectsShowcaseProps {
+  /** First page without filters, from searchProjects in lib/projects */
+  initialPage: ProjectPageResponse;
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+}
+
+interface FacetGroupProps<T extends string> {
+  legend: string;
+  facets: FacetCount<T>[];
+  selected: T[];
+  label?: (value: T) => string;
+  onToggle: (value: T) => void;
+}
+
+function FacetGroup<T extends string>({
+  legend,
+  facets,
+  selected,
+  label = (value) => value.replace(/-/g, ' '),
+  onToggle,
+}: FacetGroupProps<T>) {
+  return (
+    <fieldset>
+      <legend className="text-sm font-semibold text-gray-700 mb-2">{legend}</legend>
+      <div className="flex flex-wrap gap-2">
+        {facets.map(({ value, count }) => {
+          const isSelected = selected.includes(value);
+          return (
+            <button
+              key={value}
+              type="button"
+              aria-pressed={isSelected}
+              // Nothing to add when no result has it, but a selected value can always be cleared
+              disabled={count === 0 && !isSelected}
+              onClick={() => onToggle(value)}
+              className={`px-3 py-1 rounded-full text-sm transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${
+                isSelected
+                  ? 'bg-gold text-black font-semibold'
+                  : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-100'
+              }`}
+            >
+              {label(value)} <span className="text-xs opacity-70">({count})</span>
+            </button>
+          );
+        })}
+      </div>
+    </fieldset>
+  );
+}
+
+interface ProjectsBrowserProps {
+  filters: ProjectFilters;
+  /** Push a new history entry, or replace the current one while typing */
+  onChange: (filters: ProjectFilters, options?: { replace?: boolean }) => void;
+  results: Pick<ReturnType<typeof useProjectPages>, 'page' | 'status' | 'loadMore' | 'retry'>;
+}
 
-  const selectedProject = selectedProjectId
-    ? PROJECTS.find((p) => p.id === selectedProjectId)
-    : null;
+function ProjectsBrowser({ filters, onChange, results }: ProjectsBrowserProps) {
+  const router = useRouter();
+  const { page, status } = results;
+  const { facets } = page;
+  const isFiltered = hasProjectFilters(filters);
+
+  const update = (changes: Partial<ProjectFilters>) => onChange({ ...filters, ...changes });
+  const clear = () => onChange(EMPTY_PROJECT_FILTERS);
+  const yearOption = ({ value, count }: FacetCount<number>) => (
+    <option key={value} value={value}>
+      {value} ({count})
+    </option>
+  );
 
   return (
     <section id="projects" className={`min-h-screen bg-gray-50 ${getSectionSpacingClasses()}`}>
@@ -37,31 +113,148 @@ export default function ProjectsShowcase() {
             Our <span className="text-gold">Projects</span>
           </h2>
           <p className="text-gray-600 text-base sm:text-lg max-w-2xl mx-auto px-4">
-            Explore our portfolio of completed projects showcasing excellence in construction
-            and design across various sectors.
+            Explore our portfolio of completed projects showcasing excellence in construction and
+            design across various sectors.
           </p>
         </div>
 
+        {/* Search */}
+        <div className="max-w-xl mx-auto mb-6 px-2">
+          <label htmlFor="project-search" className="sr-only">
+            Search projects
+          </label>
+          <input
+            id="project-search"
+            type="search"
+            value={filters.query}
+            onChange={(e) => onChange({ ...filters, query: e.target.value }, { replace: true })}
+            placeholder="Search by name, location or client"
+            className="w-full px-5 py-3 rounded-full border border-gray-300 bg-white text-gray-900 focus:outline-none focus:ring-2 focus:ring-gold"
+          />
+        </div>
+
         {/* Category Filter */}
-        <div className="flex flex-wrap justify-center gap-2 sm:gap-4 mb-10 md:mb-12 px-2">
-          {categories.map((category) => (
-            <button
-              key={category.value}
-              onClick={() => setSelectedCategory(category.value)}
-              className={`px-4 sm:px-6 py-2 rounded-full font-semibold transition-all duration-300 text-sm sm:text-base ${
-                selectedCategory === category.value
-                  ? 'bg-gold text-black shadow-lg scale-105'
-                  : 'bg-white text-gray-700 hover:bg-gray-100 hover:scale-105'
-              }`}
+        <div className="flex flex-wrap justify-center gap-2 sm:gap-4 mb-8 px-2">
+          {(['all', ...facets.categories.map((facet) => facet.value)] as const).map((value) => {
+            const count =
+              value === 'all'
+                ? facets.categories.reduce((total, facet) => total + facet.count, 0)
+                : facets.categories.find((facet) => facet.value === value)?.count;
+            return (
+              <button
+                key={value}
+                aria-pressed={filters.category === value}
+                onClick={() => update({ category: value })}
+                className={`px-4 sm:px-6 py-2 rounded-full font-semibold transition-all duration-300 text-sm sm:text-base ${
+                  filters.category === value
+                    ? 'bg-gold text-black shadow-lg scale-105'
+                    : 'bg-white text-gray-700 hover:bg-gray-100 hover:scale-105'
+                }`}
+              >
+                {categoryLabels[value]} <span className="text-xs opacity-70">({count})</span>
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Facets */}
+        <details
+          className="mb-8 rounded-lg bg-white/60 border border-gray-200 p-4"
+          open={isFiltered}
+        >
+          <summary className="cursor-pointer font-semibold text-gray-800">More filters</summary>
+          <div className="mt-4 grid gap-6 md:grid-cols-2">
+            <FacetGroup
+              legend="Tags"
+              facets={facets.tags}
+              selected={filters.tags}
+              onToggle={(tag) => update({ tags: toggle(filters.tags, tag) })}
+            />
+            <FacetGroup
+              legend="Locality"
+              facets={facets.localities}
+              selected={filters.localities}
+              label={(locality) => locality}
+              onToggle={(locality) => update({ localities: toggle(filters.localities, locality) })}
+            />
+            <FacetGroup
+              legend="Area"
+              facets={facets.areas}
+              selected={filters.areas}
+              label={(area) => areaLabels[area]}
+              onToggle={(area) => update({ areas: toggle(filters.areas, area) })}
+            />
+            <fieldset>
+              <legend className="text-sm font-semibold text-gray-700 mb-2">Completed</legend>
+              <div className="flex items-center gap-2 text-sm text-gray-700">
+                <label htmlFor="project-year-from">From</label>
+                <select
+                  id="project-year-from"
+                  value={filters.yearFrom ?? ''}
+                  onChange={(e) =>
+                    update({ yearFrom: e.target.value ? Number(e.target.value) : undefined })
+                  }
+                  className="px-3 py-1 rounded border border-gray-300 bg-white"
+                >
+                  <option value="">Any</option>
+                  {facets.years.map(yearOption)}
+                </select>
+                <label htmlFor="project-year-to">to</label>
+                <select
+                  id="project-year-to"
+                  value={filters.yearTo ?? ''}
+                  onChange={(e) =>
+                    update({ yearTo: e.target.value ? Number(e.target.value) : undefined })
+                  }
+                  className="px-3 py-1 rounded border border-gray-300 bg-white"
+                >
+                  <option value="">Any</option>
+                  {facets.years.map(yearOption)}
+                </select>
+              </div>
+            </fieldset>
+          </div>
+        </details>
+
+        {/* Result Summary */}
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6 px-2 text-sm text-gray-600">
+          <p aria-live="polite">
+            {status === 'loading' && page.projects.length === 0
+              ? 'Loading projects…'
+              : `Showing ${page.projects.length} of ${page.total} projects`}
+          </p>
+          <div className="flex items-center gap-4">
+            {isFiltered && (
+              <button onClick={clear} className="font-semibold text-gray-900 hover:text-gold">
+                Clear filters
+              </button>
+            )}
+            <label htmlFor="project-sort" className="sr-only">
+              Sort projects
+            </label>
+            <select
+              id="project-sort"
+              value={filters.sort}
+              onChange={(e) => update({ sort: e.target.value as ProjectSort })}
+              className="px-3 py-1 rounded border border-gray-300 bg-white text-gray-900"
             >
-              {category.label}
-            </button>
-          ))}
+              {PROJECT_SORTS.map((sort) => (
+                <option key={sort} value={sort}>
+                  {PROJECT_SORT_LABELS[sort]}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
 
         {/* Masonry Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6 auto-rows-auto">
-          {filteredProjects.map((project, index) => (
+        <div
+          aria-busy={status === 'loading'}
+          className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6 auto-rows-auto transition-opacity duration-300 ${
+            status === 'loading' ? 'opacity-60' : ''
+          }`}
+        >
+          {page.projects.map((project, index) => (
             <div
               key={project.id}
               className={`${
@@ -69,33 +262,60 @@ export default function ProjectsShowcase() {
                 index % 5 === 0 ? 'md:row-span-2' : ''
               }`}
               style={{
-                animation: `fadeInUp 0.6s ease-out ${index * 0.1}s both`,
+                // Cards added by "Load more" fade in from the first new one
+                animation: `fadeInUp 0.6s ease-out ${(index % PROJECT_PAGE_SIZE) * 0.1}s both`,
               }}
             >
               <ProjectCard
                 project={project}
-                onClick={(id) => setSelectedProjectId(id)}
+                // Intercepted by @modal/(.)projects, so this opens the modal at the deep link
+                onClick={(id) => router.push(`/projects/${id}`, { scroll: false })}
               />
             </div>
           ))}
         </div>
 
+        {/* Load More */}
+        {status === 'error' ? (
+          <div role="alert" className="text-center mt-10">
+            <p className="text-gray-600 mb-4">We could not load the projects.</p>
+            <button
+              onClick={results.retry}
+              className="px-6 py-2 rounded-full bg-gold text-black font-semibold hover:bg-gold/80"
+            >
+              Try again
+            </button>
+          </div>
+        ) : (
+          page.nextCursor && (
+            <div className="text-center mt-10">
+              <button
+                onClick={results.loadMore}
+                disabled={status === 'loading'}
+                className="px-8 py-3 rounded-full bg-white border border-gray-300 font-semibold text-gray-900 hover:bg-gray-100 disabled:opacity-50"
+              >
+                {status === 'loading' ? 'Loading…' : 'Load more projects'}
+              </button>
+            </div>
+          )
+        )}
+
         {/* Empty State */}
-        {filteredProjects.length === 0 && (
+        {status === 'ready' && page.total === 0 && (
           <div className="text-center py-16 md:py-20">
-            <p className="text-gray-500 text-base sm:text-lg">No projects found in this category.</p>
+            <p className="text-gray-500 text-base sm:text-lg mb-4">
+              No projects match these filters.
+            </p>
+            <button
+              onClick={clear}
+              className="px-6 py-2 rounded-full bg-gold text-black font-semibold hover:bg-gold/80"
+            >
+              Clear filters
+            </button>
           </div>
         )}
       </div>
 
-      {/* Project Modal */}
-      {selectedProject && (
-        <ProjectModal
-          project={selectedProject}
-          onClose={() => setSelectedProjectId(null)}
-        />
-      )}
-
       <style jsx>{`
         @keyframes fadeInUp {
           from {
@@ -111,3 +331,41 @@ export default function ProjectsShowcase() {
     </section>
   );
 }
+
+/**
+ * Filters read from and written to the query string. The history API calls
+ * are picked up by useSearchParams without a round trip to the server; the
+ * results for them are fetched from GET /api/projects.
+ */
+function UrlProjectsBrowser({ initialPage }: ProjectsShowcaseProps) {
+  const pathname = usePathname();
+  const filters = parseProjectFilters(new URLSearchParams(useSearchParams().toString()));
+  const results = useProjectPages(filters, initialPage);
+
+  const onChange: ProjectsBrowserProps['onChange'] = (next, options) => {
+    const query = projectFiltersToQuery(next);
+    const url = `${pathname}${query ? `?${query}` : ''}#projects`;
+    if (options?.replace) window.history.replaceState(null, '', url);
+    else window.history.pushState(null, '', url);
+  };
+
+  return <ProjectsBrowser filters={filters} onChange={onChange} results={results} />;
+}
+
+export default function ProjectsShowcase({ initialPage }: ProjectsShowcaseProps) {
+  return (
+    // useSearchParams skips prerendering up to the nearest Suspense boundary;
+    // the fallback keeps the first page of the portfolio in the static HTML
+    <Suspense
+      fallback={
+        <ProjectsBrowser
+          filters={EMPTY_PROJECT_FILTERS}
+          onChange={() => {}}
+          results={{ page: initialPage, status: 'ready', loadMore: () => {}, retry: () => {} }}
+        />
+      }
+    >
+      <UrlProjectsBrowser initialPage={initialPage} />
+    </Suspense>
+  );
+}
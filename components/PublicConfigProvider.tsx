@@ -0,0 +1,20 @@
+'use client';
+
+import { createContext } from 'react';
+import { DEFAULT_PUBLIC_CONFIG, type PublicConfig } from '@/lib/config/public';
+
+/**
+ * Falls back to the defaults, so components also render outside the provider
+ * (e.g. in tests)
+ */
+export const PublicConfigContext = createContext<PublicConfig>(DEFAULT_PUBLIC_CONFIG);
+
+interface PublicConfigProviderProps {
+  /** From getPublicConfig() in a server component */
+  config: PublicConfig;
+  children: React.ReactNode;
+}
+
+export default function PublicConfigProvider({ config, children }: PublicConfigProviderProps) {
+  return <PublicConfigContext value={config}>{children}</PublicConfigContext>;
+}
@@ -2,9 +2,10 @@
 
 interface Scene3DLoaderProps {
   progress: number;
+  label?: string;
 }
 
-export default function Scene3DLoader({ progress }: Scene3DLoaderProps) {
+export default function Scene3DLoader({ progress, label = 'Loading 3D Scene...' }: Scene3DLoaderProps) {
   return (
     <div className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm z-10">
       <div className="text-center">
@@ -23,7 +24,7 @@ export default function Scene3DLoader({ progress }: Scene3DLoaderProps) {
         </div>
 
         {/* Loading text */}
-        <p className="text-gray-400 text-sm">Loading 3D Scene...</p>
+        <p className="text-gray-400 text-sm">{label}</p>
         
         {/* Progress bar */}
         <div className="w-48 h-1 bg-gray-800 rounded-full overflow-hidden mt-4 mx-auto">
@@ -0,0 +1,144 @@
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+import { useFormChallenge } from '@/hooks/useFormChallenge';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
+import { submitContactForm, type ContactFieldErrors, type ContactFormData } from '@/lib/contact';
+import { createIdempotencyKey } from '@/lib/idempotency/key';
+import { clientLogger } from '@/lib/logging/client';
+import type { QueueEvent } from '@/lib/offline';
+
+export type SubmitStatus = 'idle' | 'success' | 'error' | 'queued';
+
+/**
+ * Sends a validated inquiry for ContactForm and InquiryWizard: the form token,
+ * proof of work and honeypot for bot screening, one idempotency key per form
+ * fill, server rejections mapped to field errors, and the offline queue when
+ * the network is down.
+ *
+ * `onClear` runs once the inquiry was sent or queued so the form can drop its
+ * fields. `submit` resolves to the server's field errors when it rejected the
+ * inquiry, and to null otherwise.
+ */
+export function useContactSubmission(onClear: () => void) {
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitStatus, setSubmitStatus] = useState<SubmitStatus>('idle');
+  const [honeypot, setHoneypot] = useState('');
+  const [submissionId, setSubmissionId] = useState('');
+  const challenge = useFormChallenge();
+
+  // One key per form fill, sent with every attempt so a retry never creates a second inquiry
+  const idempotencyKeyRef = useRef<string | null>(null);
+  // Key of the submission waiting in the offline queue, if any
+  const queuedKeyRef = useRef<string | null>(null);
+
+  const offlineQueue = useOfflineQueue(
+    useCallback((event: QueueEvent) => {
+      if (event.key !== queuedKeyRef.current) return;
+      queuedKeyRef.current = null;
+
+      if (event.type === 'contact-queue:sent') {
+        setSubmissionId(event.submissionId);
+        setSubmitStatus('success');
+      } else {
+        setErrors({ submit: event.message });
+        setSubmitStatus('error');
+      }
+    }, [])
+  );
+
+  // Tokens and keys are per form fill; the next fill starts fresh
+  const finish = () => {
+    challenge.reset();
+    idempotencyKeyRef.current = null;
+    setErrors({});
+    onClear();
+  };
+
+  /**
+   * Keep a submission that could not be sent for the service worker to send
+   * once the connection is back. Returns false when it could not be queued.
+   */
+  const queueForLater = async (
+    data: ContactFormData,
+    attachments: File[],
+    idempotencyKey: string
+  ) => {
+    if (!offlineQueue.supported) return false;
+
+    try {
+      await offlineQueue.enqueue({
+        key: idempotencyKey,
+        fields: { ...data, website: honeypot || undefined },
+        attachments,
+        queuedAt: Date.now(),
+      });
+    } catch (error) {
+      clientLogger.error('Could not queue form submission', { error });
+      return false;
+    }
+
+    queuedKeyRef.current = idempotencyKey;
+    finish();
+    setSubmitStatus('queued');
+    return true;
+  };
+
+  const submit = async (
+    data: ContactFormData,
+    attachments: File[]
+  ): Promise<ContactFieldErrors | null> => {
+    if (!idempotencyKeyRef.current) {
+      idempotencyKeyRef.current = createIdempotencyKey();
+    }
+    const idempotencyKey = idempotencyKeyRef.current;
+
+    setIsSubmitting(true);
+    setSubmitStatus('idle');
+
+    try {
+      const proof = await challenge.getProof();
+      const result = await submitContactForm(
+        data,
+        { ...proof, website: honeypot || undefined },
+        attachments,
+        idempotencyKey
+      );
+
+      if (!result.ok) {
+        // Show server-side field errors under their inputs, plus the summary banner
+        setErrors({ ...result.fieldErrors, submit: result.message });
+        setSubmitStatus('error');
+        return result.fieldErrors;
+      }
+
+      finish();
+      setSubmissionId(result.submissionId);
+      setSubmitStatus('success');
+    } catch (error) {
+      clientLogger.error('Form submission failed', { error });
+      if (await queueForLater(data, attachments, idempotencyKey)) {
+        return null;
+      }
+      setErrors({ submit: 'Network error. Please check your connection and try again.' });
+      setSubmitStatus('error');
+    } finally {
+      setIsSubmitting(false);
+    }
+    return null;
+  };
+
+  return {
+    errors,
+    setErrors,
+    isSubmitting,
+    submitStatus,
+    setSubmitStatus,
+    submissionId,
+    honeypot,
+    setHoneypot,
+    startChallenge: challenge.start,
+    submit,
+  };
+}
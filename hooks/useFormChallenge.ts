@@ -0,0 +1,53 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { fetchContactChallenge, type ContactBotFields } from '@/lib/contact';
+import { solveProofOfWork } from '@/lib/spam/proof-of-work';
+
+/**
+ * Fetches a signed form token when the visitor starts filling in the form and
+ * solves its proof-of-work challenge in the background while they type.
+ *
+ * Failures resolve to empty fields instead of throwing, so a blocked challenge
+ * request never prevents the visitor from submitting; the server decides.
+ */
+export function useFormChallenge() {
+  const proofRef = useRef<Promise<ContactBotFields> | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const start = useCallback(() => {
+    if (proofRef.current) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    proofRef.current = (async (): Promise<ContactBotFields> => {
+      const challenge = await fetchContactChallenge();
+      const powSolution =
+        challenge.difficulty > 0
+          ? await solveProofOfWork(challenge.token, challenge.difficulty, controller.signal)
+          : undefined;
+      return { formToken: challenge.token, powSolution };
+    })().catch(() => {
+      // Allow the next interaction to retry
+      proofRef.current = null;
+      return {};
+    });
+  }, []);
+
+  const getProof = useCallback(
+    async (): Promise<ContactBotFields> => (proofRef.current ? proofRef.current : {}),
+    []
+  );
+
+  // Tokens are per form fill; drop the used one so the next fill gets a fresh one
+  const reset = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    proofRef.current = null;
+  }, []);
+
+  return { start, getProof, reset };
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { z } from 'zod';
+import { STORAGE_KEYS } from '@/lib/constants';
+import {
+  EMPTY_INQUIRY_DRAFT,
+  INQUIRY_STEPS,
+  type InquiryDraft,
+  type InquiryStep,
+} from '@/lib/contact';
+
+// Drafts older than this are treated as abandoned
+const DRAFT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Loose on purpose: values are re-validated per step, this only guards against corrupt storage
+const storedDraftSchema = z.object({
+  version: z.literal(1),
+  savedAt: z.number(),
+  step: z.enum(INQUIRY_STEPS),
+  draft: z.object({
+    fields: z.record(z.string(), z.string()),
+    details: z.record(z.string(), z.string()),
+  }),
+});
+
+interface StoredState {
+  step: InquiryStep;
+  draft: InquiryDraft;
+  restored: boolean;
+}
+
+function loadDraft(): StoredState {
+  const empty: StoredState = { step: 'contact', draft: EMPTY_INQUIRY_DRAFT, restored: false };
+
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEYS.inquiryDraft);
+    if (!raw) return empty;
+
+    const stored = storedDraftSchema.safeParse(JSON.parse(raw));
+    if (!stored.success || Date.now() - stored.data.savedAt > DRAFT_MAX_AGE_MS) {
+      window.localStorage.removeItem(STORAGE_KEYS.inquiryDraft);
+      return empty;
+    }
+
+    return {
+      step: stored.data.step,
+      draft: {
+        fields: { ...EMPTY_INQUIRY_DRAFT.fields, ...stored.data.draft.fields },
+        details: stored.data.draft.details,
+      },
+      restored: true,
+    };
+  } catch {
+    // Storage disabled or unreadable; start fresh
+    return empty;
+  }
+}
+
+/**
+ * Wizard state that autosaves to localStorage and is restored when the
+ * visitor comes back. Files cannot be serialized, so attachments are not saved.
+ *
+ * Reads storage during the first render, so the component using it must be
+ * rendered client-side only (e.g. through `dynamic(..., { ssr: false })`).
+ */
+export function useInquiryDraft() {
+  const [state, setState] = useState<StoredState>(loadDraft);
+
+  useEffect(() => {
+    const isEmpty =
+      Object.values(state.draft.fields).every((value) => !value) &&
+      Object.values(state.draft.details).every((value) => !value);
+
+    try {
+      if (isEmpty) {
+        window.localStorage.removeItem(STORAGE_KEYS.inquiryDraft);
+      } else {
+        window.localStorage.setItem(
+          STORAGE_KEYS.inquiryDraft,
+          JSON.stringify({ version: 1, savedAt: Date.now(), step: state.step, draft: state.draft })
+        );
+      }
+    } catch {
+      // Quota exceeded or storage disabled; the wizard still works without autosave
+    }
+  }, [state.draft, state.step]);
+
+  const setDraft = useCallback((update: (draft: InquiryDraft) => InquiryDraft) => {
+    setState((prev) => ({ ...prev, draft: update(prev.draft) }));
+  }, []);
+
+  const setStep = useCallback((step: InquiryStep) => {
+    setState((prev) => ({ ...prev, step }));
+  }, []);
+
+  const clear = useCallback(() => {
+    setState({ step: 'contact', draft: EMPTY_INQUIRY_DRAFT, restored: false });
+  }, []);
+
+  return {
+    draft: state.draft,
+    step: state.step,
+    restored: state.restored,
+    setDraft,
+    setStep,
+    clear,
+  };
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import { useEffect } from 'react';
+import { INQUIRY_PREFILL_EVENT, type InquiryPrefill } from '@/lib/estimator';
+
+/**
+ * Call `onPrefill` whenever another section, such as the cost estimator,
+ * hands values to the contact form
+ */
+export function useInquiryPrefill(onPrefill: (prefill: InquiryPrefill) => void) {
+  useEffect(() => {
+    const listener = (event: Event) => onPrefill((event as CustomEvent<InquiryPrefill>).detail);
+    window.addEventListener(INQUIRY_PREFILL_EVENT, listener);
+    return () => window.removeEventListener(INQUIRY_PREFILL_EVENT, listener);
+  }, [onPrefill]);
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { clientLogger } from '@/lib/logging/client';
+import {
+  countQueuedSubmissions,
+  isOfflineQueueSupported,
+  queueSubmission,
+  registerServiceWorker,
+  requestQueueFlush,
+  subscribeToQueueEvents,
+  type QueueEvent,
+  type QueuedSubmission,
+} from '@/lib/offline';
+
+function flushQueue() {
+  requestQueueFlush().catch((error) => {
+    clientLogger.warn('Could not request offline queue flush', { error });
+  });
+}
+
+/**
+ * Registers the service worker that sends queued contact submissions and
+ * nudges it whenever the browser comes back online. Used once by the section
+ * holding the forms, so the worker runs whichever form the visitor picks.
+ */
+export function useServiceWorker() {
+  useEffect(() => {
+    if (!isOfflineQueueSupported()) return;
+
+    let active = true;
+    registerServiceWorker()
+      .then(async () => {
+        // Send anything left from an earlier visit in browsers without Background Sync
+        if (active && navigator.onLine && (await countQueuedSubmissions()) > 0) flushQueue();
+      })
+      .catch((error) => {
+        clientLogger.warn('Service worker registration failed', { error });
+      });
+
+    window.addEventListener('online', flushQueue);
+    return () => {
+      active = false;
+      window.removeEventListener('online', flushQueue);
+    };
+  }, []);
+}
+
+/**
+ * Queues contact submissions for the worker registered by `useServiceWorker`
+ * and reports the outcome of queued submissions to `onEvent`.
+ *
+ * `supported` stays false until the worker is active, and always in browsers
+ * without service workers or IndexedDB, where failed submissions cannot be
+ * queued.
+ */
+export function useOfflineQueue(onEvent: (event: QueueEvent) => void) {
+  const [supported, setSupported] = useState(false);
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!isOfflineQueueSupported()) return;
+
+    let active = true;
+    navigator.serviceWorker.ready.then(() => {
+      if (active) setSupported(true);
+    });
+
+    const unsubscribe = subscribeToQueueEvents((event) => onEventRef.current(event));
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const enqueue = useCallback(async (submission: QueuedSubmission) => {
+    await queueSubmission(submission);
+    flushQueue();
+  }, []);
+
+  return { supported, enqueue };
+}
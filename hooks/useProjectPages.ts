@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { clientLogger } from '@/lib/logging/client';
+import { fetchProjectPage } from '@/lib/projects/client';
+import type { ProjectPageResponse } from '@/lib/projects/contract';
+import {
+  parseProjectFilters,
+  projectFiltersToQuery,
+  type ProjectFilters,
+} from '@/lib/projects/search';
+
+// Long enough that typing a word fetches once
+const FETCH_DELAY_MS = 200;
+
+interface PagesState {
+  /** Query string of the filters the pages are for */
+  key: string;
+  page: ProjectPageResponse;
+  status: 'ready' | 'loading' | 'error';
+  /** Filters whose first page failed to load */
+  failedKey?: string;
+}
+
+/**
+ * The project grid's results for the filters, a page at a time. Starts from
+ * `initialPage`, the unfiltered first page rendered with the site, fetches
+ * the first page again when the filters change and appends the next one on
+ * loadMore. Responses for filters that have since changed are dropped.
+ *
+ * While new filters load, the previous results stay with status 'loading'.
+ */
+export function useProjectPages(filters: ProjectFilters, initialPage: ProjectPageResponse) {
+  const key = projectFiltersToQuery(filters);
+  const [state, setState] = useState<PagesState>({ key: '', page: initialPage, status: 'ready' });
+  const [attempt, setAttempt] = useState(0);
+
+  const current: PagesState =
+    state.key === key
+      ? state
+      : key === ''
+        ? { key, page: initialPage, status: 'ready' }
+        : { ...state, status: state.failedKey === key ? 'error' : 'loading' };
+
+  useEffect(() => {
+    if (key === '' || state.key === key) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetchProjectPage(parseProjectFilters(new URLSearchParams(key)), {
+        signal: controller.signal,
+      })
+        .then((page) => setState({ key, page, status: 'ready' }))
+        .catch((error) => {
+          if (controller.signal.aborted) return;
+          clientLogger.error('Loading projects failed', { error });
+          setState((previous) => ({ ...previous, failedKey: key }));
+        });
+    }, FETCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [key, state.key, attempt]);
+
+  const loadMore = () => {
+    const { key: pagesKey, page } = current;
+    if (!page.nextCursor || current.status === 'loading') return;
+
+    setState({ ...current, status: 'loading' });
+    fetchProjectPage(parseProjectFilters(new URLSearchParams(pagesKey)), {
+      cursor: page.nextCursor,
+    })
+      .then((next) =>
+        setState((previous) =>
+          previous.key === pagesKey
+            ? {
+                key: pagesKey,
+                page: { ...next, projects: [...previous.page.projects, ...next.projects] },
+                status: 'ready',
+              }
+            : previous
+        )
+      )
+      .catch((error) => {
+        clientLogger.error('Loading more projects failed', { error });
+        setState((previous) =>
+          previous.key === pagesKey ? { ...previous, status: 'error' } : previous
+        );
+      });
+  };
+
+  const retry = () => {
+    if (current.key === key) {
+      loadMore();
+      return;
+    }
+    // A failed first page leaves the effect nothing new to react to
+    setState((previous) => ({ ...previous, failedKey: undefined }));
+    setAttempt((value) => value + 1);
+  };
+
+  return { ...current, loadMore, retry };
+}
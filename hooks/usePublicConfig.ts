@@ -0,0 +1,12 @@
+'use client';
+
+import { useContext } from 'react';
+import { PublicConfigContext } from '@/components/PublicConfigProvider';
+import type { PublicConfig } from '@/lib/config/public';
+
+/**
+ * Company contact details and feature toggles, as configured on the server
+ */
+export function usePublicConfig(): PublicConfig {
+  return useContext(PublicConfigContext);
+}
@@ -0,0 +1,15 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { detectWebGLSupport } from '@/lib/webgl-detector';
+
+// Support does not change while the page is open
+const subscribe = () => () => {};
+
+/**
+ * Whether the browser can draw WebGL. False on the server and during
+ * hydration, so 3D controls appear once the browser has been asked.
+ */
+export function useWebGLSupport(): boolean {
+  return useSyncExternalStore(subscribe, detectWebGLSupport, () => false);
+}
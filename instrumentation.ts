@@ -0,0 +1,11 @@
+/**
+ * Runs once when a server instance starts. Validating the configuration here
+ * stops a misconfigured deploy before it takes traffic, with every invalid
+ * variable listed, instead of failing on the first request that needs one.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getConfig } = await import('./lib/config');
+    getConfig();
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Admin Request Authentication
+ *
+ * Reads the admin session cookie in server components and route handlers.
+ */
+
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import type { NextRequest } from 'next/server';
+import { ADMIN_SESSION_COOKIE, verifyAdminSession, type AdminSession } from './session';
+
+export const ADMIN_LOGIN_PATH = '/admin/login';
+
+/**
+ * Session of the signed-in admin, or null
+ */
+export async function getAdminSession(): Promise<AdminSession | null> {
+  const cookieStore = await cookies();
+  return verifyAdminSession(cookieStore.get(ADMIN_SESSION_COOKIE)?.value);
+}
+
+/**
+ * Session of the signed-in admin; sends everyone else to the login page
+ */
+export async function requireAdminSession(): Promise<AdminSession> {
+  const session = await getAdminSession();
+  if (!session) redirect(ADMIN_LOGIN_PATH);
+  return session;
+}
+
+/**
+ * Session carried by an API request, or null
+ */
+export function adminSessionFromRequest(request: NextRequest): AdminSession | null {
+  return verifyAdminSession(request.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+}
@@ -0,0 +1,47 @@
+/**
+ * Lead CSV Export
+ *
+ * Renders leads as RFC 4180 CSV with a UTF-8 byte order mark, so spreadsheet
+ * apps pick up the encoding of names and addresses correctly. Cells that would
+ * be read as formulas are escaped, see lib/encoding/csv.
+ */
+
+import { PROJECT_DETAIL_FIELDS, type ProjectDetailField } from '@/lib/contact/contract';
+import { toCsvRow } from '@/lib/encoding/csv';
+import { LEAD_STATUS_LABELS, type Lead } from '@/lib/leads/types';
+
+const COLUMNS: [string, (lead: Lead) => string][] = [
+  ['Submission ID', (lead) => lead.submissionId],
+  ['Received', (lead) => lead.createdAt],
+  ['Status', (lead) => LEAD_STATUS_LABELS[lead.status]],
+  ['Name', (lead) => lead.submission.name],
+  ['Email', (lead) => lead.submission.email],
+  ['Phone', (lead) => lead.submission.phone],
+  ['Project Type', (lead) => lead.submission.projectType],
+  ['Budget', (lead) => lead.submission.budget],
+  ['Message', (lead) => lead.submission.message],
+  ['Project Details', (lead) => formatDetails(lead)],
+  ['Attachments', (lead) => lead.attachments.map((file) => file.fileName).join('; ')],
+  [
+    'Notes',
+    (lead) =>
+      lead.notes.map((note) => `[${note.createdAt} ${note.author}] ${note.body}`).join('\n'),
+  ],
+];
+
+function formatDetails(lead: Lead): string {
+  return Object.entries(lead.submission.projectDetails ?? {})
+    .map(([field, value]) => {
+      const { label, unit } = PROJECT_DETAIL_FIELDS[field as ProjectDetailField];
+      return `${label}: ${unit ? `${value} ${unit}` : value}`;
+    })
+    .join('; ');
+}
+
+export function leadsToCsv(leads: Lead[]): string {
+  const rows = [
+    toCsvRow(COLUMNS.map(([header]) => header)),
+    ...leads.map((lead) => toCsvRow(COLUMNS.map(([, read]) => read(lead)))),
+  ];
+  return `\uFEFF${rows.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,111 @@
+/**
+ * Lead Filters
+ *
+ * Reads the admin dashboard's filter form from URL search params and turns it
+ * into a repository query. Unknown or malformed values are dropped rather
+ * than rejected, so a hand-edited URL still shows a sensible list.
+ */
+
+import { zonedTimeToInstant } from '@/lib/bookings/availability';
+import { BUDGET_RANGES, PROJECT_TYPES } from '@/lib/contact/contract';
+import { LEAD_STATUSES, type LeadQuery, type LeadStatus } from '@/lib/leads/types';
+import { parseIndianPhone } from '@/lib/phone/parse';
+
+export const LEADS_PAGE_SIZE = 50;
+
+export interface LeadFilters {
+  /** Free text search */
+  q?: string;
+  status?: LeadStatus;
+  projectType?: string;
+  budget?: string;
+  /** First day to include, YYYY-MM-DD in the office time zone */
+  from?: string;
+  /** Last day to include, YYYY-MM-DD in the office time zone */
+  to?: string;
+  /** 1-based page number */
+  page: number;
+}
+
+type SearchParamsInput = URLSearchParams | Record<string, string | string[] | undefined>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function readParam(params: SearchParamsInput, key: string): string | undefined {
+  const value = params instanceof URLSearchParams ? params.get(key) : params[key];
+  const first = Array.isArray(value) ? value[0] : value;
+  const trimmed = first?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function oneOf<T extends string>(value: string | undefined, options: readonly T[]): T | undefined {
+  return options.find((option) => option === value);
+}
+
+function isDate(value: string | undefined): value is string {
+  return value !== undefined && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+}
+
+/**
+ * Parse the dashboard filters from a request URL or page search params
+ */
+export function parseLeadFilters(params: SearchParamsInput): LeadFilters {
+  const from = readParam(params, 'from');
+  const to = readParam(params, 'to');
+  const page = Number(readParam(params, 'page'));
+
+  return {
+    q: readParam(params, 'q')?.slice(0, 100),
+    status: oneOf(readParam(params, 'status'), LEAD_STATUSES),
+    projectType: oneOf(readParam(params, 'projectType'), PROJECT_TYPES),
+    budget: oneOf(readParam(params, 'budget'), BUDGET_RANGES),
+    from: isDate(from) ? from : undefined,
+    to: isDate(to) ? to : undefined,
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+}
+
+// Phone numbers are stored in E.164 form, so a number typed any other way is searched in that form
+function searchTerm(q: string | undefined): string | undefined {
+  if (!q) return q;
+  const phone = parseIndianPhone(q);
+  return phone.ok ? phone.e164 : q;
+}
+
+/**
+ * Repository query for the filters. Dates cover whole days in `timeZone`,
+ * with `to` inclusive. Paging is left to the caller.
+ */
+export function toLeadQuery(filters: LeadFilters, timeZone: string): LeadQuery {
+  return {
+    search: searchTerm(filters.q),
+    status: filters.status,
+    projectType: filters.projectType,
+    budget: filters.budget,
+    since: filters.from
+      ? new Date(zonedTimeToInstant(filters.from, 0, timeZone)).toISOString()
+      : undefined,
+    until: filters.to
+      ? new Date(zonedTimeToInstant(filters.to, 24 * 60, timeZone)).toISOString()
+      : undefined,
+  };
+}
+
+/**
+ * Query string for the filters, e.g. for pagination and export links
+ */
+export function leadFiltersToSearchParams(
+  filters: LeadFilters,
+  overrides: Partial<LeadFilters> = {}
+): string {
+  const merged: LeadFilters = { ...filters, ...overrides };
+  const params = new URLSearchParams();
+
+  for (const key of ['q', 'status', 'projectType', 'budget', 'from', 'to'] as const) {
+    const value = merged[key];
+    if (value) params.set(key, value);
+  }
+  if (merged.page > 1) params.set('page', String(merged.page));
+
+  return params.toString();
+}
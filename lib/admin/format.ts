@@ -0,0 +1,25 @@
+/**
+ * Display helpers shared by the admin pages
+ */
+
+import type { LeadStatus } from '@/lib/leads/types';
+
+export const LEAD_STATUS_BADGES: Record<LeadStatus, string> = {
+  new: 'bg-gold/20 text-gold',
+  contacted: 'bg-blue-500/20 text-blue-300',
+  'site-visit': 'bg-purple-500/20 text-purple-300',
+  quoted: 'bg-orange-500/20 text-orange-300',
+  won: 'bg-green-500/20 text-green-300',
+  lost: 'bg-gray-700 text-gray-300',
+};
+
+/**
+ * Date and time in the office time zone, e.g. "19 Oct 2026, 10:00 am"
+ */
+export function formatLeadTime(iso: string, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-IN', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone,
+  }).format(new Date(iso));
+}
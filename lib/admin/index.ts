@@ -0,0 +1,37 @@
+/**
+ * Admin Entry Point (server only)
+ *
+ * Sign-in, filtering and export for the leads dashboard under /admin. The
+ * dashboard is disabled until ADMIN_PASSWORD is set.
+ *
+ * Environment:
+ * - ADMIN_PASSWORD: shared password for the admin area
+ * - ADMIN_SESSION_SECRET: key for signing session cookies, defaults to one derived
+ *   from ADMIN_PASSWORD
+ * - BOOKING_TIME_ZONE: time zone the date filters are applied in
+ */
+
+export {
+  ADMIN_LOGIN_PATH,
+  adminSessionFromRequest,
+  getAdminSession,
+  requireAdminSession,
+} from './auth';
+export { leadsToCsv } from './csv';
+export {
+  LEADS_PAGE_SIZE,
+  leadFiltersToSearchParams,
+  parseLeadFilters,
+  toLeadQuery,
+  type LeadFilters,
+} from './filters';
+export { LEAD_STATUS_BADGES, formatLeadTime } from './format';
+export {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_TTL_MS,
+  checkAdminPassword,
+  isAdminConfigured,
+  issueAdminSession,
+  verifyAdminSession,
+  type AdminSession,
+} from './session';
@@ -0,0 +1,87 @@
+/**
+ * Admin Sessions
+ *
+ * The admin area is protected by a shared password. Signing in issues a
+ * session token carrying the name the team member signed in with (used to
+ * attribute notes) and an expiry, signed with HMAC-SHA256.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { getConfig } from '@/lib/config';
+
+export const ADMIN_SESSION_COOKIE = 'sb_admin_session';
+
+export const ADMIN_SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+export interface AdminSession {
+  /** Name given at sign-in */
+  name: string;
+  /** Epoch ms after which the session is no longer accepted */
+  expiresAt: number;
+}
+
+function getPassword(): string | undefined {
+  return getConfig().admin.password;
+}
+
+// Falls back to the password, so changing it also signs everyone out
+function getSecret(): string {
+  return getConfig().admin.sessionSecret ?? `sb-infra-admin:${getPassword() ?? ''}`;
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac('sha256', getSecret()).update(encodedPayload).digest('base64url');
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * The admin area stays closed until ADMIN_PASSWORD is set
+ */
+export function isAdminConfigured(): boolean {
+  return getPassword() !== undefined;
+}
+
+/**
+ * Compare a sign-in attempt with ADMIN_PASSWORD in constant time
+ */
+export function checkAdminPassword(attempt: string): boolean {
+  const password = getPassword();
+  if (!password) return false;
+
+  // Hash both sides so the comparison does not leak the password length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return safeEqual(digest(attempt), digest(password));
+}
+
+export function issueAdminSession(name: string, now = Date.now()): string {
+  const payload: AdminSession = { name, expiresAt: now + ADMIN_SESSION_TTL_MS };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Return the session a token stands for, or null when it is missing, forged or expired
+ */
+export function verifyAdminSession(
+  token: string | undefined,
+  now = Date.now()
+): AdminSession | null {
+  if (!token || !isAdminConfigured()) return null;
+
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+  if (!safeEqual(Buffer.from(sign(encoded)), Buffer.from(signature))) return null;
+
+  let payload: AdminSession;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (typeof payload.name !== 'string' || !(payload.expiresAt > now)) return null;
+  return payload;
+}
@@ -0,0 +1,46 @@
+/**
+ * Attachment Entry Point (server only)
+ *
+ * Inspects files uploaded with a contact submission and stores them with the
+ * configured backend. Policy constants for the browser live in './policy'.
+ *
+ * Environment (read through lib/config):
+ * - ATTACHMENT_STORE_DIR: upload directory (default .data/attachments)
+ */
+
+import { getConfig } from '@/lib/config';
+import { LocalAttachmentStorage } from './local-storage';
+import type { AttachmentStorage } from './types';
+
+export { cleanFileName, inspectAttachments, type AttachmentInspection } from './inspect';
+export { LocalAttachmentStorage } from './local-storage';
+export {
+  ATTACHMENT_ACCEPT,
+  ATTACHMENT_KINDS,
+  ATTACHMENT_LIMITS,
+  checkAttachmentList,
+  formatBytes,
+  kindFromFileName,
+  sniffAttachmentKind,
+  type AttachmentKind,
+} from './policy';
+export type { AcceptedAttachment, AttachmentStorage, StoredAttachment } from './types';
+
+let storage: AttachmentStorage | null = null;
+
+/**
+ * Get the process-wide attachment storage, creating it on first use
+ */
+export function getAttachmentStorage(): AttachmentStorage {
+  if (!storage) {
+    storage = new LocalAttachmentStorage(getConfig().paths.attachments);
+  }
+  return storage;
+}
+
+/**
+ * Override the storage backend, mainly for tests. Pass null to reset.
+ */
+export function setAttachmentStorage(next: AttachmentStorage | null): void {
+  storage = next;
+}
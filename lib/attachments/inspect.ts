@@ -0,0 +1,67 @@
+/**
+ * Attachment Inspection
+ *
+ * Validates uploaded files against the attachment policy on the server,
+ * reading each file's leading bytes instead of trusting its declared type.
+ */
+
+import {
+  ATTACHMENT_KINDS,
+  ATTACHMENT_LIMITS,
+  checkAttachmentList,
+  kindFromFileName,
+  sniffAttachmentKind,
+} from './policy';
+import type { AcceptedAttachment } from './types';
+
+export type AttachmentInspection =
+  | { ok: true; attachments: AcceptedAttachment[] }
+  | { ok: false; status: 400 | 413; message: string };
+
+/**
+ * Reduce a client-supplied file name to something safe to display and log
+ */
+export function cleanFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? '';
+  const cleaned = base.replace(/[\u0000-\u001f\u007f]/g, '').trim();
+  return (cleaned || 'attachment').slice(-200);
+}
+
+/**
+ * Check every uploaded file and read the accepted ones into memory
+ */
+export async function inspectAttachments(
+  files: File[],
+  limits = ATTACHMENT_LIMITS
+): Promise<AttachmentInspection> {
+  const problem = checkAttachmentList(files, limits);
+  if (problem) {
+    const tooLarge =
+      files.some((file) => file.size > limits.maxFileBytes) ||
+      files.reduce((total, file) => total + file.size, 0) > limits.maxTotalBytes;
+    return { ok: false, status: tooLarge ? 413 : 400, message: problem };
+  }
+
+  const attachments: AcceptedAttachment[] = [];
+  for (const file of files) {
+    const fileName = cleanFileName(file.name);
+    const data = new Uint8Array(await file.arrayBuffer());
+    const claimed = kindFromFileName(fileName);
+    const kind = sniffAttachmentKind(data);
+
+    // The contents must agree with the extension, so a renamed executable is rejected
+    if (!claimed || kind !== claimed) {
+      return {
+        ok: false,
+        status: 400,
+        message: claimed
+          ? `${fileName} does not look like a valid ${ATTACHMENT_KINDS[claimed].label} file.`
+          : `${fileName} is not a supported file type.`,
+      };
+    }
+
+    attachments.push({ fileName, kind, mimeType: ATTACHMENT_KINDS[kind].mimeType, data });
+  }
+
+  return { ok: true, attachments };
+}
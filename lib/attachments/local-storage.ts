@@ -0,0 +1,58 @@
+/**
+ * Local Attachment Storage
+ *
+ * Keeps uploads on the local filesystem, one directory per submission.
+ * Stored file names are generated, so nothing the client sent ends up in a path.
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join, relative, resolve } from 'node:path';
+import { ATTACHMENT_KINDS } from './policy';
+import type { AcceptedAttachment, AttachmentStorage, StoredAttachment } from './types';
+
+export class LocalAttachmentStorage implements AttachmentStorage {
+  private readonly root: string;
+
+  constructor(directory: string) {
+    this.root = resolve(directory);
+  }
+
+  async save(submissionId: string, attachment: AcceptedAttachment): Promise<StoredAttachment> {
+    const attachmentId = randomUUID();
+    const storageKey = `${encodeURIComponent(submissionId)}/${attachmentId}${ATTACHMENT_KINDS[attachment.kind].extensions[0]}`;
+    const path = this.resolveKey(storageKey);
+
+    await mkdir(join(path, '..'), { recursive: true });
+    // wx: never overwrite, even if a UUID were to repeat
+    await writeFile(path, attachment.data, { flag: 'wx' });
+
+    return {
+      attachmentId,
+      fileName: attachment.fileName,
+      kind: attachment.kind,
+      mimeType: attachment.mimeType,
+      size: attachment.data.byteLength,
+      sha256: createHash('sha256').update(attachment.data).digest('hex'),
+      storageKey,
+      storedAt: new Date().toISOString(),
+    };
+  }
+
+  async read(attachment: StoredAttachment): Promise<Uint8Array> {
+    return new Uint8Array(await readFile(this.resolveKey(attachment.storageKey)));
+  }
+
+  async remove(attachment: StoredAttachment): Promise<void> {
+    await rm(this.resolveKey(attachment.storageKey), { force: true });
+  }
+
+  private resolveKey(storageKey: string): string {
+    const path = resolve(this.root, storageKey);
+    const rel = relative(this.root, path);
+    if (!rel || rel.startsWith('..')) {
+      throw new Error(`Attachment key "${storageKey}" is outside the storage directory`);
+    }
+    return path;
+  }
+}
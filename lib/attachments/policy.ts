@@ -0,0 +1,103 @@
+/**
+ * Attachment Policy
+ *
+ * Accepted file types, size limits and content sniffing shared by the upload
+ * zone in the browser and the contact endpoint. Safe to import client-side.
+ */
+
+export const ATTACHMENT_KINDS = {
+  pdf: { label: 'PDF', mimeType: 'application/pdf', extensions: ['.pdf'] },
+  jpg: { label: 'JPG', mimeType: 'image/jpeg', extensions: ['.jpg', '.jpeg'] },
+  png: { label: 'PNG', mimeType: 'image/png', extensions: ['.png'] },
+  dwg: { label: 'DWG', mimeType: 'image/vnd.dwg', extensions: ['.dwg'] },
+} as const;
+
+export type AttachmentKind = keyof typeof ATTACHMENT_KINDS;
+
+export const ATTACHMENT_LIMITS = {
+  maxFiles: 5,
+  maxFileBytes: 10 * 1024 * 1024,
+  maxTotalBytes: 25 * 1024 * 1024,
+};
+
+/**
+ * Value for the file input `accept` attribute
+ */
+export const ATTACHMENT_ACCEPT = Object.values(ATTACHMENT_KINDS)
+  .flatMap((kind) => [...kind.extensions, kind.mimeType])
+  .join(',');
+
+/**
+ * Look up the attachment kind claimed by a file name's extension
+ */
+export function kindFromFileName(fileName: string): AttachmentKind | null {
+  const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+  for (const [kind, { extensions }] of Object.entries(ATTACHMENT_KINDS)) {
+    if ((extensions as readonly string[]).includes(extension)) {
+      return kind as AttachmentKind;
+    }
+  }
+  return null;
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * Identify a file from its leading bytes, ignoring whatever type the client declared
+ */
+export function sniffAttachmentKind(bytes: Uint8Array): AttachmentKind | null {
+  // %PDF-
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46, 0x2d])) return 'pdf';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+
+  // AutoCAD version string, e.g. AC1015 (2000) to AC1032 (2018+), or AC2.10 for R2.x files
+  const version = String.fromCharCode(...bytes.subarray(0, 6));
+  if (/^AC(10\d\d|[12]\.\d0)$/.test(version)) return 'dwg';
+
+  return null;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const ACCEPTED_LABELS = Object.values(ATTACHMENT_KINDS)
+  .map((kind) => kind.label)
+  .join(', ');
+
+/**
+ * Check names, count and sizes of a file selection.
+ * Returns the first problem as a user-facing message, or null when acceptable.
+ */
+export function checkAttachmentList(
+  files: { name: string; size: number }[],
+  limits = ATTACHMENT_LIMITS
+): string | null {
+  if (files.length > limits.maxFiles) {
+    return `You can attach up to ${limits.maxFiles} files.`;
+  }
+
+  let total = 0;
+  for (const file of files) {
+    if (!kindFromFileName(file.name)) {
+      return `${file.name} is not a supported file type. Please attach ${ACCEPTED_LABELS} files.`;
+    }
+    if (file.size === 0) {
+      return `${file.name} is empty.`;
+    }
+    if (file.size > limits.maxFileBytes) {
+      return `${file.name} is larger than ${formatBytes(limits.maxFileBytes)}.`;
+    }
+    total += file.size;
+  }
+
+  if (total > limits.maxTotalBytes) {
+    return `Attachments must total ${formatBytes(limits.maxTotalBytes)} or less.`;
+  }
+  return null;
+}
@@ -0,0 +1,41 @@
+/**
+ * Attachment Storage Types
+ *
+ * Shapes for uploaded files once they have passed inspection, and the
+ * storage contract that every backend implements.
+ */
+
+import type { AttachmentKind } from './policy';
+
+/**
+ * Uploaded file whose contents matched its extension
+ */
+export interface AcceptedAttachment {
+  /** Display name with any path components and control characters removed */
+  fileName: string;
+  kind: AttachmentKind;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+/**
+ * Reference to a stored file, kept on the lead it was submitted with
+ */
+export interface StoredAttachment {
+  attachmentId: string;
+  fileName: string;
+  kind: AttachmentKind;
+  mimeType: string;
+  size: number;
+  /** Hex SHA-256 of the contents */
+  sha256: string;
+  /** Backend-specific location, opaque to callers */
+  storageKey: string;
+  storedAt: string;
+}
+
+export interface AttachmentStorage {
+  save(submissionId: string, attachment: AcceptedAttachment): Promise<StoredAttachment>;
+  read(attachment: StoredAttachment): Promise<Uint8Array>;
+  remove(attachment: StoredAttachment): Promise<void>;
+}
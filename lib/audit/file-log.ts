@@ -0,0 +1,54 @@
+/**
+ * File-backed Audit Log
+ *
+ * Appends one JSON line per entry. The file is only ever appended to.
+ */
+
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { AuditEntry, AuditLog, AuditQuery } from './types';
+
+export function matchesAuditQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  if (query.action && entry.action !== query.action) return false;
+  if (query.submissionId && !entry.submissionIds.includes(query.submissionId)) return false;
+  return true;
+}
+
+export class FileAuditLog implements AuditLog {
+  // Serializes writes so concurrent requests never interleave partial lines
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+    });
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  async list(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    // Wait for queued writes so callers read their own entries
+    await this.writeQueue;
+
+    let contents: string;
+    try {
+      contents = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries = contents
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as AuditEntry)
+      .filter((entry) => matchesAuditQuery(entry, query))
+      .reverse();
+    return query.limit === undefined ? entries : entries.slice(0, query.limit);
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Audit Log Entry Point (server only)
+ *
+ * Records who signed in to the admin area and who viewed, exported or
+ * changed a lead, as well as exports and erasures requested by submitters
+ * and leads removed by the retention job. The trail is kept next to the
+ * leads: in the leads SQLite database when LEAD_STORE is 'sqlite',
+ * otherwise in an NDJSON file beside the lead file.
+ *
+ * Environment (read through lib/config):
+ * - AUDIT_LOG_PATH: overrides the audit log file or database path
+ */
+
+import { randomUUID } from 'node:crypto';
+import { join } from 'node:path';
+import { getConfig } from '@/lib/config';
+import { getLogger } from '@/lib/logging';
+import { FileAuditLog } from './file-log';
+import { SqliteAuditLog } from './sqlite-log';
+import type { AuditEntry, AuditLog } from './types';
+
+export { FileAuditLog, matchesAuditQuery } from './file-log';
+export { SqliteAuditLog } from './sqlite-log';
+export { AUDIT_ACTIONS, PRIVACY_ACTOR, RETENTION_ACTOR } from './types';
+export type { AuditAction, AuditEntry, AuditLog, AuditQuery } from './types';
+
+const DATA_DIR = join(process.cwd(), '.data');
+
+let auditLog: AuditLog | null = null;
+
+/**
+ * Get the process-wide audit log, creating it on first use
+ */
+export function getAuditLog(): AuditLog {
+  if (auditLog) return auditLog;
+
+  const { leads, paths } = getConfig();
+  auditLog =
+    leads.store.kind === 'sqlite'
+      ? new SqliteAuditLog(paths.auditLog ?? leads.store.path ?? join(DATA_DIR, 'leads.db'))
+      : new FileAuditLog(paths.auditLog ?? join(DATA_DIR, 'audit-log.ndjson'));
+
+  return auditLog;
+}
+
+/**
+ * Override the audit log, mainly for tests. Pass null to reset.
+ */
+export function setAuditLog(next: AuditLog | null): void {
+  auditLog = next;
+}
+
+/**
+ * Append an entry to the audit trail. Failures are logged, never thrown, so
+ * a full disk does not lock the team out of their leads.
+ */
+export async function recordAudit(
+  entry: Omit<AuditEntry, 'entryId' | 'at' | 'submissionIds'> & { submissionIds?: string[] }
+): Promise<void> {
+  const complete: AuditEntry = {
+    entryId: randomUUID(),
+    at: new Date().toISOString(),
+    ...entry,
+    submissionIds: entry.submissionIds ?? [],
+  };
+
+  try {
+    await getAuditLog().append(complete);
+  } catch (error) {
+    getLogger().error('Writing the audit log failed', {
+      requestId: entry.requestId,
+      action: entry.action,
+      error,
+    });
+  }
+}
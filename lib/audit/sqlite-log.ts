@@ -0,0 +1,83 @@
+/**
+ * SQLite Audit Log
+ *
+ * Keeps the audit trail in an `audit_log` table, by default in the same
+ * database file as the leads. Triggers reject updates and deletes, so the
+ * table stays append-only even for code that bypasses this class.
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import type { AuditEntry, AuditLog, AuditQuery } from './types';
+
+interface EntryRow {
+  entry: string;
+}
+
+export class SqliteAuditLog implements AuditLog {
+  private readonly db: Database.Database;
+
+  /**
+   * @param filename - Database file path, or ':memory:' for an ephemeral log
+   */
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      mkdirSync(dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        entry_id TEXT NOT NULL UNIQUE,
+        at TEXT NOT NULL,
+        action TEXT NOT NULL,
+        entry TEXT NOT NULL
+      );
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+        BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+        BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+    `);
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO audit_log (entry_id, at, action, entry)
+         VALUES (@entryId, @at, @action, @entry)`
+      )
+      .run({
+        entryId: entry.entryId,
+        at: entry.at,
+        action: entry.action,
+        entry: JSON.stringify(entry),
+      });
+  }
+
+  async list(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT entry FROM audit_log
+         WHERE (@action IS NULL OR action = @action)
+           AND (@submissionId IS NULL OR EXISTS (
+             SELECT 1 FROM json_each(entry, '$.submissionIds') WHERE value = @submissionId
+           ))
+         ORDER BY seq DESC
+         LIMIT @limit`
+      )
+      .all({
+        action: query.action ?? null,
+        submissionId: query.submissionId ?? null,
+        limit: query.limit ?? -1,
+      }) as EntryRow[];
+    return rows.map((row) => JSON.parse(row.entry));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Audit Types
+ *
+ * Entries in the audit trail of who looked at, exported, changed or erased
+ * lead data, and the contract for the append-only log that keeps them. Entries
+ * reference leads by submission ID and never copy the lead's personal data.
+ */
+
+export const AUDIT_ACTIONS = [
+  'admin.signed_in',
+  'lead.viewed',
+  'lead.exported',
+  'lead.status_changed',
+  'lead.note_added',
+  'lead.attachment_downloaded',
+  'webhook.replayed',
+  'privacy.exported',
+  'privacy.erased',
+  'retention.purged',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export interface AuditEntry {
+  entryId: string;
+  at: string;
+  /**
+   * Name the admin signed in with; PRIVACY_ACTOR or RETENTION_ACTOR for
+   * actions taken by the submitter or the retention job
+   */
+  actor: string;
+  action: AuditAction;
+  /** Leads the action touched; an export lists every lead in the file */
+  submissionIds: string[];
+  /** Other subject of the action, e.g. a webhook delivery ID */
+  target?: string;
+  details?: Record<string, string | number | boolean>;
+  /** Request the action was taken in, to find its log lines */
+  requestId?: string;
+}
+
+/** Actor recorded for requests made by the people the leads are about */
+export const PRIVACY_ACTOR = 'data subject';
+
+/** Actor recorded for leads removed by the retention job */
+export const RETENTION_ACTOR = 'retention job';
+
+export interface AuditQuery {
+  /** Only entries that touched this lead */
+  submissionId?: string;
+  action?: AuditAction;
+  limit?: number;
+}
+
+/**
+ * Storage contract for the audit trail. There is deliberately no way to
+ * change or remove an entry; `list` returns newest first.
+ */
+export interface AuditLog {
+  append(entry: AuditEntry): Promise<void>;
+  list(query?: AuditQuery): Promise<AuditEntry[]>;
+}
@@ -0,0 +1,222 @@
+/**
+ * Booking Availability
+ *
+ * Turns working hours, holidays and slot length into bookable slots. Hours
+ * are defined in a fixed time zone, so a slot is the same moment for the
+ * office and the visitor wherever they are. No Node APIs; safe for the browser.
+ */
+
+import type { BookingSlot } from './contract';
+import type { AvailabilityConfig, Booking, WorkingDay } from './types';
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(instant: number, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return parts;
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function zoneOffset(instant: number, timeZone: string): number {
+  const p = zonedParts(instant, timeZone);
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wall - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given zone
+ */
+export function zonedDate(instant: number, timeZone: string): string {
+  const p = zonedParts(instant, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * Instant at which the wall clock in `timeZone` shows `minutes` past midnight on `date`
+ */
+export function zonedTimeToInstant(date: string, minutes: number, timeZone: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const wall = Date.UTC(year, month - 1, day, 0, minutes);
+  // Correct the guess once, so days with a DST change resolve to the right offset
+  const guess = wall - zoneOffset(wall, timeZone);
+  return wall - zoneOffset(guess, timeZone);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function parseTime(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match || Number(match[1]) > 24 || Number(match[2]) > 59) {
+    throw new Error(`Invalid time "${value}". Expected HH:MM.`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function parseWeekday(value: string): number {
+  const index = WEEKDAYS.indexOf(value.toLowerCase());
+  if (index === -1) {
+    throw new Error(`Invalid weekday "${value}". Expected one of ${WEEKDAYS.join(', ')}.`);
+  }
+  return index;
+}
+
+/**
+ * Parse working hours such as `mon-fri 08:00-18:00, sat 09:00-16:00`.
+ * Days that are not listed are closed.
+ */
+export function parseWorkingHours(spec: string): AvailabilityConfig['workingHours'] {
+  const hours: AvailabilityConfig['workingHours'] = {};
+
+  for (const entry of spec.split(',')) {
+    const match = /^\s*([a-z]{3})(?:-([a-z]{3}))?\s+(\S+)-(\S+)\s*$/i.exec(entry);
+    if (!match) {
+      throw new Error(
+        `Invalid working hours "${entry.trim()}". Expected e.g. "mon-fri 09:00-18:00".`
+      );
+    }
+
+    const first = parseWeekday(match[1]);
+    const last = match[2] ? parseWeekday(match[2]) : first;
+    const day: WorkingDay = { open: parseTime(match[3]), close: parseTime(match[4]) };
+    if (day.close <= day.open) {
+      throw new Error(`Working hours "${entry.trim()}" close before they open.`);
+    }
+
+    for (let weekday = first; ; weekday = (weekday + 1) % 7) {
+      hours[weekday] = day;
+      if (weekday === last) break;
+    }
+  }
+
+  return hours;
+}
+
+/**
+ * Every slot on the given days in working hours, ignoring notice and existing bookings
+ */
+export function listSlots(
+  config: AvailabilityConfig,
+  fromDate: string,
+  days: number
+): BookingSlot[] {
+  const slots: BookingSlot[] = [];
+
+  for (let offset = 0; offset < days; offset++) {
+    const date = addDays(fromDate, offset);
+    if (config.holidays.includes(date)) continue;
+
+    const hours = config.workingHours[new Date(`${date}T00:00:00Z`).getUTCDay()];
+    if (!hours) continue;
+
+    for (
+      let minutes = hours.open;
+      minutes + config.slotMinutes <= hours.close;
+      minutes += config.slotMinutes
+    ) {
+      const start = zonedTimeToInstant(date, minutes, config.timeZone);
+      slots.push({
+        start: new Date(start).toISOString(),
+        end: new Date(start + config.slotMinutes * 60 * 1000).toISOString(),
+      });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Check whether two time ranges share any moment
+ */
+export function slotsOverlap(a: BookingSlot, b: BookingSlot): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * First and last instant that can currently be booked
+ */
+export function bookingWindow(config: AvailabilityConfig, now: Date) {
+  const today = zonedDate(now.getTime(), config.timeZone);
+  return {
+    firstDate: today,
+    earliestStart: new Date(now.getTime() + config.minNoticeHours * 60 * 60 * 1000).toISOString(),
+    until: new Date(
+      zonedTimeToInstant(addDays(today, config.horizonDays), 0, config.timeZone)
+    ).toISOString(),
+  };
+}
+
+/**
+ * Slots that can be booked right now, given the confirmed bookings in the window
+ */
+export function availableSlots(
+  config: AvailabilityConfig,
+  bookings: Booking[],
+  now: Date = new Date()
+): BookingSlot[] {
+  const { firstDate, earliestStart } = bookingWindow(config, now);
+  return listSlots(config, firstDate, config.horizonDays).filter(
+    (slot) =>
+      slot.start >= earliestStart &&
+      !bookings.some((booking) => booking.status === 'confirmed' && slotsOverlap(booking, slot))
+  );
+}
+
+/**
+ * The offered slot starting at `start`, or null when no such slot can be booked now.
+ * Does not check existing bookings; the repository does that atomically.
+ */
+export function findBookableSlot(
+  config: AvailabilityConfig,
+  start: string,
+  now: Date = new Date()
+): BookingSlot | null {
+  const instant = Date.parse(start);
+  if (Number.isNaN(instant)) return null;
+
+  const { earliestStart, until } = bookingWindow(config, now);
+  const iso = new Date(instant).toISOString();
+  if (iso < earliestStart || iso >= until) return null;
+
+  const date = zonedDate(instant, config.timeZone);
+  return listSlots(config, date, 1).find((slot) => slot.start === iso) ?? null;
+}
+
+/**
+ * Describe a slot for people, e.g. "Wed, 21 Oct, 2026, 9:00 am IST"
+ */
+export function formatSlot(start: string, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-IN', {
+    timeZone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(start));
+}
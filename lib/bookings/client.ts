@@ -0,0 +1,97 @@
+/**
+ * Bookings API Client
+ *
+ * Typed wrappers around the bookings endpoints for the slot picker. Like the
+ * contact client, rejections become results and network failures are thrown.
+ */
+
+import type { ContactBotFields } from '@/lib/contact';
+import type {
+  BookingConfirmation,
+  BookingErrorResponse,
+  BookingField,
+  BookingRequest,
+  BookingResponse,
+  BookingSlotsResponse,
+} from './contract';
+
+export const BOOKINGS_ENDPOINT = '/api/bookings';
+export const BOOKING_SLOTS_ENDPOINT = '/api/bookings/slots';
+
+export type BookingSubmitResult =
+  | {
+      ok: true;
+      submissionId: string;
+      message: string;
+      booking: BookingConfirmation;
+    }
+  | {
+      ok: false;
+      status: number;
+      message: string;
+      fieldErrors: Partial<Record<BookingField, string>>;
+    };
+
+// Fallback copy when the server response carries no message
+const DEFAULT_ERROR_MESSAGES: Record<number, string> = {
+  400: 'Please check your input and try again.',
+  409: 'That time is no longer available. Please pick another slot.',
+  429: 'Too many bookings. Please try again later.',
+};
+
+/**
+ * Fetch the slots that can currently be booked
+ */
+export async function fetchBookingSlots(): Promise<BookingSlotsResponse> {
+  const response = await fetch(BOOKING_SLOTS_ENDPOINT, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Slots request failed with status ${response.status}`);
+  }
+  return (await response.json()) as BookingSlotsResponse;
+}
+
+/**
+ * Book a slot; a 409 result means someone else took it first
+ */
+export async function submitBooking(
+  data: BookingRequest,
+  botFields: ContactBotFields = {}
+): Promise<BookingSubmitResult> {
+  const response = await fetch(BOOKINGS_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...data, ...botFields }),
+  });
+
+  const body = (await response.json()) as BookingResponse;
+
+  if (response.ok && body.success) {
+    return {
+      ok: true,
+      submissionId: body.submissionId,
+      message: body.message,
+      booking: body.booking,
+    };
+  }
+
+  const error = body as BookingErrorResponse;
+  const fieldErrors: Partial<Record<BookingField, string>> = {};
+  for (const issue of error.details ?? []) {
+    const field = issue.path[0] as BookingField;
+    if (typeof field === 'string' && !(field in fieldErrors)) {
+      fieldErrors[field] = issue.message;
+    }
+  }
+
+  return {
+    ok: false,
+    status: response.status,
+    message:
+      error.message ||
+      DEFAULT_ERROR_MESSAGES[response.status] ||
+      'Something went wrong. Please try again.',
+    fieldErrors,
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Booking Contract
+ *
+ * Request and response shapes shared by the slot picker and the bookings API.
+ * Safe to import from client components.
+ */
+
+import { z } from 'zod';
+import { contactFieldsSchema } from '@/lib/contact';
+import type { ApiErrorResponse } from '@/lib/http/errors';
+
+export const BOOKING_KINDS = ['site-visit', 'consultation'] as const;
+
+export type BookingKind = (typeof BOOKING_KINDS)[number];
+
+export const BOOKING_KIND_LABELS: Record<BookingKind, string> = {
+  'site-visit': 'Site Visit',
+  consultation: 'Consultation',
+};
+
+export const bookingRequestSchema = contactFieldsSchema
+  .pick({ name: true, email: true, phone: true, projectType: true, consentVersion: true })
+  .extend({
+    kind: z.enum(BOOKING_KINDS, { message: 'Please choose a visit type' }),
+    slotStart: z.iso.datetime({ message: 'Please pick a time slot' }),
+    siteAddress: z.string().trim().max(300, 'Address is too long').optional().or(z.literal('')),
+    notes: z.string().max(600, 'Notes are too long').optional().or(z.literal('')),
+  })
+  .superRefine((data, ctx) => {
+    // We need to know where to go for a site visit
+    if (data.kind === 'site-visit' && (data.siteAddress ?? '').length < 5) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['siteAddress'],
+        message: 'Please enter the site address',
+      });
+    }
+  });
+
+export type BookingRequest = z.infer<typeof bookingRequestSchema>;
+
+export type BookingField = keyof BookingRequest;
+
+/**
+ * Bookable time range, as ISO timestamps in UTC
+ */
+export interface BookingSlot {
+  start: string;
+  end: string;
+}
+
+export interface BookingSlotsResponse {
+  /** IANA time zone the working hours are defined in; show slots in this zone */
+  timeZone: string;
+  slotMinutes: number;
+  slots: BookingSlot[];
+}
+
+export interface BookingConfirmation extends BookingSlot {
+  bookingId: string;
+  kind: BookingKind;
+  timeZone: string;
+  /** Download link for the calendar invite */
+  icsUrl: string;
+}
+
+export interface BookingSuccessResponse {
+  success: true;
+  message: string;
+  submissionId: string;
+  booking: BookingConfirmation;
+}
+
+export type BookingErrorResponse = ApiErrorResponse;
+
+export type BookingResponse = BookingSuccessResponse | BookingErrorResponse;
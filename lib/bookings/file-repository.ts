@@ -0,0 +1,126 @@
+/**
+ * File-backed Booking Repository
+ *
+ * Stores bookings as newline-delimited JSON, appending a full snapshot on
+ * every change like the lead file store. Reservations are checked and written
+ * inside one queued step, which makes them atomic within a single process;
+ * use the SQLite backend when several processes share the data directory.
+ */
+
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { slotsOverlap } from './availability';
+import type { Booking, BookingRepository, BookingReservation } from './types';
+
+export class FileBookingRepository implements BookingRepository {
+  // Serializes reservations and writes so no two can interleave
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  reserve(booking: Booking): Promise<BookingReservation> {
+    return this.enqueue(async () => {
+      const bookings = await this.load();
+      if (bookings.has(booking.bookingId)) {
+        throw new Error(`Booking ${booking.bookingId} already exists`);
+      }
+
+      const conflict = Array.from(bookings.values()).find(
+        (existing) => existing.status === 'confirmed' && slotsOverlap(existing, booking)
+      );
+      if (conflict) return { ok: false, conflict };
+
+      await this.append(booking);
+      return { ok: true, booking };
+    });
+  }
+
+  async findById(bookingId: string): Promise<Booking | null> {
+    const bookings = await this.enqueue(() => this.load());
+    return bookings.get(bookingId) ?? null;
+  }
+
+  async listConfirmed(from: string, until: string): Promise<Booking[]> {
+    const bookings = await this.enqueue(() => this.load());
+    return Array.from(bookings.values())
+      .filter(
+        (booking) =>
+          booking.status === 'confirmed' && slotsOverlap(booking, { start: from, end: until })
+      )
+      .sort((a, b) => a.start.localeCompare(b.start));
+  }
+
+  cancel(bookingId: string): Promise<Booking | null> {
+    return this.enqueue(async () => {
+      const booking = (await this.load()).get(bookingId);
+      if (!booking) return null;
+
+      const cancelled: Booking = {
+        ...booking,
+        status: 'cancelled',
+        updatedAt: new Date().toISOString(),
+      };
+      await this.append(cancelled);
+      return cancelled;
+    });
+  }
+
+  async listForLeads(submissionIds: readonly string[]): Promise<Booking[]> {
+    const ids = new Set(submissionIds);
+    const bookings = await this.enqueue(() => this.load());
+    return Array.from(bookings.values())
+      .filter((booking) => ids.has(booking.submissionId))
+      .sort((a, b) => a.start.localeCompare(b.start));
+  }
+
+  removeForLeads(submissionIds: readonly string[]): Promise<number> {
+    const ids = new Set(submissionIds);
+    return this.enqueue(async () => {
+      const bookings = await this.load();
+      const removed = Array.from(bookings.values()).filter((booking) =>
+        ids.has(booking.submissionId)
+      );
+      if (removed.length === 0) return 0;
+
+      // Rewrite without any snapshot of the removed bookings, swapping in a complete copy
+      const kept = Array.from(bookings.values()).filter(
+        (booking) => !ids.has(booking.submissionId)
+      );
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, kept.map((booking) => `${JSON.stringify(booking)}\n`).join(''));
+      await rename(tempPath, this.filePath);
+      return removed.length;
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async append(booking: Booking): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(booking)}\n`, 'utf8');
+  }
+
+  private async load(): Promise<Map<string, Booking>> {
+    let contents: string;
+    try {
+      contents = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new Map();
+      }
+      throw error;
+    }
+
+    const bookings = new Map<string, Booking>();
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+      const booking = JSON.parse(line) as Booking;
+      bookings.set(booking.bookingId, booking);
+    }
+    return bookings;
+  }
+}
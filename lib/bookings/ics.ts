@@ -0,0 +1,100 @@
+/**
+ * Calendar Invites
+ *
+ * Renders a booking as an iCalendar (RFC 5545) file that visitors can
+ * download and add to any calendar app.
+ */
+
+import { BOOKING_KIND_LABELS } from './contract';
+import type { Booking } from './types';
+
+export interface IcsOrganizer {
+  name: string;
+  email: string;
+}
+
+// Escape TEXT values: backslash, separators and line breaks
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Parameter values cannot contain quotes; quote them when they contain separators
+function paramValue(value: string): string {
+  const cleaned = value.replace(/["\r\n]/g, '');
+  return /[;:,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Fold a content line to at most 75 octets, continuing on lines that start with a space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Render a booking as a single-event calendar file
+ */
+export function renderBookingIcs(booking: Booking, organizer: IcsOrganizer): string {
+  const label = BOOKING_KIND_LABELS[booking.kind];
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SB Infra Projects//Bookings//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${booking.bookingId}@sbinfraprojects.com`,
+    `DTSTAMP:${formatDateTime(booking.updatedAt)}`,
+    `DTSTART:${formatDateTime(booking.start)}`,
+    `DTEND:${formatDateTime(booking.end)}`,
+    `SUMMARY:${escapeText(`${label} with ${organizer.name}`)}`,
+    `DESCRIPTION:${escapeText(
+      `Booking reference: ${booking.bookingId}\nQuestions or changes? Email ${organizer.email}.`
+    )}`,
+    `LOCATION:${escapeText(booking.location)}`,
+    `ORGANIZER;CN=${paramValue(organizer.name)}:mailto:${organizer.email}`,
+    `ATTENDEE;CN=${paramValue(booking.name)};ROLE=REQ-PARTICIPANT:mailto:${booking.email}`,
+    `STATUS:${booking.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+    // Bumped by a cancellation so calendars replace the earlier copy
+    `SEQUENCE:${booking.status === 'cancelled' ? 1 : 0}`,
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeText(label)}`,
+    'TRIGGER:-PT1H',
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
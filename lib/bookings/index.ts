@@ -0,0 +1,116 @@
+/**
+ * Bookings Entry Point (server only)
+ *
+ * Availability settings and the booking store for site visits and
+ * consultations. Bookings are kept next to the leads: in the same SQLite
+ * database when LEAD_STORE is 'sqlite', otherwise in an NDJSON file beside
+ * the lead file. The slot picker imports './contract', './client' and
+ * './availability' directly.
+ *
+ * Environment (read through lib/config):
+ * - BOOKING_TIME_ZONE: IANA zone for hours and holidays (default Asia/Kolkata)
+ * - BOOKING_HOURS: working hours, e.g. "mon-fri 08:00-18:00, sat 09:00-16:00"
+ * - BOOKING_HOLIDAYS: closed dates, comma separated YYYY-MM-DD
+ * - BOOKING_SLOT_MINUTES: slot length (default 60)
+ * - BOOKING_MIN_NOTICE_HOURS: earliest bookable slot from now (default 24)
+ * - BOOKING_HORIZON_DAYS: how many days ahead can be booked (default 30)
+ * - BOOKING_STORE_PATH: overrides the booking file or database path
+ * - BOOKING_OFFICE_LOCATION: where consultations take place, defaults to COMPANY_ADDRESS
+ *
+ * Calendar invites are organized by the company name and the sales inbox
+ * (MAIL_SALES_TO) from lib/config.
+ */
+
+import { join } from 'node:path';
+import { getConfig } from '@/lib/config';
+import { FileBookingRepository } from './file-repository';
+import { SqliteBookingRepository } from './sqlite-repository';
+import type { IcsOrganizer } from './ics';
+import type { AvailabilityConfig, BookingRepository } from './types';
+
+export {
+  availableSlots,
+  bookingWindow,
+  findBookableSlot,
+  formatSlot,
+  listSlots,
+  parseWorkingHours,
+  slotsOverlap,
+  zonedDate,
+  zonedTimeToInstant,
+} from './availability';
+export {
+  BOOKING_KINDS,
+  BOOKING_KIND_LABELS,
+  bookingRequestSchema,
+  type BookingConfirmation,
+  type BookingErrorResponse,
+  type BookingField,
+  type BookingKind,
+  type BookingRequest,
+  type BookingResponse,
+  type BookingSlot,
+  type BookingSlotsResponse,
+  type BookingSuccessResponse,
+} from './contract';
+export { FileBookingRepository } from './file-repository';
+export { renderBookingIcs, type IcsOrganizer } from './ics';
+export { SqliteBookingRepository } from './sqlite-repository';
+export type {
+  AvailabilityConfig,
+  Booking,
+  BookingRepository,
+  BookingReservation,
+  BookingStatus,
+  WorkingDay,
+} from './types';
+
+const DATA_DIR = join(process.cwd(), '.data');
+
+/**
+ * Availability settings from the configuration
+ */
+export function getAvailabilityConfig(): AvailabilityConfig {
+  return getConfig().bookings.availability;
+}
+
+/**
+ * Where consultations take place, used as the invite location
+ */
+export function getOfficeLocation(): string {
+  return getConfig().bookings.officeLocation;
+}
+
+/**
+ * Organizer shown on calendar invites; replies reach the sales inbox
+ */
+export function getBookingOrganizer(): IcsOrganizer {
+  const { company, mail } = getConfig();
+  return { name: company.name, email: mail.salesTo };
+}
+
+let repository: BookingRepository | null = null;
+
+/**
+ * Get the process-wide booking repository, creating it on first use
+ */
+export function getBookingRepository(): BookingRepository {
+  if (repository) return repository;
+
+  const { leads, paths } = getConfig();
+  repository =
+    leads.store.kind === 'sqlite'
+      ? new SqliteBookingRepository(
+          paths.bookings ?? leads.store.path ?? join(DATA_DIR, 'leads.db')
+        )
+      : new FileBookingRepository(paths.bookings ?? join(DATA_DIR, 'bookings.ndjson'));
+
+  return repository;
+}
+
+/**
+ * Override the repository, mainly for tests. Pass null to reset.
+ */
+export function setBookingRepository(next: BookingRepository | null): void {
+  repository = next;
+}
@@ -0,0 +1,144 @@
+/**
+ * SQLite Booking Repository
+ *
+ * Keeps bookings in a `bookings` table, by default in the same database file
+ * as the leads. Reservations run in an immediate transaction, so overlapping
+ * requests are serialized even across processes, and a partial unique index
+ * on the start time backs that up.
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import type { Booking, BookingRepository, BookingReservation } from './types';
+
+interface BookingRow {
+  booking: string;
+}
+
+function rowToBooking(row: BookingRow): Booking {
+  return JSON.parse(row.booking);
+}
+
+export class SqliteBookingRepository implements BookingRepository {
+  private readonly db: Database.Database;
+
+  /**
+   * @param filename - Database file path, or ':memory:' for an ephemeral store
+   */
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      mkdirSync(dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    // Another connection may be holding the write lock while it reserves a slot
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS bookings (
+        booking_id TEXT PRIMARY KEY,
+        submission_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        start_at TEXT NOT NULL,
+        end_at TEXT NOT NULL,
+        booking TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS bookings_start_at ON bookings (start_at);
+      CREATE UNIQUE INDEX IF NOT EXISTS bookings_confirmed_start
+        ON bookings (start_at) WHERE status = 'confirmed';
+    `);
+  }
+
+  async reserve(booking: Booking): Promise<BookingReservation> {
+    const reserve = this.db.transaction((): BookingReservation => {
+      const conflict = this.db
+        .prepare(
+          `SELECT booking FROM bookings
+           WHERE status = 'confirmed' AND start_at < @end AND end_at > @start
+           LIMIT 1`
+        )
+        .get({ start: booking.start, end: booking.end }) as BookingRow | undefined;
+      if (conflict) return { ok: false, conflict: rowToBooking(conflict) };
+
+      this.db
+        .prepare(
+          `INSERT INTO bookings (booking_id, submission_id, status, start_at, end_at, booking)
+           VALUES (@bookingId, @submissionId, @status, @start, @end, @booking)`
+        )
+        .run({
+          bookingId: booking.bookingId,
+          submissionId: booking.submissionId,
+          status: booking.status,
+          start: booking.start,
+          end: booking.end,
+          booking: JSON.stringify(booking),
+        });
+      return { ok: true, booking };
+    });
+
+    try {
+      return reserve.immediate();
+    } catch (error) {
+      // Report duplicates the same way as the file backend
+      if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+        throw new Error(`Booking ${booking.bookingId} already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async findById(bookingId: string): Promise<Booking | null> {
+    const row = this.db
+      .prepare('SELECT booking FROM bookings WHERE booking_id = ?')
+      .get(bookingId) as BookingRow | undefined;
+    return row ? rowToBooking(row) : null;
+  }
+
+  async listConfirmed(from: string, until: string): Promise<Booking[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT booking FROM bookings
+         WHERE status = 'confirmed' AND start_at < ? AND end_at > ?
+         ORDER BY start_at`
+      )
+      .all(until, from) as BookingRow[];
+    return rows.map(rowToBooking);
+  }
+
+  async cancel(bookingId: string): Promise<Booking | null> {
+    const booking = await this.findById(bookingId);
+    if (!booking) return null;
+
+    const cancelled: Booking = {
+      ...booking,
+      status: 'cancelled',
+      updatedAt: new Date().toISOString(),
+    };
+    this.db
+      .prepare('UPDATE bookings SET status = ?, booking = ? WHERE booking_id = ?')
+      .run(cancelled.status, JSON.stringify(cancelled), bookingId);
+    return cancelled;
+  }
+
+  async listForLeads(submissionIds: readonly string[]): Promise<Booking[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT booking FROM bookings
+         WHERE submission_id IN (SELECT value FROM json_each(?))
+         ORDER BY start_at`
+      )
+      .all(JSON.stringify(submissionIds)) as BookingRow[];
+    return rows.map(rowToBooking);
+  }
+
+  async removeForLeads(submissionIds: readonly string[]): Promise<number> {
+    return this.db
+      .prepare('DELETE FROM bookings WHERE submission_id IN (SELECT value FROM json_each(?))')
+      .run(JSON.stringify(submissionIds)).changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
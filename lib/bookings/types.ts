@@ -0,0 +1,67 @@
+/**
+ * Booking Types
+ *
+ * Stored booking shape, availability settings and the repository contract
+ * every storage backend implements.
+ */
+
+import type { BookingKind, BookingSlot } from './contract';
+
+export type BookingStatus = 'confirmed' | 'cancelled';
+
+export interface Booking extends BookingSlot {
+  bookingId: string;
+  /** Lead created for the booking */
+  submissionId: string;
+  kind: BookingKind;
+  status: BookingStatus;
+  /** Zone the slot was offered in, used when describing it to people */
+  timeZone: string;
+  name: string;
+  email: string;
+  location: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Opening and closing time of a working day, in minutes after local midnight
+ */
+export interface WorkingDay {
+  open: number;
+  close: number;
+}
+
+export interface AvailabilityConfig {
+  /** IANA time zone the working hours and holidays are defined in */
+  timeZone: string;
+  /** Indexed by weekday, 0 = Sunday; missing days are closed */
+  workingHours: Partial<Record<number, WorkingDay>>;
+  /** Closed dates as YYYY-MM-DD in the configured zone */
+  holidays: string[];
+  slotMinutes: number;
+  /** Slots starting sooner than this are not offered */
+  minNoticeHours: number;
+  /** Number of days ahead, including today, that can be booked */
+  horizonDays: number;
+}
+
+export type BookingReservation = { ok: true; booking: Booking } | { ok: false; conflict: Booking };
+
+/**
+ * Storage contract for bookings.
+ *
+ * `reserve` must be atomic: of two overlapping reservations racing each other,
+ * exactly one succeeds and the other receives the booking it collided with.
+ */
+export interface BookingRepository {
+  reserve(booking: Booking): Promise<BookingReservation>;
+  findById(bookingId: string): Promise<Booking | null>;
+  /** Confirmed bookings overlapping [from, until), ordered by start */
+  listConfirmed(from: string, until: string): Promise<Booking[]>;
+  cancel(bookingId: string): Promise<Booking | null>;
+  /** Every booking made for the given leads, ordered by start */
+  listForLeads(submissionIds: readonly string[]): Promise<Booking[]>;
+  /** Permanently delete the bookings made for the given leads and return how many there were */
+  removeForLeads(submissionIds: readonly string[]): Promise<number>;
+}
@@ -0,0 +1,97 @@
+/**
+ * Configuration Entry Point (server only)
+ *
+ * Validates the environment once and hands out typed settings. Startup
+ * (instrumentation.ts) calls `getConfig()`, so a bad value stops the server
+ * with a list of every problem instead of failing on the first request
+ * that needs it.
+ *
+ * Environment:
+ * - SITE_URL: public address of the site (default https://sbinfraprojects.com)
+ * - COMPANY_NAME, COMPANY_EMAIL, COMPANY_PHONE, COMPANY_ADDRESS: contact details shown on the site
+ * - FEATURE_BOOKINGS, FEATURE_ATTACHMENTS: 'true' (default) or 'false'
+ * - RATE_LIMIT_CONTACT, RATE_LIMIT_BOOKINGS: budget per IP, email and phone (default 3/1h)
+ * - RATE_LIMIT_INQUIRY_LOOKUP: inquiry status lookups per IP and email (default 10/15m)
+ * - RATE_LIMIT_ADMIN_LOGIN: admin sign-in attempts per IP (default 5/15m)
+ * - RATE_LIMIT_DATA_REQUESTS: data export and erasure requests (default 3/1h)
+ * - RATE_LIMIT_DATA_CONFIRMATIONS: data request code attempts (default 5/15m)
+ * - CONTACT_MIN_FILL_MS: minimum time to fill in the form (default 3000)
+ * - CONTACT_TOKEN_TTL_MS: how long an opened form stays valid (default 2 hours)
+ * - CONTACT_POW_DIFFICULTY: proof-of-work leading zero bits, 0 disables it (default 0)
+ * - MAIL_TRANSPORT: 'outbox' (default) or 'smtp'
+ * - MAIL_OUTBOX_DIR: outbox directory, defaults to .data/outbox
+ * - SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS: SMTP relay settings
+ * - MAIL_FROM: sender address for all outgoing mail
+ * - MAIL_SALES_TO: inbox that receives new lead notifications
+ * - ADMIN_PASSWORD: shared admin password; the admin area is closed without it
+ * - ADMIN_SESSION_SECRET: signs admin sessions, defaults to one derived from the password
+ * - ALLOWED_ORIGINS: other origins allowed to call the API, comma separated
+ * - TRUSTED_PROXY_HOPS: number of reverse proxies in front of the app (default 1)
+ * - CONTACT_FORM_SECRET, LEAD_ID_SECRET, LEAD_IP_SALT, LOG_HASH_SALT, PRIVACY_CODE_SECRET:
+ *   signing keys and salts
+ * - LOG_LEVEL: 'debug', 'info' (default), 'warn', 'error' or 'silent'
+ * - LEAD_RETENTION_DAYS: days after its last update that a lead is purged (default 365)
+ * - Store settings: LEAD_STORE, RATE_LIMIT_STORE, IDEMPOTENCY_STORE, NONCE_STORE and
+ *   their paths, see lib/leads, lib/rate-limit, lib/idempotency and lib/nonces
+ * - WEBHOOK_*: endpoints and delivery retries, see lib/webhooks
+ * - BOOKING_*: hours, holidays and slots, see lib/bookings
+ *
+ * Rate limits are written as requests per window: "3/1h", "10/15m", "100/1d".
+ *
+ * In production (NODE_ENV=production) the secrets and salts have no default,
+ * and ADMIN_SESSION_SECRET is required once ADMIN_PASSWORD is set. Elsewhere
+ * fixed development values stand in for them.
+ *
+ * Client components get the public subset (`getPublicConfig()`) through
+ * PublicConfigProvider and import './public' directly.
+ */
+
+import type { PublicConfig } from './public';
+import { parseConfig } from './schema';
+import type { AppConfig } from './types';
+
+export {
+  DEFAULT_PUBLIC_CONFIG,
+  phoneHref,
+  type CompanyDetails,
+  type FeatureToggles,
+  type PublicConfig,
+} from './public';
+export { createEnvSchema, parseConfig, type ConfigResult } from './schema';
+export type { AppConfig, MailTransportConfig, RateLimitBudget, RateLimitName } from './types';
+
+let config: AppConfig | null = null;
+
+/**
+ * Get the process-wide configuration, validating the environment on first use.
+ * Throws listing every invalid variable.
+ */
+export function getConfig(): AppConfig {
+  if (config) return config;
+
+  const result = parseConfig(process.env);
+  if (!result.ok) {
+    throw new Error(
+      `Invalid environment configuration:\n${result.problems.map((problem) => `  - ${problem}`).join('\n')}`
+    );
+  }
+
+  config = result.config;
+  return config;
+}
+
+/**
+ * Override the configuration, mainly for tests. Pass null to read the
+ * environment again on next use.
+ */
+export function setConfig(next: AppConfig | null): void {
+  config = next;
+}
+
+/**
+ * The settings that may be sent to the browser
+ */
+export function getPublicConfig(): PublicConfig {
+  const { company, features } = getConfig();
+  return { company, features };
+}
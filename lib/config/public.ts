@@ -0,0 +1,49 @@
+/**
+ * Public Configuration
+ *
+ * The part of the configuration that is sent to the browser: how to reach
+ * the company and which optional features are switched on. Nothing secret
+ * belongs here.
+ *
+ * Safe to import from client components.
+ */
+
+export interface CompanyDetails {
+  name: string;
+  email: string;
+  /** As displayed, e.g. "+91 98765 43210" */
+  phone: string;
+  address: string;
+}
+
+export interface FeatureToggles {
+  /** Site visit and consultation booking */
+  bookings: boolean;
+  /** Site plan and photo uploads on the inquiry forms */
+  attachments: boolean;
+}
+
+export interface PublicConfig {
+  company: CompanyDetails;
+  features: FeatureToggles;
+}
+
+export const DEFAULT_PUBLIC_CONFIG: PublicConfig = {
+  company: {
+    name: 'SB Infra Projects',
+    email: 'info@sbinfraprojects.com',
+    phone: '+1 (555) 123-4567',
+    address: '123 Construction Ave, Building City, BC 12345',
+  },
+  features: {
+    bookings: true,
+    attachments: true,
+  },
+};
+
+/**
+ * tel: link for a displayed phone number
+ */
+export function phoneHref(phone: string): string {
+  return `tel:${phone.replace(/[^\d+]/g, '')}`;
+}
@@ -0,0 +1,337 @@
+/**
+ * Environment Schema
+ *
+ * Every variable the config module reads, with its default. Unset and empty
+ * variables both take the default, so a blank line in an env file never
+ * switches anything off by accident. Secrets are the exception in production,
+ * where they have no default.
+ */
+
+import { join } from 'node:path';
+import { z } from 'zod';
+import { parseWorkingHours } from '@/lib/bookings/availability';
+import { parseAllowedOrigins } from '@/lib/http/origin';
+import { LOG_LEVELS } from '@/lib/logging/logger';
+import { DEFAULT_RETENTION_DAYS } from '@/lib/privacy/retention';
+import { parseWebhookEndpoints } from '@/lib/webhooks/endpoints';
+import { DEFAULT_PUBLIC_CONFIG } from './public';
+import type { AppConfig, SharedStoreConfig } from './types';
+
+const DURATION_UNIT_MS = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+const wholeNumber = (fallback: number, min: number) =>
+  z.coerce
+    .number({ error: 'Expected a whole number' })
+    .int({ error: 'Expected a whole number' })
+    .min(min, { error: `Must be at least ${min}` })
+    .default(fallback);
+
+const flag = (fallback: boolean) =>
+  z
+    .enum(['true', 'false', '1', '0'], { error: 'Expected true or false' })
+    .default(fallback ? 'true' : 'false')
+    .transform((value) => value === 'true' || value === '1');
+
+/**
+ * A rate limit budget written as requests per window, e.g. "3/1h" or "10/15m"
+ */
+const rateLimit = (fallback: string) =>
+  z
+    .string()
+    .default(fallback)
+    .transform((value, ctx) => {
+      const match = /^(\d+)\/(\d+)([smhd])$/.exec(value.replace(/\s/g, ''));
+      const limit = Number(match?.[1]);
+      const window = Number(match?.[2]);
+      if (!match || limit < 1 || window < 1) {
+        ctx.issues.push({
+          code: 'custom',
+          input: value,
+          message: 'Expected requests per window, e.g. "3/1h" (units: s, m, h, d)',
+        });
+        return z.NEVER;
+      }
+      return {
+        limit,
+        windowMs: window * DURATION_UNIT_MS[match[3] as keyof typeof DURATION_UNIT_MS],
+      };
+    });
+
+/**
+ * A variable with its own parser in the module that uses it; the parser's
+ * error becomes the problem reported for the variable
+ */
+const parsedWith = <T>(parse: (value: string | undefined) => T) =>
+  z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      try {
+        return parse(value);
+      } catch (error) {
+        ctx.issues.push({
+          code: 'custom',
+          input: value,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        return z.NEVER;
+      }
+    });
+
+const storeKind = (fallback: 'memory' | 'sqlite') =>
+  z.enum(['memory', 'sqlite'], { error: 'Expected "memory" or "sqlite"' }).default(fallback);
+
+function sharedStore(kind: 'memory' | 'sqlite', path: string): SharedStoreConfig {
+  return kind === 'sqlite' ? { kind, path } : { kind };
+}
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const DATA_DIR = join(process.cwd(), '.data');
+
+// Matches the business hours listed in the contact section
+const DEFAULT_BOOKING_HOURS = 'mon-fri 08:00-18:00, sat 09:00-16:00';
+
+const { company, features } = DEFAULT_PUBLIC_CONFIG;
+
+/**
+ * Build the schema. In production every secret must be set: the development
+ * values are in this file, so anyone could sign tokens and IDs with them.
+ */
+export function createEnvSchema({ production }: { production: boolean }) {
+  const secret = (developmentValue: string) =>
+    production
+      ? z.string({ error: 'Required in production' })
+      : z.string().default(developmentValue);
+
+  return z
+    .object({
+      SITE_URL: z.url({ error: 'Expected an absolute URL' }).default('https://sbinfraprojects.com'),
+
+      COMPANY_NAME: z.string().default(company.name),
+      COMPANY_EMAIL: z.email({ error: 'Expected an email address' }).default(company.email),
+      COMPANY_PHONE: z
+        .string()
+        .regex(/^\+?[\d\s()-]{7,20}$/, { error: 'Expected a phone number' })
+        .default(company.phone),
+      COMPANY_ADDRESS: z.string().default(company.address),
+
+      FEATURE_BOOKINGS: flag(features.bookings),
+      FEATURE_ATTACHMENTS: flag(features.attachments),
+
+      RATE_LIMIT_CONTACT: rateLimit('3/1h'),
+      RATE_LIMIT_BOOKINGS: rateLimit('3/1h'),
+      RATE_LIMIT_INQUIRY_LOOKUP: rateLimit('10/15m'),
+      RATE_LIMIT_ADMIN_LOGIN: rateLimit('5/15m'),
+      RATE_LIMIT_DATA_REQUESTS: rateLimit('3/1h'),
+      RATE_LIMIT_DATA_CONFIRMATIONS: rateLimit('5/15m'),
+
+      CONTACT_MIN_FILL_MS: wholeNumber(3000, 0),
+      CONTACT_TOKEN_TTL_MS: wholeNumber(2 * 60 * 60 * 1000, 60 * 1000),
+      CONTACT_POW_DIFFICULTY: wholeNumber(0, 0),
+
+      MAIL_TRANSPORT: z
+        .enum(['outbox', 'smtp'], { error: 'Expected "outbox" or "smtp"' })
+        .default('outbox'),
+      MAIL_OUTBOX_DIR: z.string().default(join(process.cwd(), '.data', 'outbox')),
+      SMTP_HOST: z.string().optional(),
+      SMTP_PORT: wholeNumber(587, 1).pipe(
+        z.number().max(65535, { error: 'Must be at most 65535' })
+      ),
+      SMTP_SECURE: flag(false),
+      SMTP_USER: z.string().optional(),
+      SMTP_PASS: z.string().optional(),
+      MAIL_FROM: z.string().default('SB Infra Projects <no-reply@sbinfraprojects.com>'),
+      MAIL_SALES_TO: z.email({ error: 'Expected an email address' }).default(company.email),
+
+      ADMIN_PASSWORD: z.string().optional(),
+      ADMIN_SESSION_SECRET: z.string().optional(),
+
+      ALLOWED_ORIGINS: parsedWith(parseAllowedOrigins),
+      TRUSTED_PROXY_HOPS: wholeNumber(1, 0),
+
+      CONTACT_FORM_SECRET: secret('sb-infra-dev-form-secret'),
+
+      LEAD_STORE: z
+        .enum(['file', 'sqlite'], { error: 'Expected "file" or "sqlite"' })
+        .default('file'),
+      LEAD_STORE_PATH: z.string().optional(),
+      LEAD_ID_SECRET: secret('sb-infra-dev-id-secret'),
+      LEAD_IP_SALT: secret('sb-infra-dev-salt'),
+      AUDIT_LOG_PATH: z.string().optional(),
+      BOOKING_STORE_PATH: z.string().optional(),
+      WEBHOOK_STORE_PATH: z.string().optional(),
+      ATTACHMENT_STORE_DIR: z.string().default(join(DATA_DIR, 'attachments')),
+
+      RATE_LIMIT_STORE: storeKind('sqlite'),
+      RATE_LIMIT_PATH: z.string().default(join(DATA_DIR, 'rate-limit.db')),
+      IDEMPOTENCY_STORE: storeKind('sqlite'),
+      IDEMPOTENCY_PATH: z.string().default(join(DATA_DIR, 'idempotency.db')),
+      // A used token must stay used on every instance and after a restart
+      NONCE_STORE: storeKind('sqlite'),
+      NONCE_PATH: z.string().default(join(DATA_DIR, 'nonces.db')),
+
+      LOG_LEVEL: z
+        .enum([...LOG_LEVELS, 'silent'], {
+          error: 'Expected "debug", "info", "warn", "error" or "silent"',
+        })
+        .default('info'),
+      LOG_HASH_SALT: secret('sb-infra-dev-log-salt'),
+
+      WEBHOOK_ENDPOINTS: parsedWith(parseWebhookEndpoints),
+      WEBHOOK_MAX_ATTEMPTS: wholeNumber(8, 1),
+      WEBHOOK_RETRY_BASE_SECONDS: wholeNumber(30, 1),
+      WEBHOOK_RETRY_MAX_SECONDS: wholeNumber(3600, 1),
+      WEBHOOK_TIMEOUT_MS: wholeNumber(10_000, 100),
+
+      BOOKING_TIME_ZONE: z
+        .string()
+        .default('Asia/Kolkata')
+        .refine(isTimeZone, { error: 'Expected an IANA time zone, e.g. "Asia/Kolkata"' }),
+      BOOKING_HOURS: parsedWith((value) => parseWorkingHours(value ?? DEFAULT_BOOKING_HOURS)),
+      BOOKING_HOLIDAYS: z
+        .string()
+        .default('')
+        .transform((value) =>
+          value
+            .split(',')
+            .map((date) => date.trim())
+            .filter(Boolean)
+        )
+        .pipe(z.array(z.iso.date({ error: 'Expected comma separated dates as YYYY-MM-DD' }))),
+      BOOKING_SLOT_MINUTES: wholeNumber(60, 15),
+      BOOKING_MIN_NOTICE_HOURS: wholeNumber(24, 0),
+      BOOKING_HORIZON_DAYS: wholeNumber(30, 1),
+      BOOKING_OFFICE_LOCATION: z.string().optional(),
+
+      LEAD_RETENTION_DAYS: wholeNumber(DEFAULT_RETENTION_DAYS, 1),
+      PRIVACY_CODE_SECRET: secret('sb-infra-dev-privacy-secret'),
+    })
+    .refine((env) => env.MAIL_TRANSPORT !== 'smtp' || Boolean(env.SMTP_HOST), {
+      path: ['SMTP_HOST'],
+      error: 'Required when MAIL_TRANSPORT is "smtp"',
+      // Also when other variables are invalid, so every problem is reported at once
+      when: () => true,
+    })
+    .refine((env) => !production || !env.ADMIN_PASSWORD || Boolean(env.ADMIN_SESSION_SECRET), {
+      path: ['ADMIN_SESSION_SECRET'],
+      error: 'Required in production when ADMIN_PASSWORD is set',
+      when: () => true,
+    })
+    .transform(
+      (env): AppConfig => ({
+        siteUrl: env.SITE_URL,
+        http: {
+          allowedOrigins: env.ALLOWED_ORIGINS,
+          trustedProxyHops: env.TRUSTED_PROXY_HOPS,
+        },
+        company: {
+          name: env.COMPANY_NAME,
+          email: env.COMPANY_EMAIL,
+          phone: env.COMPANY_PHONE,
+          address: env.COMPANY_ADDRESS,
+        },
+        features: {
+          bookings: env.FEATURE_BOOKINGS,
+          attachments: env.FEATURE_ATTACHMENTS,
+        },
+        rateLimits: {
+          contact: env.RATE_LIMIT_CONTACT,
+          bookings: env.RATE_LIMIT_BOOKINGS,
+          inquiryLookup: env.RATE_LIMIT_INQUIRY_LOOKUP,
+          adminLogin: env.RATE_LIMIT_ADMIN_LOGIN,
+          dataRequests: env.RATE_LIMIT_DATA_REQUESTS,
+          dataConfirmations: env.RATE_LIMIT_DATA_CONFIRMATIONS,
+        },
+        spam: {
+          minFillMs: env.CONTACT_MIN_FILL_MS,
+          tokenTtlMs: env.CONTACT_TOKEN_TTL_MS,
+          powDifficulty: env.CONTACT_POW_DIFFICULTY,
+          tokenSecret: env.CONTACT_FORM_SECRET,
+        },
+        mail: {
+          transport:
+            env.MAIL_TRANSPORT === 'smtp'
+              ? {
+                  kind: 'smtp',
+                  host: env.SMTP_HOST ?? '',
+                  port: env.SMTP_PORT,
+                  secure: env.SMTP_SECURE,
+                  user: env.SMTP_USER,
+                  pass: env.SMTP_PASS,
+                }
+              : { kind: 'outbox', dir: env.MAIL_OUTBOX_DIR },
+          from: env.MAIL_FROM,
+          salesTo: env.MAIL_SALES_TO,
+        },
+        admin: {
+          password: env.ADMIN_PASSWORD,
+          sessionSecret: env.ADMIN_SESSION_SECRET,
+        },
+        leads: {
+          store: { kind: env.LEAD_STORE, path: env.LEAD_STORE_PATH },
+          idSecret: env.LEAD_ID_SECRET,
+          ipSalt: env.LEAD_IP_SALT,
+        },
+        paths: {
+          auditLog: env.AUDIT_LOG_PATH,
+          bookings: env.BOOKING_STORE_PATH,
+          webhookDeliveries: env.WEBHOOK_STORE_PATH,
+          attachments: env.ATTACHMENT_STORE_DIR,
+        },
+        stores: {
+          rateLimits: sharedStore(env.RATE_LIMIT_STORE, env.RATE_LIMIT_PATH),
+          idempotency: sharedStore(env.IDEMPOTENCY_STORE, env.IDEMPOTENCY_PATH),
+          nonces: sharedStore(env.NONCE_STORE, env.NONCE_PATH),
+        },
+        logging: { level: env.LOG_LEVEL, hashSalt: env.LOG_HASH_SALT },
+        webhooks: {
+          endpoints: env.WEBHOOK_ENDPOINTS,
+          delivery: {
+            maxAttempts: env.WEBHOOK_MAX_ATTEMPTS,
+            retryBaseMs: env.WEBHOOK_RETRY_BASE_SECONDS * 1000,
+            retryMaxMs: env.WEBHOOK_RETRY_MAX_SECONDS * 1000,
+            timeoutMs: env.WEBHOOK_TIMEOUT_MS,
+          },
+        },
+        bookings: {
+          availability: {
+            timeZone: env.BOOKING_TIME_ZONE,
+            workingHours: env.BOOKING_HOURS,
+            holidays: env.BOOKING_HOLIDAYS,
+            slotMinutes: env.BOOKING_SLOT_MINUTES,
+            minNoticeHours: env.BOOKING_MIN_NOTICE_HOURS,
+            horizonDays: env.BOOKING_HORIZON_DAYS,
+          },
+          officeLocation: env.BOOKING_OFFICE_LOCATION ?? env.COMPANY_ADDRESS,
+        },
+        privacy: { retentionDays: env.LEAD_RETENTION_DAYS, codeSecret: env.PRIVACY_CODE_SECRET },
+      })
+    );
+}
+
+export type ConfigResult = { ok: true; config: AppConfig } | { ok: false; problems: string[] };
+
+/**
+ * Validate environment variables and build the configuration from them.
+ * Problems name the variable, never its value, as values may be secrets.
+ */
+export function parseConfig(env: Record<string, string | undefined>): ConfigResult {
+  const present = Object.fromEntries(Object.entries(env).filter(([, value]) => value !== ''));
+  // `next build` runs in production mode too, but without the runtime secrets
+  const production = env.NODE_ENV === 'production' && env.NEXT_PHASE !== 'phase-production-build';
+  const result = createEnvSchema({ production }).safeParse(present);
+
+  if (result.success) return { ok: true, config: result.data };
+  return {
+    ok: false,
+    problems: result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Configuration Types
+ */
+
+import type { AvailabilityConfig } from '@/lib/bookings/types';
+import type { LogLevel } from '@/lib/logging/logger';
+import type { WebhookDispatcherOptions } from '@/lib/webhooks/dispatcher';
+import type { WebhookEndpoint } from '@/lib/webhooks/types';
+import type { CompanyDetails, FeatureToggles } from './public';
+
+export interface RateLimitBudget {
+  limit: number;
+  windowMs: number;
+}
+
+export type RateLimitName =
+  | 'contact'
+  | 'bookings'
+  | 'inquiryLookup'
+  | 'adminLogin'
+  | 'dataRequests'
+  | 'dataConfirmations';
+
+export type MailTransportConfig =
+  | { kind: 'outbox'; dir: string }
+  | { kind: 'smtp'; host: string; port: number; secure: boolean; user?: string; pass?: string };
+
+/**
+ * Where leads and the records kept beside them live. `path` overrides the
+ * default file under .data.
+ */
+export interface LeadStoreConfig {
+  kind: 'file' | 'sqlite';
+  path?: string;
+}
+
+/**
+ * A store every server instance must agree on, such as rate limit counters.
+ * Memory is only right for a single instance.
+ */
+export type SharedStoreConfig = { kind: 'memory' } | { kind: 'sqlite'; path: string };
+
+export interface AppConfig {
+  /** Public address of the site, used for links in emails and the API document */
+  siteUrl: string;
+  http: {
+    /** Origins besides the site allowed to call state-changing API routes */
+    allowedOrigins: string[];
+    /** Reverse proxies in front of the app, whose X-Forwarded-For entries are trusted */
+    trustedProxyHops: number;
+  };
+  company: CompanyDetails;
+  features: FeatureToggles;
+  rateLimits: Record<RateLimitName, RateLimitBudget>;
+  /** Bot screening of the contact and booking forms */
+  spam: { minFillMs: number; tokenTtlMs: number; powDifficulty: number; tokenSecret: string };
+  mail: { transport: MailTransportConfig; from: string; salesTo: string };
+  /** The admin area stays closed while `password` is unset */
+  admin: { password?: string; sessionSecret?: string };
+  leads: {
+    store: LeadStoreConfig;
+    /** Key for the tag that makes submission IDs verifiable */
+    idSecret: string;
+    /** Secret mixed into client IP hashes */
+    ipSalt: string;
+  };
+  /** Overrides for the files kept beside the leads */
+  paths: { auditLog?: string; bookings?: string; webhookDeliveries?: string; attachments: string };
+  stores: {
+    rateLimits: SharedStoreConfig;
+    idempotency: SharedStoreConfig;
+    /** Nonces of used one-time tokens */
+    nonces: SharedStoreConfig;
+  };
+  logging: {
+    level: LogLevel | 'silent';
+    /** Secret mixed into the hashes that stand in for emails, phones and IPs */
+    hashSalt: string;
+  };
+  webhooks: { endpoints: WebhookEndpoint[]; delivery: WebhookDispatcherOptions };
+  bookings: { availability: AvailabilityConfig; officeLocation: string };
+  privacy: {
+    retentionDays: number;
+    /** Signs data request tokens and their one-time codes */
+    codeSecret: string;
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Contact API Client
+ *
+ * Typed wrapper around POST /api/contact that turns every response into a
+ * discriminated result, including per-field errors from server validation.
+ * Network failures are thrown so callers can tell them apart from rejections.
+ */
+
+import {
+  ATTACHMENTS_FIELD,
+  issuesToFieldErrors,
+  type ContactBotFields,
+  type ContactChallengeResponse,
+  type ContactErrorResponse,
+  type ContactFieldErrors,
+  type ContactFormData,
+  type ContactResponse,
+} from './contract';
+import type { InquiryStatus, InquiryStatusResponse } from './tracking';
+import { IDEMPOTENCY_KEY_HEADER } from '@/lib/idempotency/key';
+
+export const CONTACT_ENDPOINT = '/api/contact';
+export const CONTACT_CHALLENGE_ENDPOINT = '/api/contact/challenge';
+
+export type InquiryStatusResult =
+  | { ok: true; inquiry: InquiryStatus }
+  | { ok: false; status: number; message: string };
+
+export type ContactSubmitResult =
+  | {
+      ok: true;
+      submissionId: string;
+      message: string;
+    }
+  | {
+      ok: false;
+      status: number;
+      message: string;
+      fieldErrors: ContactFieldErrors;
+    };
+
+// Fallback copy when the server response carries no message
+const DEFAULT_ERROR_MESSAGES: Record<number, string> = {
+  400: 'Please check your input and try again.',
+  413: 'Your attachments are too large.',
+  429: 'Too many submissions. Please try again later.',
+};
+
+/**
+ * Fetch a signed form token and proof-of-work challenge
+ */
+export async function fetchContactChallenge(): Promise<ContactChallengeResponse> {
+  const response = await fetch(CONTACT_CHALLENGE_ENDPOINT, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Challenge request failed with status ${response.status}`);
+  }
+  return (await response.json()) as ContactChallengeResponse;
+}
+
+/**
+ * Build a multipart body; the browser sets the Content-Type with its boundary
+ */
+function toFormData(fields: Record<string, unknown>, attachments: File[]): FormData {
+  const body = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    body.append(name, typeof value === 'string' ? value : JSON.stringify(value));
+  }
+  for (const file of attachments) {
+    body.append(ATTACHMENTS_FIELD, file, file.name);
+  }
+  return body;
+}
+
+/**
+ * Submit the form as JSON, or as multipart when files are attached. Pass the
+ * same idempotency key with every attempt at one form fill, so a retry after
+ * a lost response cannot create a second inquiry.
+ */
+export async function submitContactForm(
+  data: ContactFormData,
+  botFields: ContactBotFields = {},
+  attachments: File[] = [],
+  idempotencyKey?: string
+): Promise<ContactSubmitResult> {
+  const fields = { ...data, ...botFields };
+  const keyHeader: Record<string, string> = idempotencyKey
+    ? { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey }
+    : {};
+  const response = await fetch(
+    CONTACT_ENDPOINT,
+    attachments.length > 0
+      ? { method: 'POST', headers: keyHeader, body: toFormData(fields, attachments) }
+      : {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...keyHeader,
+          },
+          body: JSON.stringify(fields),
+        }
+  );
+
+  const body = (await response.json()) as ContactResponse;
+
+  if (response.ok && body.success) {
+    return { ok: true, submissionId: body.submissionId, message: body.message };
+  }
+
+  const error = body as ContactErrorResponse;
+  return {
+    ok: false,
+    status: response.status,
+    message:
+      error.message ||
+      DEFAULT_ERROR_MESSAGES[response.status] ||
+      'Something went wrong. Please try again.',
+    fieldErrors: error.details ? issuesToFieldErrors(error.details) : {},
+  };
+}
+
+/**
+ * Look up an inquiry by its reference number and the email it was sent from
+ */
+export async function fetchInquiryStatus(
+  submissionId: string,
+  email: string
+): Promise<InquiryStatusResult> {
+  const response = await fetch(
+    `${CONTACT_ENDPOINT}/${encodeURIComponent(submissionId)}?${new URLSearchParams({ email })}`,
+    { cache: 'no-store' }
+  );
+  const body = (await response.json()) as InquiryStatusResponse;
+
+  if (response.ok && body.success) {
+    return { ok: true, inquiry: body.inquiry };
+  }
+  return {
+    ok: false,
+    status: response.status,
+    message: (body as ContactErrorResponse).message || 'Something went wrong. Please try again.',
+  };
+}
@@ -0,0 +1,222 @@
+/**
+ * Contact Form Contract
+ *
+ * Single source of truth for the contact form payload and the responses of
+ * POST /api/contact. Imported by both ContactForm and the API route so client
+ * and server validation can never drift apart.
+ */
+
+import { z } from 'zod';
+import type { ApiErrorResponse, ApiIssue } from '@/lib/http/errors';
+import { PHONE_REJECTION_MESSAGES, parseIndianPhone } from '@/lib/phone/parse';
+import { CONSENT_REQUIRED_MESSAGE, CONSENT_VERSIONS } from '@/lib/privacy/consent';
+
+// Stricter email validation regex
+// Requires: local-part @ domain . tld
+// - Local part: alphanumeric, dots, hyphens, underscores (must start/end with alphanumeric)
+// - Domain: alphanumeric and hyphens (must start/end with alphanumeric)
+// - TLD: at least 2 letters
+export const EMAIL_REGEX =
+  /^[a-zA-Z0-9]([a-zA-Z0-9._-]*[a-zA-Z0-9])?@[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?)*\.[a-zA-Z]{2,}$/;
+
+export const PROJECT_TYPES = [
+  'Residential Construction',
+  'Commercial Project',
+  'Industrial Facility',
+  'Renovation & Remodeling',
+  'Infrastructure Development',
+  'Construction Consulting',
+  'Other',
+] as const;
+
+export type ProjectType = (typeof PROJECT_TYPES)[number];
+
+export const BUDGET_RANGES = [
+  'Under $50,000',
+  '$50,000 - $100,000',
+  '$100,000 - $250,000',
+  '$250,000 - $500,000',
+  '$500,000 - $1,000,000',
+  'Over $1,000,000',
+  'Not Sure',
+] as const;
+
+export type BudgetRange = (typeof BUDGET_RANGES)[number];
+
+const positiveNumber = (label: string, max: number) =>
+  z.coerce
+    .number({ message: `${label} must be a number` })
+    .positive(`${label} must be greater than 0`)
+    .max(max, `${label} seems too large`);
+
+const wholeNumber = (label: string, min: number, max: number) =>
+  z.coerce
+    .number({ message: `${label} must be a number` })
+    .int(`${label} must be a whole number`)
+    .min(min, `${label} must be at least ${min}`)
+    .max(max, `${label} must be at most ${max}`);
+
+export const residentialDetailsSchema = z.object({
+  plotSize: positiveNumber('Plot size', 1_000_000),
+  floors: wholeNumber('Floors', 1, 10),
+  bhk: wholeNumber('BHK', 1, 10),
+});
+
+export const industrialDetailsSchema = z.object({
+  builtUpArea: positiveNumber('Built-up area', 10_000_000),
+  clearHeight: positiveNumber('Clear height', 60),
+  loadingDocks: wholeNumber('Loading docks', 0, 200),
+});
+
+/**
+ * Follow-up questions asked for project types where the flat form is not enough
+ */
+export const PROJECT_DETAIL_SCHEMAS: Partial<Record<ProjectType, z.ZodObject>> = {
+  'Residential Construction': residentialDetailsSchema,
+  'Industrial Facility': industrialDetailsSchema,
+};
+
+export type ResidentialDetails = z.infer<typeof residentialDetailsSchema>;
+export type IndustrialDetails = z.infer<typeof industrialDetailsSchema>;
+export type ProjectDetails = ResidentialDetails | IndustrialDetails;
+export type ProjectDetailField = keyof ResidentialDetails | keyof IndustrialDetails;
+
+export const PROJECT_DETAIL_FIELDS: Record<ProjectDetailField, { label: string; unit?: string }> = {
+  plotSize: { label: 'Plot Size', unit: 'sq ft' },
+  floors: { label: 'Number of Floors' },
+  bhk: { label: 'Bedrooms (BHK)' },
+  builtUpArea: { label: 'Built-up Area', unit: 'sq ft' },
+  clearHeight: { label: 'Clear Height', unit: 'm' },
+  loadingDocks: { label: 'Loading Docks' },
+};
+
+/**
+ * Indian mobile or landline number in any common notation, or empty.
+ * Valid numbers come out in E.164 form, which is what gets stored.
+ */
+export const phoneSchema = z.string().transform((value, ctx) => {
+  if (value === '') return '';
+
+  const parsed = parseIndianPhone(value);
+  if (!parsed.ok) {
+    ctx.addIssue({ code: 'custom', message: PHONE_REJECTION_MESSAGES[parsed.reason] });
+    return z.NEVER;
+  }
+  return parsed.e164;
+});
+
+/**
+ * Field-level rules without the cross-field check, so steps can pick from it
+ */
+export const contactFieldsSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters').max(100, 'Name is too long'),
+  email: z
+    .string()
+    .min(1, 'Email is required')
+    .regex(EMAIL_REGEX, 'Please enter a valid email address'),
+  phone: phoneSchema.optional(),
+  projectType: z.enum(PROJECT_TYPES, { message: 'Please select a project type' }),
+  budget: z
+    .enum(BUDGET_RANGES, { message: 'Please select a budget range' })
+    .optional()
+    .or(z.literal('')),
+  message: z
+    .string()
+    .min(10, 'Message must be at least 10 characters')
+    .max(1000, 'Message is too long'),
+  projectDetails: z
+    .union([residentialDetailsSchema.strict(), industrialDetailsSchema.strict()])
+    .optional(),
+  /** Version of the consent notice the submitter ticked */
+  consentVersion: z.enum(CONSENT_VERSIONS, { message: CONSENT_REQUIRED_MESSAGE }),
+});
+
+export const contactSchema = contactFieldsSchema.superRefine((data, ctx) => {
+  if (!data.projectDetails) return;
+
+  // Details are optional, but when sent they must be the ones asked for this project type
+  const detailsSchema = PROJECT_DETAIL_SCHEMAS[data.projectType];
+  if (!detailsSchema?.strict().safeParse(data.projectDetails).success) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['projectDetails'],
+      message: `These project details do not apply to ${data.projectType}`,
+    });
+  }
+});
+
+export type ContactFormData = z.infer<typeof contactSchema>;
+
+export type ContactField = keyof ContactFormData;
+
+/**
+ * Fields entered as plain text inputs, i.e. everything but the structured
+ * details and the consent checkbox
+ */
+export type ContactTextField = Exclude<ContactField, 'projectDetails' | 'consentVersion'>;
+
+/**
+ * Multipart field carrying uploaded files; errors about them use it as their path
+ */
+export const ATTACHMENTS_FIELD = 'attachments';
+
+/**
+ * Field name to error message, as rendered under each form input
+ */
+export type ContactFieldErrors = Partial<Record<ContactField | typeof ATTACHMENTS_FIELD, string>>;
+
+/**
+ * Anti-spam fields posted alongside the form data. They are checked and
+ * discarded by the route, never stored with the lead.
+ */
+export interface ContactBotFields {
+  /** Honeypot: hidden from people, so any value marks the sender as a bot */
+  website?: string;
+  /** Signed token from GET /api/contact/challenge */
+  formToken?: string;
+  /** Proof-of-work solution for `formToken`, when the challenge requires one */
+  powSolution?: string;
+}
+
+export interface ContactChallengeResponse {
+  token: string;
+  /** Required proof-of-work leading zero bits; 0 means none */
+  difficulty: number;
+  /** Time the form must be open before it is submitted; quicker submissions count as bots */
+  minFillMs: number;
+}
+
+/**
+ * Serializable subset of a zod issue returned in `details`
+ */
+export type ContactIssue = ApiIssue;
+
+export interface ContactSuccessResponse {
+  success: true;
+  message: string;
+  submissionId: string;
+}
+
+/**
+ * The error envelope shared by every API route; branch on `code`
+ */
+export type ContactErrorResponse = ApiErrorResponse;
+
+export type ContactResponse = ContactSuccessResponse | ContactErrorResponse;
+
+/**
+ * Collapse issues to the first message per top-level field
+ */
+export function issuesToFieldErrors(issues: ContactIssue[]): ContactFieldErrors {
+  const fieldErrors: ContactFieldErrors = {};
+  for (const issue of issues) {
+    const field = issue.path[0];
+    const known =
+      field === ATTACHMENTS_FIELD ||
+      (typeof field === 'string' && field in contactFieldsSchema.shape);
+    if (known && !(field in fieldErrors)) {
+      fieldErrors[field as keyof ContactFieldErrors] = issue.message;
+    }
+  }
+  return fieldErrors;
+}
@@ -0,0 +1,66 @@
+/**
+ * Contact Entry Point
+ *
+ * Shared contract and typed client for the contact form endpoint.
+ */
+
+export {
+  ATTACHMENTS_FIELD,
+  BUDGET_RANGES,
+  EMAIL_REGEX,
+  PROJECT_DETAIL_FIELDS,
+  PROJECT_DETAIL_SCHEMAS,
+  PROJECT_TYPES,
+  contactFieldsSchema,
+  contactSchema,
+  industrialDetailsSchema,
+  issuesToFieldErrors,
+  phoneSchema,
+  residentialDetailsSchema,
+  type BudgetRange,
+  type ContactBotFields,
+  type ContactChallengeResponse,
+  type ContactErrorResponse,
+  type ContactField,
+  type ContactFieldErrors,
+  type ContactFormData,
+  type ContactIssue,
+  type ContactResponse,
+  type ContactSuccessResponse,
+  type ContactTextField,
+  type IndustrialDetails,
+  type ProjectDetailField,
+  type ProjectDetails,
+  type ProjectType,
+  type ResidentialDetails,
+} from './contract';
+export {
+  CONTACT_CHALLENGE_ENDPOINT,
+  CONTACT_ENDPOINT,
+  fetchContactChallenge,
+  fetchInquiryStatus,
+  submitContactForm,
+  type ContactSubmitResult,
+  type InquiryStatusResult,
+} from './client';
+export {
+  INQUIRY_STATUS_COPY,
+  inquiryLookupSchema,
+  type InquiryLookup,
+  type InquiryStatus,
+  type InquiryStatusResponse,
+  type InquiryStatusSuccessResponse,
+} from './tracking';
+export {
+  EMPTY_INQUIRY_DRAFT,
+  INQUIRY_STEPS,
+  INQUIRY_STEP_TITLES,
+  detailFieldsFor,
+  parseInquiry,
+  stepForErrors,
+  toInquiryPayload,
+  validateInquiryStep,
+  type InquiryDraft,
+  type InquiryErrors,
+  type InquiryStep,
+} from './wizard';
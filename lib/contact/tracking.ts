@@ -0,0 +1,72 @@
+/**
+ * Inquiry Tracking Contract
+ *
+ * Shapes for GET /api/contact/{submissionId}, which lets a visitor look up
+ * their inquiry with the reference number and the email it was sent from,
+ * and the wording used for each pipeline stage on the tracking page.
+ */
+
+import { z } from 'zod';
+import type { LeadStatus } from '@/lib/leads/types';
+import { EMAIL_REGEX, type ContactErrorResponse } from './contract';
+
+export const inquiryLookupSchema = z.object({
+  submissionId: z
+    .string()
+    .trim()
+    .min(1, 'Please enter your reference number')
+    .max(64, 'That reference number is too long'),
+  email: z
+    .string()
+    .trim()
+    .min(1, 'Email is required')
+    .regex(EMAIL_REGEX, 'Please enter a valid email address'),
+});
+
+export type InquiryLookup = z.infer<typeof inquiryLookupSchema>;
+
+/**
+ * What a visitor is told about each stage; internal detail stays in the admin area
+ */
+export const INQUIRY_STATUS_COPY: Record<LeadStatus, { label: string; description: string }> = {
+  new: {
+    label: 'Received',
+    description: 'Your inquiry is with our team and someone will be in touch shortly.',
+  },
+  contacted: {
+    label: 'In Discussion',
+    description: 'Our team has been in touch and is working through your requirements with you.',
+  },
+  'site-visit': {
+    label: 'Site Visit',
+    description: 'A visit to your site is planned or complete, so we can assess it in person.',
+  },
+  quoted: {
+    label: 'Quote Sent',
+    description: 'We have sent you a quote for your project.',
+  },
+  won: {
+    label: 'Project Confirmed',
+    description: 'Your project is confirmed. Thank you for choosing SB Infra Projects.',
+  },
+  lost: {
+    label: 'Closed',
+    description:
+      'This inquiry is closed. Reply to our last email or send a new inquiry to pick it up again.',
+  },
+};
+
+export interface InquiryStatus {
+  submissionId: string;
+  status: LeadStatus;
+  projectType: string;
+  receivedAt: string;
+  updatedAt: string;
+}
+
+export interface InquiryStatusSuccessResponse {
+  success: true;
+  inquiry: InquiryStatus;
+}
+
+export type InquiryStatusResponse = InquiryStatusSuccessResponse | ContactErrorResponse;
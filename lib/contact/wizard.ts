@@ -0,0 +1,150 @@
+/**
+ * Inquiry Wizard Steps
+ *
+ * Splits the contact contract into the steps of the multi-step inquiry form.
+ * Each step validates only its own fields with a sub-schema picked from the
+ * contract, and the assembled payload is checked against the full
+ * `contactSchema`, so anything the wizard submits also passes the server.
+ */
+
+import { z } from 'zod';
+import {
+  PROJECT_DETAIL_SCHEMAS,
+  contactFieldsSchema,
+  contactSchema,
+  type ContactFormData,
+  type ContactTextField,
+  type ProjectDetailField,
+  type ProjectType,
+} from './contract';
+
+export const INQUIRY_STEPS = ['contact', 'project', 'details', 'review'] as const;
+
+export type InquiryStep = (typeof INQUIRY_STEPS)[number];
+
+export const INQUIRY_STEP_TITLES: Record<InquiryStep, string> = {
+  contact: 'Contact Details',
+  project: 'Project Type',
+  details: 'Project Details',
+  review: 'Review',
+};
+
+/**
+ * Raw wizard input; every value is the string typed into its input
+ */
+export interface InquiryDraft {
+  fields: Record<ContactTextField, string>;
+  details: Partial<Record<ProjectDetailField, string>>;
+}
+
+export const EMPTY_INQUIRY_DRAFT: InquiryDraft = {
+  fields: { name: '', email: '', phone: '', projectType: '', budget: '', message: '' },
+  details: {},
+};
+
+/**
+ * Error messages keyed by dotted field path, e.g. `email` or `projectDetails.floors`
+ */
+export type InquiryErrors = Record<string, string>;
+
+const contactStepSchema = contactFieldsSchema.pick({ name: true, email: true, phone: true });
+const projectStepSchema = contactFieldsSchema.pick({ projectType: true, budget: true });
+
+/**
+ * Questions asked on the details step for a project type, if any
+ */
+export function detailFieldsFor(projectType: string): ProjectDetailField[] {
+  const schema = PROJECT_DETAIL_SCHEMAS[projectType as ProjectType];
+  return schema ? (Object.keys(schema.shape) as ProjectDetailField[]) : [];
+}
+
+function detailsStepSchema(projectType: string) {
+  const details = PROJECT_DETAIL_SCHEMAS[projectType as ProjectType];
+  return z.object({
+    message: contactFieldsSchema.shape.message,
+    ...(details ? { projectDetails: details } : {}),
+  });
+}
+
+/**
+ * Assemble the request payload from the draft. Details are only sent for
+ * project types that ask for them, so switching type drops stale answers.
+ * Consent is given on the review step and is never part of the saved draft.
+ */
+export function toInquiryPayload(
+  draft: InquiryDraft,
+  consentVersion?: string
+): Record<string, unknown> {
+  const detailFields = detailFieldsFor(draft.fields.projectType);
+  return {
+    ...draft.fields,
+    consentVersion,
+    ...(detailFields.length > 0
+      ? {
+          projectDetails: Object.fromEntries(
+            detailFields.map((field) => [field, draft.details[field] ?? ''])
+          ),
+        }
+      : {}),
+  };
+}
+
+function toErrors(error: z.ZodError): InquiryErrors {
+  const errors: InquiryErrors = {};
+  for (const issue of error.issues) {
+    const key = issue.path.join('.');
+    if (!(key in errors)) errors[key] = issue.message;
+  }
+  return errors;
+}
+
+/**
+ * Validate the fields that belong to one step
+ */
+export function validateInquiryStep(step: InquiryStep, draft: InquiryDraft): InquiryErrors {
+  const payload = toInquiryPayload(draft);
+  const schema =
+    step === 'contact'
+      ? contactStepSchema
+      : step === 'project'
+        ? projectStepSchema
+        : step === 'details'
+          ? detailsStepSchema(draft.fields.projectType)
+          : contactSchema;
+
+  const result = schema.safeParse(payload);
+  return result.success ? {} : toErrors(result.error);
+}
+
+/**
+ * Validate the whole draft, with the consent given on the review step,
+ * against the server contract
+ */
+export function parseInquiry(
+  draft: InquiryDraft,
+  consentVersion?: string
+): { ok: true; data: ContactFormData } | { ok: false; errors: InquiryErrors } {
+  const result = contactSchema.safeParse(toInquiryPayload(draft, consentVersion));
+  return result.success
+    ? { ok: true, data: result.data }
+    : { ok: false, errors: toErrors(result.error) };
+}
+
+/**
+ * First step that owns one of the given error keys, used to send the visitor
+ * back to whatever the server rejected
+ */
+export function stepForErrors(errors: InquiryErrors): InquiryStep | null {
+  const keys = Object.keys(errors);
+  if (keys.some((key) => key in contactStepSchema.shape)) return 'contact';
+  if (keys.some((key) => key in projectStepSchema.shape)) return 'project';
+  if (
+    keys.some(
+      (key) => key === 'message' || key.startsWith('projectDetails') || key === 'attachments'
+    )
+  ) {
+    return 'details';
+  }
+  if (keys.includes('consentVersion')) return 'review';
+  return null;
+}
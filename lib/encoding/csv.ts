@@ -0,0 +1,19 @@
+/**
+ * CSV Encoding
+ *
+ * RFC 4180 cells that spreadsheet apps open as text. A cell starting with
+ * =, +, -, @, a tab or a carriage return is read as a formula by Excel,
+ * LibreOffice and Google Sheets, so such cells get a leading apostrophe,
+ * which the apps hide and treat as "this is text".
+ */
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function escapeCsvCell(value: string): string {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvRow(cells: string[]): string {
+  return cells.map(escapeCsvCell).join(',');
+}
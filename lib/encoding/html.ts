@@ -0,0 +1,18 @@
+/**
+ * HTML Encoding
+ *
+ * For text and quoted attribute values in markup built as strings, such as
+ * the email templates. React escapes JSX text and attributes itself.
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
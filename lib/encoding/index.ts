@@ -0,0 +1,19 @@
+/**
+ * Output Encoding Entry Point
+ *
+ * Submitted text is stored exactly as typed and encoded for the place it is
+ * written to, never stripped on the way in. Each context has its own encoder:
+ *
+ * - HTML built as strings (email templates): escapeHtml
+ * - Links in the admin UI: mailtoHref, telHref; React escapes the text itself
+ * - CSV export: escapeCsvCell, toCsvRow, with spreadsheet formula protection
+ * - Email headers: escapeHeaderText
+ * - Log lines: escapeLogText
+ *
+ * Safe to import from client components.
+ */
+
+export { escapeCsvCell, toCsvRow } from './csv';
+export { escapeHtml } from './html';
+export { escapeHeaderText, escapeLogText } from './text';
+export { mailtoHref, telHref } from './url';
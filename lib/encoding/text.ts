@@ -0,0 +1,34 @@
+/**
+ * Plain-Text Encoding
+ *
+ * Single-line contexts where a line break or control character in a value
+ * would be read as structure: email headers and log lines.
+ */
+
+// C0 and C1 control characters, including CR, LF and ESC
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f-\u009f]+/g;
+
+// Invisible characters that can make a log line read differently than it is stored:
+// controls, line and paragraph separators, and bidirectional overrides
+const LOG_UNSAFE_CHARACTERS =
+  /[\u0000-\u001f\u007f-\u009f\u2028\u2029\u200e\u200f\u202a-\u202e\u2066-\u2069]/g;
+
+/**
+ * A value for an email header such as the subject, with line breaks and other
+ * control characters turned into single spaces
+ */
+export function escapeHeaderText(value: string): string {
+  return value.replace(CONTROL_CHARACTERS, ' ').trim();
+}
+
+/**
+ * A log line with every unsafe character written as a \uXXXX escape. Applied
+ * to serialized JSON it leaves the record parseable, since these characters
+ * can only occur inside its strings.
+ */
+export function escapeLogText(value: string): string {
+  return value.replace(
+    LOG_UNSAFE_CHARACTERS,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+}
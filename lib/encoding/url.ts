@@ -0,0 +1,25 @@
+/**
+ * URL Encoding
+ *
+ * Links built from submitted values. React escapes attribute quotes but not
+ * the scheme, so a value is only ever placed after a fixed scheme, and only
+ * when it has the expected shape.
+ */
+
+import { EMAIL_REGEX } from '@/lib/contact/contract';
+
+/**
+ * mailto: link for an email address, or undefined when the value is not one
+ */
+export function mailtoHref(email: string): string | undefined {
+  if (!EMAIL_REGEX.test(email)) return undefined;
+  return `mailto:${encodeURIComponent(email).replace('%40', '@')}`;
+}
+
+/**
+ * tel: link for a phone number, or undefined when it has too few digits to dial
+ */
+export function telHref(phone: string): string | undefined {
+  const dialable = phone.trim().replace(/(?!^\+)[^\d]/g, '');
+  return dialable.replace('+', '').length >= 7 ? `tel:${dialable}` : undefined;
+}
@@ -0,0 +1,130 @@
+/**
+ * Cost Estimation
+ *
+ * Turns an estimator input into a low/likely/high cost range using a rate
+ * table, split across the building phases shown in the process section.
+ */
+
+import { z } from 'zod';
+import { BUILDING_PHASES } from '@/lib/constants';
+import type { BudgetRange } from '@/lib/contact';
+import { CURRENT_RATE_TABLE } from './rate-tables';
+import {
+  ESTIMATE_CATEGORIES,
+  ESTIMATE_CITIES,
+  FINISH_TIERS,
+  type CostRange,
+  type Estimate,
+  type EstimateInput,
+  type PhaseCost,
+  type RateTable,
+} from './types';
+
+function keysOf<T extends Record<string, unknown>>(record: T) {
+  return Object.keys(record) as [keyof T & string, ...(keyof T & string)[]];
+}
+
+export const estimateInputSchema = z.object({
+  category: z.enum(keysOf(ESTIMATE_CATEGORIES), { message: 'Please select a category' }),
+  builtUpArea: z.coerce
+    .number({ message: 'Built-up area must be a number' })
+    .min(100, 'Built-up area must be at least 100 sq ft')
+    .max(1_000_000, 'Built-up area must be at most 1,000,000 sq ft'),
+  floors: z.coerce
+    .number({ message: 'Floors must be a number' })
+    .int('Floors must be a whole number')
+    .min(1, 'Floors must be at least 1')
+    .max(50, 'Floors must be at most 50'),
+  finishTier: z.enum(keysOf(FINISH_TIERS), { message: 'Please select a finish tier' }),
+  city: z.enum(keysOf(ESTIMATE_CITIES), { message: 'Please select a city' }),
+});
+
+// Upper bound in US dollars for each budget range, in ascending order
+const BUDGET_RANGE_LIMITS: [number, BudgetRange][] = [
+  [50_000, 'Under $50,000'],
+  [100_000, '$50,000 - $100,000'],
+  [250_000, '$100,000 - $250,000'],
+  [500_000, '$250,000 - $500,000'],
+  [1_000_000, '$500,000 - $1,000,000'],
+  [Infinity, 'Over $1,000,000'],
+];
+
+/**
+ * Estimate the cost of a build.
+ * Phase amounts are rounded individually and the last phase absorbs the
+ * rounding difference, so the breakdown always adds up to the totals.
+ */
+export function estimateCost(
+  input: EstimateInput,
+  table: RateTable = CURRENT_RATE_TABLE
+): Estimate {
+  const multiplier =
+    table.finishMultipliers[input.finishTier] *
+    table.cityFactors[input.city] *
+    (1 + table.extraFloorPremium * (input.floors - 1));
+  const likely = input.builtUpArea * table.baseRates[input.category] * multiplier;
+
+  const round = (amount: number) => Math.round(amount / table.roundTo) * table.roundTo;
+  const totals: CostRange = {
+    low: round(likely * table.spread.low),
+    likely: round(likely),
+    high: round(likely * table.spread.high),
+  };
+
+  const breakdown: PhaseCost[] = [];
+  const allocated: CostRange = { low: 0, likely: 0, high: 0 };
+  BUILDING_PHASES.forEach((phase, index) => {
+    const share = table.phaseShares[phase.id];
+    if (share === undefined) {
+      throw new Error(`Rate table ${table.version} has no cost share for phase "${phase.id}"`);
+    }
+
+    const isLast = index === BUILDING_PHASES.length - 1;
+    const amount = (key: keyof CostRange) =>
+      isLast ? totals[key] - allocated[key] : round(totals[key] * share);
+    const cost: PhaseCost = {
+      phaseId: phase.id,
+      title: phase.title,
+      low: amount('low'),
+      likely: amount('likely'),
+      high: amount('high'),
+    };
+
+    allocated.low += cost.low;
+    allocated.likely += cost.likely;
+    allocated.high += cost.high;
+    breakdown.push(cost);
+  });
+
+  return {
+    ...totals,
+    currency: table.currency,
+    rateTableVersion: table.version,
+    ratePerSqFt: Math.round(likely / input.builtUpArea),
+    breakdown,
+  };
+}
+
+/**
+ * Budget range from the contact form that contains the likely cost
+ */
+export function toBudgetRange(
+  estimate: Estimate,
+  table: RateTable = CURRENT_RATE_TABLE
+): BudgetRange {
+  const usd = estimate.likely / table.currencyPerUsd;
+  const match = BUDGET_RANGE_LIMITS.find(([limit]) => usd < limit);
+  return match ? match[1] : 'Not Sure';
+}
+
+/**
+ * Format an amount for display, e.g. ₹52.3L in compact form or ₹52,30,000 in full
+ */
+export function formatCost(amount: number, currency: string, compact = false): string {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency,
+    notation: compact ? 'compact' : 'standard',
+    maximumFractionDigits: compact ? 1 : 0,
+  }).format(amount);
+}
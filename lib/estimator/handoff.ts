@@ -0,0 +1,77 @@
+/**
+ * Estimate to Inquiry Handoff
+ *
+ * Carries an estimate from the estimator section into whichever contact
+ * form is on the page, as a DOM event so the sections stay independent.
+ */
+
+import type { BudgetRange, ProjectDetailField, ProjectType } from '@/lib/contact';
+import { formatCost, toBudgetRange } from './estimate';
+import {
+  ESTIMATE_CATEGORIES,
+  ESTIMATE_CITIES,
+  FINISH_TIERS,
+  type Estimate,
+  type EstimateCategory,
+  type EstimateInput,
+} from './types';
+
+export const INQUIRY_PREFILL_EVENT = 'sb-infra:inquiry-prefill';
+
+export interface InquiryPrefill {
+  projectType: ProjectType;
+  budget: BudgetRange;
+  message: string;
+  /** Answers for the wizard's type-specific questions */
+  details: Partial<Record<ProjectDetailField, string>>;
+}
+
+const PROJECT_TYPE_BY_CATEGORY: Record<EstimateCategory, ProjectType> = {
+  residential: 'Residential Construction',
+  commercial: 'Commercial Project',
+  industrial: 'Industrial Facility',
+};
+
+/**
+ * Summarize an estimate as contact form values
+ */
+export function toInquiryPrefill(input: EstimateInput, estimate: Estimate): InquiryPrefill {
+  const area = new Intl.NumberFormat('en-IN').format(input.builtUpArea);
+  const message =
+    `Website estimate (rates ${estimate.rateTableVersion}): ` +
+    `${formatCost(estimate.low, estimate.currency, true)} to ${formatCost(estimate.high, estimate.currency, true)}, ` +
+    `likely ${formatCost(estimate.likely, estimate.currency, true)}. ` +
+    `${ESTIMATE_CATEGORIES[input.category]} build of ${area} sq ft over ${input.floors} ` +
+    `${input.floors === 1 ? 'floor' : 'floors'}, ${FINISH_TIERS[input.finishTier].toLowerCase()} finish, ` +
+    `${ESTIMATE_CITIES[input.city]}.`;
+
+  const details: InquiryPrefill['details'] =
+    input.category === 'residential'
+      ? { floors: String(input.floors) }
+      : input.category === 'industrial'
+        ? { builtUpArea: String(input.builtUpArea) }
+        : {};
+
+  return {
+    projectType: PROJECT_TYPE_BY_CATEGORY[input.category],
+    budget: toBudgetRange(estimate),
+    message,
+    details,
+  };
+}
+
+/**
+ * Add the prefill message to whatever the visitor already wrote
+ */
+export function mergePrefillMessage(current: string, prefillMessage: string): string {
+  if (!current.trim()) return prefillMessage;
+  if (current.includes(prefillMessage)) return current;
+  return `${current.trimEnd()}\n\n${prefillMessage}`;
+}
+
+/**
+ * Hand a prefill to the contact forms listening on this page
+ */
+export function sendInquiryPrefill(prefill: InquiryPrefill): void {
+  window.dispatchEvent(new CustomEvent<InquiryPrefill>(INQUIRY_PREFILL_EVENT, { detail: prefill }));
+}
@@ -0,0 +1,29 @@
+/**
+ * Cost Estimator Entry Point
+ *
+ * Rough construction cost ranges from a versioned rate table, and the
+ * handoff that pre-fills the contact forms with the result.
+ */
+
+export { estimateCost, estimateInputSchema, formatCost, toBudgetRange } from './estimate';
+export {
+  INQUIRY_PREFILL_EVENT,
+  mergePrefillMessage,
+  sendInquiryPrefill,
+  toInquiryPrefill,
+  type InquiryPrefill,
+} from './handoff';
+export { CURRENT_RATE_TABLE, RATE_TABLES, RATE_TABLE_2025_1 } from './rate-tables';
+export {
+  ESTIMATE_CATEGORIES,
+  ESTIMATE_CITIES,
+  FINISH_TIERS,
+  type CostRange,
+  type Estimate,
+  type EstimateCategory,
+  type EstimateCity,
+  type EstimateInput,
+  type FinishTier,
+  type PhaseCost,
+  type RateTable,
+} from './types';
@@ -0,0 +1,47 @@
+/**
+ * Construction Rate Tables
+ *
+ * Published pricing used by the cost estimator. Never edit a released table;
+ * add a new version and point CURRENT_RATE_TABLE at it.
+ */
+
+import type { RateTable } from './types';
+
+export const RATE_TABLE_2025_1: RateTable = {
+  version: '2025.1',
+  effectiveFrom: '2025-04-01',
+  currency: 'INR',
+  currencyPerUsd: 83,
+  baseRates: {
+    residential: 1900,
+    commercial: 2400,
+    industrial: 1600,
+  },
+  finishMultipliers: {
+    standard: 1,
+    premium: 1.3,
+    luxury: 1.75,
+  },
+  cityFactors: {
+    bengaluru: 1.05,
+    mumbai: 1.25,
+    'delhi-ncr': 1.1,
+    hyderabad: 1,
+    pune: 1.05,
+    chennai: 1,
+    other: 0.9,
+  },
+  extraFloorPremium: 0.03,
+  spread: { low: 0.88, high: 1.18 },
+  phaseShares: {
+    'pre-design': 0.02,
+    design: 0.04,
+    planning: 0.02,
+    execution: 0.92,
+  },
+  roundTo: 10_000,
+};
+
+export const RATE_TABLES: RateTable[] = [RATE_TABLE_2025_1];
+
+export const CURRENT_RATE_TABLE = RATE_TABLE_2025_1;
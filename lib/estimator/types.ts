@@ -0,0 +1,93 @@
+/**
+ * Cost Estimator Types
+ *
+ * Inputs, rate table shape and results for the construction cost estimator.
+ */
+
+import type { ProjectCategory } from '@/types';
+
+/**
+ * Building categories priced per square foot. Infrastructure work is scoped
+ * per project and is not covered by the estimator.
+ */
+export type EstimateCategory = Exclude<ProjectCategory, 'infrastructure'>;
+
+export const ESTIMATE_CATEGORIES: Record<EstimateCategory, string> = {
+  residential: 'Residential',
+  commercial: 'Commercial',
+  industrial: 'Industrial',
+};
+
+export const FINISH_TIERS = {
+  standard: 'Standard',
+  premium: 'Premium',
+  luxury: 'Luxury',
+} as const;
+
+export type FinishTier = keyof typeof FINISH_TIERS;
+
+export const ESTIMATE_CITIES = {
+  bengaluru: 'Bengaluru',
+  mumbai: 'Mumbai',
+  'delhi-ncr': 'Delhi NCR',
+  hyderabad: 'Hyderabad',
+  pune: 'Pune',
+  chennai: 'Chennai',
+  other: 'Other city',
+} as const;
+
+export type EstimateCity = keyof typeof ESTIMATE_CITIES;
+
+export interface EstimateInput {
+  category: EstimateCategory;
+  /** Total built-up area across all floors, in square feet */
+  builtUpArea: number;
+  floors: number;
+  finishTier: FinishTier;
+  city: EstimateCity;
+}
+
+/**
+ * Versioned pricing data. A new version is added whenever rates change so
+ * every estimate can be traced back to the figures it was computed from.
+ */
+export interface RateTable {
+  version: string;
+  /** ISO date the rates were published */
+  effectiveFrom: string;
+  /** ISO 4217 code of every amount in the table */
+  currency: string;
+  /** Units of `currency` per US dollar, used to map estimates onto budget ranges */
+  currencyPerUsd: number;
+  /** Cost per square foot at standard finish in a reference city */
+  baseRates: Record<EstimateCategory, number>;
+  finishMultipliers: Record<FinishTier, number>;
+  cityFactors: Record<EstimateCity, number>;
+  /** Added to the multiplier for every floor above the ground floor */
+  extraFloorPremium: number;
+  /** Multipliers applied to the likely cost to get the low and high ends */
+  spread: { low: number; high: number };
+  /** Share of the total spent in each building phase, keyed by phase ID; sums to 1 */
+  phaseShares: Record<string, number>;
+  /** Amounts are rounded to a multiple of this */
+  roundTo: number;
+}
+
+export interface CostRange {
+  low: number;
+  likely: number;
+  high: number;
+}
+
+export interface PhaseCost extends CostRange {
+  phaseId: string;
+  title: string;
+}
+
+export interface Estimate extends CostRange {
+  currency: string;
+  rateTableVersion: string;
+  /** Cost per square foot at the likely estimate */
+  ratePerSqFt: number;
+  breakdown: PhaseCost[];
+}
@@ -0,0 +1,112 @@
+/**
+ * Bounded request body parsing
+ *
+ * Bodies are read from the stream with a hard cap instead of trusting
+ * Content-Length, which chunked uploads leave out and clients can misreport.
+ */
+
+export const BODY_CONTENT_TYPES = ['application/json', 'multipart/form-data'] as const;
+
+export type BodyContentType = (typeof BODY_CONTENT_TYPES)[number];
+
+export type JsonBody = Record<string, unknown>;
+
+/**
+ * A parsed request body: a JSON object, or the fields and files of a multipart form
+ */
+export type RequestBody = JsonBody | FormData;
+
+type ParsedBody<T extends BodyContentType> = T extends 'multipart/form-data' ? FormData : JsonBody;
+
+/**
+ * The body a route accepting the given types receives, null when it accepts none
+ */
+export type BodyOf<T extends BodyContentType> = [T] extends [never] ? null : ParsedBody<T>;
+
+export type BodyRejection =
+  | { reason: 'unsupported_type'; contentType: string }
+  | { reason: 'too_large' }
+  | { reason: 'invalid_json' }
+  | { reason: 'not_an_object' }
+  | { reason: 'invalid_form' };
+
+export type BodyReadResult = { ok: true; body: RequestBody } | ({ ok: false } & BodyRejection);
+
+/**
+ * Media type of a Content-Type header, without parameters such as charset or boundary
+ */
+export function mediaType(contentType: string | null): string {
+  return (contentType ?? '').split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Read the body into memory, giving up as soon as it exceeds maxBytes
+ */
+export async function readBytes(request: Request, maxBytes: number): Promise<Uint8Array<ArrayBuffer> | null> {
+  const declared = Number(request.headers.get('content-length'));
+  if (Number.isFinite(declared) && declared > maxBytes) return null;
+  if (!request.body) return new Uint8Array(new ArrayBuffer(0));
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(new ArrayBuffer(total));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Check the declared type and size of a request body, then parse it
+ */
+export async function readRequestBody(
+  request: Request,
+  accepted: readonly BodyContentType[],
+  maxBytes: (type: BodyContentType) => number
+): Promise<BodyReadResult> {
+  const contentType = request.headers.get('content-type');
+  const type = mediaType(contentType);
+  const accepts = accepted.find((candidate) => candidate === type);
+  if (!accepts) {
+    return { ok: false, reason: 'unsupported_type', contentType: type };
+  }
+
+  const bytes = await readBytes(request, maxBytes(accepts));
+  if (!bytes) return { ok: false, reason: 'too_large' };
+
+  if (type === 'multipart/form-data') {
+    try {
+      const body = await new Response(bytes, {
+        headers: { 'content-type': contentType ?? type },
+      }).formData();
+      return { ok: true, body };
+    } catch {
+      return { ok: false, reason: 'invalid_form' };
+    }
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return { ok: false, reason: 'invalid_json' };
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { ok: false, reason: 'not_an_object' };
+  }
+  return { ok: true, body: parsed as JsonBody };
+}
@@ -0,0 +1,137 @@
+/**
+ * API Error Codes
+ *
+ * Every API route answers errors in the same envelope. `code` is what clients
+ * should branch on: codes keep their meaning and status and are never reused.
+ * `message` is written for people and may change; `error` is the code's short
+ * title, kept for clients written before codes existed.
+ *
+ * Safe to import from client components.
+ */
+
+export const API_ERRORS = {
+  validation_failed: {
+    status: 400,
+    error: 'Validation failed',
+    description: 'A field is missing or invalid; `details` names each one',
+  },
+  invalid_json: { status: 400, error: 'Invalid JSON', description: 'The body does not parse' },
+  invalid_body: {
+    status: 400,
+    error: 'Invalid body',
+    description: 'The JSON is not an object, or the multipart form cannot be read',
+  },
+  invalid_idempotency_key: {
+    status: 400,
+    error: 'Invalid idempotency key',
+    description: 'Idempotency-Key is not 16-64 letters, digits, hyphens or underscores',
+  },
+  invalid_attachment: {
+    status: 400,
+    error: 'Invalid attachment',
+    description: 'A file is not an accepted type, or its contents do not match its extension',
+  },
+  form_expired: {
+    status: 400,
+    error: 'Form expired',
+    description: 'The form token is missing or expired; fetch a new challenge',
+  },
+  unauthorized: { status: 401, error: 'Unauthorized', description: 'No valid admin session' },
+  invalid_credentials: {
+    status: 401,
+    error: 'Invalid credentials',
+    description: 'The admin password is wrong',
+  },
+  invalid_code: {
+    status: 401,
+    error: 'Invalid code',
+    description: 'The emailed data request code is wrong',
+  },
+  code_expired: {
+    status: 401,
+    error: 'Code expired',
+    description: 'The emailed data request code has expired or was already used',
+  },
+  origin_not_allowed: {
+    status: 403,
+    error: 'Origin not allowed',
+    description: 'Origin or Referer names a site that may not call the API',
+  },
+  not_found: { status: 404, error: 'Not found', description: 'Nothing matches the request' },
+  request_in_progress: {
+    status: 409,
+    error: 'Request in progress',
+    description:
+      'A request with the same Idempotency-Key has not finished; retry after Retry-After',
+  },
+  slot_unavailable: {
+    status: 409,
+    error: 'Slot unavailable',
+    description: 'The time slot was taken or is no longer offered',
+  },
+  invalid_transition: {
+    status: 409,
+    error: 'Invalid transition',
+    description: 'The lead cannot move from its current status to the one requested',
+  },
+  not_replayable: {
+    status: 409,
+    error: 'Not replayable',
+    description: 'Only dead-lettered webhook deliveries can be replayed',
+  },
+  attachment_too_large: {
+    status: 413,
+    error: 'Attachment too large',
+    description: 'A file, or all files together, exceed the attachment limits',
+  },
+  payload_too_large: {
+    status: 413,
+    error: 'Payload too large',
+    description: 'The body is over the size limit of the route',
+  },
+  unsupported_media_type: {
+    status: 415,
+    error: 'Unsupported media type',
+    description: 'The body is not of a type the route accepts',
+  },
+  idempotency_key_reused: {
+    status: 422,
+    error: 'Idempotency key reused',
+    description: 'The Idempotency-Key was already used for a request with a different body',
+  },
+  rate_limited: {
+    status: 429,
+    error: 'Rate limit exceeded',
+    description: 'Too many requests; retry after Retry-After',
+  },
+  internal_error: {
+    status: 500,
+    error: 'Internal server error',
+    description: 'Something failed on the server',
+  },
+  not_configured: {
+    status: 503,
+    error: 'Not configured',
+    description: 'The feature is not enabled on this deployment',
+  },
+} as const;
+
+export type ApiErrorCode = keyof typeof API_ERRORS;
+
+export const API_ERROR_CODES = Object.keys(API_ERRORS) as ApiErrorCode[];
+
+/**
+ * A problem with one field; `path` starts with the field name
+ */
+export interface ApiIssue {
+  path: PropertyKey[];
+  message: string;
+}
+
+export interface ApiErrorResponse<C extends ApiErrorCode = ApiErrorCode> {
+  success: false;
+  code: C;
+  error: (typeof API_ERRORS)[C]['error'];
+  message: string;
+  details?: ApiIssue[];
+}
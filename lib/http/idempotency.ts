@@ -0,0 +1,160 @@
+/**
+ * Idempotent Requests
+ *
+ * Handles a request sent with an Idempotency-Key at most once. The first
+ * attempt claims the key; a retry while it runs gets 409, and a retry after
+ * it succeeded gets the stored response again. Failed attempts release the
+ * key, so the client can fix the request and try again with it. The claim
+ * keeps a hash of the body, and a key sent again with a different body is
+ * refused rather than answered with another request's response. Replays
+ * carry the stored response's headers as well as its body.
+ */
+
+import { createHash } from 'node:crypto';
+import { NextResponse } from 'next/server';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENCY_PENDING_TTL_MS,
+  IDEMPOTENCY_TTL_MS,
+  IDEMPOTENT_REPLAYED_HEADER,
+  getIdempotencyStore,
+  isValidIdempotencyKey,
+} from '@/lib/idempotency';
+import type { RequestLogger } from '@/lib/logging';
+import type { RequestBody } from './body';
+import { apiError } from './response';
+
+export interface IdempotencyScope {
+  /** Keys are per route, so one key cannot replay another route's response */
+  route: string;
+  /** The parsed body, which a retry must repeat */
+  body: RequestBody | null;
+  /** Body fields that may change between attempts, e.g. a fresh form token */
+  ignoredFields?: readonly string[];
+}
+
+function compareNames([a]: [string, unknown], [b]: [string, unknown]): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * JSON with object keys sorted, so equal bodies serialize alike
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(compareNames))
+      : nested
+  );
+}
+
+/**
+ * Hash a parsed body without its ignored fields. Files count by name, type
+ * and content.
+ */
+export async function fingerprintBody(
+  body: RequestBody | null,
+  ignoredFields: readonly string[] = []
+): Promise<string> {
+  const fields: [string, unknown][] = [];
+  if (body instanceof FormData) {
+    for (const [name, value] of body.entries()) {
+      fields.push([
+        name,
+        typeof value === 'string'
+          ? value
+          : {
+              name: value.name,
+              type: value.type,
+              sha256: createHash('sha256')
+                .update(new Uint8Array(await value.arrayBuffer()))
+                .digest('hex'),
+            },
+      ]);
+    }
+  } else if (body) {
+    fields.push(...Object.entries(body));
+  }
+
+  const kept = fields.filter(([name]) => !ignoredFields.includes(name)).sort(compareNames);
+  return createHash('sha256').update(canonicalJson(kept)).digest('hex');
+}
+
+/**
+ * Run `handle` unless a request with the same key already ran. Requests
+ * without the header are handled as usual.
+ */
+export async function respondIdempotently(
+  request: Request,
+  { route, body, ignoredFields }: IdempotencyScope,
+  log: RequestLogger,
+  handle: () => Promise<Response>
+): Promise<Response> {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (key === null) return handle();
+
+  if (!isValidIdempotencyKey(key)) {
+    return apiError(
+      'invalid_idempotency_key',
+      `${IDEMPOTENCY_KEY_HEADER} must be 16-64 letters, digits, hyphens or underscores.`
+    );
+  }
+
+  const scopedKey = `${route} ${key}`;
+  const fingerprint = await fingerprintBody(body, ignoredFields);
+  const store = getIdempotencyStore();
+  const now = Date.now();
+  await store.prune(now);
+
+  const existing = await store.claim(scopedKey, fingerprint, now, now + IDEMPOTENCY_PENDING_TTL_MS);
+  if (existing && existing.fingerprint !== fingerprint) {
+    log.warn('Request rejected', { reason: 'idempotency_key_reused' });
+    return apiError(
+      'idempotency_key_reused',
+      `This ${IDEMPOTENCY_KEY_HEADER} was already used for a different request.`
+    );
+  }
+  if (existing?.state === 'completed') {
+    log.info('Idempotent request replayed', { status: existing.response.status });
+    return NextResponse.json(existing.response.body, {
+      status: existing.response.status,
+      headers: { ...existing.response.headers, [IDEMPOTENT_REPLAYED_HEADER]: 'true' },
+    });
+  }
+  if (existing?.state === 'pending') {
+    log.info('Request rejected', { reason: 'idempotency_key_in_use' });
+    return apiError(
+      'request_in_progress',
+      'An earlier attempt of this request is still being handled. Try again shortly.',
+      { headers: { 'Retry-After': '5' } }
+    );
+  }
+
+  let response: Response;
+  try {
+    response = await handle();
+  } catch (error) {
+    await store.release(scopedKey);
+    throw error;
+  }
+
+  if (!response.ok) {
+    await store.release(scopedKey);
+    return response;
+  }
+
+  try {
+    const body: unknown = await response.clone().json();
+    await store.complete(
+      scopedKey,
+      fingerprint,
+      { status: response.status, headers: Object.fromEntries(response.headers), body },
+      Date.now() + IDEMPOTENCY_TTL_MS
+    );
+  } catch (error) {
+    // The request succeeded; a retry will be handled again rather than replayed
+    log.warn('Idempotent response not stored', { error });
+    await store.release(scopedKey);
+  }
+  return response;
+}
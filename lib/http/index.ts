@@ -0,0 +1,48 @@
+/**
+ * HTTP Entry Point (server only)
+ *
+ * The wrapper every API route handler goes through. It tags the request with
+ * an ID, rejects cross-site calls to state-changing routes, and only hands
+ * over bodies of an accepted type and size that parse. Routes that opt in
+ * also answer retries sent with the same Idempotency-Key only once.
+ *
+ * Errors are answered with apiError in one envelope with a stable `code`, see
+ * './errors', which client components import directly.
+ *
+ * Environment:
+ * - SITE_URL: public address of the site, always an allowed origin
+ * - ALLOWED_ORIGINS: comma-separated extra origins allowed to call the API,
+ *   e.g. a staging site. The origin a request was addressed to is always allowed.
+ * - IDEMPOTENCY_STORE, IDEMPOTENCY_PATH: where idempotency keys are kept, see lib/idempotency
+ */
+
+export {
+  BODY_CONTENT_TYPES,
+  mediaType,
+  readBytes,
+  readRequestBody,
+  type BodyContentType,
+  type BodyOf,
+  type BodyReadResult,
+  type BodyRejection,
+  type JsonBody,
+  type RequestBody,
+} from './body';
+export {
+  API_ERROR_CODES,
+  API_ERRORS,
+  type ApiErrorCode,
+  type ApiErrorResponse,
+  type ApiIssue,
+} from './errors';
+export { fingerprintBody, respondIdempotently, type IdempotencyScope } from './idempotency';
+export { checkRequestOrigin, parseAllowedOrigins, requestOrigin, type OriginCheck } from './origin';
+export { apiError, type ApiErrorOptions } from './response';
+export {
+  DEFAULT_MAX_BODY_BYTES,
+  getAllowedOrigins,
+  withApiRoute,
+  type ApiRouteContext,
+  type ApiRouteHandler,
+  type ApiRouteOptions,
+} from './route';
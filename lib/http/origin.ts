@@ -0,0 +1,69 @@
+/**
+ * Origin checks for state-changing requests
+ *
+ * Browsers send Origin with every cross-site POST, and Referer when Origin is
+ * withheld, so a request carrying neither comes from a non-browser client
+ * (scripts, CRMs, curl) and cannot ride on a visitor's cookies.
+ */
+
+/**
+ * Parse a comma-separated list of origins, normalizing each to scheme://host[:port]
+ */
+export function parseAllowedOrigins(raw: string | undefined): string[] {
+  if (!raw) return [];
+
+  return raw
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const origin = originOf(entry);
+      if (!origin) {
+        throw new Error(
+          `Invalid origin "${entry}" in ALLOWED_ORIGINS. Expected e.g. https://example.com`
+        );
+      }
+      return origin;
+    });
+}
+
+function originOf(value: string): string | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The origin the request was addressed to, as seen through the proxy in front of the app
+ */
+export function requestOrigin(request: Request): string | null {
+  const host = request.headers.get('x-forwarded-host') ?? request.headers.get('host');
+  if (!host) return null;
+
+  const forwardedProto = request.headers.get('x-forwarded-proto');
+  const protocol = forwardedProto ?? new URL(request.url).protocol.replace(':', '');
+  return originOf(`${protocol.split(',')[0].trim()}://${host.split(',')[0].trim()}`);
+}
+
+export type OriginCheck = { ok: true; origin: string | null } | { ok: false; origin: string };
+
+/**
+ * Accept requests from the site itself and the allow-list. Requests without
+ * Origin or Referer are accepted; "null" and unparseable values are not.
+ */
+export function checkRequestOrigin(
+  request: Request,
+  allowedOrigins: readonly string[]
+): OriginCheck {
+  const header = request.headers.get('origin') ?? request.headers.get('referer');
+  if (header === null) return { ok: true, origin: null };
+
+  const origin = originOf(header);
+  if (!origin) return { ok: false, origin: header };
+
+  const allowed = origin === requestOrigin(request) || allowedOrigins.includes(origin);
+  return allowed ? { ok: true, origin } : { ok: false, origin };
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { API_ERRORS, type ApiErrorCode, type ApiErrorResponse, type ApiIssue } from './errors';
+
+export interface ApiErrorOptions {
+  /** Problems with individual fields; anything but path and message, e.g. of zod issues, is dropped */
+  details?: readonly ApiIssue[];
+  headers?: HeadersInit;
+}
+
+/**
+ * Error response in the shared envelope, sent with the status of its code
+ */
+export function apiError<C extends ApiErrorCode>(
+  code: C,
+  message: string,
+  { details, headers }: ApiErrorOptions = {}
+): NextResponse<ApiErrorResponse<C>> {
+  const { status, error } = API_ERRORS[code];
+  const body: ApiErrorResponse<C> = { success: false, code, error, message };
+  if (details) {
+    body.details = details.map(({ path, message }) => ({ path, message }));
+  }
+  return NextResponse.json(body, { status, headers });
+}
@@ -0,0 +1,164 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getConfig } from '@/lib/config';
+import { REQUEST_ID_HEADER, requestLogger, type RequestLogger } from '@/lib/logging';
+import {
+  readRequestBody,
+  type BodyContentType,
+  type BodyOf,
+  type BodyRejection,
+  type RequestBody,
+} from './body';
+import { respondIdempotently } from './idempotency';
+import { checkRequestOrigin, parseAllowedOrigins } from './origin';
+import { apiError } from './response';
+
+/**
+ * Large enough for any JSON form on the site; multipart routes set their own cap
+ */
+export const DEFAULT_MAX_BODY_BYTES = 16 * 1024;
+
+// Methods that must not change anything, so they skip the origin check
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+export interface ApiRouteOptions<T extends BodyContentType = BodyContentType> {
+  /** Method and path that tag the request's log records, e.g. 'POST /api/contact' */
+  route: string;
+  /** Body types the route accepts. Routes without any read no body. */
+  contentTypes?: readonly T[];
+  /**
+   * Largest body accepted, in bytes, either for every type or per type.
+   * Types left out get DEFAULT_MAX_BODY_BYTES.
+   */
+  maxBodyBytes?: number | Partial<Record<BodyContentType, number>>;
+  /** Shown instead of the generic message when the body is over the limit */
+  tooLargeMessage?: string;
+  /** Verify Origin/Referer against the allow-list; on by default except for GET and HEAD */
+  checkOrigin?: boolean;
+  /**
+   * Honour the Idempotency-Key header: a retry of a request that succeeded
+   * gets the stored response instead of running the handler again
+   */
+  idempotent?: boolean;
+  /** Body fields a retry may change without counting as a different request */
+  idempotencyIgnoredFields?: readonly string[];
+}
+
+/**
+ * What a handler receives besides the request: B is the parsed body, see
+ * BodyOf, and P the route segment params
+ */
+export interface ApiRouteContext<B = null, P = Record<string, never>> {
+  /** Logger tagged with the request ID, which is also sent back in X-Request-ID */
+  log: RequestLogger;
+  params: P;
+  body: B;
+}
+
+export type ApiRouteHandler<B, P> = (
+  request: NextRequest,
+  context: ApiRouteContext<B, P>
+) => Promise<Response>;
+
+/**
+ * Origins allowed to call the API besides the site itself: SITE_URL and ALLOWED_ORIGINS
+ */
+export function getAllowedOrigins(): string[] {
+  const { siteUrl, http } = getConfig();
+  return [...parseAllowedOrigins(siteUrl), ...http.allowedOrigins];
+}
+
+function bodyRejectionResponse(
+  rejection: BodyRejection,
+  options: ApiRouteOptions<BodyContentType>
+): NextResponse {
+  switch (rejection.reason) {
+    case 'unsupported_type':
+      return apiError(
+        'unsupported_media_type',
+        `Send the request body as ${(options.contentTypes ?? []).join(' or ')}.`
+      );
+    case 'too_large':
+      return apiError('payload_too_large', options.tooLargeMessage ?? 'The request is too large.');
+    case 'invalid_json':
+      return apiError('invalid_json', 'The request body is not valid JSON.');
+    case 'not_an_object':
+      return apiError('invalid_body', 'The request body must be a JSON object.');
+    case 'invalid_form':
+      return apiError('invalid_body', 'The form data could not be read.');
+  }
+}
+
+function withRequestId(response: Response, requestId: string): Response {
+  try {
+    response.headers.set(REQUEST_ID_HEADER, requestId);
+    return response;
+  } catch {
+    // Headers of fetched responses are immutable; copy them into a new response
+    const copy = new Response(response.body, response);
+    copy.headers.set(REQUEST_ID_HEADER, requestId);
+    return copy;
+  }
+}
+
+/**
+ * Wrap an API route handler with the checks every route needs: a request ID
+ * and logger, an origin check for state-changing methods, and a Content-Type
+ * and size limit on the body, which reaches the handler already parsed.
+ * Requests failing a check are answered here and never reach the handler.
+ */
+export function withApiRoute<
+  T extends BodyContentType = never,
+  P extends Record<string, string> = Record<string, never>,
+>(options: ApiRouteOptions<T>, handler: ApiRouteHandler<BodyOf<T>, P>) {
+  return async (request: NextRequest, segment: { params: Promise<P> }): Promise<Response> => {
+    const log = requestLogger(request, options.route);
+
+    const respond = async (): Promise<Response> => {
+      if (options.checkOrigin ?? !SAFE_METHODS.has(request.method)) {
+        const originCheck = checkRequestOrigin(request, getAllowedOrigins());
+        if (!originCheck.ok) {
+          log.warn('Request rejected', {
+            reason: 'origin_not_allowed',
+            origin: originCheck.origin,
+          });
+          return apiError('origin_not_allowed', 'This request did not come from the site.');
+        }
+      }
+
+      let body: RequestBody | null = null;
+      if (options.contentTypes) {
+        const { maxBodyBytes } = options;
+        const result = await readRequestBody(request, options.contentTypes, (type) =>
+          typeof maxBodyBytes === 'number'
+            ? maxBodyBytes
+            : (maxBodyBytes?.[type] ?? DEFAULT_MAX_BODY_BYTES)
+        );
+        if (!result.ok) {
+          log.info('Request rejected', { reason: result.reason });
+          return bodyRejectionResponse(result, options);
+        }
+        body = result.body;
+      }
+
+      const context = { log, params: await segment.params, body: body as BodyOf<T> };
+      return options.idempotent
+        ? respondIdempotently(
+            request,
+            { route: options.route, body, ignoredFields: options.idempotencyIgnoredFields },
+            log,
+            () => handler(request, context)
+          )
+        : handler(request, context);
+    };
+
+    try {
+      return withRequestId(await respond(), log.requestId);
+    } catch (error) {
+      log.error('Unhandled error in API route', { error });
+      return withRequestId(
+        apiError('internal_error', 'Something went wrong on our end. Please try again later.'),
+        log.requestId
+      );
+    }
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Idempotency Entry Point (server only)
+ *
+ * Remembers the response to a request sent with an Idempotency-Key, so a
+ * retry of something that already happened, e.g. a contact form replayed from
+ * the offline queue after its first response was lost, gets the same answer
+ * instead of happening twice. Routes opt in with `idempotent` in withApiRoute.
+ *
+ * Environment (read through lib/config):
+ * - IDEMPOTENCY_STORE: 'sqlite' (default) or 'memory'
+ * - IDEMPOTENCY_PATH: SQLite file, defaults to .data/idempotency.db
+ *
+ * Clients only need the header name and key helpers, which should be imported
+ * from './key' directly to keep node modules out of the client bundle.
+ */
+
+import { getConfig } from '@/lib/config';
+import { MemoryIdempotencyStore } from './memory-store';
+import { SqliteIdempotencyStore } from './sqlite-store';
+import type { IdempotencyStore } from './types';
+
+export {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENT_REPLAYED_HEADER,
+  createIdempotencyKey,
+  isValidIdempotencyKey,
+} from './key';
+export { MemoryIdempotencyStore } from './memory-store';
+export { SqliteIdempotencyStore } from './sqlite-store';
+export type { IdempotencyRecord, IdempotencyStore, StoredResponse } from './types';
+
+/**
+ * How long a completed response is kept. Queued submissions older than this
+ * are dropped by the service worker, so no replay can outlive its key.
+ */
+export const IDEMPOTENCY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * How long a claim blocks retries while its request is handled. A process that
+ * dies mid-request leaves a claim behind, which frees up after this.
+ */
+export const IDEMPOTENCY_PENDING_TTL_MS = 2 * 60 * 1000;
+
+let store: IdempotencyStore | null = null;
+
+/**
+ * Get the process-wide idempotency store, creating it on first use
+ */
+export function getIdempotencyStore(): IdempotencyStore {
+  if (store) return store;
+
+  const settings = getConfig().stores.idempotency;
+  store =
+    settings.kind === 'sqlite'
+      ? new SqliteIdempotencyStore(settings.path)
+      : new MemoryIdempotencyStore();
+
+  return store;
+}
+
+/**
+ * Override the store, mainly for tests. Pass null to reset.
+ */
+export function setIdempotencyStore(next: IdempotencyStore | null): void {
+  store = next;
+}
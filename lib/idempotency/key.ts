@@ -0,0 +1,26 @@
+/**
+ * Idempotency Keys
+ *
+ * A client picks a random key for each thing it means to do once, e.g. one
+ * contact form fill, and sends it with every attempt in the Idempotency-Key
+ * header. Safe to import from client components.
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/** Set on a response that repeats the stored answer to an earlier attempt */
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+// Long enough to be unguessable, short and plain enough to store and log
+const KEY_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+export function isValidIdempotencyKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+/**
+ * A fresh key: a random UUID without its hyphens
+ */
+export function createIdempotencyKey(): string {
+  return crypto.randomUUID().replace(/-/g, '');
+}
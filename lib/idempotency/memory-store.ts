@@ -0,0 +1,44 @@
+/**
+ * In-memory Idempotency Store
+ *
+ * Suitable for development and single-instance deployments. Keys are lost on
+ * restart and are not shared between server instances.
+ */
+
+import type { IdempotencyRecord, IdempotencyStore, StoredResponse } from './types';
+
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private readonly records = new Map<string, IdempotencyRecord>();
+
+  async claim(
+    key: string,
+    fingerprint: string,
+    now: number,
+    expiresAt: number
+  ): Promise<IdempotencyRecord | null> {
+    const existing = this.records.get(key);
+    if (existing && existing.expiresAt > now) return existing;
+
+    this.records.set(key, { state: 'pending', expiresAt, fingerprint });
+    return null;
+  }
+
+  async complete(
+    key: string,
+    fingerprint: string,
+    response: StoredResponse,
+    expiresAt: number
+  ): Promise<void> {
+    this.records.set(key, { state: 'completed', expiresAt, fingerprint, response });
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  async prune(now: number): Promise<void> {
+    for (const [key, record] of this.records.entries()) {
+      if (record.expiresAt <= now) this.records.delete(key);
+    }
+  }
+}
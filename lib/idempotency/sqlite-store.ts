@@ -0,0 +1,109 @@
+/**
+ * SQLite Idempotency Store
+ *
+ * Persists keys in an embedded database so a retry is recognized after a
+ * restart and by every server process on the same host.
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import type { IdempotencyRecord, IdempotencyStore, StoredResponse } from './types';
+
+interface IdempotencyRow {
+  state: IdempotencyRecord['state'];
+  expires_at: number;
+  fingerprint: string;
+  response: string | null;
+}
+
+function toRecord(row: IdempotencyRow): IdempotencyRecord {
+  return row.state === 'completed'
+    ? {
+        state: 'completed',
+        expiresAt: row.expires_at,
+        fingerprint: row.fingerprint,
+        response: JSON.parse(row.response ?? 'null') as StoredResponse,
+      }
+    : { state: 'pending', expiresAt: row.expires_at, fingerprint: row.fingerprint };
+}
+
+export class SqliteIdempotencyStore implements IdempotencyStore {
+  private readonly db: Database.Database;
+
+  /**
+   * @param filename - Database file path, or ':memory:' for an ephemeral store
+   */
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      mkdirSync(dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        key TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        fingerprint TEXT NOT NULL,
+        response TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idempotency_keys_expires_at ON idempotency_keys (expires_at);
+    `);
+  }
+
+  async claim(
+    key: string,
+    fingerprint: string,
+    now: number,
+    expiresAt: number
+  ): Promise<IdempotencyRecord | null> {
+    // Read and claim in one immediate transaction so two processes cannot both claim
+    const claim = this.db.transaction((): IdempotencyRecord | null => {
+      const existing = this.db
+        .prepare(
+          `SELECT state, expires_at, fingerprint, response FROM idempotency_keys
+           WHERE key = ? AND expires_at > ?`
+        )
+        .get(key, now) as IdempotencyRow | undefined;
+      if (existing) return toRecord(existing);
+
+      this.db
+        .prepare(
+          `INSERT OR REPLACE INTO idempotency_keys (key, state, expires_at, fingerprint, response)
+           VALUES (?, 'pending', ?, ?, NULL)`
+        )
+        .run(key, expiresAt, fingerprint);
+      return null;
+    });
+
+    return claim.immediate();
+  }
+
+  async complete(
+    key: string,
+    fingerprint: string,
+    response: StoredResponse,
+    expiresAt: number
+  ): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO idempotency_keys (key, state, expires_at, fingerprint, response)
+         VALUES (?, 'completed', ?, ?, ?)`
+      )
+      .run(key, expiresAt, fingerprint, JSON.stringify(response));
+  }
+
+  async release(key: string): Promise<void> {
+    this.db.prepare('DELETE FROM idempotency_keys WHERE key = ?').run(key);
+  }
+
+  async prune(now: number): Promise<void> {
+    this.db.prepare('DELETE FROM idempotency_keys WHERE expires_at <= ?').run(now);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
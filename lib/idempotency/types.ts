@@ -0,0 +1,57 @@
+/**
+ * Idempotency Types
+ */
+
+/**
+ * A JSON response kept so a repeated request gets the same answer
+ */
+export interface StoredResponse {
+  status: number;
+  /** Response headers, such as the rate-limit headers, sent again with the replay */
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export type IdempotencyRecord =
+  | {
+      /** A request with this key is being handled right now */
+      state: 'pending';
+      expiresAt: number;
+      /** Hash of the request that claimed the key */
+      fingerprint: string;
+    }
+  | {
+      state: 'completed';
+      expiresAt: number;
+      fingerprint: string;
+      response: StoredResponse;
+    };
+
+/**
+ * Storage for idempotency keys. Implementations must make `claim` atomic so
+ * two concurrent requests with the same key cannot both be handled.
+ */
+export interface IdempotencyStore {
+  /**
+   * Claim a key for a new request with the given fingerprint, pending until
+   * `expiresAt`. Returns null when claimed, or the live record when the key
+   * is already in use. Expired records are replaced.
+   */
+  claim(
+    key: string,
+    fingerprint: string,
+    now: number,
+    expiresAt: number
+  ): Promise<IdempotencyRecord | null>;
+  /** Keep the response for the key and the fingerprint of its request until `expiresAt` */
+  complete(
+    key: string,
+    fingerprint: string,
+    response: StoredResponse,
+    expiresAt: number
+  ): Promise<void>;
+  /** Forget a claim so the request can be retried with the same key */
+  release(key: string): Promise<void>;
+  /** Drop expired records */
+  prune(now: number): Promise<void>;
+}
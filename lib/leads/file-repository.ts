@@ -0,0 +1,158 @@
+/**
+ * File-backed Lead Repository
+ *
+ * Stores leads as newline-delimited JSON. Every write appends a full snapshot
+ * of the lead, so the file doubles as a change history; reads replay the file
+ * and keep the last snapshot per submission ID. Removing a lead rewrites the
+ * file without any of its snapshots. Every change is checked and written in
+ * one queued step, which makes it atomic within a single process; use the
+ * SQLite backend when several processes share the data directory.
+ */
+
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { Lead, LeadNote, LeadQuery, LeadRepository, LeadStatus } from './types';
+
+/**
+ * Check whether a lead satisfies every filter in the query
+ */
+export function matchesLeadQuery(lead: Lead, query: LeadQuery): boolean {
+  if (query.status && lead.status !== query.status) return false;
+  if (query.projectType && lead.submission.projectType !== query.projectType) return false;
+  if (query.budget && lead.submission.budget !== query.budget) return false;
+  if (query.email && lead.submission.email.toLowerCase() !== query.email.toLowerCase()) {
+    return false;
+  }
+  if (query.since && lead.createdAt < query.since) return false;
+  if (query.until && lead.createdAt >= query.until) return false;
+  if (query.updatedBefore && lead.updatedAt >= query.updatedBefore) return false;
+  if (query.search) {
+    const needle = query.search.toLowerCase();
+    const haystack = [lead.submissionId, ...Object.values(lead.submission)]
+      .filter((value): value is string => typeof value === 'string')
+      .join('\n')
+      .toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+  return true;
+}
+
+export class FileLeadRepository implements LeadRepository {
+  // Serializes reads and writes so a check and the write it guards run as one step
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  create(lead: Lead): Promise<Lead> {
+    return this.enqueue(async () => {
+      if ((await this.load()).has(lead.submissionId)) {
+        throw new Error(`Lead ${lead.submissionId} already exists`);
+      }
+      await this.append(lead);
+      return lead;
+    });
+  }
+
+  async findById(submissionId: string): Promise<Lead | null> {
+    const leads = await this.enqueue(() => this.load());
+    return leads.get(submissionId) ?? null;
+  }
+
+  async list(query: LeadQuery = {}): Promise<Lead[]> {
+    const leads = await this.enqueue(() => this.load());
+    const offset = query.offset ?? 0;
+    const matching = Array.from(leads.values())
+      .filter((lead) => matchesLeadQuery(lead, query))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return matching.slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+  }
+
+  updateStatus(submissionId: string, status: LeadStatus): Promise<Lead | null> {
+    return this.enqueue(async () => {
+      const lead = (await this.load()).get(submissionId);
+      if (!lead) return null;
+
+      const updated: Lead = { ...lead, status, updatedAt: new Date().toISOString() };
+      await this.append(updated);
+      return updated;
+    });
+  }
+
+  addNote(submissionId: string, note: LeadNote): Promise<Lead | null> {
+    return this.enqueue(async () => {
+      const lead = (await this.load()).get(submissionId);
+      if (!lead) return null;
+
+      const updated: Lead = {
+        ...lead,
+        notes: [...lead.notes, note],
+        updatedAt: new Date().toISOString(),
+      };
+      await this.append(updated);
+      return updated;
+    });
+  }
+
+  remove(submissionIds: readonly string[]): Promise<number> {
+    const ids = new Set(submissionIds);
+    return this.enqueue(async () => {
+      const contents = await this.read();
+      const kept: string[] = [];
+      const removed = new Set<string>();
+      for (const line of contents.split('\n')) {
+        if (!line.trim()) continue;
+        const { submissionId } = JSON.parse(line) as Lead;
+        if (ids.has(submissionId)) {
+          removed.add(submissionId);
+        } else {
+          kept.push(line);
+        }
+      }
+      if (removed.size === 0) return 0;
+
+      // Swap in a complete copy so a crash never leaves a truncated file
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, kept.map((line) => `${line}\n`).join(''), 'utf8');
+      await rename(tempPath, this.filePath);
+      return removed.size;
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async append(lead: Lead): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(lead)}\n`, 'utf8');
+  }
+
+  private async load(): Promise<Map<string, Lead>> {
+    const contents = await this.read();
+    const leads = new Map<string, Lead>();
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+      const lead = JSON.parse(line) as Lead;
+      leads.set(lead.submissionId, {
+        ...lead,
+        attachments: lead.attachments ?? [],
+        notes: lead.notes ?? [],
+      });
+    }
+    return leads;
+  }
+
+  private async read(): Promise<string> {
+    try {
+      return await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return '';
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Submission IDs
+ *
+ * IDs look like `SUB-<ULID>-<tag>`. The ULID sorts by creation time and
+ * carries 80 random bits; the tag is an HMAC of the ULID, so IDs that were not
+ * issued here are rejected without a storage lookup.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { getConfig } from '@/lib/config';
+
+// Crockford base32, as used by ULID: no I, L, O or U
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+const SIGNED_ID_PATTERN = /^SUB-([0-9A-HJKMNP-TV-Z]{26})-([0-9A-HJKMNP-TV-Z]{10})$/;
+
+function encodeBase32(value: bigint, length: number): string {
+  let encoded = '';
+  for (let i = 0; i < length; i++) {
+    encoded = ALPHABET[Number(value & BigInt(31))] + encoded;
+    value >>= BigInt(5);
+  }
+  return encoded;
+}
+
+/**
+ * 26-character ULID: 48-bit millisecond timestamp followed by 80 random bits
+ */
+export function ulid(now = Date.now(), random: Uint8Array = randomBytes(10)): string {
+  const randomBits = BigInt(`0x${Buffer.from(random).toString('hex')}`);
+  return encodeBase32(BigInt(now), 10) + encodeBase32(randomBits, 16);
+}
+
+function tag(id: string): string {
+  const digest = createHmac('sha256', getConfig().leads.idSecret).update(id).digest();
+  // First 50 bits of the digest
+  return encodeBase32(BigInt(`0x${digest.subarray(0, 7).toString('hex')}`) >> BigInt(6), 10);
+}
+
+/**
+ * Generate a new, unguessable submission ID
+ */
+export function createSubmissionId(now = Date.now()): string {
+  const id = ulid(now);
+  return `SUB-${id}-${tag(id)}`;
+}
+
+/**
+ * Whether an ID was issued by this site, i.e. carries a valid tag
+ */
+export function isValidSubmissionId(submissionId: string): boolean {
+  const signed = SIGNED_ID_PATTERN.exec(submissionId);
+  if (!signed) return false;
+
+  const expected = Buffer.from(tag(signed[1]));
+  const actual = Buffer.from(signed[2]);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
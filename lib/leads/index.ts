@@ -0,0 +1,93 @@
+/**
+ * Lead Storage Entry Point
+ *
+ * Selects the configured repository backend and provides helpers for
+ * turning a validated submission into a stored lead.
+ *
+ * Environment (read through lib/config):
+ * - LEAD_STORE: 'file' (default) or 'sqlite'
+ * - LEAD_STORE_PATH: storage file, defaults to .data/leads.ndjson or .data/leads.db
+ * - LEAD_IP_SALT: secret mixed into client IP hashes
+ * - LEAD_ID_SECRET: key for the tag that makes submission IDs verifiable
+ */
+
+import { createHmac } from 'node:crypto';
+import { join } from 'node:path';
+import { getConfig } from '@/lib/config';
+import { FileLeadRepository } from './file-repository';
+import { SqliteLeadRepository } from './sqlite-repository';
+import type { StoredAttachment } from '@/lib/attachments/types';
+import type { ContactSubmission, Lead, LeadRepository } from './types';
+
+export { FileLeadRepository, matchesLeadQuery } from './file-repository';
+export { createSubmissionId, isValidSubmissionId, ulid } from './ids';
+export { SqliteLeadRepository } from './sqlite-repository';
+export { LEAD_STATUSES, LEAD_STATUS_LABELS, LEAD_STATUS_TRANSITIONS } from './types';
+export type {
+  ContactSubmission,
+  Lead,
+  LeadConsent,
+  LeadNote,
+  LeadQuery,
+  LeadRepository,
+  LeadStatus,
+} from './types';
+
+const DATA_DIR = join(process.cwd(), '.data');
+
+let repository: LeadRepository | null = null;
+
+/**
+ * Get the process-wide lead repository, creating it on first use
+ */
+export function getLeadRepository(): LeadRepository {
+  if (repository) return repository;
+
+  const { kind, path } = getConfig().leads.store;
+  repository =
+    kind === 'sqlite'
+      ? new SqliteLeadRepository(path ?? join(DATA_DIR, 'leads.db'))
+      : new FileLeadRepository(path ?? join(DATA_DIR, 'leads.ndjson'));
+
+  return repository;
+}
+
+/**
+ * Override the repository, mainly for tests. Pass null to reset.
+ */
+export function setLeadRepository(next: LeadRepository | null): void {
+  repository = next;
+}
+
+/**
+ * Hash a client IP so leads can be correlated without storing the address
+ */
+export function hashIp(ip: string): string {
+  return createHmac('sha256', getConfig().leads.ipSalt).update(ip).digest('hex');
+}
+
+/**
+ * Build a new lead record for a validated submission
+ *
+ * @param consentVersion - Consent notice the submitter agreed to, recorded with the current time
+ */
+export function createLeadRecord(
+  submissionId: string,
+  submission: ContactSubmission,
+  clientIP: string | undefined,
+  attachments: StoredAttachment[] = [],
+  consentVersion?: string
+): Lead {
+  const now = new Date().toISOString();
+  return {
+    submissionId,
+    createdAt: now,
+    updatedAt: now,
+    status: 'new',
+    ipHash: clientIP ? hashIp(clientIP) : '',
+    submission,
+    attachments,
+    notes: [],
+    ...(consentVersion && { consent: { version: consentVersion, givenAt: now } }),
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * SQLite Lead Repository
+ *
+ * Embedded database backend for deployments that need indexed queries over
+ * a growing number of leads. The submission payload is stored as JSON so new
+ * form fields do not require a schema migration.
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import type { Lead, LeadNote, LeadQuery, LeadRepository, LeadStatus } from './types';
+
+interface LeadRow {
+  submission_id: string;
+  created_at: string;
+  updated_at: string;
+  status: LeadStatus;
+  ip_hash: string;
+  submission: string;
+  attachments: string;
+  notes: string;
+  consent: string | null;
+}
+
+function rowToLead(row: LeadRow): Lead {
+  return {
+    submissionId: row.submission_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    status: row.status,
+    ipHash: row.ip_hash,
+    submission: JSON.parse(row.submission),
+    attachments: JSON.parse(row.attachments),
+    notes: JSON.parse(row.notes),
+    ...(row.consent && { consent: JSON.parse(row.consent) }),
+  };
+}
+
+export class SqliteLeadRepository implements LeadRepository {
+  private readonly db: Database.Database;
+
+  /**
+   * @param filename - Database file path, or ':memory:' for an ephemeral store
+   */
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      mkdirSync(dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS leads (
+        submission_id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        status TEXT NOT NULL,
+        ip_hash TEXT NOT NULL,
+        project_type TEXT NOT NULL,
+        submission TEXT NOT NULL,
+        attachments TEXT NOT NULL DEFAULT '[]',
+        notes TEXT NOT NULL DEFAULT '[]',
+        consent TEXT
+      );
+      CREATE INDEX IF NOT EXISTS leads_created_at ON leads (created_at);
+      CREATE INDEX IF NOT EXISTS leads_status ON leads (status);
+    `);
+
+    // Databases created before uploads, notes and consent were supported lack their columns
+    const columns = this.db.pragma('table_info(leads)') as { name: string }[];
+    for (const added of ['attachments', 'notes']) {
+      if (!columns.some((column) => column.name === added)) {
+        this.db.exec(`ALTER TABLE leads ADD COLUMN ${added} TEXT NOT NULL DEFAULT '[]'`);
+      }
+    }
+    if (!columns.some((column) => column.name === 'consent')) {
+      this.db.exec('ALTER TABLE leads ADD COLUMN consent TEXT');
+    }
+  }
+
+  async create(lead: Lead): Promise<Lead> {
+    try {
+      this.db
+        .prepare(
+          `INSERT INTO leads (submission_id, created_at, updated_at, status, ip_hash, project_type, submission, attachments, notes, consent)
+           VALUES (@submissionId, @createdAt, @updatedAt, @status, @ipHash, @projectType, @submission, @attachments, @notes, @consent)`
+        )
+        .run({
+          submissionId: lead.submissionId,
+          createdAt: lead.createdAt,
+          updatedAt: lead.updatedAt,
+          status: lead.status,
+          ipHash: lead.ipHash,
+          projectType: lead.submission.projectType,
+          submission: JSON.stringify(lead.submission),
+          attachments: JSON.stringify(lead.attachments),
+          notes: JSON.stringify(lead.notes),
+          consent: lead.consent ? JSON.stringify(lead.consent) : null,
+        });
+    } catch (error) {
+      // Report duplicates the same way as the file backend
+      if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+        throw new Error(`Lead ${lead.submissionId} already exists`);
+      }
+      throw error;
+    }
+    return lead;
+  }
+
+  async findById(submissionId: string): Promise<Lead | null> {
+    const row = this.db.prepare('SELECT * FROM leads WHERE submission_id = ?').get(submissionId) as
+      | LeadRow
+      | undefined;
+    return row ? rowToLead(row) : null;
+  }
+
+  async list(query: LeadQuery = {}): Promise<Lead[]> {
+    const clauses: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (query.status) {
+      clauses.push('status = @status');
+      params.status = query.status;
+    }
+    if (query.projectType) {
+      clauses.push('project_type = @projectType');
+      params.projectType = query.projectType;
+    }
+    if (query.budget) {
+      clauses.push(`json_extract(submission, '$.budget') = @budget`);
+      params.budget = query.budget;
+    }
+    if (query.email) {
+      clauses.push(`lower(json_extract(submission, '$.email')) = @email`);
+      params.email = query.email.toLowerCase();
+    }
+    if (query.search) {
+      // Same fields as the file backend: the ID and every submitted text value
+      clauses.push(
+        `(submission_id LIKE @search ESCAPE '\\' OR EXISTS (
+           SELECT 1 FROM json_each(leads.submission)
+           WHERE json_each.type = 'text' AND json_each.value LIKE @search ESCAPE '\\'
+         ))`
+      );
+      params.search = `%${query.search.replace(/[\\%_]/g, '\\$&')}%`;
+    }
+    if (query.since) {
+      clauses.push('created_at >= @since');
+      params.since = query.since;
+    }
+    if (query.until) {
+      clauses.push('created_at < @until');
+      params.until = query.until;
+    }
+    if (query.updatedBefore) {
+      clauses.push('updated_at < @updatedBefore');
+      params.updatedBefore = query.updatedBefore;
+    }
+
+    params.limit = query.limit ?? -1;
+    params.offset = query.offset ?? 0;
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM leads ${where} ORDER BY created_at DESC LIMIT @limit OFFSET @offset`)
+      .all(params) as LeadRow[];
+
+    return rows.map(rowToLead);
+  }
+
+  async updateStatus(submissionId: string, status: LeadStatus): Promise<Lead | null> {
+    this.db
+      .prepare('UPDATE leads SET status = ?, updated_at = ? WHERE submission_id = ?')
+      .run(status, new Date().toISOString(), submissionId);
+    return this.findById(submissionId);
+  }
+
+  async addNote(submissionId: string, note: LeadNote): Promise<Lead | null> {
+    const addNote = this.db.transaction(() => {
+      const lead = this.db
+        .prepare('SELECT * FROM leads WHERE submission_id = ?')
+        .get(submissionId) as LeadRow | undefined;
+      if (!lead) return null;
+
+      const notes = [...(JSON.parse(lead.notes) as LeadNote[]), note];
+      this.db
+        .prepare('UPDATE leads SET notes = ?, updated_at = ? WHERE submission_id = ?')
+        .run(JSON.stringify(notes), new Date().toISOString(), submissionId);
+      return true;
+    });
+
+    return addNote.immediate() ? this.findById(submissionId) : null;
+  }
+
+  async remove(submissionIds: readonly string[]): Promise<number> {
+    return this.db
+      .prepare('DELETE FROM leads WHERE submission_id IN (SELECT value FROM json_each(?))')
+      .run(JSON.stringify(submissionIds)).changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Lead Storage Types
+ *
+ * Shared shapes for stored contact submissions and the repository contract
+ * that every storage backend implements.
+ */
+
+import type { StoredAttachment } from '@/lib/attachments/types';
+import type { ContactFormData, ContactTextField } from '@/lib/contact';
+
+/**
+ * Validated contact form payload with optional text fields normalized to strings
+ */
+export type ContactSubmission = Required<Pick<ContactFormData, ContactTextField>> &
+  Pick<ContactFormData, 'projectDetails'>;
+
+/**
+ * Sales pipeline a lead moves through after it is received
+ */
+export const LEAD_STATUSES = ['new', 'contacted', 'site-visit', 'quoted', 'won', 'lost'] as const;
+
+export type LeadStatus = (typeof LEAD_STATUSES)[number];
+
+export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  'site-visit': 'Site Visit',
+  quoted: 'Quoted',
+  won: 'Won',
+  lost: 'Lost',
+};
+
+/**
+ * Statuses a lead may move to from each stage. Leads move forward one stage at
+ * a time (the site visit can be skipped), can be lost from any open stage, and
+ * a lost lead can be reopened as contacted.
+ */
+export const LEAD_STATUS_TRANSITIONS: Record<LeadStatus, readonly LeadStatus[]> = {
+  new: ['contacted', 'lost'],
+  contacted: ['site-visit', 'quoted', 'lost'],
+  'site-visit': ['quoted', 'lost'],
+  quoted: ['won', 'lost'],
+  won: [],
+  lost: ['contacted'],
+};
+
+/**
+ * Internal note left on a lead by the team; never shown to the submitter
+ */
+export interface LeadNote {
+  noteId: string;
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+/**
+ * Record of the consent notice the submitter agreed to
+ */
+export interface LeadConsent {
+  /** Key into CONSENT_NOTICES */
+  version: string;
+  givenAt: string;
+}
+
+export interface Lead {
+  submissionId: string;
+  createdAt: string;
+  updatedAt: string;
+  status: LeadStatus;
+  /** Salted hash of the client IP, never the raw address; empty when the IP was not known */
+  ipHash: string;
+  submission: ContactSubmission;
+  /** Files uploaded with the submission; empty for leads stored before uploads existed */
+  attachments: StoredAttachment[];
+  /** Internal notes, oldest first */
+  notes: LeadNote[];
+  /** Absent for leads received before consent was collected */
+  consent?: LeadConsent;
+}
+
+export interface LeadQuery {
+  status?: LeadStatus;
+  projectType?: string;
+  budget?: string;
+  /** Submitter's email address, matched exactly but ignoring case */
+  email?: string;
+  /** Case-insensitive text matched against the submission ID and submitted fields */
+  search?: string;
+  /** ISO timestamp, inclusive */
+  since?: string;
+  /** ISO timestamp, exclusive */
+  until?: string;
+  /** ISO timestamp, exclusive; matched against the last update rather than creation */
+  updatedBefore?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Storage contract for contact leads.
+ *
+ * Implementations must be safe to call concurrently from a single process
+ * and must return leads newest first from `list`.
+ */
+export interface LeadRepository {
+  create(lead: Lead): Promise<Lead>;
+  findById(submissionId: string): Promise<Lead | null>;
+  list(query?: LeadQuery): Promise<Lead[]>;
+  updateStatus(submissionId: string, status: LeadStatus): Promise<Lead | null>;
+  addNote(submissionId: string, note: LeadNote): Promise<Lead | null>;
+  /**
+   * Permanently delete leads, including any history kept of them, and return
+   * how many existed
+   */
+  remove(submissionIds: readonly string[]): Promise<number>;
+}
@@ -0,0 +1,10 @@
+/**
+ * Browser Logger
+ *
+ * Same record shape as the server logger. There is no secret in the browser
+ * to hash identifiers with, so emails, phones and IPs are redacted outright.
+ */
+
+import { createLogger } from './logger';
+
+export const clientLogger = createLogger({ bindings: { source: 'browser' } });
@@ -0,0 +1,82 @@
+/**
+ * Logging Entry Point (server only)
+ *
+ * Provides the process-wide structured logger and per-request loggers that
+ * tag every record with a request ID. Browser code should import
+ * './client' instead.
+ *
+ * Environment (read through lib/config):
+ * - LOG_LEVEL: 'debug', 'info' (default), 'warn', 'error' or 'silent'
+ * - LOG_HASH_SALT: secret mixed into the hashes that stand in for emails, phones and IPs
+ */
+
+import { createHmac, randomUUID } from 'node:crypto';
+import { getConfig } from '@/lib/config';
+import { createLogger, type Logger } from './logger';
+
+export {
+  LOG_LEVELS,
+  createLogger,
+  isLogLevel,
+  writeToConsole,
+  type LogFields,
+  type LogLevel,
+  type LogRecord,
+  type Logger,
+  type LoggerOptions,
+} from './logger';
+export { REDACTED, redactPii, scrubText, type PiiHasher } from './redact';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Accept IDs set by a proxy in front of the app, as long as they look like IDs
+const REQUEST_ID_PATTERN = /^[\w.-]{8,64}$/;
+
+/**
+ * Short keyed hash, stable for the same salt so log lines can be correlated
+ */
+export function hashPii(value: string): string {
+  return createHmac('sha256', getConfig().logging.hashSalt)
+    .update(value)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+let logger: Logger | null = null;
+
+/**
+ * Get the process-wide logger, creating it on first use
+ */
+export function getLogger(): Logger {
+  if (logger) return logger;
+
+  logger = createLogger({ level: getConfig().logging.level, hash: hashPii });
+  return logger;
+}
+
+/**
+ * Override the logger, mainly for tests. Pass null to reset.
+ */
+export function setLogger(next: Logger | null): void {
+  logger = next;
+}
+
+/**
+ * The request ID forwarded by a proxy, or a new one
+ */
+export function getRequestId(headers: Headers): string {
+  const forwarded = headers.get(REQUEST_ID_HEADER);
+  return forwarded && REQUEST_ID_PATTERN.test(forwarded) ? forwarded : randomUUID();
+}
+
+export interface RequestLogger extends Logger {
+  requestId: string;
+}
+
+/**
+ * Logger for one API request, tagged with its request ID and route
+ */
+export function requestLogger(request: Request, route: string): RequestLogger {
+  const requestId = getRequestId(request.headers);
+  return Object.assign(getLogger().child({ requestId, route }), { requestId });
+}
@@ -0,0 +1,81 @@
+/**
+ * Structured Logger
+ *
+ * Writes one JSON object per line with a level, a timestamp, a message and
+ * any bound context such as the request ID. Every record passes through
+ * PII redaction first. Safe to use in the browser.
+ */
+
+import { escapeLogText } from '@/lib/encoding/text';
+import { redactPii, type PiiHasher } from './redact';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogRecord extends LogFields {
+  level: LogLevel;
+  time: string;
+  msg: string;
+}
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** Logger that adds `bindings` to every record, e.g. a request ID */
+  child(bindings: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+  /** Lowest level written (default 'info') */
+  level?: LogLevel | 'silent';
+  /** Fields added to every record */
+  bindings?: LogFields;
+  /** Keyed hash for emails, phones and IPs, see './redact' */
+  hash?: PiiHasher;
+  /** Where records go (default: the console, errors and warnings on stderr) */
+  write?: (record: LogRecord) => void;
+}
+
+/**
+ * Whether `value` names a log level or 'silent'
+ */
+export function isLogLevel(value: string | undefined): value is LogLevel | 'silent' {
+  return value === 'silent' || LOG_LEVELS.some((level) => level === value);
+}
+
+/**
+ * Write a record as one line. Submitted text cannot break the line or hide
+ * part of it, see escapeLogText.
+ */
+export function writeToConsole(record: LogRecord): void {
+  const line = escapeLogText(JSON.stringify(record));
+  if (record.level === 'error') console.error(line);
+  else if (record.level === 'warn') console.warn(line);
+  else console.log(line);
+}
+
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const { level = 'info', bindings = {}, hash, write = writeToConsole } = options;
+  const threshold = level === 'silent' ? LOG_LEVELS.length : LOG_LEVELS.indexOf(level);
+
+  const log = (recordLevel: LogLevel, msg: string, fields: LogFields = {}) => {
+    if (LOG_LEVELS.indexOf(recordLevel) < threshold) return;
+    const base = { level: recordLevel, time: new Date().toISOString(), msg };
+    // Base fields lead the line and cannot be overwritten by context
+    write(Object.assign({ ...base }, redactPii({ ...bindings, ...fields }, hash), base));
+  };
+
+  return {
+    debug: (msg, fields) => log('debug', msg, fields),
+    info: (msg, fields) => log('info', msg, fields),
+    warn: (msg, fields) => log('warn', msg, fields),
+    error: (msg, fields) => log('error', msg, fields),
+    child: (childBindings) =>
+      createLogger({ ...options, bindings: { ...bindings, ...childBindings } }),
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * PII Redaction
+ *
+ * Scrubs personal data from log fields before they are written. Identifiers
+ * that help correlate log lines (email, phone, IP) become a short keyed hash
+ * when a hasher is available; free text such as names and messages is
+ * dropped. Email addresses and phone numbers inside other strings, e.g. an
+ * SMTP error, are masked too. Safe to use in the browser.
+ */
+
+export type PiiHasher = (value: string) => string;
+
+export const REDACTED = '[redacted]';
+
+// Field names are compared in lower case
+const HASHED_FIELDS = new Set(['email', 'phone', 'ip', 'clientip', 'replyto']);
+const REDACTED_FIELDS = new Set([
+  'name',
+  'message',
+  'body',
+  'address',
+  'password',
+  'secret',
+  'token',
+  'formtoken',
+  'powsolution',
+  'cookie',
+  'authorization',
+]);
+
+const MAX_DEPTH = 6;
+
+const EMAIL_PATTERN = /[^\s@<>"'(),;:]+@[^\s@<>"'(),;:]+\.[a-z]{2,}/gi;
+// Ten or more digits, optionally spaced or dashed; not part of a longer token such as an ID
+const PHONE_PATTERN = /(?<![\w-])\+?\d(?:[\s-]?\d){9,13}(?![\w-])/g;
+
+/**
+ * Mask email addresses and phone numbers in free text
+ */
+export function scrubText(text: string): string {
+  return text.replace(EMAIL_PATTERN, '[email]').replace(PHONE_PATTERN, '[phone]');
+}
+
+function redactField(key: string, value: unknown, hash?: PiiHasher): unknown {
+  const field = key.toLowerCase();
+  if (REDACTED_FIELDS.has(field)) {
+    return value === undefined || value === '' ? value : REDACTED;
+  }
+  if (HASHED_FIELDS.has(field) && typeof value === 'string') {
+    if (!value) return value;
+    return hash ? `hash:${hash(value.trim().toLowerCase())}` : REDACTED;
+  }
+  return undefined;
+}
+
+function redactError(
+  error: Error,
+  hash: PiiHasher | undefined,
+  seen: WeakSet<object>,
+  depth: number
+) {
+  const code = (error as NodeJS.ErrnoException).code;
+  return {
+    type: error.name,
+    message: scrubText(error.message),
+    ...(code !== undefined && { code }),
+    ...(error.stack && { stack: scrubText(error.stack) }),
+    ...(error.cause !== undefined && {
+      cause: redactValue(error.cause, hash, seen, depth + 1),
+    }),
+  };
+}
+
+function redactValue(
+  value: unknown,
+  hash: PiiHasher | undefined,
+  seen: WeakSet<object>,
+  depth: number
+): unknown {
+  if (typeof value === 'string') return scrubText(value);
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'bigint' ? value.toString() : value;
+  }
+  if (seen.has(value)) return '[circular]';
+  if (depth >= MAX_DEPTH) return '[truncated]';
+  seen.add(value);
+
+  if (value instanceof Error) return redactError(value, hash, seen, depth);
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, hash, seen, depth + 1));
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const redacted = redactField(key, item, hash);
+    result[key] = redacted !== undefined ? redacted : redactValue(item, hash, seen, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Copy of `fields` that is safe to write to a log
+ *
+ * @param hash - Keyed hash for emails, phones and IPs. Without one they are
+ *   redacted like other PII.
+ */
+export function redactPii<T extends Record<string, unknown>>(
+  fields: T,
+  hash?: PiiHasher
+): Record<string, unknown> {
+  return redactValue(fields, hash, new WeakSet(), 0) as Record<string, unknown>;
+}
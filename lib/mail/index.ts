@@ -0,0 +1,119 @@
+/**
+ * Mail Entry Point
+ *
+ * Selects the configured transport and sends the emails triggered by a new
+ * lead or a data request. Transport, sender and sales inbox come from
+ * lib/config (MAIL_* and SMTP_* variables).
+ */
+
+import { getConfig } from '@/lib/config';
+import type { Lead } from '@/lib/leads';
+import { getLogger, type Logger } from '@/lib/logging';
+import { OutboxTransport } from './outbox-transport';
+import { SmtpTransport } from './smtp-transport';
+import type { DataRequestPurpose } from '@/lib/privacy/contract';
+import {
+  renderDataRequestCode,
+  renderLeadAcknowledgement,
+  renderLeadNotification,
+} from './templates';
+import type { MailTransport } from './types';
+
+export { OutboxTransport } from './outbox-transport';
+export { SmtpTransport, type SmtpTransportOptions } from './smtp-transport';
+export {
+  renderDataRequestCode,
+  renderLeadAcknowledgement,
+  renderLeadNotification,
+} from './templates';
+export type { MailMessage, MailTransport, RenderedMail } from './types';
+
+let transport: MailTransport | null = null;
+
+/**
+ * Get the process-wide mail transport, creating it on first use
+ */
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+
+  const settings = getConfig().mail.transport;
+  transport =
+    settings.kind === 'smtp' ? new SmtpTransport(settings) : new OutboxTransport(settings.dir);
+
+  return transport;
+}
+
+/**
+ * Override the transport, mainly for tests. Pass null to reset.
+ */
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
+
+export interface LeadNotificationResult {
+  notified: boolean;
+  acknowledged: boolean;
+}
+
+/**
+ * Email the sales inbox about a new lead and acknowledge it to the submitter.
+ *
+ * Failures are logged rather than thrown: the lead is already stored, so a
+ * mail outage must not turn a successful submission into an error.
+ */
+export async function sendLeadNotifications(
+  lead: Lead,
+  log: Logger = getLogger()
+): Promise<LeadNotificationResult> {
+  const { mail, siteUrl } = getConfig();
+  const mailer = getMailTransport();
+
+  const [notification, acknowledgement] = await Promise.allSettled([
+    mailer.send({
+      ...renderLeadNotification(lead),
+      from: mail.from,
+      to: mail.salesTo,
+      replyTo: lead.submission.email,
+    }),
+    mailer.send({
+      ...renderLeadAcknowledgement(lead, siteUrl),
+      from: mail.from,
+      to: lead.submission.email,
+    }),
+  ]);
+
+  if (notification.status === 'rejected') {
+    log.error('Lead notification email failed', {
+      submissionId: lead.submissionId,
+      error: notification.reason,
+    });
+  }
+  if (acknowledgement.status === 'rejected') {
+    log.error('Lead acknowledgement email failed', {
+      submissionId: lead.submissionId,
+      error: acknowledgement.reason,
+    });
+  }
+
+  return {
+    notified: notification.status === 'fulfilled',
+    acknowledged: acknowledgement.status === 'fulfilled',
+  };
+}
+
+/**
+ * Email the one-time code for a data export or erasure request. Unlike lead
+ * emails this throws, since the request cannot go ahead without the code.
+ */
+export async function sendDataRequestCode(
+  email: string,
+  code: string,
+  purpose: DataRequestPurpose,
+  expiresInMinutes: number
+): Promise<void> {
+  await getMailTransport().send({
+    ...renderDataRequestCode(code, purpose, expiresInMinutes),
+    from: getConfig().mail.from,
+    to: email,
+  });
+}
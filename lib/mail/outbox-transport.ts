@@ -0,0 +1,29 @@
+/**
+ * Outbox Mail Transport
+ *
+ * Writes each message to a local directory instead of sending it, so email
+ * flows can be developed and tested offline. Every message produces a JSON
+ * file with the full envelope and an HTML file that can be opened in a browser.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { MailMessage, MailTransport } from './types';
+
+export class OutboxTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    // Timestamp prefix keeps the outbox sorted in send order
+    const id = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}`;
+    await writeFile(
+      join(this.directory, `${id}.json`),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+      'utf8'
+    );
+    await writeFile(join(this.directory, `${id}.html`), message.html, 'utf8');
+  }
+}
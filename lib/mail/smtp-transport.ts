@@ -0,0 +1,34 @@
+/**
+ * SMTP Mail Transport
+ *
+ * Delivers messages through any SMTP relay (SES, SendGrid, Postmark, a local
+ * MailHog, ...) using nodemailer.
+ */
+
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { MailMessage, MailTransport } from './types';
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export class SmtpTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(options: SmtpTransportOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Lead Email Templates
+ *
+ * HTML and plain-text renderings of a stored lead for the sales inbox, the
+ * acknowledgement sent back to the person who submitted the form, and the
+ * one-time code that confirms a request to export or erase their data.
+ */
+
+import { formatBytes } from '@/lib/attachments/policy';
+import { COLORS } from '@/lib/constants';
+import {
+  PROJECT_DETAIL_FIELDS,
+  type ContactTextField,
+  type ProjectDetailField,
+} from '@/lib/contact';
+import { escapeHeaderText, escapeHtml } from '@/lib/encoding';
+import type { ContactSubmission, Lead } from '@/lib/leads';
+import { formatPhone } from '@/lib/phone';
+import { DATA_REQUEST_LABELS, type DataRequestPurpose } from '@/lib/privacy/contract';
+import type { RenderedMail } from './types';
+
+// Keyed by every text field so adding a form field without a label fails type-checking
+const FIELD_LABELS: Record<ContactTextField, string> = {
+  name: 'Name',
+  email: 'Email',
+  phone: 'Phone',
+  projectType: 'Project Type',
+  budget: 'Budget',
+  message: 'Project Details',
+};
+
+const FIELD_ORDER = Object.keys(FIELD_LABELS) as ContactTextField[];
+
+function displayValue(value: string): string {
+  return value.trim() ? value : 'Not provided';
+}
+
+/**
+ * Label and display value for every field, followed by any project-specific details
+ */
+function submissionRows(submission: ContactSubmission): [string, string][] {
+  const rows = FIELD_ORDER.map((field): [string, string] => [
+    FIELD_LABELS[field],
+    displayValue(field === 'phone' ? formatPhone(submission.phone) : submission[field]),
+  ]);
+
+  for (const [field, value] of Object.entries(submission.projectDetails ?? {})) {
+    const { label, unit } = PROJECT_DETAIL_FIELDS[field as ProjectDetailField];
+    rows.push([label, unit ? `${value} ${unit}` : String(value)]);
+  }
+  return rows;
+}
+
+function renderFieldRowsHtml(submission: ContactSubmission): string {
+  return submissionRows(submission)
+    .map(
+      ([label, value]) => `
+        <tr>
+          <td style="padding:8px 12px;font-weight:bold;color:${COLORS.goldDark};vertical-align:top;white-space:nowrap;">${label}</td>
+          <td style="padding:8px 12px;color:${COLORS.black};white-space:pre-wrap;">${escapeHtml(value)}</td>
+        </tr>`
+    )
+    .join('');
+}
+
+function renderFieldRowsText(submission: ContactSubmission): string {
+  return submissionRows(submission)
+    .map(([label, value]) => `${label}: ${value}`)
+    .join('\n');
+}
+
+function renderAttachmentsHtml(lead: Lead): string {
+  if (lead.attachments.length === 0) return '';
+  const items = lead.attachments
+    .map(
+      (attachment) =>
+        `<li>${escapeHtml(attachment.fileName)} (${attachment.kind.toUpperCase()}, ${formatBytes(attachment.size)})</li>`
+    )
+    .join('');
+  return `
+          <p style="margin:16px 0 8px;font-weight:bold;color:${COLORS.goldDark};">Attachments</p>
+          <ul style="margin:0;padding-left:20px;color:${COLORS.black};">${items}</ul>
+          <p style="margin:8px 0 0;font-size:12px;color:#888;">Files are kept with the lead in attachment storage.</p>`;
+}
+
+function renderAttachmentsText(lead: Lead): string[] {
+  if (lead.attachments.length === 0) return [];
+  return [
+    '',
+    'Attachments:',
+    ...lead.attachments.map(
+      (attachment) =>
+        `- ${attachment.fileName} (${attachment.kind.toUpperCase()}, ${formatBytes(attachment.size)})`
+    ),
+  ];
+}
+
+function renderLayout(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f5f5;font-family:Arial,Helvetica,sans-serif;">
+    <table role="presentation" width="100%" style="max-width:600px;margin:0 auto;background:${COLORS.white};border-top:4px solid ${COLORS.gold};">
+      <tr>
+        <td style="padding:24px;">
+          <h1 style="margin:0 0 16px;font-size:20px;color:${COLORS.black};">${escapeHtml(title)}</h1>
+          ${body}
+          <p style="margin:24px 0 0;font-size:12px;color:#888;">SB Infra Projects</p>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+}
+
+/**
+ * Notification for the sales inbox containing every submitted field
+ */
+export function renderLeadNotification(lead: Lead): RenderedMail {
+  const { submission } = lead;
+  const subject = escapeHeaderText(
+    `New inquiry: ${submission.projectType} from ${submission.name}`
+  );
+
+  const html = renderLayout(
+    'New project inquiry',
+    `<p style="margin:0 0 16px;color:#555;">Submission <strong>${escapeHtml(lead.submissionId)}</strong> received ${escapeHtml(lead.createdAt)}</p>
+          <table role="presentation" width="100%" style="border-collapse:collapse;">${renderFieldRowsHtml(submission)}
+          </table>${renderAttachmentsHtml(lead)}`
+  );
+
+  const text = [
+    'New project inquiry',
+    '',
+    `Submission: ${lead.submissionId}`,
+    `Received: ${lead.createdAt}`,
+    '',
+    renderFieldRowsText(submission),
+    ...renderAttachmentsText(lead),
+  ].join('\n');
+
+  return { subject, html, text };
+}
+
+/**
+ * Acknowledgement for the submitter, echoing what they sent
+ */
+export function renderLeadAcknowledgement(
+  lead: Lead,
+  siteUrl = 'https://sbinfraprojects.com'
+): RenderedMail {
+  const { submission } = lead;
+  const subject = 'We received your inquiry - SB Infra Projects';
+  const intro = `Thank you for contacting SB Infra Projects. Our team will get back to you within 24 hours. Your reference number is ${lead.submissionId}.`;
+  const trackUrl = `${siteUrl.replace(/\/$/, '')}/track?id=${encodeURIComponent(lead.submissionId)}`;
+  const tracking =
+    'You can check the status of your inquiry at any time with this number and your email address:';
+
+  const html = renderLayout(
+    `Hi ${submission.name},`,
+    `<p style="margin:0 0 16px;color:#555;">${escapeHtml(intro)}</p>
+          <p style="margin:0 0 16px;color:#555;">${tracking} <a href="${escapeHtml(trackUrl)}" style="color:${COLORS.goldDark};">Track your inquiry</a></p>
+          <p style="margin:0 0 8px;color:#555;">Here is a copy of your inquiry:</p>
+          <table role="presentation" width="100%" style="border-collapse:collapse;">${renderFieldRowsHtml(submission)}
+          </table>`
+  );
+
+  const text = [
+    `Hi ${submission.name},`,
+    '',
+    intro,
+    '',
+    tracking,
+    trackUrl,
+    '',
+    'Here is a copy of your inquiry:',
+    '',
+    renderFieldRowsText(submission),
+    '',
+    'SB Infra Projects',
+  ].join('\n');
+
+  return { subject, html, text };
+}
+
+/**
+ * One-time code that proves a data request comes from the owner of the address
+ */
+export function renderDataRequestCode(
+  code: string,
+  purpose: DataRequestPurpose,
+  expiresInMinutes: number
+): RenderedMail {
+  const action = DATA_REQUEST_LABELS[purpose].toLowerCase();
+  const subject = `Your verification code: ${code} - SB Infra Projects`;
+  const intro = `Someone asked to ${action} held by SB Infra Projects for this email address. Enter this code on the privacy page to continue:`;
+  const expiry = `The code expires in ${expiresInMinutes} minutes. If you did not ask for this, ignore this email and nothing will change.`;
+
+  const html = renderLayout(
+    'Confirm your data request',
+    `<p style="margin:0 0 16px;color:#555;">${escapeHtml(intro)}</p>
+          <p style="margin:0 0 16px;font-size:28px;font-weight:bold;letter-spacing:6px;color:${COLORS.black};">${escapeHtml(code)}</p>
+          <p style="margin:0;color:#555;">${escapeHtml(expiry)}</p>`
+  );
+
+  const text = [
+    'Confirm your data request',
+    '',
+    intro,
+    '',
+    code,
+    '',
+    expiry,
+    '',
+    'SB Infra Projects',
+  ].join('\n');
+
+  return { subject, html, text };
+}
@@ -0,0 +1,23 @@
+/**
+ * Mail Types
+ *
+ * Transport-agnostic message shape and the contract every transport implements.
+ */
+
+export interface MailMessage {
+  to: string;
+  from: string;
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Subject and bodies produced by a template, before addressing
+ */
+export type RenderedMail = Pick<MailMessage, 'subject' | 'html' | 'text'>;
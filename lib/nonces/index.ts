@@ -0,0 +1,63 @@
+/**
+ * Nonce Store Entry Point (server only)
+ *
+ * Signed tokens are checked without a lookup, so on their own they can be
+ * presented again until they expire. Tokens meant to be used once carry a
+ * random nonce, which is recorded here when the token is used.
+ *
+ * Environment (read through lib/config):
+ * - NONCE_STORE: 'sqlite' (default) or 'memory'
+ * - NONCE_PATH: SQLite file, defaults to .data/nonces.db
+ */
+
+import { getConfig } from '@/lib/config';
+import { MemoryNonceStore } from './memory-store';
+import { SqliteNonceStore } from './sqlite-store';
+import type { NonceStore } from './types';
+
+export { MemoryNonceStore } from './memory-store';
+export { SqliteNonceStore } from './sqlite-store';
+export type { NonceStore } from './types';
+
+let store: NonceStore | null = null;
+
+/**
+ * Get the process-wide nonce store, creating it on first use
+ */
+export function getNonceStore(): NonceStore {
+  if (store) return store;
+
+  const settings = getConfig().stores.nonces;
+  store = settings.kind === 'sqlite' ? new SqliteNonceStore(settings.path) : new MemoryNonceStore();
+
+  return store;
+}
+
+/**
+ * Override the store, mainly for tests. Pass null to reset.
+ */
+export function setNonceStore(next: NonceStore | null): void {
+  store = next;
+}
+
+/**
+ * Spend a token's nonce, scoped by the kind of token. Returns false when the
+ * token was used before.
+ */
+export async function spendNonce(
+  scope: string,
+  nonce: string,
+  expiresAt: number,
+  now = Date.now()
+): Promise<boolean> {
+  const nonces = getNonceStore();
+  await nonces.prune(now);
+  return nonces.spend(`${scope} ${nonce}`, now, expiresAt);
+}
+
+/**
+ * Give back a nonce spent with `spendNonce`
+ */
+export async function releaseNonce(scope: string, nonce: string): Promise<void> {
+  await getNonceStore().release(`${scope} ${nonce}`);
+}
@@ -0,0 +1,30 @@
+/**
+ * In-memory Nonce Store
+ *
+ * Suitable for development and single-instance deployments. Used nonces are
+ * forgotten on restart and are not shared between server instances.
+ */
+
+import type { NonceStore } from './types';
+
+export class MemoryNonceStore implements NonceStore {
+  private readonly expiries = new Map<string, number>();
+
+  async spend(nonce: string, now: number, expiresAt: number): Promise<boolean> {
+    const existing = this.expiries.get(nonce);
+    if (existing !== undefined && existing > now) return false;
+
+    this.expiries.set(nonce, expiresAt);
+    return true;
+  }
+
+  async release(nonce: string): Promise<void> {
+    this.expiries.delete(nonce);
+  }
+
+  async prune(now: number): Promise<void> {
+    for (const [nonce, expiresAt] of this.expiries.entries()) {
+      if (expiresAt <= now) this.expiries.delete(nonce);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * SQLite Nonce Store
+ *
+ * Persists used nonces in an embedded database so a token cannot be used again
+ * after a restart or on another server process on the same host.
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import type { NonceStore } from './types';
+
+export class SqliteNonceStore implements NonceStore {
+  private readonly db: Database.Database;
+
+  /**
+   * @param filename - Database file path, or ':memory:' for an ephemeral store
+   */
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      mkdirSync(dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS used_nonces (
+        nonce TEXT PRIMARY KEY,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS used_nonces_expires_at ON used_nonces (expires_at);
+    `);
+  }
+
+  async spend(nonce: string, now: number, expiresAt: number): Promise<boolean> {
+    // An expired row is replaced; a live one makes the insert a no-op
+    const result = this.db
+      .prepare(
+        `INSERT INTO used_nonces (nonce, expires_at) VALUES (?, ?)
+         ON CONFLICT (nonce) DO UPDATE SET expires_at = excluded.expires_at
+         WHERE used_nonces.expires_at <= ?`
+      )
+      .run(nonce, expiresAt, now);
+    return result.changes > 0;
+  }
+
+  async release(nonce: string): Promise<void> {
+    this.db.prepare('DELETE FROM used_nonces WHERE nonce = ?').run(nonce);
+  }
+
+  async prune(now: number): Promise<void> {
+    this.db.prepare('DELETE FROM used_nonces WHERE expires_at <= ?').run(now);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
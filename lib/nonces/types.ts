@@ -0,0 +1,20 @@
+/**
+ * Nonce Store Types
+ */
+
+/**
+ * Storage for the nonces of signed one-time tokens that have been used.
+ * Implementations must make `spend` atomic so two concurrent requests cannot
+ * both use the same nonce.
+ */
+export interface NonceStore {
+  /**
+   * Mark a nonce as used until `expiresAt`, when its token expires anyway.
+   * Returns false when it was already used.
+   */
+  spend(nonce: string, now: number, expiresAt: number): Promise<boolean>;
+  /** Forget a nonce so its token can be used again */
+  release(nonce: string): Promise<void>;
+  /** Drop nonces whose tokens have expired */
+  prune(now: number): Promise<void>;
+}
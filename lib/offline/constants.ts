@@ -0,0 +1,19 @@
+/**
+ * Offline Queue Constants
+ *
+ * Shared by the page and public/sw.js. The service worker is served as a
+ * plain script without a build step, so it repeats these values; a test
+ * checks that the two copies agree.
+ */
+
+export const SERVICE_WORKER_URL = '/sw.js';
+
+export const OFFLINE_DB_NAME = 'sb-infra-offline';
+export const OFFLINE_DB_VERSION = 1;
+export const CONTACT_QUEUE_STORE = 'contact-submissions';
+
+/** Background Sync tag under which the browser wakes the worker to send the queue */
+export const CONTACT_SYNC_TAG = 'contact-queue';
+
+/** Queued submissions older than this are dropped, matching how long keys are remembered */
+export const CONTACT_QUEUE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
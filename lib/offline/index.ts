@@ -0,0 +1,21 @@
+/**
+ * Offline Queue Entry Point (browser only)
+ *
+ * Contact submissions that fail for lack of a connection are kept in
+ * IndexedDB and sent by the service worker in public/sw.js, on Background
+ * Sync or when the page reports that it is back online. Every entry carries
+ * the form fill's idempotency key, so however often it is replayed, and even
+ * if the first attempt did reach the server, at most one inquiry is created.
+ */
+
+export {
+  CONTACT_QUEUE_MAX_AGE_MS,
+  CONTACT_QUEUE_STORE,
+  CONTACT_SYNC_TAG,
+  OFFLINE_DB_NAME,
+  OFFLINE_DB_VERSION,
+  SERVICE_WORKER_URL,
+} from './constants';
+export { countQueuedSubmissions, isOfflineQueueSupported, queueSubmission } from './queue';
+export { registerServiceWorker, requestQueueFlush, subscribeToQueueEvents } from './service-worker';
+export type { QueueEvent, QueueMessage, QueuedSubmission } from './types';
@@ -0,0 +1,70 @@
+/**
+ * Offline Submission Queue
+ *
+ * IndexedDB store of contact submissions waiting for a connection. The page
+ * only adds to it; public/sw.js sends and removes the entries.
+ */
+
+import { CONTACT_QUEUE_STORE, OFFLINE_DB_NAME, OFFLINE_DB_VERSION } from './constants';
+import type { QueuedSubmission } from './types';
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openOfflineDb(): Promise<IDBDatabase> {
+  const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(CONTACT_QUEUE_STORE)) {
+      request.result.createObjectStore(CONTACT_QUEUE_STORE, { keyPath: 'key' });
+    }
+  };
+  return requestResult(request);
+}
+
+/**
+ * Whether this browser can queue submissions and send them from a service worker
+ */
+export function isOfflineQueueSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'indexedDB' in window &&
+    window.isSecureContext
+  );
+}
+
+/**
+ * Add a submission to the queue, replacing an earlier entry with the same key
+ */
+export async function queueSubmission(submission: QueuedSubmission): Promise<void> {
+  const db = await openOfflineDb();
+  try {
+    const transaction = db.transaction(CONTACT_QUEUE_STORE, 'readwrite');
+    transaction.objectStore(CONTACT_QUEUE_STORE).put(submission);
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Number of submissions still waiting to be sent
+ */
+export async function countQueuedSubmissions(): Promise<number> {
+  const db = await openOfflineDb();
+  try {
+    return await requestResult(
+      db.transaction(CONTACT_QUEUE_STORE).objectStore(CONTACT_QUEUE_STORE).count()
+    );
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Service Worker Client
+ *
+ * Registers public/sw.js, asks it to send the queue, and relays what it
+ * reports back about queued submissions.
+ */
+
+import { CONTACT_SYNC_TAG, SERVICE_WORKER_URL } from './constants';
+import type { QueueEvent, QueueMessage } from './types';
+
+// Background Sync is not in TypeScript's DOM types yet
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+export function registerServiceWorker(): Promise<ServiceWorkerRegistration> {
+  return navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: '/' });
+}
+
+/**
+ * Have the worker send the queue: through Background Sync where supported,
+ * which also waits for a connection and retries, or by asking it directly
+ */
+export async function requestQueueFlush(): Promise<void> {
+  const registration: SyncRegistration = await navigator.serviceWorker.ready;
+
+  if (registration.sync) {
+    try {
+      await registration.sync.register(CONTACT_SYNC_TAG);
+      return;
+    } catch {
+      // Sync can be disabled by the user or a policy; fall back to asking directly
+    }
+  }
+  const message: QueueMessage = { type: 'contact-queue:flush' };
+  registration.active?.postMessage(message);
+}
+
+/**
+ * Listen for delivered and dropped submissions. Returns an unsubscribe function.
+ */
+export function subscribeToQueueEvents(listener: (event: QueueEvent) => void): () => void {
+  const onMessage = (event: MessageEvent<QueueMessage>) => {
+    const message = event.data;
+    if (message?.type === 'contact-queue:sent' || message?.type === 'contact-queue:failed') {
+      listener(message);
+    }
+  };
+
+  navigator.serviceWorker.addEventListener('message', onMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+}
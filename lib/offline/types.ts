@@ -0,0 +1,30 @@
+/**
+ * Offline Queue Types
+ */
+
+/**
+ * A contact submission that could not be sent, kept in IndexedDB until the
+ * service worker delivers it
+ */
+export interface QueuedSubmission {
+  /** Idempotency key of the form fill, also the record's key in the store */
+  key: string;
+  /** Validated form fields and the honeypot; the worker fetches a fresh form token */
+  fields: Record<string, unknown>;
+  attachments: File[];
+  /** Epoch ms at which the submission was queued */
+  queuedAt: number;
+}
+
+/**
+ * Messages between the page and the service worker
+ */
+export type QueueMessage =
+  /** Page to worker: try sending the queue now, for browsers without Background Sync */
+  | { type: 'contact-queue:flush' }
+  /** Worker to pages: a queued submission was delivered */
+  | { type: 'contact-queue:sent'; key: string; submissionId: string }
+  /** Worker to pages: a queued submission was rejected or too old, and was dropped */
+  | { type: 'contact-queue:failed'; key: string; message: string };
+
+export type QueueEvent = Exclude<QueueMessage, { type: 'contact-queue:flush' }>;
@@ -0,0 +1,349 @@
+/**
+ * OpenAPI Document
+ *
+ * Describes the lead intake API for third parties: the contact form, inquiry
+ * lookup and bookings. Admin and privacy routes answer errors in the same
+ * envelope but are left out, as they serve the site's own pages.
+ *
+ * Schemas come from zod (./schemas); the errors each operation can return
+ * are listed per operation, plus those the route wrapper adds for it.
+ */
+
+import { z } from 'zod';
+import { API_ERRORS, type ApiErrorCode } from '@/lib/http/errors';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENCY_TTL_MS,
+  IDEMPOTENT_REPLAYED_HEADER,
+} from '@/lib/idempotency';
+import {
+  apiErrorSchema,
+  apiIssueSchema,
+  bookingConfirmedSchema,
+  bookingRequestBodySchema,
+  bookingSlotsSchema,
+  contactChallengeSchema,
+  contactRequestSchema,
+  contactSubmittedSchema,
+  contactUploadSchema,
+  inquiryStatusSchema,
+} from './schemas';
+
+/**
+ * Version of the contract described; raise it whenever the document changes
+ */
+export const OPENAPI_API_VERSION = '1.1.0';
+
+type JsonSchema = Record<string, unknown>;
+type JsonContent = 'application/json' | 'multipart/form-data';
+
+interface OperationSpec {
+  method: 'get' | 'post';
+  path: string;
+  operationId: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  parameters?: JsonSchema[];
+  /** Component schema of the body for each type it may be sent as */
+  requestBody?: Partial<Record<JsonContent, string>>;
+  /** Honours Idempotency-Key, like routes with `idempotent: true` */
+  idempotent?: boolean;
+  success: { status: number; description: string; schema?: string; contentType?: string };
+  /** Errors raised by the handler itself; the wrapper's are added automatically */
+  errors: readonly ApiErrorCode[];
+  rateLimited?: boolean;
+}
+
+const OPERATIONS: readonly OperationSpec[] = [
+  {
+    method: 'get',
+    path: '/api/contact/challenge',
+    operationId: 'getContactChallenge',
+    tag: 'Contact',
+    summary: 'Get a form token',
+    description:
+      'Every inquiry and booking carries a fresh token. Solve the proof of work when `difficulty` ' +
+      'is above 0, and wait `minFillMs` before submitting: faster submissions are discarded as bots.',
+    success: { status: 200, description: 'A form token', schema: 'ContactChallenge' },
+    errors: [],
+  },
+  {
+    method: 'post',
+    path: '/api/contact',
+    operationId: 'submitInquiry',
+    tag: 'Contact',
+    summary: 'Submit an inquiry',
+    description:
+      'Stores the inquiry and emails the sales team. Send it as `multipart/form-data` to attach ' +
+      'site plans or photos; deployments that do not take attachments answer not_configured.',
+    requestBody: {
+      'application/json': 'ContactRequest',
+      'multipart/form-data': 'ContactUpload',
+    },
+    idempotent: true,
+    success: { status: 200, description: 'The inquiry was received', schema: 'ContactSubmitted' },
+    errors: [
+      'form_expired',
+      'validation_failed',
+      'invalid_attachment',
+      'attachment_too_large',
+      'rate_limited',
+      'not_configured',
+    ],
+    rateLimited: true,
+  },
+  {
+    method: 'get',
+    path: '/api/contact/{submissionId}',
+    operationId: 'getInquiryStatus',
+    tag: 'Contact',
+    summary: 'Look up an inquiry',
+    description:
+      'Unknown references and emails that do not match the inquiry both return not_found.',
+    parameters: [
+      { name: 'submissionId', in: 'path', required: true, schema: { type: 'string' } },
+      {
+        name: 'email',
+        in: 'query',
+        required: true,
+        description: 'Email address the inquiry was sent from',
+        schema: { type: 'string' },
+      },
+    ],
+    success: { status: 200, description: 'The inquiry status', schema: 'InquiryStatus' },
+    errors: ['validation_failed', 'not_found', 'rate_limited'],
+    rateLimited: true,
+  },
+  {
+    method: 'get',
+    path: '/api/bookings/slots',
+    operationId: 'listBookingSlots',
+    tag: 'Bookings',
+    summary: 'List bookable slots',
+    description:
+      'Answers not_configured, like booking itself, when online booking is switched off.',
+    success: { status: 200, description: 'Slots open for booking', schema: 'BookingSlots' },
+    errors: ['not_configured'],
+  },
+  {
+    method: 'post',
+    path: '/api/bookings',
+    operationId: 'bookVisit',
+    tag: 'Bookings',
+    summary: 'Book a site visit or consultation',
+    description: 'Reserves the slot and stores the booking as an inquiry.',
+    requestBody: { 'application/json': 'BookingRequest' },
+    success: { status: 200, description: 'The slot is booked', schema: 'BookingConfirmed' },
+    errors: [
+      'form_expired',
+      'validation_failed',
+      'slot_unavailable',
+      'rate_limited',
+      'not_configured',
+    ],
+    rateLimited: true,
+  },
+  {
+    method: 'get',
+    path: '/api/bookings/{bookingId}/ics',
+    operationId: 'getBookingInvite',
+    tag: 'Bookings',
+    summary: 'Download the calendar invite for a booking',
+    parameters: [{ name: 'bookingId', in: 'path', required: true, schema: { type: 'string' } }],
+    success: { status: 200, description: 'An iCalendar file', contentType: 'text/calendar' },
+    errors: ['not_found'],
+  },
+];
+
+const componentRef = (name: string) => `#/components/schemas/${name}`;
+
+function componentSchemas(): Record<string, JsonSchema> {
+  const registry = z.registry<{ id: string }>();
+  registry.add(contactRequestSchema, { id: 'ContactRequest' });
+  registry.add(contactUploadSchema, { id: 'ContactUpload' });
+  registry.add(bookingRequestBodySchema, { id: 'BookingRequest' });
+  registry.add(contactChallengeSchema, { id: 'ContactChallenge' });
+  registry.add(contactSubmittedSchema, { id: 'ContactSubmitted' });
+  registry.add(inquiryStatusSchema, { id: 'InquiryStatus' });
+  registry.add(bookingSlotsSchema, { id: 'BookingSlots' });
+  registry.add(bookingConfirmedSchema, { id: 'BookingConfirmed' });
+  registry.add(apiIssueSchema, { id: 'ApiIssue' });
+  registry.add(apiErrorSchema, { id: 'ApiError' });
+
+  const { schemas } = z.toJSONSchema(registry, { io: 'input', uri: componentRef });
+
+  // Components sit inside the document, which sets the dialect and their location
+  for (const schema of Object.values(schemas)) {
+    delete schema.$schema;
+    delete schema.$id;
+  }
+  return schemas;
+}
+
+/**
+ * Error codes an operation can return: its own and those of the route wrapper
+ */
+function operationErrorCodes(operation: OperationSpec): ApiErrorCode[] {
+  const codes = new Set<ApiErrorCode>(operation.errors);
+  if (operation.method !== 'get') codes.add('origin_not_allowed');
+  if (operation.requestBody) {
+    codes.add('unsupported_media_type');
+    codes.add('payload_too_large');
+    codes.add('invalid_json');
+    codes.add('invalid_body');
+  }
+  if (operation.idempotent) {
+    codes.add('invalid_idempotency_key');
+    codes.add('request_in_progress');
+    codes.add('idempotency_key_reused');
+  }
+  codes.add('internal_error');
+  return [...codes];
+}
+
+function errorResponses(codes: ApiErrorCode[]): Record<string, JsonSchema> {
+  const byStatus = new Map<number, ApiErrorCode[]>();
+  for (const code of codes) {
+    const { status } = API_ERRORS[code];
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+
+  const responses: Record<string, JsonSchema> = {};
+  for (const [status, statusCodes] of [...byStatus].sort(([a], [b]) => a - b)) {
+    const retryLater = statusCodes.some(
+      (code) => code === 'rate_limited' || code === 'request_in_progress'
+    );
+    responses[String(status)] = {
+      description: statusCodes.map((code) => API_ERRORS[code].error).join(', '),
+      ...(retryLater && {
+        headers: { 'Retry-After': { $ref: '#/components/headers/RetryAfter' } },
+      }),
+      content: {
+        'application/json': {
+          schema: {
+            $ref: componentRef('ApiError'),
+            properties: { code: { enum: statusCodes } },
+          },
+        },
+      },
+    };
+  }
+  return responses;
+}
+
+function operationObject(operation: OperationSpec): JsonSchema {
+  const parameters = [...(operation.parameters ?? [])];
+  if (operation.idempotent) {
+    parameters.push({ $ref: '#/components/parameters/IdempotencyKey' });
+  }
+
+  const { success } = operation;
+  const successHeaders: Record<string, JsonSchema> = {
+    'X-Request-Id': { $ref: '#/components/headers/RequestId' },
+  };
+  if (operation.rateLimited) {
+    successHeaders['X-RateLimit-Limit'] = { $ref: '#/components/headers/RateLimitLimit' };
+    successHeaders['X-RateLimit-Remaining'] = { $ref: '#/components/headers/RateLimitRemaining' };
+    successHeaders['X-RateLimit-Reset'] = { $ref: '#/components/headers/RateLimitReset' };
+  }
+  if (operation.idempotent) {
+    successHeaders[IDEMPOTENT_REPLAYED_HEADER] = {
+      $ref: '#/components/headers/IdempotentReplayed',
+    };
+  }
+
+  return {
+    operationId: operation.operationId,
+    tags: [operation.tag],
+    summary: operation.summary,
+    ...(operation.description && { description: operation.description }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(operation.requestBody && {
+      requestBody: {
+        required: true,
+        content: Object.fromEntries(
+          Object.entries(operation.requestBody).map(([type, schema]) => [
+            type,
+            { schema: { $ref: componentRef(schema) } },
+          ])
+        ),
+      },
+    }),
+    responses: {
+      [String(success.status)]: {
+        description: success.description,
+        headers: successHeaders,
+        content: success.schema
+          ? { 'application/json': { schema: { $ref: componentRef(success.schema) } } }
+          : { [success.contentType ?? 'application/octet-stream']: { schema: { type: 'string' } } },
+      },
+      ...errorResponses(operationErrorCodes(operation)),
+    },
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const integerHeader = (description: string) => ({ description, schema: { type: 'integer' } });
+
+/**
+ * Build the OpenAPI 3.1 document for the lead intake API
+ */
+export function buildOpenApiDocument(options: { serverUrl?: string } = {}): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const operation of OPERATIONS) {
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: operationObject(operation),
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'SB Infra Projects Lead Intake API',
+      version: OPENAPI_API_VERSION,
+      description:
+        'Submit inquiries and book site visits. Every error has the `ApiError` shape; branch on ' +
+        'its `code`, which never changes meaning. POST requests from browsers must come from an ' +
+        'allowed origin; server-to-server calls send no Origin header.',
+    },
+    ...(options.serverUrl && { servers: [{ url: options.serverUrl }] }),
+    tags: [
+      { name: 'Contact', description: 'Inquiries from the contact form' },
+      { name: 'Bookings', description: 'Site visits and consultations' },
+    ],
+    paths,
+    components: {
+      schemas: componentSchemas(),
+      parameters: {
+        IdempotencyKey: {
+          name: IDEMPOTENCY_KEY_HEADER,
+          in: 'header',
+          required: false,
+          description:
+            'Unique per submission and reused for every retry of it. A retry after success gets ' +
+            `the first response again, marked ${IDEMPOTENT_REPLAYED_HEADER}; keys are kept for ` +
+            `${IDEMPOTENCY_TTL_MS / DAY_MS} days.`,
+          schema: { type: 'string', pattern: '^[A-Za-z0-9_-]{16,64}$' },
+        },
+      },
+      headers: {
+        RequestId: {
+          description: 'ID of the request in the server logs; quote it when reporting a problem',
+          schema: { type: 'string' },
+        },
+        RetryAfter: integerHeader('Seconds to wait before retrying'),
+        RateLimitLimit: integerHeader('Requests allowed in the window'),
+        RateLimitRemaining: integerHeader('Requests left in the window'),
+        RateLimitReset: integerHeader('When the window resets, in epoch seconds'),
+        IdempotentReplayed: {
+          description:
+            'Present when the response is a replay of an earlier request with the same key',
+          schema: { type: 'string', const: 'true' },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * OpenAPI Entry Point (server only)
+ *
+ * Builds the OpenAPI 3.1 description of the lead intake API served at
+ * GET /api/openapi.json, from the same zod schemas the routes validate with.
+ *
+ * The route lists SITE_URL (lib/config) as the server the API is reached at.
+ */
+
+export { OPENAPI_API_VERSION, buildOpenApiDocument } from './document';
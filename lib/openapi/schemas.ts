@@ -0,0 +1,151 @@
+/**
+ * OpenAPI Schemas
+ *
+ * Request bodies reuse the schemas the routes validate with. Responses are
+ * plain TypeScript interfaces elsewhere, so they are described here and
+ * checked against those interfaces at compile time.
+ *
+ * None of these schemas transforms its input, so they are all converted as
+ * input, which leaves objects open to fields added later.
+ */
+
+import { z } from 'zod';
+import { ATTACHMENT_LIMITS, formatBytes } from '@/lib/attachments/policy';
+import {
+  BOOKING_KINDS,
+  bookingRequestSchema,
+  type BookingSlotsResponse,
+  type BookingSuccessResponse,
+} from '@/lib/bookings/contract';
+import {
+  ATTACHMENTS_FIELD,
+  contactFieldsSchema,
+  contactSchema,
+  type ContactBotFields,
+  type ContactChallengeResponse,
+  type ContactSuccessResponse,
+} from '@/lib/contact/contract';
+import type { InquiryStatusSuccessResponse } from '@/lib/contact/tracking';
+import { API_ERROR_CODES, API_ERRORS } from '@/lib/http/errors';
+import { LEAD_STATUSES } from '@/lib/leads/types';
+
+export const contactBotFieldsSchema = z.object({
+  website: z
+    .string()
+    .optional()
+    .describe('Honeypot. Leave it out: any value marks the request as a bot.'),
+  formToken: z
+    .string()
+    .describe(
+      'Token from GET /api/contact/challenge; without a valid one the request fails with form_expired.'
+    ),
+  powSolution: z
+    .string()
+    .optional()
+    .describe('Proof-of-work solution, required when the challenge difficulty is above 0'),
+}) satisfies z.ZodType<ContactBotFields>;
+
+export const contactRequestSchema = contactSchema
+  .safeExtend(contactBotFieldsSchema.shape)
+  .describe(
+    'An inquiry. `phone` takes Indian numbers in any common notation and is stored in E.164 form. ' +
+      '`projectDetails` must match `projectType` and is only asked for residential and industrial projects.'
+  );
+
+export const contactUploadSchema = contactFieldsSchema
+  .extend(contactBotFieldsSchema.shape)
+  .extend({
+    projectDetails: z.string().optional().describe('The project details object as a JSON string'),
+    [ATTACHMENTS_FIELD]: z
+      .array(z.file())
+      .max(ATTACHMENT_LIMITS.maxFiles)
+      .optional()
+      .describe(
+        `Site plans and photos: PDF, JPG, PNG or DWG, up to ${formatBytes(ATTACHMENT_LIMITS.maxFileBytes)} ` +
+          `each and ${formatBytes(ATTACHMENT_LIMITS.maxTotalBytes)} together`
+      ),
+  })
+  .describe('An inquiry with attachments, sent as multipart/form-data');
+
+export const bookingRequestBodySchema = bookingRequestSchema
+  .safeExtend(contactBotFieldsSchema.shape)
+  .describe('A site visit or consultation. `siteAddress` is required for site visits.');
+
+const isoDateTime = z.iso.datetime();
+
+export const contactChallengeSchema = z
+  .object({
+    token: z.string(),
+    difficulty: z.int().min(0).describe('Leading zero bits the proof of work needs; 0 means none'),
+    minFillMs: z
+      .int()
+      .min(0)
+      .describe('Wait at least this long after fetching the challenge before submitting'),
+  })
+  .describe('A signed form token') satisfies z.ZodType<ContactChallengeResponse>;
+
+export const contactSubmittedSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  submissionId: z
+    .string()
+    .describe('Reference for the inquiry, e.g. for GET /api/contact/{submissionId}'),
+}) satisfies z.ZodType<ContactSuccessResponse>;
+
+export const inquiryStatusSchema = z.object({
+  success: z.literal(true),
+  inquiry: z.object({
+    submissionId: z.string(),
+    status: z.enum(LEAD_STATUSES),
+    projectType: z.string(),
+    receivedAt: isoDateTime,
+    updatedAt: isoDateTime,
+  }),
+}) satisfies z.ZodType<InquiryStatusSuccessResponse>;
+
+const bookingSlotSchema = z.object({ start: isoDateTime, end: isoDateTime });
+
+export const bookingSlotsSchema = z.object({
+  timeZone: z.string().describe('IANA time zone of the working hours, e.g. Asia/Kolkata'),
+  slotMinutes: z.int().positive(),
+  slots: z.array(bookingSlotSchema),
+}) satisfies z.ZodType<BookingSlotsResponse>;
+
+export const bookingConfirmedSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+  submissionId: z.string(),
+  booking: bookingSlotSchema.extend({
+    bookingId: z.string(),
+    kind: z.enum(BOOKING_KINDS),
+    timeZone: z.string(),
+    icsUrl: z.string().describe('Path of the calendar invite'),
+  }),
+}) satisfies z.ZodType<BookingSuccessResponse>;
+
+export const apiIssueSchema = z
+  .object({
+    path: z.array(z.union([z.string(), z.int()])).describe('Field name, then any nested keys'),
+    message: z.string(),
+  })
+  .describe('A problem with one field');
+
+function errorCodeTable(): string {
+  const rows = API_ERROR_CODES.map((code) => {
+    const { status, description } = API_ERRORS[code];
+    return `| \`${code}\` | ${status} | ${description} |`;
+  });
+  return ['| Code | Status | Meaning |', '| --- | --- | --- |', ...rows].join('\n');
+}
+
+export const apiErrorSchema = z
+  .object({
+    success: z.literal(false),
+    code: z
+      .enum(API_ERROR_CODES)
+      .describe(`Stable error code; branch on this.\n\n${errorCodeTable()}`),
+    error: z.string().describe('Short title of the code'),
+    message: z.string().describe('Explanation to show to people; wording may change'),
+    details: z.array(apiIssueSchema).optional(),
+  })
+  .describe('Every error response has this shape');
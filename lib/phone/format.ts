@@ -0,0 +1,80 @@
+/**
+ * Indian Phone Number Formatting
+ *
+ * Mobiles are grouped 5-5 ("98450 12345") and landlines as STD code and
+ * subscriber number ("80 2345 6789", "824 244 1234", "8182 234 567"), the
+ * way they are printed on visiting cards and letterheads.
+ */
+
+import { COUNTRY_CODE, NATIONAL_NUMBER_LENGTH, classifyNational, parseIndianPhone } from './parse';
+
+// Subscriber number groups by their length, which depends on the STD code's
+const SUBSCRIBER_GROUPS: Record<number, number[]> = {
+  8: [4, 4],
+  7: [3, 4],
+  6: [3, 3],
+};
+
+function splitInto(digits: string, sizes: number[]): string[] {
+  const groups: string[] = [];
+  let start = 0;
+  sizes.forEach((size, index) => {
+    // The last group takes whatever is left, so extra digits stay visible
+    const end = index === sizes.length - 1 ? digits.length : start + size;
+    if (start < digits.length) groups.push(digits.slice(start, end));
+    start = end;
+  });
+  return groups;
+}
+
+/**
+ * Group national digits, complete or partly typed, for display
+ */
+function groupNational(national: string): string[] {
+  const { kind, stdCodeLength } = classifyNational(national);
+  if (kind === 'mobile' || stdCodeLength === undefined) return splitInto(national, [5, 5]);
+
+  const subscriberLength = NATIONAL_NUMBER_LENGTH - stdCodeLength;
+  return splitInto(national, [stdCodeLength, ...SUBSCRIBER_GROUPS[subscriberLength]]);
+}
+
+/**
+ * Display form of a stored number, e.g. "+91 98450 12345" or "+91 80 2345 6789".
+ * Values that do not parse, such as numbers stored before validation, are
+ * returned unchanged.
+ */
+export function formatPhone(value: string): string {
+  const parsed = parseIndianPhone(value);
+  if (!parsed.ok) return value;
+  return `+${COUNTRY_CODE} ${groupNational(parsed.national).join(' ')}`;
+}
+
+/**
+ * Regroup a number while it is being typed, keeping the prefix style the user
+ * chose: "+91 98450 12345", "080 2345 6789" or "98450 12345". Input with
+ * letters, another country code or no digits at all is left as typed for
+ * validation to report.
+ */
+export function formatPhoneInput(value: string): string {
+  if (!/^\s*\+?[\d\s\-().]*$/.test(value)) return value;
+
+  const digits = value.replace(/\D/g, '');
+  if (!digits) return value;
+
+  if (value.trim().startsWith('+')) {
+    if (!COUNTRY_CODE.startsWith(digits.slice(0, 2))) return value;
+    if (digits.length <= COUNTRY_CODE.length) return `+${digits}`;
+    const national = digits.slice(2);
+    // Keep a trunk 0 typed after +91 in view; parsing drops it
+    const trunk = national.startsWith('0') ? '0' : '';
+    return `+${COUNTRY_CODE} ${trunk}${groupNational(national.slice(trunk.length)).join(' ')}`;
+  }
+  if (digits.startsWith('0')) {
+    // The trunk 0 stays attached to the STD code or mobile number
+    return `0${groupNational(digits.slice(1)).join(' ')}`;
+  }
+  if (digits.length > NATIONAL_NUMBER_LENGTH && digits.startsWith(COUNTRY_CODE)) {
+    return `${COUNTRY_CODE} ${groupNational(digits.slice(2)).join(' ')}`;
+  }
+  return groupNational(digits).join(' ');
+}
@@ -0,0 +1,24 @@
+/**
+ * Phone Numbers Entry Point
+ *
+ * Indian mobile and landline numbers: parsed from the way customers type
+ * them, validated, stored in E.164 form (+919845012345) and formatted for
+ * display (+91 98450 12345) and while typing.
+ *
+ * Safe to import from client components.
+ */
+
+export { formatPhone, formatPhoneInput } from './format';
+export {
+  COUNTRY_CODE,
+  NATIONAL_NUMBER_LENGTH,
+  PHONE_REJECTION_MESSAGES,
+  classifyNational,
+  nationalDigits,
+  parseIndianPhone,
+  type IndianPhone,
+  type PhoneKind,
+  type PhoneParseResult,
+  type PhoneRejection,
+} from './parse';
+export { STD_CODES, knownStdCodeLength } from './std-codes';
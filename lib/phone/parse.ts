@@ -0,0 +1,113 @@
+/**
+ * Indian Phone Number Parsing
+ *
+ * Every Indian number has ten national digits: mobiles start with 6-9, and
+ * landlines are an STD code followed by the subscriber number. People write
+ * them with a +91, 91, 0091 or trunk 0 prefix and any mix of spaces, hyphens,
+ * dots and brackets, e.g. "98450 12345", "+91-98450-12345" or "080 2345 6789".
+ */
+
+import { knownStdCodeLength } from './std-codes';
+
+export const COUNTRY_CODE = '91';
+
+export const NATIONAL_NUMBER_LENGTH = 10;
+
+// Digits plus the separators people type between groups, and a leading +
+const PHONE_CHARACTERS = /^\+?[\d\s\-().]*$/;
+
+export type PhoneKind = 'mobile' | 'landline';
+
+export interface IndianPhone {
+  /** +91 and the ten national digits, as stored */
+  e164: string;
+  /** The ten digits after +91 */
+  national: string;
+  kind: PhoneKind;
+  /** STD code without the trunk 0, for landlines */
+  stdCode?: string;
+}
+
+export type PhoneRejection =
+  | { reason: 'too_short' }
+  | { reason: 'invalid_characters' }
+  | { reason: 'not_indian' }
+  | { reason: 'invalid_number' };
+
+export type PhoneParseResult = ({ ok: true } & IndianPhone) | ({ ok: false } & PhoneRejection);
+
+export const PHONE_REJECTION_MESSAGES: Record<PhoneRejection['reason'], string> = {
+  too_short: 'Phone number must be at least 10 digits',
+  invalid_characters: 'Phone number can only contain digits, spaces, hyphens and brackets',
+  not_indian: 'Please enter an Indian number, starting with +91 if you add a country code',
+  invalid_number: 'Please enter a valid Indian mobile or landline number',
+};
+
+/**
+ * The ten national digits of a number, with any country code or trunk prefix
+ * removed, or undefined when the prefix is not India's
+ */
+export function nationalDigits(input: string): string | undefined {
+  const digits = input.replace(/\D/g, '');
+
+  if (input.trim().startsWith('+')) {
+    return digits.startsWith(COUNTRY_CODE) ? withoutTrunkPrefix(digits.slice(2)) : undefined;
+  }
+  if (digits.startsWith('00')) {
+    return digits.startsWith(`00${COUNTRY_CODE}`) ? withoutTrunkPrefix(digits.slice(4)) : undefined;
+  }
+  if (digits.length > NATIONAL_NUMBER_LENGTH && digits.startsWith(COUNTRY_CODE)) {
+    return withoutTrunkPrefix(digits.slice(2));
+  }
+  return withoutTrunkPrefix(digits);
+}
+
+// "+91 (0) 80 ..." and "080 ..." both carry the trunk 0 of domestic dialling
+function withoutTrunkPrefix(digits: string): string {
+  return digits.length > NATIONAL_NUMBER_LENGTH && digits.startsWith('0')
+    ? digits.slice(1)
+    : digits;
+}
+
+/**
+ * Tell mobiles from landlines by their leading digits. Mobiles start with 6-9
+ * and landlines with 1-8; where the two overlap, a number counts as a landline
+ * when it starts with a known STD code followed by 2-4, the digits local
+ * exchanges begin with. Works on partial numbers too, for formatting as typed.
+ */
+export function classifyNational(national: string): { kind: PhoneKind; stdCodeLength?: number } {
+  if (/^[1-5]/.test(national)) {
+    return { kind: 'landline', stdCodeLength: knownStdCodeLength(national) ?? 4 };
+  }
+
+  const stdCodeLength = /^[6-8]/.test(national) ? knownStdCodeLength(national) : undefined;
+  if (stdCodeLength !== undefined && /^[2-4]/.test(national.slice(stdCodeLength))) {
+    return { kind: 'landline', stdCodeLength };
+  }
+  return { kind: 'mobile' };
+}
+
+/**
+ * Parse an Indian mobile or landline number as typed into its E.164 form
+ */
+export function parseIndianPhone(input: string): PhoneParseResult {
+  if (input.replace(/\D/g, '').length < NATIONAL_NUMBER_LENGTH) {
+    return { ok: false, reason: 'too_short' };
+  }
+  if (!PHONE_CHARACTERS.test(input.trim())) {
+    return { ok: false, reason: 'invalid_characters' };
+  }
+
+  const national = nationalDigits(input);
+  if (national === undefined) return { ok: false, reason: 'not_indian' };
+  if (!/^[1-9]\d{9}$/.test(national)) return { ok: false, reason: 'invalid_number' };
+
+  const { kind, stdCodeLength } = classifyNational(national);
+  return {
+    ok: true,
+    e164: `+${COUNTRY_CODE}${national}`,
+    national,
+    kind,
+    ...(stdCodeLength !== undefined && { stdCode: national.slice(0, stdCodeLength) }),
+  };
+}
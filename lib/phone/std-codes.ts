@@ -0,0 +1,116 @@
+/**
+ * STD Codes
+ *
+ * Trunk codes of the cities most of our enquiries come from, without the
+ * leading 0. Indian STD codes are prefix-free and run from two digits (metros)
+ * to four (smaller towns), the subscriber number filling the rest of the ten
+ * national digits. Codes missing here are assumed to be four digits long, the
+ * most common length, which only affects how a number is grouped for display.
+ */
+
+export const STD_CODES: Readonly<Record<string, string>> = {
+  // Metros
+  '11': 'Delhi',
+  '20': 'Pune',
+  '22': 'Mumbai',
+  '33': 'Kolkata',
+  '40': 'Hyderabad',
+  '44': 'Chennai',
+  '79': 'Ahmedabad',
+  '80': 'Bengaluru',
+
+  // North
+  '120': 'Ghaziabad',
+  '121': 'Meerut',
+  '124': 'Gurugram',
+  '129': 'Faridabad',
+  '135': 'Dehradun',
+  '141': 'Jaipur',
+  '145': 'Ajmer',
+  '151': 'Bikaner',
+  '161': 'Ludhiana',
+  '172': 'Chandigarh',
+  '175': 'Patiala',
+  '177': 'Shimla',
+  '181': 'Jalandhar',
+  '183': 'Amritsar',
+  '191': 'Jammu',
+  '194': 'Srinagar',
+  '291': 'Jodhpur',
+  '294': 'Udaipur',
+  '512': 'Kanpur',
+  '522': 'Lucknow',
+  '532': 'Prayagraj',
+  '542': 'Varanasi',
+  '551': 'Gorakhpur',
+  '562': 'Agra',
+  '571': 'Aligarh',
+  '581': 'Bareilly',
+  '591': 'Moradabad',
+
+  // West
+  '217': 'Solapur',
+  '231': 'Kolhapur',
+  '240': 'Aurangabad',
+  '251': 'Kalyan',
+  '253': 'Nashik',
+  '261': 'Surat',
+  '265': 'Vadodara',
+  '278': 'Bhavnagar',
+  '281': 'Rajkot',
+  '288': 'Jamnagar',
+  '712': 'Nagpur',
+  '721': 'Amravati',
+  '731': 'Indore',
+  '751': 'Gwalior',
+  '755': 'Bhopal',
+  '761': 'Jabalpur',
+  '771': 'Raipur',
+
+  // East and North East
+  '326': 'Dhanbad',
+  '341': 'Asansol',
+  '343': 'Durgapur',
+  '353': 'Siliguri',
+  '361': 'Guwahati',
+  '364': 'Shillong',
+  '381': 'Agartala',
+  '612': 'Patna',
+  '651': 'Ranchi',
+  '657': 'Jamshedpur',
+  '671': 'Cuttack',
+  '674': 'Bhubaneswar',
+
+  // South
+  '413': 'Puducherry',
+  '416': 'Vellore',
+  '422': 'Coimbatore',
+  '427': 'Salem',
+  '431': 'Tiruchirappalli',
+  '452': 'Madurai',
+  '471': 'Thiruvananthapuram',
+  '484': 'Kochi',
+  '487': 'Thrissur',
+  '495': 'Kozhikode',
+  '816': 'Tumakuru',
+  '820': 'Udupi',
+  '821': 'Mysuru',
+  '824': 'Mangaluru',
+  '831': 'Belagavi',
+  '836': 'Hubballi-Dharwad',
+  '863': 'Guntur',
+  '866': 'Vijayawada',
+  '870': 'Warangal',
+  '877': 'Tirupati',
+  '891': 'Visakhapatnam',
+};
+
+/**
+ * Length of the known STD code a national number starts with, if any
+ */
+export function knownStdCodeLength(national: string): number | undefined {
+  for (const length of [2, 3, 4]) {
+    if (national.length >= length && national.slice(0, length) in STD_CODES) return length;
+  }
+  return undefined;
+}
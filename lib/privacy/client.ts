@@ -0,0 +1,94 @@
+/**
+ * Data Request API Client
+ *
+ * Typed wrappers around the /api/privacy endpoints for the privacy page.
+ * Like the contact client, rejections become results and network failures
+ * are thrown.
+ */
+
+import type { ContactErrorResponse } from '@/lib/contact/contract';
+import type {
+  DataErasureResponse,
+  DataExportResponse,
+  DataRequest,
+  DataRequestConfirmation,
+  DataRequestStartResponse,
+  ErasureSummary,
+  SubjectDataExport,
+} from './contract';
+
+export const DATA_REQUEST_ENDPOINT = '/api/privacy/requests';
+export const DATA_EXPORT_ENDPOINT = '/api/privacy/export';
+export const DATA_ERASURE_ENDPOINT = '/api/privacy/erasure';
+
+export type DataRequestFailure = { ok: false; status: number; message: string };
+
+export type DataRequestStartResult =
+  | { ok: true; message: string; token: string; expiresAt: string }
+  | DataRequestFailure;
+
+export type DataExportResult = { ok: true; data: SubjectDataExport } | DataRequestFailure;
+
+export type DataErasureResult =
+  | { ok: true; message: string; erased: ErasureSummary }
+  | DataRequestFailure;
+
+// Fallback copy when the server response carries no message
+const DEFAULT_ERROR_MESSAGES: Record<number, string> = {
+  400: 'Please check your input and try again.',
+  401: 'That code is not right. Please check the email and try again.',
+  429: 'Too many attempts. Please try again later.',
+};
+
+async function post<T>(url: string, data: object): Promise<{ status: number; body: T }> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+  return { status: response.status, body: (await response.json()) as T };
+}
+
+function failure(status: number, body: ContactErrorResponse): DataRequestFailure {
+  return {
+    ok: false,
+    status,
+    message:
+      body.message || DEFAULT_ERROR_MESSAGES[status] || 'Something went wrong. Please try again.',
+  };
+}
+
+/**
+ * Ask for a one-time code to be emailed for an export or erasure
+ */
+export async function startDataRequest(request: DataRequest): Promise<DataRequestStartResult> {
+  const { status, body } = await post<DataRequestStartResponse>(DATA_REQUEST_ENDPOINT, request);
+  if (body.success) {
+    return { ok: true, message: body.message, token: body.token, expiresAt: body.expiresAt };
+  }
+  return failure(status, body);
+}
+
+/**
+ * Fetch a copy of the data once the emailed code is entered
+ */
+export async function confirmDataExport(
+  confirmation: DataRequestConfirmation
+): Promise<DataExportResult> {
+  const { status, body } = await post<DataExportResponse>(DATA_EXPORT_ENDPOINT, confirmation);
+  return body.success ? { ok: true, data: body.data } : failure(status, body);
+}
+
+/**
+ * Erase the data once the emailed code is entered
+ */
+export async function confirmDataErasure(
+  confirmation: DataRequestConfirmation
+): Promise<DataErasureResult> {
+  const { status, body } = await post<DataErasureResponse>(DATA_ERASURE_ENDPOINT, confirmation);
+  return body.success
+    ? { ok: true, message: body.message, erased: body.erased }
+    : failure(status, body);
+}
@@ -0,0 +1,28 @@
+/**
+ * Consent Notices
+ *
+ * Versioned text people agree to before sending their details. A published
+ * version is never edited: to change the wording, add a new version and
+ * point CONSENT_VERSION at it, so every lead keeps a record of exactly what
+ * its submitter agreed to. Safe to use in the browser.
+ */
+
+export const CONSENT_NOTICES = {
+  '2026-10':
+    'I agree to SB Infra Projects storing the details I have entered and using them to contact me by email or phone about my project. I can ask for a copy of my data or for it to be deleted at any time.',
+} as const;
+
+export type ConsentVersion = keyof typeof CONSENT_NOTICES;
+
+/**
+ * Versions a submission may carry; older ones stay valid for forms opened before a change
+ */
+export const CONSENT_VERSIONS = Object.keys(CONSENT_NOTICES) as [
+  ConsentVersion,
+  ...ConsentVersion[],
+];
+
+/** Version shown in the forms */
+export const CONSENT_VERSION: ConsentVersion = '2026-10';
+
+export const CONSENT_REQUIRED_MESSAGE = 'Please agree so we can contact you about your project';
@@ -0,0 +1,106 @@
+/**
+ * Data Request Contract
+ *
+ * Payloads and responses of the /api/privacy endpoints, through which the
+ * person behind a lead can get a copy of their data or have it erased. Every
+ * request is confirmed with a one-time code emailed to the address the data
+ * was submitted with. Safe to use in the browser.
+ */
+
+import { z } from 'zod';
+import { EMAIL_REGEX, type ContactErrorResponse } from '@/lib/contact/contract';
+import type { BookingKind } from '@/lib/bookings/contract';
+import type { ContactSubmission, LeadConsent, LeadStatus } from '@/lib/leads/types';
+
+export const DATA_REQUEST_PURPOSES = ['export', 'erasure'] as const;
+
+export type DataRequestPurpose = (typeof DATA_REQUEST_PURPOSES)[number];
+
+export const DATA_REQUEST_LABELS: Record<DataRequestPurpose, string> = {
+  export: 'Get a copy of your data',
+  erasure: 'Delete your data',
+};
+
+export const dataRequestSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .min(1, 'Email is required')
+    .regex(EMAIL_REGEX, 'Please enter a valid email address'),
+  purpose: z.enum(DATA_REQUEST_PURPOSES, { message: 'Please choose what you would like to do' }),
+});
+
+export type DataRequest = z.infer<typeof dataRequestSchema>;
+
+export const dataRequestConfirmationSchema = z.object({
+  token: z.string().min(1, 'Please request a code first').max(1024),
+  code: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, 'Please enter the 6-digit code from the email'),
+});
+
+export type DataRequestConfirmation = z.infer<typeof dataRequestConfirmationSchema>;
+
+export interface ExportedLead {
+  submissionId: string;
+  receivedAt: string;
+  updatedAt: string;
+  status: LeadStatus;
+  submission: ContactSubmission;
+  /** Consent given with the submission and the notice it was given to */
+  consent: (LeadConsent & { notice: string }) | null;
+  attachments: { fileName: string; kind: string; size: number; storedAt: string }[];
+}
+
+export interface ExportedBooking {
+  bookingId: string;
+  submissionId: string;
+  kind: BookingKind;
+  status: string;
+  start: string;
+  end: string;
+  timeZone: string;
+  location: string;
+  createdAt: string;
+}
+
+/**
+ * Everything stored about one email address, as handed to its owner
+ */
+export interface SubjectDataExport {
+  email: string;
+  exportedAt: string;
+  leads: ExportedLead[];
+  bookings: ExportedBooking[];
+}
+
+export interface ErasureSummary {
+  leads: number;
+  bookings: number;
+  attachments: number;
+  webhookDeliveries: number;
+}
+
+export interface DataRequestStartedResponse {
+  success: true;
+  message: string;
+  /** Sent back with the code; binds it to the email and purpose */
+  token: string;
+  expiresAt: string;
+}
+
+export interface DataExportSuccessResponse {
+  success: true;
+  data: SubjectDataExport;
+}
+
+export interface DataErasureSuccessResponse {
+  success: true;
+  message: string;
+  erased: ErasureSummary;
+}
+
+export type DataRequestStartResponse = DataRequestStartedResponse | ContactErrorResponse;
+export type DataExportResponse = DataExportSuccessResponse | ContactErrorResponse;
+export type DataErasureResponse = DataErasureSuccessResponse | ContactErrorResponse;
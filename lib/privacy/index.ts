@@ -0,0 +1,74 @@
+/**
+ * Privacy Entry Point (server only)
+ *
+ * Consent notices, verified data export and erasure requests from the people
+ * leads are about, and the retention job that purges leads left untouched
+ * for too long. Forms import './consent' directly and the privacy page uses
+ * './client'.
+ *
+ * Environment (read through lib/config):
+ * - PRIVACY_CODE_SECRET: key that signs data request tokens and their one-time codes
+ * - LEAD_RETENTION_DAYS: days after its last update that a lead is purged (default 365)
+ */
+
+import { getAttachmentStorage } from '@/lib/attachments';
+import { getBookingRepository } from '@/lib/bookings';
+import { getLeadRepository } from '@/lib/leads';
+import { getWebhookDeliveryStore } from '@/lib/webhooks';
+import type { SubjectDataStores } from './subject-data';
+
+export {
+  CONSENT_NOTICES,
+  CONSENT_REQUIRED_MESSAGE,
+  CONSENT_VERSION,
+  CONSENT_VERSIONS,
+  type ConsentVersion,
+} from './consent';
+export {
+  DATA_REQUEST_LABELS,
+  DATA_REQUEST_PURPOSES,
+  dataRequestConfirmationSchema,
+  dataRequestSchema,
+  type DataErasureResponse,
+  type DataExportResponse,
+  type DataRequest,
+  type DataRequestConfirmation,
+  type DataRequestPurpose,
+  type DataRequestStartResponse,
+  type ErasureSummary,
+  type ExportedBooking,
+  type ExportedLead,
+  type SubjectDataExport,
+} from './contract';
+export {
+  DEFAULT_RETENTION_DAYS,
+  purgeStaleLeads,
+  type RetentionOptions,
+  type RetentionResult,
+} from './retention';
+export {
+  eraseLeads,
+  exportSubjectData,
+  findSubjectLeads,
+  type SubjectDataStores,
+} from './subject-data';
+export {
+  DATA_REQUEST_CODE_TTL_MINUTES,
+  createDataRequestChallenge,
+  dataRequestTokenEmail,
+  verifyDataRequest,
+  type DataRequestChallenge,
+  type DataRequestVerification,
+} from './verification';
+
+/**
+ * The configured stores that hold personal data about a lead
+ */
+export function getSubjectDataStores(): SubjectDataStores {
+  return {
+    leads: getLeadRepository(),
+    bookings: getBookingRepository(),
+    attachments: getAttachmentStorage(),
+    webhooks: getWebhookDeliveryStore(),
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Lead Retention
+ *
+ * Leads nobody has touched for the retention period are erased along with
+ * everything stored with them. A lead counts as touched whenever its status
+ * changes or a note is added, so open conversations are never purged.
+ */
+
+import type { Lead } from '@/lib/leads/types';
+import { eraseLeads, type SubjectDataStores } from './subject-data';
+import type { ErasureSummary } from './contract';
+
+export const DEFAULT_RETENTION_DAYS = 365;
+
+export interface RetentionOptions {
+  retentionDays: number;
+  now?: Date;
+  /** List what would be purged without deleting anything */
+  dryRun?: boolean;
+}
+
+export interface RetentionResult {
+  /** Leads last updated before this time were selected */
+  cutoff: string;
+  leads: Lead[];
+  erased: ErasureSummary | null;
+}
+
+/**
+ * Erase leads that have not been updated within the retention period
+ */
+export async function purgeStaleLeads(
+  stores: SubjectDataStores,
+  { retentionDays, now = new Date(), dryRun = false }: RetentionOptions
+): Promise<RetentionResult> {
+  const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  const leads = await stores.leads.list({ updatedBefore: cutoff });
+
+  return {
+    cutoff,
+    leads,
+    erased: dryRun ? null : await eraseLeads(leads, stores),
+  };
+}
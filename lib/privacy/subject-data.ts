@@ -0,0 +1,112 @@
+/**
+ * Subject Data
+ *
+ * Gathers everything stored about the person behind a set of leads and
+ * erases it: uploaded files, bookings, webhook deliveries carrying the lead
+ * and the leads themselves, including the history the file stores keep.
+ * Audit entries stay, since they hold submission IDs but no personal data.
+ */
+
+import type { AttachmentStorage } from '@/lib/attachments/types';
+import type { BookingRepository } from '@/lib/bookings/types';
+import type { Lead, LeadRepository } from '@/lib/leads/types';
+import type { WebhookDeliveryStore } from '@/lib/webhooks/types';
+import { CONSENT_NOTICES, type ConsentVersion } from './consent';
+import type { ErasureSummary, ExportedLead, SubjectDataExport } from './contract';
+
+export interface SubjectDataStores {
+  leads: LeadRepository;
+  bookings: BookingRepository;
+  attachments: AttachmentStorage;
+  webhooks: WebhookDeliveryStore;
+}
+
+function exportLead(lead: Lead): ExportedLead {
+  return {
+    submissionId: lead.submissionId,
+    receivedAt: lead.createdAt,
+    updatedAt: lead.updatedAt,
+    status: lead.status,
+    submission: lead.submission,
+    consent: lead.consent
+      ? {
+          ...lead.consent,
+          notice: CONSENT_NOTICES[lead.consent.version as ConsentVersion] ?? '',
+        }
+      : null,
+    attachments: lead.attachments.map(({ fileName, kind, size, storedAt }) => ({
+      fileName,
+      kind,
+      size,
+      storedAt,
+    })),
+  };
+}
+
+/**
+ * Leads submitted with `email`, newest first
+ */
+export function findSubjectLeads(
+  email: string,
+  stores: Pick<SubjectDataStores, 'leads'>
+): Promise<Lead[]> {
+  return stores.leads.list({ email: email.trim() });
+}
+
+/**
+ * Copy of the data held about `email` for its owner. Internal notes and the
+ * IP hash are the team's own records and are left out.
+ */
+export async function exportSubjectData(
+  email: string,
+  stores: Pick<SubjectDataStores, 'leads' | 'bookings'>,
+  now = new Date()
+): Promise<SubjectDataExport> {
+  const leads = await findSubjectLeads(email, stores);
+  const bookings = await stores.bookings.listForLeads(leads.map((lead) => lead.submissionId));
+
+  return {
+    email: email.trim().toLowerCase(),
+    exportedAt: now.toISOString(),
+    leads: leads.map(exportLead),
+    bookings: bookings.map((booking) => ({
+      bookingId: booking.bookingId,
+      submissionId: booking.submissionId,
+      kind: booking.kind,
+      status: booking.status,
+      start: booking.start,
+      end: booking.end,
+      timeZone: booking.timeZone,
+      location: booking.location,
+      createdAt: booking.createdAt,
+    })),
+  };
+}
+
+/**
+ * Permanently delete the leads and everything stored with them. The leads go
+ * last, so if a step fails the erasure can simply be run again.
+ */
+export async function eraseLeads(
+  leads: readonly Lead[],
+  stores: SubjectDataStores
+): Promise<ErasureSummary> {
+  const submissionIds = leads.map((lead) => lead.submissionId);
+  if (submissionIds.length === 0) {
+    return { leads: 0, bookings: 0, attachments: 0, webhookDeliveries: 0 };
+  }
+
+  let attachments = 0;
+  for (const lead of leads) {
+    for (const attachment of lead.attachments) {
+      await stores.attachments.remove(attachment);
+      attachments++;
+    }
+  }
+
+  const bookings = await stores.bookings.removeForLeads(submissionIds);
+  const webhookDeliveries = await stores.webhooks.removeForLeads(submissionIds);
+  const removedLeads = await stores.leads.remove(submissionIds);
+
+  return { leads: removedLeads, bookings, attachments, webhookDeliveries };
+}
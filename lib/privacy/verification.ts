@@ -0,0 +1,111 @@
+/**
+ * Data Request Verification
+ *
+ * One-time codes that prove a data request comes from whoever reads the
+ * mailbox the data was submitted with. The browser keeps a signed token naming
+ * the email, purpose and expiry, and the signature covers the emailed code, so
+ * only the token together with the right code verifies. Only the token's nonce
+ * is stored, once it has been used, so the pair cannot be presented again.
+ */
+
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from 'node:crypto';
+import { getConfig } from '@/lib/config';
+import { spendNonce } from '@/lib/nonces';
+import type { DataRequestPurpose } from './contract';
+
+export const DATA_REQUEST_CODE_TTL_MINUTES = 15;
+
+interface TokenClaims {
+  email: string;
+  purpose: DataRequestPurpose;
+  expiresAt: number;
+  nonce: string;
+}
+
+export interface DataRequestChallenge {
+  token: string;
+  code: string;
+  expiresAt: string;
+}
+
+export type DataRequestVerification =
+  | { ok: true; email: string }
+  | { ok: false; reason: 'invalid' | 'expired' | 'used' };
+
+function sign(encodedClaims: string, code: string): string {
+  return createHmac('sha256', getConfig().privacy.codeSecret)
+    .update(`${encodedClaims}.${code}`)
+    .digest('base64url');
+}
+
+/**
+ * Issue a code for `email` and the token it must be presented with
+ */
+export function createDataRequestChallenge(
+  email: string,
+  purpose: DataRequestPurpose,
+  now = Date.now()
+): DataRequestChallenge {
+  const claims: TokenClaims = {
+    email: email.trim().toLowerCase(),
+    purpose,
+    expiresAt: now + DATA_REQUEST_CODE_TTL_MINUTES * 60 * 1000,
+    // Two requests in the same millisecond still get different tokens
+    nonce: randomBytes(8).toString('base64url'),
+  };
+  const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+  const encodedClaims = Buffer.from(JSON.stringify(claims)).toString('base64url');
+
+  return {
+    token: `${encodedClaims}.${sign(encodedClaims, code)}`,
+    code,
+    expiresAt: new Date(claims.expiresAt).toISOString(),
+  };
+}
+
+function decodeClaims(encodedClaims: string): TokenClaims | null {
+  try {
+    return JSON.parse(Buffer.from(encodedClaims, 'base64url').toString('utf8')) as TokenClaims;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Email a token was issued for, without checking it. Only for keying rate
+ * limits, so guesses at one code are limited however many IPs they come from.
+ */
+export function dataRequestTokenEmail(token: string): string | undefined {
+  const claims = decodeClaims(token.split('.')[0] ?? '');
+  return typeof claims?.email === 'string' ? claims.email : undefined;
+}
+
+/**
+ * Check a token and code issued for `purpose`, using them up when they are
+ * right. A wrong code, a tampered token and a token for the other purpose are
+ * indistinguishable.
+ */
+export async function verifyDataRequest(
+  token: string,
+  code: string,
+  purpose: DataRequestPurpose,
+  now = Date.now()
+): Promise<DataRequestVerification> {
+  const [encodedClaims, signature, ...rest] = token.split('.');
+  if (!encodedClaims || !signature || rest.length > 0) return { ok: false, reason: 'invalid' };
+
+  const expected = Buffer.from(sign(encodedClaims, code.trim()));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const claims = decodeClaims(encodedClaims);
+  if (!claims) return { ok: false, reason: 'invalid' };
+  if (claims.purpose !== purpose) return { ok: false, reason: 'invalid' };
+  if (!(claims.expiresAt > now)) return { ok: false, reason: 'expired' };
+  if (!(await spendNonce('data-request', claims.nonce, claims.expiresAt, now))) {
+    return { ok: false, reason: 'used' };
+  }
+  return { ok: true, email: claims.email };
+}
@@ -0,0 +1,30 @@
+/**
+ * Project Index Client
+ *
+ * Typed wrapper around GET /api/projects for the project grid. Like the
+ * bookings client, failures are thrown.
+ */
+
+import type { ProjectPageResponse } from './contract';
+import { projectFiltersToQuery, type ProjectFilters } from './search';
+
+export const PROJECTS_ENDPOINT = '/api/projects';
+
+/**
+ * Fetch a page of projects matching the filters, the first one without a
+ * cursor
+ */
+export async function fetchProjectPage(
+  filters: ProjectFilters,
+  { cursor, signal }: { cursor?: string; signal?: AbortSignal } = {}
+): Promise<ProjectPageResponse> {
+  const params = new URLSearchParams(projectFiltersToQuery(filters));
+  if (cursor) params.set('cursor', cursor);
+
+  const query = params.toString();
+  const response = await fetch(`${PROJECTS_ENDPOINT}${query ? `?${query}` : ''}`, { signal });
+  if (!response.ok) {
+    throw new Error(`Projects request failed with status ${response.status}`);
+  }
+  return (await response.json()) as ProjectPageResponse;
+}
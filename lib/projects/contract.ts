@@ -0,0 +1,56 @@
+/**
+ * Project Index Contract
+ *
+ * Query and response shapes shared by the project grid and GET /api/projects.
+ * The grid fetches the portfolio a page at a time instead of bundling it.
+ * Safe to import from client components.
+ */
+
+import { z } from 'zod';
+import type { Project } from '@/types';
+import { PROJECT_ID_PATTERN } from './schema';
+import type { ProjectFacets } from './search';
+
+/** Cards shown at first and added by each "Load more" */
+export const PROJECT_PAGE_SIZE = 12;
+
+export const MAX_PROJECT_PAGE_SIZE = 48;
+
+/**
+ * Paging parameters; the filters are read with parseProjectFilters
+ */
+export const projectPageQuerySchema = z.object({
+  cursor: z
+    .string()
+    .regex(PROJECT_ID_PATTERN, 'Use the nextCursor of the previous page')
+    .optional(),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PROJECT_PAGE_SIZE, `At most ${MAX_PROJECT_PAGE_SIZE} projects per page`)
+    .default(PROJECT_PAGE_SIZE),
+});
+
+/**
+ * What a card needs. The gallery, model and specs load with the project's
+ * own page.
+ */
+export type ProjectSummary = Pick<
+  Project,
+  'id' | 'title' | 'category' | 'thumbnail' | 'description' | 'location' | 'area' | 'completionDate'
+>;
+
+export interface ProjectPageResponse {
+  projects: ProjectSummary[];
+  /** Projects matching the filters, across all pages */
+  total: number;
+  /** Pass as `cursor` for the next page; null on the last one */
+  nextCursor: string | null;
+  facets: ProjectFacets;
+}
+
+export function toProjectSummary(project: Project): ProjectSummary {
+  const { id, title, category, thumbnail, description, location, area, completionDate } = project;
+  return { id, title, category, thumbnail, description, location, area, completionDate };
+}
@@ -0,0 +1,17 @@
+/**
+ * Project Formatting
+ *
+ * Safe to import from client components.
+ */
+
+/**
+ * Month and year a project was completed, e.g. "March 2024". Read as UTC so
+ * the month does not shift with the visitor's time zone.
+ */
+export function formatCompletionDate(completionDate: string): string {
+  return new Date(completionDate).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    timeZone: 'UTC',
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * Projects Entry Point (server only)
+ *
+ * The portfolio lives in content/projects, one JSON file per project named
+ * after its id, e.g. content/projects/retail-mall.json is the page at
+ * /projects/retail-mall. Adding a project needs no code change. Files are
+ * validated against the `Project` type when the pages that show them are built,
+ * and a bad file fails the build with the file and field at fault:
+ *
+ *   content/projects/retail-mall.json: images[1].alt: Alt text is required
+ *
+ * Client components receive the loaded projects as props, or fetch them a
+ * page at a time from GET /api/projects, and import './schema', './format',
+ * './search', './contract' or './client' directly.
+ */
+
+import type { Project } from '@/types';
+import { loadProjects } from './loader';
+
+export {
+  MAX_PROJECT_PAGE_SIZE,
+  PROJECT_PAGE_SIZE,
+  projectPageQuerySchema,
+  toProjectSummary,
+  type ProjectPageResponse,
+  type ProjectSummary,
+} from './contract';
+export { formatCompletionDate } from './format';
+export { PROJECTS_DIR, loadProjects, type ProjectLoadResult } from './loader';
+export {
+  PROJECT_CATEGORIES,
+  PROJECT_ID_PATTERN,
+  projectFileSchema,
+  projectImageSchema,
+} from './schema';
+export {
+  AREA_BANDS,
+  EMPTY_PROJECT_FILTERS,
+  PROJECT_SORTS,
+  filterProjects,
+  getProjectFacets,
+  parseProjectFilters,
+  projectFiltersToQuery,
+  searchProjects,
+  sortProjects,
+  type ProjectFacets,
+  type ProjectFilters,
+  type ProjectSort,
+} from './search';
+
+let projects: Project[] | null = null;
+
+/**
+ * All projects, newest first. Throws listing every invalid file.
+ */
+export function getProjects(): Project[] {
+  if (projects) return projects;
+
+  const result = loadProjects();
+  if (!result.ok) {
+    throw new Error(
+      `Invalid project content:\n${result.problems.map((problem) => `  - ${problem}`).join('\n')}`
+    );
+  }
+
+  // Read again on every call in development, so edited files show without a restart
+  if (process.env.NODE_ENV === 'production') projects = result.projects;
+  return result.projects;
+}
+
+export function getProject(id: string): Project | undefined {
+  return getProjects().find((project) => project.id === id);
+}
+
+/**
+ * Override the projects, mainly for tests. Pass null to read the files again.
+ */
+export function setProjects(next: Project[] | null): void {
+  projects = next;
+}
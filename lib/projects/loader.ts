@@ -0,0 +1,73 @@
+/**
+ * Project Content Loader
+ *
+ * Reads every JSON file in content/projects and validates it. All files are
+ * checked before anything is returned, so one run lists every problem.
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { basename, join, relative } from 'node:path';
+import type { Project } from '@/types';
+import { PROJECT_ID_PATTERN, projectFileSchema } from './schema';
+
+export const PROJECTS_DIR = join(process.cwd(), 'content', 'projects');
+
+export type ProjectLoadResult =
+  | { ok: true; projects: Project[] }
+  | { ok: false; problems: string[] };
+
+/**
+ * Field path as written in the file, e.g. images[1].alt
+ */
+function formatPath(path: PropertyKey[]): string {
+  return path
+    .map((key, index) =>
+      typeof key === 'number' ? `[${key}]` : `${index > 0 ? '.' : ''}${String(key)}`
+    )
+    .join('');
+}
+
+/**
+ * Load the projects, newest first. Problems start with the file they are in,
+ * relative to the working directory, then the field.
+ */
+export function loadProjects(dir = PROJECTS_DIR): ProjectLoadResult {
+  const files = readdirSync(dir)
+    .filter((name) => name.endsWith('.json'))
+    .sort();
+  const projects: Project[] = [];
+  const problems: string[] = [];
+
+  for (const name of files) {
+    const file = relative(process.cwd(), join(dir, name));
+    const id = basename(name, '.json');
+    if (!PROJECT_ID_PATTERN.test(id)) {
+      problems.push(`${file}: file name must be lowercase words joined by hyphens`);
+      continue;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(readFileSync(join(dir, name), 'utf8'));
+    } catch (error) {
+      problems.push(`${file}: not valid JSON (${(error as Error).message})`);
+      continue;
+    }
+
+    const result = projectFileSchema.safeParse(data);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const field = formatPath(issue.path);
+        problems.push(`${file}: ${field ? `${field}: ` : ''}${issue.message}`);
+      }
+      continue;
+    }
+    projects.push({ id, ...result.data });
+  }
+
+  if (problems.length > 0) return { ok: false, problems };
+  return {
+    ok: true,
+    projects: projects.sort((a, b) => b.completionDate.localeCompare(a.completionDate)),
+  };
+}
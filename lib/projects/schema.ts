@@ -0,0 +1,66 @@
+/**
+ * Project Content Schema
+ *
+ * The shape of one file in content/projects, checked against the `Project`
+ * type the components render. A project's id is its file name, so it is not
+ * repeated inside the file.
+ *
+ * Safe to import from client components.
+ */
+
+import { z } from 'zod';
+import type { Project, ProjectCategory, ProjectImage } from '@/types';
+
+export const PROJECT_CATEGORIES = [
+  'residential',
+  'commercial',
+  'industrial',
+  'infrastructure',
+] as const satisfies readonly ProjectCategory[];
+
+/** File names, and so ids, are lowercase words joined by hyphens */
+export const PROJECT_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const text = (field: string) => z.string().trim().min(1, `${field} is required`);
+
+const imageFields = {
+  url: z.string().regex(/^(\/|https:\/\/)\S+$/, 'Expected a path under public/ or an https URL'),
+  alt: text('Alt text'),
+  width: z.int().positive(),
+  height: z.int().positive(),
+};
+
+export const projectImageSchema = z.object({
+  ...imageFields,
+  caption: z.string().optional(),
+}) satisfies z.ZodType<ProjectImage>;
+
+export const projectFileSchema = z
+  .object({
+    title: text('Title'),
+    category: z.enum(PROJECT_CATEGORIES),
+    thumbnail: z.object(imageFields),
+    images: z.array(projectImageSchema).min(1, 'At least one image is required'),
+    description: text('Description'),
+    // Also rejects dates that do not exist, such as 2024-02-30
+    completionDate: z.iso.date('Expected a date as YYYY-MM-DD'),
+    location: text('Location'),
+    client: z.string().optional(),
+    area: z.string().optional(),
+    duration: z.string().optional(),
+    has3DModel: z.boolean(),
+    modelUrl: z
+      .string()
+      .regex(
+        /^(\/|https:\/\/)\S+\.(glb|gltf)$/,
+        'Expected the path or https URL of a .glb or .gltf file'
+      )
+      .optional(),
+    tags: z.array(text('Tag')),
+  })
+  .refine((project) => !project.has3DModel || project.modelUrl, {
+    path: ['modelUrl'],
+    error: 'Required when has3DModel is true',
+    // Checked even when other fields are invalid, so a file's problems are listed together
+    when: ({ value }) => typeof value === 'object' && value !== null,
+  }) satisfies z.ZodType<Omit<Project, 'id'>>;
@@ -0,0 +1,313 @@
+/**
+ * Project Search
+ *
+ * Free-text search and facets over the portfolio. The filters live in the
+ * URL query string, so a filtered view can be shared and the back button
+ * steps through it:
+ *
+ *   /?q=mall&tag=retail&tag=tech&locality=MG+Road&from=2023&to=2024&area=large&sort=name
+ *
+ * Values selected within one facet are alternatives; different facets all
+ * have to match. Results come a page at a time, see searchProjects.
+ * Safe to import from client components.
+ */
+
+import type { Project, ProjectCategory } from '@/types';
+import { toProjectSummary, type ProjectPageResponse } from './contract';
+import { PROJECT_CATEGORIES } from './schema';
+
+export const AREA_BANDS = [
+  { value: 'small', label: 'Under 10,000 sq ft', max: 10_000 },
+  { value: 'medium', label: '10,000–100,000 sq ft', min: 10_000, max: 100_000 },
+  { value: 'large', label: '100,000 sq ft and over', min: 100_000 },
+] as const;
+
+export type AreaBand = (typeof AREA_BANDS)[number]['value'];
+
+export const PROJECT_SORTS = ['newest', 'oldest', 'largest', 'smallest', 'name'] as const;
+
+export type ProjectSort = (typeof PROJECT_SORTS)[number];
+
+export const PROJECT_SORT_LABELS: Record<ProjectSort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  largest: 'Largest first',
+  smallest: 'Smallest first',
+  name: 'Name (A–Z)',
+};
+
+export interface ProjectFilters {
+  /** Words that must all appear in the title, description, location or client */
+  query: string;
+  category: ProjectCategory | 'all';
+  tags: string[];
+  localities: string[];
+  areas: AreaBand[];
+  /** Completion year range, inclusive */
+  yearFrom?: number;
+  yearTo?: number;
+  /** Not a filter, but kept in the URL with them */
+  sort: ProjectSort;
+}
+
+export const EMPTY_PROJECT_FILTERS: ProjectFilters = {
+  query: '',
+  category: 'all',
+  tags: [],
+  localities: [],
+  areas: [],
+  sort: 'newest',
+};
+
+export interface FacetCount<T extends string | number = string> {
+  value: T;
+  /** Projects matching every other filter that also have this value */
+  count: number;
+}
+
+export interface ProjectFacets {
+  categories: FacetCount<ProjectCategory>[];
+  tags: FacetCount[];
+  localities: FacetCount[];
+  areas: FacetCount<AreaBand>[];
+  years: FacetCount<number>[];
+}
+
+type Facet = keyof ProjectFacets;
+
+/**
+ * The part of the location before the city, e.g. "MG Road" for
+ * "MG Road, Bangalore"
+ */
+export function projectLocality(project: Project): string {
+  return project.location.split(',')[0].trim();
+}
+
+export function projectYear(project: Project): number {
+  return Number(project.completionDate.slice(0, 4));
+}
+
+/**
+ * Built-up area in square feet, or undefined when the project is measured
+ * some other way (a bridge in km, say)
+ */
+export function projectAreaSqFt(project: Project): number | undefined {
+  const match = project.area?.match(/^([\d,.]+)\s*sq\.?\s*ft/i);
+  return match ? Number(match[1].replace(/,/g, '')) : undefined;
+}
+
+function projectAreaBand(project: Project): AreaBand | undefined {
+  const area = projectAreaSqFt(project);
+  if (area === undefined) return undefined;
+  return AREA_BANDS.find(
+    (band) => area >= ('min' in band ? band.min : 0) && area < ('max' in band ? band.max : Infinity)
+  )?.value;
+}
+
+function queryWords(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+function matches(project: Project, filters: ProjectFilters, ignore?: Facet): boolean {
+  const words = queryWords(filters.query);
+  if (words.length > 0) {
+    const text = [project.title, project.description, project.location, project.client]
+      .join(' ')
+      .toLowerCase();
+    if (!words.every((word) => text.includes(word))) return false;
+  }
+
+  if (ignore !== 'categories' && filters.category !== 'all') {
+    if (project.category !== filters.category) return false;
+  }
+  if (ignore !== 'tags' && filters.tags.length > 0) {
+    if (!filters.tags.some((tag) => project.tags.includes(tag))) return false;
+  }
+  if (ignore !== 'localities' && filters.localities.length > 0) {
+    if (!filters.localities.includes(projectLocality(project))) return false;
+  }
+  if (ignore !== 'areas' && filters.areas.length > 0) {
+    const band = projectAreaBand(project);
+    if (!band || !filters.areas.includes(band)) return false;
+  }
+  if (ignore !== 'years') {
+    const year = projectYear(project);
+    if (filters.yearFrom !== undefined && year < filters.yearFrom) return false;
+    if (filters.yearTo !== undefined && year > filters.yearTo) return false;
+  }
+  return true;
+}
+
+export function filterProjects(projects: Project[], filters: ProjectFilters): Project[] {
+  return projects.filter((project) => matches(project, filters));
+}
+
+function countBy<T extends string | number>(
+  values: T[],
+  matching: Project[],
+  valuesOf: (project: Project) => (T | undefined)[]
+): FacetCount<T>[] {
+  return values.map((value) => ({
+    value,
+    count: matching.filter((project) => valuesOf(project).includes(value)).length,
+  }));
+}
+
+function unique<T extends string | number>(values: (T | undefined)[]): T[] {
+  return [...new Set(values.filter((value): value is T => value !== undefined))].sort((a, b) =>
+    typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b))
+  );
+}
+
+/**
+ * Every value of every facet in the portfolio, with how many results picking
+ * it would give. Each facet is counted against the other filters only, so
+ * selecting one tag still shows the counts for the other tags.
+ */
+export function getProjectFacets(projects: Project[], filters: ProjectFilters): ProjectFacets {
+  const matchingWithout = (facet: Facet) =>
+    projects.filter((project) => matches(project, filters, facet));
+
+  return {
+    categories: countBy([...PROJECT_CATEGORIES], matchingWithout('categories'), (project) => [
+      project.category,
+    ]),
+    tags: countBy(
+      unique(projects.flatMap((project) => project.tags)),
+      matchingWithout('tags'),
+      (project) => project.tags
+    ),
+    localities: countBy(
+      unique(projects.map(projectLocality)),
+      matchingWithout('localities'),
+      (project) => [projectLocality(project)]
+    ),
+    areas: countBy(
+      AREA_BANDS.map((band) => band.value),
+      matchingWithout('areas'),
+      (project) => [projectAreaBand(project)]
+    ),
+    years: countBy(unique(projects.map(projectYear)), matchingWithout('years'), (project) => [
+      projectYear(project),
+    ]),
+  };
+}
+
+const byTitle = (a: Project, b: Project) => a.title.localeCompare(b.title, 'en');
+
+/**
+ * Projects in the given order. Ties fall back to the title and then the id,
+ * so every order is total and a page boundary never moves.
+ */
+export function sortProjects(projects: Project[], sort: ProjectSort): Project[] {
+  const compare = (a: Project, b: Project): number => {
+    switch (sort) {
+      case 'newest':
+        return b.completionDate.localeCompare(a.completionDate);
+      case 'oldest':
+        return a.completionDate.localeCompare(b.completionDate);
+      case 'largest':
+      case 'smallest': {
+        // Projects not measured in square feet go last either way
+        const areaA = projectAreaSqFt(a);
+        const areaB = projectAreaSqFt(b);
+        if (areaA === undefined || areaB === undefined) {
+          return Number(areaA === undefined) - Number(areaB === undefined);
+        }
+        return sort === 'largest' ? areaB - areaA : areaA - areaB;
+      }
+      case 'name':
+        return byTitle(a, b);
+    }
+  };
+
+  return [...projects].sort((a, b) => compare(a, b) || byTitle(a, b) || a.id.localeCompare(b.id));
+}
+
+export type ProjectSearchResult =
+  | { ok: true; page: ProjectPageResponse }
+  | { ok: false; problem: 'unknown_cursor' };
+
+/**
+ * One page of results. `cursor` is the id of the last project on the page
+ * before, so a page is the same however long the visitor waited before
+ * loading it. A cursor that is not among the results fails, e.g. after the
+ * filters changed or the project was removed.
+ */
+export function searchProjects(
+  projects: Project[],
+  filters: ProjectFilters,
+  { cursor, limit }: { cursor?: string; limit: number }
+): ProjectSearchResult {
+  const results = sortProjects(filterProjects(projects, filters), filters.sort);
+
+  let start = 0;
+  if (cursor !== undefined) {
+    const index = results.findIndex((project) => project.id === cursor);
+    if (index === -1) return { ok: false, problem: 'unknown_cursor' };
+    start = index + 1;
+  }
+
+  const page = results.slice(start, start + limit);
+  const hasMore = start + limit < results.length;
+  return {
+    ok: true,
+    page: {
+      projects: page.map(toProjectSummary),
+      total: results.length,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+      facets: getProjectFacets(projects, filters),
+    },
+  };
+}
+
+function parseYear(value: string | null): number | undefined {
+  return value && /^\d{4}$/.test(value) ? Number(value) : undefined;
+}
+
+/**
+ * Filters from a query string. Values that cannot be a filter are dropped
+ * rather than rejected, so an old or hand-edited link still opens.
+ */
+export function parseProjectFilters(params: URLSearchParams): ProjectFilters {
+  const category = params.get('category');
+  const sort = params.get('sort');
+  const all = (key: string) => [...new Set(params.getAll(key).filter(Boolean))];
+
+  return {
+    query: params.get('q') ?? '',
+    category: PROJECT_CATEGORIES.includes(category as ProjectCategory)
+      ? (category as ProjectCategory)
+      : 'all',
+    tags: all('tag'),
+    localities: all('locality'),
+    areas: all('area').filter((area): area is AreaBand =>
+      AREA_BANDS.some((band) => band.value === area)
+    ),
+    yearFrom: parseYear(params.get('from')),
+    yearTo: parseYear(params.get('to')),
+    sort: PROJECT_SORTS.includes(sort as ProjectSort) ? (sort as ProjectSort) : 'newest',
+  };
+}
+
+/**
+ * Query string for the filters, without the leading "?". Empty when nothing
+ * is filtered and the order is the default.
+ */
+export function projectFiltersToQuery(filters: ProjectFilters): string {
+  const params = new URLSearchParams();
+  // Kept as typed, so a trailing space survives the round trip through the URL
+  if (filters.query.trim()) params.set('q', filters.query);
+  if (filters.category !== 'all') params.set('category', filters.category);
+  for (const tag of filters.tags) params.append('tag', tag);
+  for (const locality of filters.localities) params.append('locality', locality);
+  if (filters.yearFrom !== undefined) params.set('from', String(filters.yearFrom));
+  if (filters.yearTo !== undefined) params.set('to', String(filters.yearTo));
+  for (const area of filters.areas) params.append('area', area);
+  if (filters.sort !== 'newest') params.set('sort', filters.sort);
+  return params.toString();
+}
+
+export function hasProjectFilters(filters: ProjectFilters): boolean {
+  return projectFiltersToQuery({ ...filters, sort: 'newest' }) !== '';
+}
@@ -0,0 +1,96 @@
+/**
+ * Rate Limiting Entry Point
+ *
+ * Creates sliding-window limiters backed by the configured store. Any API route
+ * can create its own named limiter; all limiters share one store.
+ *
+ * Environment (read through lib/config):
+ * - RATE_LIMIT_STORE: 'sqlite' (default) or 'memory'
+ * - RATE_LIMIT_PATH: SQLite file, defaults to .data/rate-limit.db
+ * - TRUSTED_PROXY_HOPS: number of reverse proxies in front of the app (default 1)
+ */
+
+import { getConfig } from '@/lib/config';
+import { MemoryRateLimitStore } from './memory-store';
+import { SlidingWindowRateLimiter } from './sliding-window';
+import { SqliteRateLimitStore } from './sqlite-store';
+import type { RateLimitDecision, RateLimiter, RateLimitStore } from './types';
+
+export { MemoryRateLimitStore } from './memory-store';
+export { SqliteRateLimitStore } from './sqlite-store';
+export { SlidingWindowRateLimiter, type SlidingWindowOptions } from './sliding-window';
+export {
+  getClientIP,
+  identityKeys,
+  normalizeEmail,
+  normalizePhone,
+  type RateLimitIdentity,
+} from './keys';
+export type { RateLimitDecision, RateLimiter, RateLimitStore } from './types';
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Get the process-wide rate limit store, creating it on first use
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (store) return store;
+
+  const settings = getConfig().stores.rateLimits;
+  store =
+    settings.kind === 'sqlite'
+      ? new SqliteRateLimitStore(settings.path)
+      : new MemoryRateLimitStore();
+
+  return store;
+}
+
+/**
+ * Override the store, mainly for tests. Pass null to reset.
+ */
+export function setRateLimitStore(next: RateLimitStore | null): void {
+  store = next;
+}
+
+/**
+ * Create a named limiter on the shared store.
+ *
+ * The store is resolved lazily so limiters can be declared at module scope.
+ */
+export function createRateLimiter(options: {
+  name: string;
+  limit: number;
+  windowMs: number;
+}): RateLimiter {
+  let bound: { store: RateLimitStore; limiter: SlidingWindowRateLimiter } | null = null;
+
+  return {
+    consume: (keys) => {
+      const current = getRateLimitStore();
+      if (!bound || bound.store !== current) {
+        bound = {
+          store: current,
+          limiter: new SlidingWindowRateLimiter({ ...options, store: current }),
+        };
+      }
+      return bound.limiter.consume(keys);
+    },
+  };
+}
+
+/**
+ * Standard headers describing a limiter decision
+ */
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(decision.limit),
+    'X-RateLimit-Remaining': String(decision.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(decision.resetAt / 1000)),
+  };
+
+  if (decision.retryAfterSeconds !== undefined) {
+    headers['Retry-After'] = String(decision.retryAfterSeconds);
+  }
+
+  return headers;
+}
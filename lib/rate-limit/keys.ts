@@ -0,0 +1,88 @@
+/**
+ * Rate Limit Keys
+ *
+ * Helpers for deriving stable, non-reversible limiter keys from request data.
+ */
+
+import { createHash } from 'node:crypto';
+import { getConfig } from '@/lib/config';
+
+function digest(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 32);
+}
+
+/**
+ * Resolve the client IP without trusting client-supplied forwarding headers.
+ *
+ * Each proxy appends the address it received the request from to
+ * X-Forwarded-For, so only the last TRUSTED_PROXY_HOPS entries were written by
+ * our own infrastructure. Anything to the left of those can be forged. With no
+ * trusted proxy every forwarding header comes from the client itself, so none
+ * is read. Returns undefined when the address is not known.
+ */
+export function getClientIP(headers: Headers): string | undefined {
+  const hops = getConfig().http.trustedProxyHops;
+  if (hops === 0) return undefined;
+
+  const forwarded = headers.get('x-forwarded-for');
+  if (forwarded) {
+    const chain = forwarded
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    const trusted = chain[Math.max(0, chain.length - hops)];
+    if (trusted) return trusted;
+  }
+
+  return headers.get('x-real-ip')?.trim() || undefined;
+}
+
+/**
+ * Lowercase the address and drop +tags, and dots for Gmail, so trivial
+ * variations of one mailbox share a limit
+ */
+export function normalizeEmail(email: string): string {
+  const [local = '', domain = ''] = email.trim().toLowerCase().split('@');
+  let normalizedLocal = local.split('+')[0];
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    normalizedLocal = normalizedLocal.replace(/\./g, '');
+  }
+  return `${normalizedLocal}@${domain}`;
+}
+
+/**
+ * Reduce a phone number to its last ten digits so country code and
+ * formatting variants share a limit
+ */
+export function normalizePhone(phone: string): string {
+  return phone.replace(/\D/g, '').slice(-10);
+}
+
+export interface RateLimitIdentity {
+  /** Left out when unknown, rather than putting every such client in one bucket */
+  ip?: string;
+  email?: string;
+  phone?: string;
+}
+
+/**
+ * Build hashed limiter keys for every identifier present on a request
+ */
+export function identityKeys(identity: RateLimitIdentity): string[] {
+  const keys: string[] = [];
+
+  if (identity.ip) {
+    keys.push(`ip:${digest(identity.ip)}`);
+  }
+
+  if (identity.email?.trim()) {
+    keys.push(`email:${digest(normalizeEmail(identity.email))}`);
+  }
+
+  const phone = identity.phone ? normalizePhone(identity.phone) : '';
+  if (phone) {
+    keys.push(`phone:${digest(phone)}`);
+  }
+
+  return keys;
+}
@@ -0,0 +1,43 @@
+/**
+ * In-memory Rate Limit Store
+ *
+ * Suitable for development and single-instance deployments. Hits are lost on
+ * restart and are not shared between server instances.
+ */
+
+import type { RateLimitStore } from './types';
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly hits = new Map<string, number[]>();
+
+  async consume(
+    keys: readonly string[],
+    since: number,
+    now: number,
+    limit: number
+  ): Promise<number[][]> {
+    // No await between the check and the write, so no other request can run in between
+    const hits = keys.map((key) =>
+      (this.hits.get(key) ?? []).filter((timestamp) => timestamp > since)
+    );
+    if (hits.every((keyHits) => keyHits.length < limit)) {
+      for (const key of keys) {
+        this.hits.set(key, [...(this.hits.get(key) ?? []), now]);
+      }
+    }
+    return hits;
+  }
+
+  async prune(keyPrefix: string, before: number): Promise<void> {
+    for (const [key, timestamps] of this.hits.entries()) {
+      if (!key.startsWith(keyPrefix)) continue;
+
+      const live = timestamps.filter((timestamp) => timestamp >= before);
+      if (live.length === 0) {
+        this.hits.delete(key);
+      } else {
+        this.hits.set(key, live);
+      }
+    }
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Sliding Window Rate Limiter
+ *
+ * Counts the hits each key made in the trailing window rather than in fixed
+ * buckets, so a burst straddling a bucket boundary cannot double the limit.
+ */
+
+import type { RateLimitDecision, RateLimiter, RateLimitStore } from './types';
+
+export interface SlidingWindowOptions {
+  store: RateLimitStore;
+  /** Namespace for keys so several limiters can share one store */
+  name: string;
+  limit: number;
+  windowMs: number;
+  /** Clock override for tests */
+  now?: () => number;
+}
+
+export class SlidingWindowRateLimiter implements RateLimiter {
+  private lastPrunedAt = 0;
+
+  constructor(private readonly options: SlidingWindowOptions) {}
+
+  async consume(keys: string[]): Promise<RateLimitDecision> {
+    const { store, name, limit, windowMs } = this.options;
+    const now = this.options.now?.() ?? Date.now();
+    const windowStart = now - windowMs;
+    const scopedKeys = Array.from(new Set(keys)).map((key) => `${name}:${key}`);
+
+    await this.pruneIfDue(now);
+
+    const hitsPerKey = await store.consume(scopedKeys, windowStart, now, limit);
+
+    let remaining = limit;
+    let resetAt = now;
+    let blockedKey: string | undefined;
+
+    for (const [index, key] of scopedKeys.entries()) {
+      const hits = hitsPerKey[index];
+      const keyRemaining = limit - hits.length;
+      // The oldest hit inside the window is the next one to expire
+      const keyResetAt = hits.length > 0 ? hits[0] + windowMs : now;
+
+      if (keyRemaining <= 0 && !blockedKey) {
+        blockedKey = key;
+      }
+      if (keyRemaining < remaining || (keyRemaining === remaining && keyResetAt > resetAt)) {
+        remaining = keyRemaining;
+        resetAt = keyResetAt;
+      }
+    }
+
+    if (blockedKey) {
+      return {
+        allowed: false,
+        limit,
+        remaining: 0,
+        resetAt,
+        retryAfterSeconds: Math.max(1, Math.ceil((resetAt - now) / 1000)),
+        blockedKey,
+      };
+    }
+
+    return {
+      allowed: true,
+      limit,
+      remaining: Math.max(0, remaining - 1),
+      resetAt: remaining === limit ? now + windowMs : resetAt,
+    };
+  }
+
+  private async pruneIfDue(now: number): Promise<void> {
+    // Replaces a background sweep timer: expired hits are dropped at most once per window
+    if (now - this.lastPrunedAt < this.options.windowMs) return;
+    this.lastPrunedAt = now;
+    await this.options.store.prune(`${this.options.name}:`, now - this.options.windowMs);
+  }
+}
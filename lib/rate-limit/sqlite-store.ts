@@ -0,0 +1,69 @@
+/**
+ * SQLite Rate Limit Store
+ *
+ * Persists hits in an embedded database so limits survive restarts and are
+ * shared by every server process on the same host.
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import type { RateLimitStore } from './types';
+
+export class SqliteRateLimitStore implements RateLimitStore {
+  private readonly db: Database.Database;
+
+  /**
+   * @param filename - Database file path, or ':memory:' for an ephemeral store
+   */
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      mkdirSync(dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS rate_limit_hits (
+        key TEXT NOT NULL,
+        timestamp INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS rate_limit_hits_key ON rate_limit_hits (key, timestamp);
+    `);
+  }
+
+  async consume(
+    keys: readonly string[],
+    since: number,
+    now: number,
+    limit: number
+  ): Promise<number[][]> {
+    const select = this.db.prepare(
+      'SELECT timestamp FROM rate_limit_hits WHERE key = ? AND timestamp > ? ORDER BY timestamp'
+    );
+    const insert = this.db.prepare('INSERT INTO rate_limit_hits (key, timestamp) VALUES (?, ?)');
+
+    // Check and record in one immediate transaction so two processes cannot both pass
+    const consume = this.db.transaction((): number[][] => {
+      const hits = keys.map((key) =>
+        (select.all(key, since) as { timestamp: number }[]).map((row) => row.timestamp)
+      );
+      if (hits.every((keyHits) => keyHits.length < limit)) {
+        for (const key of keys) insert.run(key, now);
+      }
+      return hits;
+    });
+
+    return consume.immediate();
+  }
+
+  async prune(keyPrefix: string, before: number): Promise<void> {
+    this.db
+      .prepare('DELETE FROM rate_limit_hits WHERE substr(key, 1, ?) = ? AND timestamp < ?')
+      .run(keyPrefix.length, keyPrefix, before);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Rate Limit Types
+ */
+
+/**
+ * Persistence for the sliding-window log. Stores only record hit timestamps;
+ * the limiter turns them into a decision.
+ */
+export interface RateLimitStore {
+  /**
+   * Read the timestamps (ms) each key recorded strictly after `since` and,
+   * when every key has fewer than `limit`, record a hit at `now` for each.
+   * Implementations must make this atomic so concurrent requests cannot all
+   * pass the check before any of them is recorded.
+   *
+   * @returns Each key's hits before this one, oldest first, in key order
+   */
+  consume(keys: readonly string[], since: number, now: number, limit: number): Promise<number[][]>;
+  /** Drop hits older than `before` for every key starting with `keyPrefix` */
+  prune(keyPrefix: string, before: number): Promise<void>;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  /** Submissions left for the most constrained key */
+  remaining: number;
+  /** Epoch ms at which the most constrained key frees up a slot */
+  resetAt: number;
+  /** Seconds the client should wait, set only when blocked */
+  retryAfterSeconds?: number;
+  /** Key that caused the rejection, useful for logging */
+  blockedKey?: string;
+}
+
+export interface RateLimiter {
+  /**
+   * Check every key against the limit and, if all pass, record one hit for each.
+   * A rejected request is not recorded, so retrying does not extend the block.
+   */
+  consume(keys: string[]): Promise<RateLimitDecision>;
+}
@@ -0,0 +1,117 @@
+/**
+ * Submission Classification
+ *
+ * Decides whether a contact submission came from a person or a bot, based on
+ * the honeypot field, the signed form token and the optional proof of work.
+ * Each form token is accepted once; a replayed token is treated as forged.
+ */
+
+import { releaseNonce, spendNonce } from '@/lib/nonces';
+import { verifyFormToken, type FormTokenPayload } from './form-token';
+import { verifyProofOfWork } from './proof-of-work';
+
+export type SpamReason =
+  | 'spam_honeypot'
+  | 'too_fast'
+  | 'token_missing'
+  | 'token_invalid'
+  | 'token_expired'
+  | 'pow_invalid';
+
+export type SpamVerdict =
+  | {
+      ok: true;
+      /** The accepted token, already spent */
+      token: FormTokenPayload;
+    }
+  | {
+      ok: false;
+      reason: SpamReason;
+      /**
+       * Obvious bots get a fake success so they learn nothing from the response.
+       * Reasons a real visitor can hit (an expired tab) are reported instead.
+       */
+      silent: boolean;
+    };
+
+export interface SpamSignals {
+  honeypot?: string;
+  formToken?: string;
+  powSolution?: string;
+}
+
+export interface SpamPolicy {
+  /** Minimum time between opening the form and submitting it */
+  minFillMs: number;
+  /** Maximum age of a form token */
+  tokenTtlMs: number;
+}
+
+const NONCE_SCOPE = 'form-token';
+
+const SILENT_REASONS: ReadonlySet<SpamReason> = new Set<SpamReason>([
+  'spam_honeypot',
+  'too_fast',
+  'token_invalid',
+  'pow_invalid',
+]);
+
+function reject(reason: SpamReason): SpamVerdict {
+  return { ok: false, reason, silent: SILENT_REASONS.has(reason) };
+}
+
+export async function classifySubmission(
+  signals: SpamSignals,
+  policy: SpamPolicy,
+  now = Date.now()
+): Promise<SpamVerdict> {
+  // Humans never see the honeypot, so any value means a form-filling bot
+  if (signals.honeypot?.trim()) {
+    return reject('spam_honeypot');
+  }
+
+  const token = verifyFormToken(signals.formToken, policy.tokenTtlMs, now);
+  if (!token.valid) {
+    return reject(token.reason);
+  }
+
+  if (now - token.payload.issuedAt < policy.minFillMs) {
+    return reject('too_fast');
+  }
+
+  const solved = await verifyProofOfWork(
+    signals.formToken!,
+    signals.powSolution ?? '',
+    token.payload.difficulty
+  );
+  if (!solved) {
+    return reject('pow_invalid');
+  }
+
+  // Spent last, so a token is only used up by a submission that passed the rest
+  const expiresAt = token.payload.issuedAt + policy.tokenTtlMs;
+  if (!(await spendNonce(NONCE_SCOPE, token.payload.nonce, expiresAt, now))) {
+    return reject('token_invalid');
+  }
+
+  return { ok: true, token: token.payload };
+}
+
+/**
+ * Handle a submission that passed screening. Its token was spent by
+ * `classifySubmission`; when the handler turns the submission away or throws,
+ * the token is given back so the visitor can correct the form and send it again.
+ */
+export async function withFormToken(
+  token: FormTokenPayload,
+  handle: () => Promise<Response>
+): Promise<Response> {
+  try {
+    const response = await handle();
+    if (!response.ok) await releaseNonce(NONCE_SCOPE, token.nonce);
+    return response;
+  } catch (error) {
+    await releaseNonce(NONCE_SCOPE, token.nonce);
+    throw error;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Signed Form Tokens
+ *
+ * A token records when the contact form was opened and which proof-of-work
+ * difficulty applies, signed with HMAC-SHA256 so clients cannot backdate it.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { getConfig } from '@/lib/config';
+
+export interface FormTokenPayload {
+  /** Epoch ms at which the token was issued */
+  issuedAt: number;
+  /** Random value that makes every proof-of-work challenge unique */
+  nonce: string;
+  /** Required leading zero bits, 0 when proof of work is disabled */
+  difficulty: number;
+}
+
+export type FormTokenResult =
+  | { valid: true; payload: FormTokenPayload }
+  | { valid: false; reason: 'token_missing' | 'token_invalid' | 'token_expired' };
+
+function sign(encodedPayload: string): string {
+  return createHmac('sha256', getConfig().spam.tokenSecret)
+    .update(encodedPayload)
+    .digest('base64url');
+}
+
+export function issueFormToken(difficulty: number, now = Date.now()): string {
+  const payload: FormTokenPayload = {
+    issuedAt: now,
+    nonce: randomBytes(12).toString('base64url'),
+    difficulty,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+export function verifyFormToken(
+  token: string | undefined,
+  maxAgeMs: number,
+  now = Date.now()
+): FormTokenResult {
+  if (!token) return { valid: false, reason: 'token_missing' };
+
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return { valid: false, reason: 'token_invalid' };
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'token_invalid' };
+  }
+
+  let payload: FormTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, reason: 'token_invalid' };
+  }
+
+  if (now - payload.issuedAt > maxAgeMs) {
+    return { valid: false, reason: 'token_expired' };
+  }
+
+  return { valid: true, payload };
+}
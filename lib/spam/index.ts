@@ -0,0 +1,32 @@
+/**
+ * Spam Protection Entry Point (server only)
+ *
+ * The form token key (CONTACT_FORM_SECRET), fill time, token lifetime and
+ * proof-of-work difficulty come from lib/config.
+ *
+ * The browser side only needs `solveProofOfWork`, which should be imported from
+ * './proof-of-work' directly to keep node:crypto out of the client bundle.
+ */
+
+import { getConfig } from '@/lib/config';
+import type { SpamPolicy } from './classify';
+
+export {
+  classifySubmission,
+  type SpamReason,
+  type SpamSignals,
+  type SpamVerdict,
+  withFormToken,
+} from './classify';
+export { issueFormToken, verifyFormToken, type FormTokenPayload } from './form-token';
+export { countLeadingZeroBits, solveProofOfWork, verifyProofOfWork } from './proof-of-work';
+export type { SpamPolicy } from './classify';
+
+export function getSpamPolicy(): SpamPolicy {
+  const { minFillMs, tokenTtlMs } = getConfig().spam;
+  return { minFillMs, tokenTtlMs };
+}
+
+export function getProofOfWorkDifficulty(): number {
+  return getConfig().spam.powDifficulty;
+}
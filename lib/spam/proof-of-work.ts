@@ -0,0 +1,59 @@
+/**
+ * Proof of Work
+ *
+ * Hashcash-style puzzle: find a solution such that SHA-256("<challenge>:<solution>")
+ * starts with `difficulty` zero bits. Solving costs the client roughly
+ * 2^difficulty hashes while verifying costs the server one. Uses Web Crypto so
+ * the same code runs in the browser and on the server.
+ */
+
+async function sha256(input: string): Promise<Uint8Array> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return new Uint8Array(digest);
+}
+
+export function countLeadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+export async function verifyProofOfWork(
+  challenge: string,
+  solution: string,
+  difficulty: number
+): Promise<boolean> {
+  if (difficulty <= 0) return true;
+  if (!/^\d{1,12}$/.test(solution)) return false;
+  return countLeadingZeroBits(await sha256(`${challenge}:${solution}`)) >= difficulty;
+}
+
+/**
+ * Brute-force a solution, yielding to the event loop periodically so the page
+ * stays responsive while the visitor fills in the form
+ */
+export async function solveProofOfWork(
+  challenge: string,
+  difficulty: number,
+  signal?: AbortSignal
+): Promise<string> {
+  if (difficulty <= 0) return '0';
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw new Error('Proof of work aborted');
+    }
+    if (countLeadingZeroBits(await sha256(`${challenge}:${attempt}`)) >= difficulty) {
+      return String(attempt);
+    }
+    if (attempt % 500 === 499) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+}
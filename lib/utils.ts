@@ -20,11 +20,13 @@ export function detectWebGLSupport(): boolean {
   }
 }
 
-// Smooth scroll to element
+// Smooth scroll to element; sections live on the home page, so other pages link back to it
 export function smoothScrollTo(elementId: string) {
   const element = document.getElementById(elementId);
   if (element) {
     element.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  } else if (window.location.pathname !== '/') {
+    window.location.assign(`/#${elementId}`);
   }
 }
 
@@ -64,10 +66,3 @@ export function formatDate(date: string): string {
     day: 'numeric'
   });
 }
-
-// Sanitize input
-export function sanitizeInput(input: string): string {
-  return input
-    .replace(/[<>]/g, '')
-    .trim();
-}
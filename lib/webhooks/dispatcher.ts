@@ -0,0 +1,280 @@
+/**
+ * Webhook Dispatcher
+ *
+ * Fans an event out to every endpoint subscribed to it, one delivery per
+ * endpoint. Deliveries are persisted before the first attempt and sent in
+ * the background, so a slow or unreachable receiver never delays the request
+ * that raised the event. Failed attempts are retried with exponential backoff
+ * until `maxAttempts` is reached, after which the delivery is dead and waits
+ * for a replay from the admin area.
+ *
+ * Delivery is at least once: receivers should deduplicate on the event ID.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { getLogger, type Logger } from '@/lib/logging';
+import { WEBHOOK_SIGNATURE_HEADER, signWebhookPayload } from './signature';
+import type {
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookDeliveryStore,
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookEventType,
+} from './types';
+
+export interface WebhookDispatcherOptions {
+  /** Attempts per delivery, including the first */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles with every further retry */
+  retryBaseMs: number;
+  /** Upper bound for a single retry delay */
+  retryMaxMs: number;
+  /** Time allowed for the receiver to answer */
+  timeoutMs: number;
+}
+
+export type WebhookReplayResult =
+  | { ok: true; delivery: WebhookDelivery }
+  | { ok: false; reason: 'not_found' | 'not_dead' };
+
+/**
+ * Delay before the next attempt after `failedAttempts` failures. Jitter of up
+ * to 20% keeps retries for a burst of leads from arriving all at once.
+ */
+export function retryDelayMs(
+  failedAttempts: number,
+  options: Pick<WebhookDispatcherOptions, 'retryBaseMs' | 'retryMaxMs'>,
+  random = Math.random
+): number {
+  const exponential = Math.min(
+    options.retryMaxMs,
+    options.retryBaseMs * 2 ** Math.max(0, failedAttempts - 1)
+  );
+  return Math.round(exponential * (1 - 0.2 * random()));
+}
+
+/**
+ * Body sent to receivers
+ */
+export function webhookBody(event: WebhookEvent): string {
+  return JSON.stringify({
+    id: event.eventId,
+    type: event.type,
+    createdAt: event.createdAt,
+    data: event.data,
+  });
+}
+
+export class WebhookDispatcher {
+  private readonly inFlight = new Set<Promise<void>>();
+  private readonly attempting = new Set<string>();
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(
+    private readonly store: WebhookDeliveryStore,
+    private readonly endpoints: WebhookEndpoint[],
+    private readonly options: WebhookDispatcherOptions,
+    private readonly fetchImpl: typeof fetch = fetch,
+    private readonly log: Logger = getLogger()
+  ) {}
+
+  /**
+   * Record one delivery per subscribed endpoint and start sending them
+   */
+  async publish(type: WebhookEventType, data: Record<string, unknown>): Promise<WebhookDelivery[]> {
+    const now = new Date().toISOString();
+    const event: WebhookEvent = { eventId: `evt_${randomUUID()}`, type, createdAt: now, data };
+
+    const deliveries = this.endpoints
+      .filter((endpoint) => endpoint.events.includes(type))
+      .map(
+        (endpoint): WebhookDelivery => ({
+          deliveryId: `whd_${randomUUID()}`,
+          endpointId: endpoint.id,
+          url: endpoint.url,
+          event,
+          status: 'pending',
+          attempts: [],
+          nextAttemptAt: now,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+
+    for (const delivery of deliveries) {
+      await this.store.save(delivery);
+    }
+    for (const delivery of deliveries) {
+      this.track(delivery.deliveryId);
+    }
+    return deliveries;
+  }
+
+  /**
+   * Send a dead delivery again as a new delivery with a fresh attempt budget
+   */
+  async replay(deliveryId: string): Promise<WebhookReplayResult> {
+    const dead = await this.store.findById(deliveryId);
+    if (!dead) return { ok: false, reason: 'not_found' };
+    if (dead.status !== 'dead') return { ok: false, reason: 'not_dead' };
+
+    const now = new Date().toISOString();
+    const delivery: WebhookDelivery = {
+      ...dead,
+      deliveryId: `whd_${randomUUID()}`,
+      status: 'pending',
+      attempts: [],
+      nextAttemptAt: now,
+      replayOf: dead.deliveryId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.save(delivery);
+    await this.store.save({ ...dead, status: 'replayed', updatedAt: now });
+    this.track(delivery.deliveryId);
+    return { ok: true, delivery };
+  }
+
+  /**
+   * Attempt every pending delivery that is due, e.g. after a restart dropped
+   * the retry timers. Returns how many were attempted.
+   */
+  async retryDue(now = Date.now()): Promise<number> {
+    const due = await this.store.listDue(new Date(now).toISOString());
+    for (const delivery of due) {
+      this.track(delivery.deliveryId);
+    }
+    return due.length;
+  }
+
+  /**
+   * Resolve once no attempt is running; scheduled retries are not waited for
+   */
+  async idle(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all(this.inFlight);
+    }
+  }
+
+  /**
+   * Cancel scheduled retries. Pending deliveries stay in the store.
+   */
+  close(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private track(deliveryId: string): void {
+    const run = this.attempt(deliveryId)
+      .catch((error) => this.log.error('Webhook delivery error', { deliveryId, error }))
+      .finally(() => this.inFlight.delete(run));
+    this.inFlight.add(run);
+  }
+
+  private async attempt(deliveryId: string): Promise<void> {
+    // A timer and a retryDue sweep may both pick up the same delivery
+    if (this.attempting.has(deliveryId)) return;
+    this.attempting.add(deliveryId);
+
+    try {
+      const delivery = await this.store.findById(deliveryId);
+      if (!delivery || delivery.status !== 'pending') return;
+
+      const endpoint = this.endpoints.find((candidate) => candidate.id === delivery.endpointId);
+      const attempt: WebhookAttempt = endpoint
+        ? await this.send(endpoint, delivery.event, deliveryId)
+        : {
+            at: new Date().toISOString(),
+            durationMs: 0,
+            error: 'Endpoint is no longer configured',
+          };
+
+      const attempts = [...delivery.attempts, attempt];
+      const delivered = attempt.statusCode !== undefined && attempt.statusCode < 300;
+      const exhausted = !endpoint || attempts.length >= this.options.maxAttempts;
+      const updated: WebhookDelivery = {
+        ...delivery,
+        url: endpoint?.url ?? delivery.url,
+        attempts,
+        status: delivered ? 'delivered' : exhausted ? 'dead' : 'pending',
+        nextAttemptAt:
+          delivered || exhausted
+            ? undefined
+            : new Date(Date.now() + retryDelayMs(attempts.length, this.options)).toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+      await this.store.save(updated);
+
+      if (updated.status === 'pending') {
+        this.schedule(updated);
+      } else if (updated.status === 'dead') {
+        this.log.error('Webhook delivery moved to the dead-letter queue', {
+          deliveryId,
+          endpointId: delivery.endpointId,
+          eventType: delivery.event.type,
+          attempts: attempts.length,
+          lastError: attempt.error,
+        });
+      }
+    } finally {
+      this.attempting.delete(deliveryId);
+    }
+  }
+
+  private async send(
+    endpoint: WebhookEndpoint,
+    event: WebhookEvent,
+    deliveryId: string
+  ): Promise<WebhookAttempt> {
+    const body = webhookBody(event);
+    const startedAt = Date.now();
+    const at = new Date(startedAt).toISOString();
+
+    try {
+      const response = await this.fetchImpl(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'SB-Infra-Webhooks/1.0',
+          'X-SB-Event': event.type,
+          'X-SB-Event-Id': event.eventId,
+          'X-SB-Delivery-Id': deliveryId,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, endpoint.secret, startedAt),
+        },
+        body,
+        // A redirect would resend the signed payload somewhere unconfigured
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+      await response.body?.cancel();
+
+      return {
+        at,
+        durationMs: Date.now() - startedAt,
+        statusCode: response.status,
+        error: response.status < 300 ? undefined : `HTTP ${response.status}`,
+      };
+    } catch (error) {
+      return {
+        at,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private schedule(delivery: WebhookDelivery): void {
+    const delay = Math.max(0, Date.parse(delivery.nextAttemptAt ?? '') - Date.now());
+    clearTimeout(this.timers.get(delivery.deliveryId));
+
+    const timer = setTimeout(() => {
+      this.timers.delete(delivery.deliveryId);
+      this.track(delivery.deliveryId);
+    }, delay);
+    // Pending retries must not keep the process alive; retryDue picks them up later
+    timer.unref?.();
+    this.timers.set(delivery.deliveryId, timer);
+  }
+}
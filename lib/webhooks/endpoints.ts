@@ -0,0 +1,54 @@
+/**
+ * Webhook Endpoint Configuration
+ *
+ * Endpoints are configured as a JSON array in WEBHOOK_ENDPOINTS, e.g.
+ * [{"id":"crm","url":"https://crm.example.com/hooks/leads","secret":"...","events":["lead.created"]}].
+ * `events` is optional and defaults to every event type.
+ */
+
+import { z } from 'zod';
+import { WEBHOOK_EVENT_TYPES, type WebhookEndpoint } from './types';
+
+const endpointsSchema = z
+  .array(
+    z.object({
+      id: z
+        .string()
+        .regex(/^[a-z0-9-]{1,40}$/, 'id must be 1-40 lowercase letters, digits or dashes'),
+      url: z.url({ protocol: /^https?$/ }),
+      secret: z.string().min(16, 'secret must be at least 16 characters'),
+      events: z
+        .array(z.enum(WEBHOOK_EVENT_TYPES))
+        .min(1)
+        .default([...WEBHOOK_EVENT_TYPES]),
+    })
+  )
+  .refine(
+    (endpoints) => new Set(endpoints.map((endpoint) => endpoint.id)).size === endpoints.length,
+    {
+      message: 'endpoint ids must be unique',
+    }
+  );
+
+/**
+ * Parse WEBHOOK_ENDPOINTS; an unset or empty value means no endpoints
+ */
+export function parseWebhookEndpoints(raw: string | undefined): WebhookEndpoint[] {
+  if (!raw?.trim()) return [];
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new Error('WEBHOOK_ENDPOINTS must be a JSON array of endpoints.');
+  }
+
+  const result = endpointsSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(
+      `Invalid WEBHOOK_ENDPOINTS at ${issue.path.join('.') || '(root)'}: ${issue.message}`
+    );
+  }
+  return result.data;
+}
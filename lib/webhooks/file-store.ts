@@ -0,0 +1,95 @@
+/**
+ * File-backed Webhook Delivery Store
+ *
+ * Appends a full snapshot of a delivery to a newline-delimited JSON file on
+ * every change, like the lead file store; reads keep the last snapshot per
+ * delivery ID. Removing deliveries rewrites the file without any of their
+ * snapshots.
+ */
+
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { webhookSubmissionId } from './payloads';
+import type { WebhookDelivery, WebhookDeliveryQuery, WebhookDeliveryStore } from './types';
+
+export class FileWebhookDeliveryStore implements WebhookDeliveryStore {
+  // Serializes writes so concurrent attempts never interleave partial lines
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  save(delivery: WebhookDelivery): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await appendFile(this.filePath, `${JSON.stringify(delivery)}\n`, 'utf8');
+    });
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  async findById(deliveryId: string): Promise<WebhookDelivery | null> {
+    return (await this.load()).get(deliveryId) ?? null;
+  }
+
+  async list(query: WebhookDeliveryQuery = {}): Promise<WebhookDelivery[]> {
+    const deliveries = Array.from((await this.load()).values())
+      .filter((delivery) => !query.status || delivery.status === query.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return query.limit === undefined ? deliveries : deliveries.slice(0, query.limit);
+  }
+
+  async listDue(now: string): Promise<WebhookDelivery[]> {
+    return Array.from((await this.load()).values())
+      .filter(
+        (delivery) =>
+          delivery.status === 'pending' && (delivery.nextAttemptAt ?? delivery.createdAt) <= now
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  removeForLeads(submissionIds: readonly string[]): Promise<number> {
+    const ids = new Set(submissionIds);
+    const write = this.writeQueue.then(async () => {
+      const deliveries = await this.read();
+      const matches = (delivery: WebhookDelivery) =>
+        ids.has(webhookSubmissionId(delivery.event) ?? '');
+      const removed = Array.from(deliveries.values()).filter(matches);
+      if (removed.length === 0) return 0;
+
+      // Swap in a complete copy so a crash never leaves a truncated file
+      const kept = Array.from(deliveries.values()).filter((delivery) => !matches(delivery));
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, kept.map((delivery) => `${JSON.stringify(delivery)}\n`).join(''));
+      await rename(tempPath, this.filePath);
+      return removed.length;
+    });
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  private async load(): Promise<Map<string, WebhookDelivery>> {
+    // Wait for queued writes so callers read their own changes
+    await this.writeQueue;
+    return this.read();
+  }
+
+  private async read(): Promise<Map<string, WebhookDelivery>> {
+    let contents: string;
+    try {
+      contents = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new Map();
+      }
+      throw error;
+    }
+
+    const deliveries = new Map<string, WebhookDelivery>();
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+      const delivery = JSON.parse(line) as WebhookDelivery;
+      deliveries.set(delivery.deliveryId, delivery);
+    }
+    return deliveries;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Webhooks Entry Point (server only)
+ *
+ * Pushes lead events to external systems such as a CRM. Endpoints come from
+ * the environment, so a new receiver needs no code change. Every delivery is
+ * logged next to the leads: in the leads SQLite database when LEAD_STORE is
+ * 'sqlite', otherwise in an NDJSON file beside the lead file.
+ *
+ * Environment (read through lib/config):
+ * - WEBHOOK_ENDPOINTS: JSON array of { id, url, secret, events? } (see './endpoints')
+ * - WEBHOOK_MAX_ATTEMPTS: attempts per delivery before it is dead (default 8)
+ * - WEBHOOK_RETRY_BASE_SECONDS: first retry delay, doubled per retry (default 30)
+ * - WEBHOOK_RETRY_MAX_SECONDS: longest retry delay (default 3600)
+ * - WEBHOOK_TIMEOUT_MS: time allowed for a receiver to answer (default 10000)
+ * - WEBHOOK_STORE_PATH: overrides the delivery log file or database path
+ */
+
+import { join } from 'node:path';
+import { getConfig } from '@/lib/config';
+import type { Lead, LeadStatus } from '@/lib/leads';
+import { getLogger, type Logger } from '@/lib/logging';
+import { WebhookDispatcher, type WebhookDispatcherOptions } from './dispatcher';
+import { FileWebhookDeliveryStore } from './file-store';
+import { leadErasedData, leadStatusChangedData, leadWebhookData } from './payloads';
+import { SqliteWebhookDeliveryStore } from './sqlite-store';
+import type { WebhookDeliveryStore } from './types';
+
+export {
+  WebhookDispatcher,
+  retryDelayMs,
+  webhookBody,
+  type WebhookDispatcherOptions,
+  type WebhookReplayResult,
+} from './dispatcher';
+export { parseWebhookEndpoints } from './endpoints';
+export { FileWebhookDeliveryStore } from './file-store';
+export {
+  leadErasedData,
+  leadStatusChangedData,
+  leadWebhookData,
+  webhookSubmissionId,
+} from './payloads';
+export {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  type WebhookSignatureResult,
+} from './signature';
+export { SqliteWebhookDeliveryStore } from './sqlite-store';
+export { WEBHOOK_EVENT_TYPES } from './types';
+export type {
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookDeliveryQuery,
+  WebhookDeliveryStatus,
+  WebhookDeliveryStore,
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookEventType,
+} from './types';
+
+const DATA_DIR = join(process.cwd(), '.data');
+
+/**
+ * Retry and timeout settings from the configuration
+ */
+export function getWebhookOptions(): WebhookDispatcherOptions {
+  return getConfig().webhooks.delivery;
+}
+
+let store: WebhookDeliveryStore | null = null;
+
+/**
+ * Get the process-wide delivery log, creating it on first use
+ */
+export function getWebhookDeliveryStore(): WebhookDeliveryStore {
+  if (store) return store;
+
+  const { leads, paths } = getConfig();
+  const path = paths.webhookDeliveries;
+  store =
+    leads.store.kind === 'sqlite'
+      ? new SqliteWebhookDeliveryStore(path ?? leads.store.path ?? join(DATA_DIR, 'leads.db'))
+      : new FileWebhookDeliveryStore(path ?? join(DATA_DIR, 'webhook-deliveries.ndjson'));
+
+  return store;
+}
+
+/**
+ * Override the delivery log, mainly for tests. Pass null to reset.
+ */
+export function setWebhookDeliveryStore(next: WebhookDeliveryStore | null): void {
+  store = next;
+}
+
+let dispatcher: WebhookDispatcher | null = null;
+
+/**
+ * Get the process-wide dispatcher. On first use it also resumes deliveries
+ * whose retries were due while the server was down.
+ */
+export function getWebhookDispatcher(): WebhookDispatcher {
+  if (dispatcher) return dispatcher;
+
+  dispatcher = new WebhookDispatcher(
+    getWebhookDeliveryStore(),
+    getConfig().webhooks.endpoints,
+    getWebhookOptions()
+  );
+  dispatcher
+    .retryDue()
+    .catch((error) => getLogger().error('Resuming webhook deliveries failed', { error }));
+  return dispatcher;
+}
+
+/**
+ * Override the dispatcher, mainly for tests. Pass null to reset.
+ */
+export function setWebhookDispatcher(next: WebhookDispatcher | null): void {
+  dispatcher?.close();
+  dispatcher = next;
+}
+
+/**
+ * Announce a newly stored lead.
+ *
+ * Failures are logged rather than thrown, like lead emails: the lead is
+ * already stored and the delivery log shows what did not go out.
+ */
+export async function publishLeadCreated(lead: Lead, log: Logger = getLogger()): Promise<void> {
+  try {
+    await getWebhookDispatcher().publish('lead.created', leadWebhookData(lead));
+  } catch (error) {
+    log.error('Publishing lead.created failed', { submissionId: lead.submissionId, error });
+  }
+}
+
+/**
+ * Announce that a lead moved to another pipeline stage
+ */
+export async function publishLeadStatusChanged(
+  lead: Lead,
+  previousStatus: LeadStatus,
+  log: Logger = getLogger()
+): Promise<void> {
+  try {
+    await getWebhookDispatcher().publish(
+      'lead.status_changed',
+      leadStatusChangedData(lead, previousStatus)
+    );
+  } catch (error) {
+    log.error('Publishing lead.status_changed failed', { submissionId: lead.submissionId, error });
+  }
+}
+
+/**
+ * Tell receivers a lead was erased so they can delete their copy. The event
+ * carries only the submission ID.
+ */
+export async function publishLeadErased(
+  submissionId: string,
+  log: Logger = getLogger()
+): Promise<void> {
+  try {
+    await getWebhookDispatcher().publish('lead.erased', leadErasedData(submissionId));
+  } catch (error) {
+    log.error('Publishing lead.erased failed', { submissionId, error });
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Webhook Payloads
+ *
+ * The lead as it is shared with external systems: what the visitor submitted
+ * and where it stands in the pipeline, without the IP hash, internal notes or
+ * storage locations. Once a lead is erased only its submission ID is sent.
+ */
+
+import type { Lead, LeadStatus } from '@/lib/leads/types';
+import type { WebhookEvent } from './types';
+
+export function leadWebhookData(lead: Lead): Record<string, unknown> {
+  return {
+    submissionId: lead.submissionId,
+    createdAt: lead.createdAt,
+    updatedAt: lead.updatedAt,
+    status: lead.status,
+    submission: lead.submission,
+    attachments: lead.attachments.map(
+      ({ attachmentId, fileName, kind, mimeType, size, sha256 }) => ({
+        attachmentId,
+        fileName,
+        kind,
+        mimeType,
+        size,
+        sha256,
+      })
+    ),
+  };
+}
+
+export function leadStatusChangedData(
+  lead: Lead,
+  previousStatus: LeadStatus
+): Record<string, unknown> {
+  return { previousStatus, lead: leadWebhookData(lead) };
+}
+
+export function leadErasedData(submissionId: string): Record<string, unknown> {
+  return { submissionId };
+}
+
+/**
+ * Lead an event is about, whichever payload shape it has
+ */
+export function webhookSubmissionId(event: WebhookEvent): string | undefined {
+  const { data } = event;
+  const lead = data.lead as { submissionId?: unknown } | undefined;
+  const submissionId = data.submissionId ?? lead?.submissionId;
+  return typeof submissionId === 'string' ? submissionId : undefined;
+}
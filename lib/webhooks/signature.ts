@@ -0,0 +1,62 @@
+/**
+ * Webhook Signatures
+ *
+ * Every request carries `X-SB-Signature: t=<unix seconds>,v1=<hex>`, where the
+ * hex value is HMAC-SHA256 over "<t>.<raw body>" with the endpoint's secret.
+ * Signing the timestamp lets receivers reject replayed requests.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-SB-Signature';
+
+/** How far a signature timestamp may be from the receiver's clock */
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+function digest(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function signWebhookPayload(body: string, secret: string, now = Date.now()): string {
+  const timestamp = Math.floor(now / 1000);
+  return `t=${timestamp},v1=${digest(secret, timestamp, body)}`;
+}
+
+export type WebhookSignatureResult =
+  | { valid: true; timestamp: number }
+  | { valid: false; reason: 'signature_missing' | 'signature_invalid' | 'signature_expired' };
+
+/**
+ * Check a signature header against the raw request body, as a receiver would
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string | null | undefined,
+  secret: string,
+  now = Date.now()
+): WebhookSignatureResult {
+  if (!header) return { valid: false, reason: 'signature_missing' };
+
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const [key, ...rest] = part.trim().split('=');
+      return [key, rest.join('=')] as const;
+    })
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) {
+    return { valid: false, reason: 'signature_invalid' };
+  }
+
+  const expected = Buffer.from(digest(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'signature_invalid' };
+  }
+
+  if (Math.abs(now / 1000 - timestamp) > WEBHOOK_SIGNATURE_TOLERANCE_SECONDS) {
+    return { valid: false, reason: 'signature_expired' };
+  }
+  return { valid: true, timestamp };
+}
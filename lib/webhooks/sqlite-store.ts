@@ -0,0 +1,114 @@
+/**
+ * SQLite Webhook Delivery Store
+ *
+ * Keeps the delivery log in a `webhook_deliveries` table, by default in the
+ * same database file as the leads.
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import type { WebhookDelivery, WebhookDeliveryQuery, WebhookDeliveryStore } from './types';
+
+interface DeliveryRow {
+  delivery: string;
+}
+
+function rowToDelivery(row: DeliveryRow): WebhookDelivery {
+  return JSON.parse(row.delivery);
+}
+
+export class SqliteWebhookDeliveryStore implements WebhookDeliveryStore {
+  private readonly db: Database.Database;
+
+  /**
+   * @param filename - Database file path, or ':memory:' for an ephemeral store
+   */
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      mkdirSync(dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        delivery_id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        next_attempt_at TEXT,
+        created_at TEXT NOT NULL,
+        delivery TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS webhook_deliveries_status
+        ON webhook_deliveries (status, next_attempt_at);
+      CREATE INDEX IF NOT EXISTS webhook_deliveries_created_at
+        ON webhook_deliveries (created_at);
+    `);
+  }
+
+  async save(delivery: WebhookDelivery): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO webhook_deliveries (delivery_id, status, next_attempt_at, created_at, delivery)
+         VALUES (@deliveryId, @status, @nextAttemptAt, @createdAt, @delivery)
+         ON CONFLICT (delivery_id) DO UPDATE SET
+           status = excluded.status,
+           next_attempt_at = excluded.next_attempt_at,
+           delivery = excluded.delivery`
+      )
+      .run({
+        deliveryId: delivery.deliveryId,
+        status: delivery.status,
+        nextAttemptAt: delivery.nextAttemptAt ?? null,
+        createdAt: delivery.createdAt,
+        delivery: JSON.stringify(delivery),
+      });
+  }
+
+  async findById(deliveryId: string): Promise<WebhookDelivery | null> {
+    const row = this.db
+      .prepare('SELECT delivery FROM webhook_deliveries WHERE delivery_id = ?')
+      .get(deliveryId) as DeliveryRow | undefined;
+    return row ? rowToDelivery(row) : null;
+  }
+
+  async list(query: WebhookDeliveryQuery = {}): Promise<WebhookDelivery[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT delivery FROM webhook_deliveries
+         WHERE (@status IS NULL OR status = @status)
+         ORDER BY created_at DESC
+         LIMIT @limit`
+      )
+      .all({ status: query.status ?? null, limit: query.limit ?? -1 }) as DeliveryRow[];
+    return rows.map(rowToDelivery);
+  }
+
+  async listDue(now: string): Promise<WebhookDelivery[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT delivery FROM webhook_deliveries
+         WHERE status = 'pending' AND COALESCE(next_attempt_at, created_at) <= ?
+         ORDER BY created_at`
+      )
+      .all(now) as DeliveryRow[];
+    return rows.map(rowToDelivery);
+  }
+
+  async removeForLeads(submissionIds: readonly string[]): Promise<number> {
+    return this.db
+      .prepare(
+        `DELETE FROM webhook_deliveries
+         WHERE COALESCE(
+           json_extract(delivery, '$.event.data.submissionId'),
+           json_extract(delivery, '$.event.data.lead.submissionId')
+         ) IN (SELECT value FROM json_each(?))`
+      )
+      .run(JSON.stringify(submissionIds)).changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Webhook Types
+ *
+ * Events pushed to external systems such as a CRM, the delivery records kept
+ * for every attempt to send them, and the store contract for those records.
+ */
+
+export const WEBHOOK_EVENT_TYPES = ['lead.created', 'lead.status_changed', 'lead.erased'] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export interface WebhookEvent {
+  /** Stable across retries and replays, so receivers can deduplicate on it */
+  eventId: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookEndpoint {
+  /** Short name used in logs and the admin view, e.g. "crm" */
+  id: string;
+  url: string;
+  /** Key the payload signature is computed with */
+  secret: string;
+  /** Event types sent to this endpoint */
+  events: readonly WebhookEventType[];
+}
+
+/**
+ * - pending: waiting for its first or next attempt
+ * - delivered: the endpoint answered with a 2xx status
+ * - dead: every attempt failed; waits in the dead-letter queue for a replay
+ * - replayed: a dead delivery that was sent again as a new delivery
+ */
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead' | 'replayed';
+
+export interface WebhookAttempt {
+  at: string;
+  durationMs: number;
+  /** HTTP status, absent when no response was received */
+  statusCode?: number;
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  deliveryId: string;
+  endpointId: string;
+  url: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  /** When the next attempt is due, set while pending */
+  nextAttemptAt?: string;
+  /** Dead delivery this one replays */
+  replayOf?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDeliveryQuery {
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
+/**
+ * Storage contract for the delivery log. `save` inserts or replaces a
+ * delivery; `list` returns newest first.
+ */
+export interface WebhookDeliveryStore {
+  save(delivery: WebhookDelivery): Promise<void>;
+  findById(deliveryId: string): Promise<WebhookDelivery | null>;
+  list(query?: WebhookDeliveryQuery): Promise<WebhookDelivery[]>;
+  /** Pending deliveries whose next attempt is due at `now` (ISO timestamp) */
+  listDue(now: string): Promise<WebhookDelivery[]>;
+  /**
+   * Permanently delete deliveries of events about the given leads, which
+   * carry their personal data, and return how many there were
+   */
+  removeForLeads(submissionIds: readonly string[]): Promise<number>;
+}
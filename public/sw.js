@@ -0,0 +1,223 @@
+/**
+ * Service Worker
+ *
+ * Sends contact submissions that were queued in IndexedDB while the visitor
+ * was offline (lib/offline). It runs on Background Sync, so the queue is sent
+ * even after the tab is closed, and when a page asks, for browsers without it.
+ *
+ * Each replay fetches a fresh form token, since the one from the original form
+ * fill may have expired, and carries the submission's Idempotency-Key, so the
+ * server creates at most one inquiry however often it is sent.
+ *
+ * Served as is, without a build step: the constants below repeat those in
+ * lib/offline/constants.ts and are checked against them by a test.
+ */
+
+const OFFLINE_DB_NAME = 'sb-infra-offline';
+const OFFLINE_DB_VERSION = 1;
+const CONTACT_QUEUE_STORE = 'contact-submissions';
+const CONTACT_SYNC_TAG = 'contact-queue';
+const CONTACT_QUEUE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const CONTACT_ENDPOINT = '/api/contact';
+const CONTACT_CHALLENGE_ENDPOINT = '/api/contact/challenge';
+const ATTACHMENTS_FIELD = 'attachments';
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// Added to the minimum fill time so clock skew never makes a replay look too fast
+const FILL_TIME_MARGIN_MS = 1000;
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('sync', (event) => {
+  // A rejected promise tells the browser to retry the sync later
+  if (event.tag === CONTACT_SYNC_TAG) event.waitUntil(flushQueue());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'contact-queue:flush') {
+    // The page asks again when it comes back online
+    event.waitUntil(flushQueue().catch(() => undefined));
+  }
+});
+
+// --- IndexedDB ---
+
+function requestResult(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openOfflineDb() {
+  const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(CONTACT_QUEUE_STORE)) {
+      request.result.createObjectStore(CONTACT_QUEUE_STORE, { keyPath: 'key' });
+    }
+  };
+  return requestResult(request);
+}
+
+async function withQueue(mode, operation) {
+  const db = await openOfflineDb();
+  try {
+    return await requestResult(
+      operation(db.transaction(CONTACT_QUEUE_STORE, mode).objectStore(CONTACT_QUEUE_STORE))
+    );
+  } finally {
+    db.close();
+  }
+}
+
+// --- Replay ---
+
+async function notifyPages(message) {
+  const pages = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  for (const page of pages) page.postMessage(message);
+}
+
+async function sha256(input) {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input)));
+}
+
+function countLeadingZeroBits(bytes) {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+// Same puzzle as lib/spam/proof-of-work.ts
+async function solveProofOfWork(challenge, difficulty) {
+  for (let attempt = 0; ; attempt++) {
+    if (countLeadingZeroBits(await sha256(`${challenge}:${attempt}`)) >= difficulty) {
+      return String(attempt);
+    }
+  }
+}
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+}
+
+/**
+ * Send one queued submission with a fresh form token, as JSON or as
+ * multipart when it has attachments, like submitContactForm does
+ */
+async function sendSubmission(submission) {
+  const challengeResponse = await fetch(CONTACT_CHALLENGE_ENDPOINT, { cache: 'no-store' });
+  if (!challengeResponse.ok) {
+    throw new Error(`Challenge request failed with status ${challengeResponse.status}`);
+  }
+  const issuedAt = Date.now();
+  const challenge = await challengeResponse.json();
+  const powSolution =
+    challenge.difficulty > 0
+      ? await solveProofOfWork(challenge.token, challenge.difficulty)
+      : undefined;
+  await sleep(issuedAt + challenge.minFillMs + FILL_TIME_MARGIN_MS - Date.now());
+
+  const fields = { ...submission.fields, formToken: challenge.token, powSolution };
+  const headers = { [IDEMPOTENCY_KEY_HEADER]: submission.key };
+
+  if (submission.attachments.length === 0) {
+    return fetch(CONTACT_ENDPOINT, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(fields),
+    });
+  }
+
+  const body = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    body.append(name, typeof value === 'string' ? value : JSON.stringify(value));
+  }
+  for (const file of submission.attachments) {
+    body.append(ATTACHMENTS_FIELD, file, file.name);
+  }
+  return fetch(CONTACT_ENDPOINT, { method: 'POST', headers, body });
+}
+
+// Busy, rate limited or down: the same request may succeed later
+function isRetryable(status) {
+  return status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Send every queued submission, oldest first. Delivered and permanently
+ * rejected ones leave the queue; the rest stay, and the returned promise
+ * rejects so Background Sync tries again.
+ */
+async function sendQueue() {
+  const queued = await withQueue('readonly', (store) => store.getAll());
+  queued.sort((a, b) => a.queuedAt - b.queuedAt);
+
+  let retryLater = false;
+  for (const submission of queued) {
+    if (Date.now() - submission.queuedAt > CONTACT_QUEUE_MAX_AGE_MS) {
+      await withQueue('readwrite', (store) => store.delete(submission.key));
+      await notifyPages({
+        type: 'contact-queue:failed',
+        key: submission.key,
+        message: 'Your queued message could not be sent within a week. Please send it again.',
+      });
+      continue;
+    }
+
+    let response;
+    try {
+      response = await sendSubmission(submission);
+    } catch {
+      // Still offline; keep this and everything after it for the next attempt
+      retryLater = true;
+      break;
+    }
+
+    if (isRetryable(response.status)) {
+      retryLater = true;
+      continue;
+    }
+
+    const body = await response.json().catch(() => ({}));
+    await withQueue('readwrite', (store) => store.delete(submission.key));
+    await notifyPages(
+      response.ok && body.success
+        ? { type: 'contact-queue:sent', key: submission.key, submissionId: body.submissionId }
+        : {
+            type: 'contact-queue:failed',
+            key: submission.key,
+            message: body.message || 'Your queued message was not accepted. Please send it again.',
+          }
+    );
+  }
+
+  if (retryLater) {
+    throw new Error('Queued submissions left to send');
+  }
+}
+
+// One pass at a time; a sync and a page request arriving together share it
+let flushing = null;
+
+function flushQueue() {
+  if (!flushing) {
+    flushing = sendQueue().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
@@ -0,0 +1,65 @@
+/**
+ * Retention job: erase leads nobody has updated within the retention period
+ * Run with: npx tsx scripts/purge-leads.ts [--dry-run]
+ *
+ * Schedule it daily, e.g. from cron, with the same environment as the site so
+ * it finds the same stores. Uploads, bookings and webhook deliveries of each
+ * purged lead go with it, connected systems receive a lead.erased event, and
+ * the run is recorded in the audit log.
+ *
+ * - --dry-run lists the leads that would be purged and changes nothing
+ *
+ * Environment (validated by lib/config):
+ * - LEAD_RETENTION_DAYS: days after its last update that a lead is purged (default 365)
+ * - LEAD_STORE, LEAD_STORE_PATH and the other store settings used by the site
+ */
+
+import { RETENTION_ACTOR, recordAudit } from '../lib/audit';
+import { getConfig } from '../lib/config';
+import { getSubjectDataStores, purgeStaleLeads } from '../lib/privacy';
+import { getWebhookDispatcher, publishLeadErased, setWebhookDispatcher } from '../lib/webhooks';
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const retentionDays = getConfig().privacy.retentionDays;
+
+  const result = await purgeStaleLeads(getSubjectDataStores(), { retentionDays, dryRun });
+  const submissionIds = result.leads.map((lead) => lead.submissionId);
+
+  console.log(
+    `${result.leads.length} lead(s) last updated before ${result.cutoff} (retention: ${retentionDays} days)`
+  );
+  for (const lead of result.leads) {
+    console.log(`  ${lead.submissionId}  updated ${lead.updatedAt}  ${lead.status}`);
+  }
+
+  if (!result.erased) {
+    console.log('Dry run: nothing was deleted.');
+    return;
+  }
+  if (submissionIds.length === 0) return;
+
+  await recordAudit({
+    actor: RETENTION_ACTOR,
+    action: 'retention.purged',
+    submissionIds,
+    details: { ...result.erased, retentionDays },
+  });
+  for (const submissionId of submissionIds) {
+    await publishLeadErased(submissionId);
+  }
+
+  // Send the events before exiting; retries left over wait for the site to resume them
+  await getWebhookDispatcher().idle();
+  setWebhookDispatcher(null);
+
+  const { leads, bookings, attachments, webhookDeliveries } = result.erased;
+  console.log(
+    `Erased ${leads} lead(s), ${bookings} booking(s), ${attachments} attachment(s) and ${webhookDeliveries} webhook delivery record(s).`
+  );
+}
+
+main().catch((error) => {
+  console.error('Purging leads failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+/**
+ * Local webhook receiver for trying out CRM webhooks without a CRM
+ * Run with: npx tsx scripts/webhook-receiver.ts [--fail <n>]
+ *
+ * Then point the site at it, e.g.
+ *   WEBHOOK_ENDPOINTS='[{"id":"local","url":"http://localhost:4000/webhooks","secret":"local-receiver-secret"}]'
+ *
+ * - Verifies the X-SB-Signature header against WEBHOOK_RECEIVER_SECRET
+ * - Prints every event and flags redeliveries of an event ID it has already seen
+ * - --fail <n> answers 503 to the first n requests, to watch retries and the
+ *   dead-letter queue in /admin/webhooks
+ *
+ * Environment:
+ * - WEBHOOK_RECEIVER_PORT: port to listen on (default 4000)
+ * - WEBHOOK_RECEIVER_SECRET: shared secret (default local-receiver-secret)
+ */
+
+import { createServer } from 'node:http';
+import { WEBHOOK_SIGNATURE_HEADER, verifyWebhookSignature } from '../lib/webhooks/signature';
+
+const port = Number(process.env.WEBHOOK_RECEIVER_PORT ?? 4000);
+const secret = process.env.WEBHOOK_RECEIVER_SECRET ?? 'local-receiver-secret';
+const failIndex = process.argv.indexOf('--fail');
+let failuresLeft = failIndex === -1 ? 0 : Number(process.argv[failIndex + 1] ?? 1);
+
+const seenEvents = new Set<string>();
+
+const server = createServer((request, response) => {
+  const chunks: Buffer[] = [];
+  request.on('data', (chunk: Buffer) => chunks.push(chunk));
+  request.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const signature = verifyWebhookSignature(
+      body,
+      request.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()] as string | undefined,
+      secret
+    );
+
+    if (!signature.valid) {
+      console.log(`✗ ${request.method} ${request.url} rejected: ${signature.reason}`);
+      response.writeHead(401).end();
+      return;
+    }
+
+    if (failuresLeft > 0) {
+      failuresLeft -= 1;
+      console.log(`… simulating an outage (${failuresLeft} more failures)`);
+      response.writeHead(503).end();
+      return;
+    }
+
+    const event = JSON.parse(body) as { id: string; type: string; data: unknown };
+    const duplicate = seenEvents.has(event.id);
+    seenEvents.add(event.id);
+
+    console.log(
+      `✓ ${event.type} ${event.id}${duplicate ? ' (duplicate, already processed)' : ''}`,
+      `\n  delivery ${request.headers['x-sb-delivery-id']}`
+    );
+    console.log(JSON.stringify(event.data, null, 2));
+    response.writeHead(204).end();
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/webhooks`);
+});
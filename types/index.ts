@@ -62,16 +62,5 @@ export interface Project {
   tags: string[];
 }
 
-export type ProjectType = 
-  | 'new-construction'
-  | 'renovation'
-  | 'consultation'
-  | 'other';
-
-export interface ContactFormData {
-  name: string;
-  email: string;
-  phone: string;
-  projectType: ProjectType;
-  message: string;
-}
+// Contact form types are derived from the shared zod contract
+export type { ContactFormData, ProjectType } from '@/lib/contact';